@@ -1,5 +1,8 @@
+import { lazy, Suspense } from 'react';
 import { Navigate, Route, Routes } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { RequireRole } from '@/components/auth/RequireRole';
 import { AppShell } from '@/components/layout/AppShell';
 import { UpdatePrompt } from '@/components/ui/UpdatePrompt';
 import { LoginPage } from '@/pages/LoginPage';
@@ -8,11 +11,29 @@ import { MaquilasPage } from '@/pages/MaquilasPage';
 import { TostionPage } from '@/pages/TostionPage';
 import { ProduccionPage } from '@/pages/ProduccionPage';
 import { FacturacionPage } from '@/pages/FacturacionPage';
+import { DespachoPage } from '@/pages/DespachoPage';
+import { TarifasPage } from '@/pages/TarifasPage';
+import { CarteraPage } from '@/pages/CarteraPage';
 import { ClientesPage } from '@/pages/ClientesPage';
+import { ClienteDetallePage } from '@/pages/ClienteDetallePage';
 import { UsuariosPage } from '@/pages/UsuariosPage';
 import { HorariosPage } from '@/pages/HorariosPage';
 import { MaquinasPage } from '@/pages/MaquinasPage';
+import { ConfiguracionPage } from '@/pages/ConfiguracionPage';
+import { ConciliacionPage } from '@/pages/ConciliacionPage';
 import { TriladoPage } from '@/pages/TriladoPage';
+import { PedidoDetallePage } from '@/pages/PedidoDetallePage';
+
+// Analítica trae recharts: se carga aparte para no engordar el bundle inicial
+const AnaliticaPage = lazy(() => import('@/pages/AnaliticaPage').then((m) => ({ default: m.AnaliticaPage })));
+
+function PageLoading() {
+  return (
+    <div className="page flex items-center justify-center min-h-[60vh]">
+      <Loader2 size={20} className="animate-spin text-[var(--color-tx-secondary)]" />
+    </div>
+  );
+}
 
 function NotFound() {
   return (
@@ -36,17 +57,28 @@ export default function App() {
       <Route element={<ProtectedRoute />}>
         <Route element={<AppShell />}>
           <Route index element={<Navigate to="/dashboard" replace />} />
-          <Route path="/dashboard"   element={<DashboardPage />} />
-          <Route path="/maquilas"    element={<MaquilasPage />} />
-          <Route path="/trillado"    element={<TriladoPage />} />
-          <Route path="/tostion"     element={<TostionPage />} />
-          <Route path="/produccion"  element={<ProduccionPage />} />
-          <Route path="/facturacion" element={<FacturacionPage />} />
-          <Route path="/clientes"    element={<ClientesPage />} />
-          <Route path="/usuarios"    element={<UsuariosPage />} />
-          <Route path="/horarios"    element={<HorariosPage />} />
-          <Route path="/maquinas"    element={<MaquinasPage />} />
-          <Route path="*"            element={<NotFound />} />
+          {/* Los roles por ruta se definen en lib/permissions (ROUTE_ROLES) */}
+          <Route element={<RequireRole />}>
+            <Route path="/dashboard"   element={<DashboardPage />} />
+            <Route path="/maquilas"    element={<MaquilasPage />} />
+            <Route path="/pedidos/:id" element={<PedidoDetallePage />} />
+            <Route path="/trillado"    element={<TriladoPage />} />
+            <Route path="/tostion"     element={<TostionPage />} />
+            <Route path="/produccion"  element={<ProduccionPage />} />
+            <Route path="/facturacion" element={<FacturacionPage />} />
+            <Route path="/despacho"    element={<DespachoPage />} />
+            <Route path="/tarifas"    element={<TarifasPage />} />
+            <Route path="/cartera"    element={<CarteraPage />} />
+            <Route path="/conciliacion" element={<ConciliacionPage />} />
+            <Route path="/analitica"   element={<Suspense fallback={<PageLoading />}><AnaliticaPage /></Suspense>} />
+            <Route path="/clientes"    element={<ClientesPage />} />
+            <Route path="/clientes/:id" element={<ClienteDetallePage />} />
+            <Route path="/usuarios"    element={<UsuariosPage />} />
+            <Route path="/horarios"    element={<HorariosPage />} />
+            <Route path="/maquinas"    element={<MaquinasPage />} />
+            <Route path="/configuracion" element={<ConfiguracionPage />} />
+          </Route>
+          <Route path="*" element={<NotFound />} />
         </Route>
       </Route>
 
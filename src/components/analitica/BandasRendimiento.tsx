@@ -0,0 +1,74 @@
+import {
+  Area, Bar, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Scatter, Tooltip, XAxis, YAxis,
+} from 'recharts';
+import type { GrupoRendimiento } from '@/lib/analitica';
+
+interface BandasRendimientoProps {
+  grupos: GrupoRendimiento[];
+  // Serie temporal (áreas continuas) o categorías (barras flotantes)
+  variante: 'tendencia' | 'categorias';
+  etiqueta?: (clave: string) => string;
+}
+
+const BRAND = '#00D084';
+const EJE = { fontSize: 11, fill: 'var(--color-tx-secondary)' };
+
+interface FilaTooltip {
+  payload?: GrupoRendimiento & { label: string };
+}
+
+function TooltipBandas({ active, payload }: { active?: boolean; payload?: FilaTooltip[] }) {
+  const g = payload?.[0]?.payload;
+  if (!active || !g) return null;
+  return (
+    <div className="card p-3 text-xs space-y-1 shadow-lg">
+      <p className="font-semibold text-[var(--color-tx-primary)]">{g.label}</p>
+      <p>Mediana: <strong>{g.p50.toFixed(1)}%</strong> · Ponderado: {g.rendimiento.toFixed(1)}%</p>
+      <p className="text-[var(--color-tx-secondary)]">P25–P75: {g.p25.toFixed(1)}–{g.p75.toFixed(1)}%</p>
+      <p className="text-[var(--color-tx-secondary)]">P10–P90: {g.p10.toFixed(1)}–{g.p90.toFixed(1)}%</p>
+      <p className="text-[var(--color-tx-secondary)]">{g.corridas} corridas · {g.kilosEntrada.toFixed(0)} kg</p>
+    </div>
+  );
+}
+
+export function BandasRendimiento({ grupos, variante, etiqueta = (c) => c }: BandasRendimientoProps) {
+  const data = grupos.map((g) => ({
+    ...g,
+    label: etiqueta(g.clave),
+    banda90: [g.p10, g.p90],
+    banda50: [g.p25, g.p75],
+  }));
+
+  // Eje Y ajustado a las bandas, con algo de aire
+  const min = Math.floor(Math.min(...grupos.map((g) => g.p10)) - 2);
+  const max = Math.ceil(Math.max(...grupos.map((g) => g.p90)) + 2);
+  const dominio: [number, number] = [Math.max(0, min), Math.min(100, max)];
+
+  return (
+    <ResponsiveContainer width="100%" height={280}>
+      {variante === 'tendencia' ? (
+        <ComposedChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="var(--color-border)" vertical={false} />
+          <XAxis dataKey="label" tick={EJE} tickLine={false} axisLine={false} />
+          <YAxis domain={dominio} tick={EJE} tickLine={false} axisLine={false} unit="%" />
+          <Tooltip content={<TooltipBandas />} />
+          <Area dataKey="banda90" stroke="none" fill={BRAND} fillOpacity={0.12} isAnimationActive={false} />
+          <Area dataKey="banda50" stroke="none" fill={BRAND} fillOpacity={0.25} isAnimationActive={false} />
+          <Line dataKey="p50" stroke={BRAND} strokeWidth={2} dot={{ r: 3 }} isAnimationActive={false} />
+        </ComposedChart>
+      ) : (
+        <ComposedChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="var(--color-border)" vertical={false} />
+          {/* Dos ejes X idénticos para superponer las barras de cada banda */}
+          <XAxis xAxisId="p90" dataKey="label" tick={EJE} tickLine={false} axisLine={false} interval={0} />
+          <XAxis xAxisId="p50" dataKey="label" hide />
+          <YAxis domain={dominio} tick={EJE} tickLine={false} axisLine={false} unit="%" />
+          <Tooltip content={<TooltipBandas />} cursor={{ fill: 'var(--color-muted)' }} />
+          <Bar xAxisId="p90" dataKey="banda90" fill={BRAND} fillOpacity={0.15} barSize={28} isAnimationActive={false} />
+          <Bar xAxisId="p50" dataKey="banda50" fill={BRAND} fillOpacity={0.35} barSize={28} isAnimationActive={false} />
+          <Scatter xAxisId="p50" dataKey="p50" fill={BRAND} shape="diamond" isAnimationActive={false} />
+        </ComposedChart>
+      )}
+    </ResponsiveContainer>
+  );
+}
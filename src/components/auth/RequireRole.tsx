@@ -0,0 +1,22 @@
+import { Outlet, useLocation } from 'react-router-dom';
+import { useAuthStore } from '@/store/auth.store';
+import { canAccessRoute } from '@/lib/permissions';
+import { ForbiddenPage } from '@/pages/ForbiddenPage';
+import type { UserRole } from '@/types';
+
+interface RequireRoleProps {
+  // Si se omite, los roles salen de ROUTE_ROLES según la ruta actual
+  roles?: readonly UserRole[];
+}
+
+export function RequireRole({ roles }: RequireRoleProps) {
+  const role = useAuthStore((s) => s.user?.role);
+  const { pathname } = useLocation();
+
+  const allowed = roles
+    ? !!role && roles.includes(role)
+    : canAccessRoute(role, pathname);
+
+  if (!allowed) return <ForbiddenPage />;
+  return <Outlet />;
+}
@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useForm, type Resolver } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Clock, Loader2, LogIn } from 'lucide-react';
+import { Modal } from '@/components/ui/Modal';
+import { Field, Input } from '@/components/ui/FormField';
+import { authService } from '@/services/auth.service';
+import { useAuthStore } from '@/store/auth.store';
+import { refreshSession } from '@/lib/http';
+import { tokenExpiresAt } from '@/lib/jwt';
+import { toast } from '@/lib/toast';
+
+// Avisar cuando falten menos de 2 minutos
+const WARN_BEFORE_MS = 2 * 60 * 1000;
+const TICK_MS = 10 * 1000;
+
+const schema = z.object({
+  password: z.string().min(1, 'Contraseña requerida'),
+});
+
+type FormValues = z.infer<typeof schema>;
+
+export function SessionExpiryModal() {
+  const navigate = useNavigate();
+  const { user, token, refreshToken, sessionExpired, setAuth, expireSession, logout } = useAuthStore();
+  const [now, setNow] = useState(() => Date.now());
+  const [dismissedFor, setDismissedFor] = useState<string | null>(null);
+  const [extending, setExtending] = useState(false);
+  const renewingRef = useRef(false);
+
+  const expiresAt = tokenExpiresAt(token);
+  const remaining = expiresAt ? expiresAt - now : null;
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(schema) as unknown as Resolver<FormValues>,
+    defaultValues: { password: '' },
+  });
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(id);
+  }, []);
+
+  // Al vencer el token: intentar refresh silencioso, si no hay, pedir re-login
+  useEffect(() => {
+    if (remaining === null || remaining > 0 || sessionExpired || renewingRef.current) return;
+    renewingRef.current = true;
+    refreshSession()
+      .catch(() => expireSession())
+      .finally(() => { renewingRef.current = false; });
+  }, [remaining, sessionExpired, expireSession]);
+
+  const showWarning =
+    !sessionExpired &&
+    remaining !== null && remaining > 0 && remaining <= WARN_BEFORE_MS &&
+    dismissedFor !== token;
+
+  const handleExtend = async () => {
+    if (!refreshToken) {
+      expireSession();
+      return;
+    }
+    setExtending(true);
+    try {
+      await refreshSession();
+      toast.success('Sesión extendida');
+    } catch {
+      expireSession();
+    } finally {
+      setExtending(false);
+    }
+  };
+
+  const onRelogin = form.handleSubmit(async ({ password }) => {
+    if (!user) return;
+    try {
+      const res = await authService.login({ email: user.email, password });
+      // setAuth limpia sessionExpired y libera las peticiones en espera (lib/http)
+      setAuth(res.user, res.token, res.refreshToken);
+      form.reset();
+      toast.success('Sesión restablecida');
+    } catch (e: unknown) {
+      const msg = (e as { response?: { data?: { message?: string } } })?.response?.data?.message;
+      toast.error(msg ?? 'No se pudo iniciar sesión');
+    }
+  });
+
+  const handleLogout = () => {
+    logout();
+    navigate('/login');
+  };
+
+  return (
+    <>
+      {/* Aviso previo al vencimiento */}
+      <Modal
+        open={showWarning}
+        onClose={() => setDismissedFor(token)}
+        title="Tu sesión está por vencer"
+        footer={
+          <>
+            <button className="btn btn-secondary" onClick={() => setDismissedFor(token)}>
+              Más tarde
+            </button>
+            <button className="btn btn-primary" onClick={handleExtend} disabled={extending}>
+              {extending && <Loader2 size={14} className="animate-spin" />}
+              {refreshToken ? 'Mantener sesión' : 'Volver a ingresar'}
+            </button>
+          </>
+        }
+      >
+        <div className="flex items-start gap-3">
+          <Clock size={18} className="text-amber-500 shrink-0 mt-0.5" />
+          <p className="text-sm text-[var(--color-tx-secondary)]">
+            La sesión vence en{' '}
+            <strong className="text-[var(--color-tx-primary)]">
+              {Math.max(1, Math.ceil((remaining ?? 0) / 60000))} min
+            </strong>
+            . Lo que tengas abierto se conserva.
+          </p>
+        </div>
+      </Modal>
+
+      {/* Re-login sin salir de la página */}
+      <Modal
+        open={sessionExpired}
+        onClose={() => {}}
+        title="Sesión vencida"
+        description="Ingresa tu contraseña para continuar donde estabas."
+        footer={
+          <>
+            <button className="btn btn-secondary" onClick={handleLogout}>
+              Cerrar sesión
+            </button>
+            <button
+              className="btn btn-primary"
+              onClick={onRelogin}
+              disabled={form.formState.isSubmitting}
+            >
+              {form.formState.isSubmitting
+                ? <Loader2 size={14} className="animate-spin" />
+                : <LogIn size={14} />}
+              Ingresar
+            </button>
+          </>
+        }
+      >
+        <form onSubmit={onRelogin} className="space-y-4" noValidate>
+          <Field label="Correo electrónico">
+            <Input type="email" value={user?.email ?? ''} readOnly disabled />
+          </Field>
+          <Field label="Contraseña" error={form.formState.errors.password?.message} required>
+            <Input
+              type="password"
+              autoComplete="current-password"
+              autoFocus
+              {...form.register('password')}
+              error={form.formState.errors.password?.message}
+            />
+          </Field>
+        </form>
+      </Modal>
+    </>
+  );
+}
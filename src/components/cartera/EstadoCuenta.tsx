@@ -0,0 +1,106 @@
+import { useQuery } from '@tanstack/react-query';
+import { facturasService } from '@/services/facturas.service';
+import { estadoDeCuenta, estadoPagoDe, plazoDe, saldoDe, type MovimientoCuenta } from '@/lib/cartera';
+import type { ExportColumn } from '@/lib/export';
+import { fmtMoney } from '@/lib/format';
+import { ExportMenu } from '@/components/ui/ExportMenu';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { TableSkeleton } from '@/components/ui/Skeleton';
+import { cn } from '@/lib/cn';
+import type { Cliente } from '@/types';
+
+const EXPORT_COLUMNS: ExportColumn<MovimientoCuenta>[] = [
+  { header: 'Fecha',       tipo: 'fecha',  value: (m) => m.fecha },
+  { header: 'Descripción', value: (m) => m.descripcion },
+  { header: 'Cargo',       tipo: 'moneda', value: (m) => m.cargo || null },
+  { header: 'Abono',       tipo: 'moneda', value: (m) => m.abono || null },
+  { header: 'Saldo',       tipo: 'moneda', value: (m) => m.saldo },
+];
+
+function fmt(d: string): string {
+  return new Date(`${d.slice(0, 10)}T00:00:00`).toLocaleDateString('es-CO', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+interface EstadoCuentaProps {
+  cliente: Pick<Cliente, 'id' | 'name' | 'plazoPagoDias'>;
+}
+
+// Estado de cuenta del cliente: facturas (cargos) y pagos (abonos) con saldo acumulado
+export function EstadoCuenta({ cliente }: EstadoCuentaProps) {
+  const query = useQuery({
+    queryKey: ['facturas', 'cliente', cliente.id],
+    queryFn: () => facturasService.getByCliente(cliente.id),
+    staleTime: 20_000,
+  });
+
+  const facturas = query.data ?? [];
+  const movimientos = estadoDeCuenta(facturas);
+  const facturado = facturas.reduce((s, f) => s + Number(f.valorTotal), 0);
+  const saldo = facturas.reduce((s, f) => s + saldoDe(f), 0);
+  const vencido = facturas.filter((f) => estadoPagoDe(f) === 'VENCIDA').reduce((s, f) => s + saldoDe(f), 0);
+
+  if (query.isLoading) return <TableSkeleton rows={4} />;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+        <div>
+          <p className="text-xs text-[var(--color-tx-secondary)] mb-0.5">Facturado</p>
+          <p className="tabular-nums font-semibold">{fmtMoney(facturado)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-[var(--color-tx-secondary)] mb-0.5">Pagado</p>
+          <p className="tabular-nums font-semibold">{fmtMoney(facturado - saldo)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-[var(--color-tx-secondary)] mb-0.5">Saldo</p>
+          <p className="tabular-nums font-semibold">{fmtMoney(saldo)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-[var(--color-tx-secondary)] mb-0.5">Vencido</p>
+          <p className={cn('tabular-nums font-semibold', vencido > 0 && 'text-red-500')}>{fmtMoney(vencido)}</p>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-[var(--color-tx-secondary)]">Plazo de pago: {plazoDe(cliente)} días</p>
+        {movimientos.length > 0 && (
+          <ExportMenu
+            fileName={`estado-cuenta-${cliente.name.toLowerCase().replace(/\s+/g, '-')}`}
+            columns={EXPORT_COLUMNS}
+            fetchRows={async () => movimientos}
+          />
+        )}
+      </div>
+
+      {movimientos.length === 0 ? (
+        <EmptyState title="Sin movimientos" description="El cliente aún no tiene facturas." />
+      ) : (
+        <div className="table-wrap max-h-[50vh] overflow-y-auto">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Fecha</th>
+                <th>Descripción</th>
+                <th className="text-right">Cargo</th>
+                <th className="text-right">Abono</th>
+                <th className="text-right">Saldo</th>
+              </tr>
+            </thead>
+            <tbody>
+              {movimientos.map((m) => (
+                <tr key={`${m.tipo}-${m.id}`}>
+                  <td className="text-xs whitespace-nowrap">{fmt(m.fecha)}</td>
+                  <td className="text-sm">{m.descripcion}</td>
+                  <td className="text-right tabular-nums">{m.cargo ? fmtMoney(m.cargo) : ''}</td>
+                  <td className="text-right tabular-nums text-[#00D084]">{m.abono ? fmtMoney(m.abono) : ''}</td>
+                  <td className="text-right tabular-nums font-medium">{fmtMoney(m.saldo)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
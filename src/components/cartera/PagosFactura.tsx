@@ -0,0 +1,144 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm, type Resolver } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2, Wallet } from 'lucide-react';
+import { facturasService, type CreatePagoPayload } from '@/services/facturas.service';
+import { METODO_PAGO_LABEL, diasVencida, estadoPagoDe, pagadoDe, saldoDe, vencimientoDe } from '@/lib/cartera';
+import { fmtMoney } from '@/lib/format';
+import { hoyISO } from '@/lib/dates';
+import { toast } from '@/lib/toast';
+import { StatusBadge } from '@/components/ui/StatusBadge';
+import { Field, Input, Select } from '@/components/ui/FormField';
+import type { Factura, MetodoPago, Pago } from '@/types';
+
+const METODO_OPTIONS = (Object.keys(METODO_PAGO_LABEL) as MetodoPago[]).map((m) => ({ value: m, label: METODO_PAGO_LABEL[m] }));
+
+const schema = z.object({
+  fecha:      z.string().min(1, 'Fecha requerida'),
+  valor:      z.coerce.number().positive('Mayor a 0'),
+  metodo:     z.enum(['TRANSFERENCIA', 'CONSIGNACION', 'EFECTIVO', 'CHEQUE'] as const),
+  referencia: z.string().optional(),
+}).refine((v) => v.metodo === 'EFECTIVO' || !!v.referencia?.trim(), {
+  path: ['referencia'],
+  message: 'Referencia o número de comprobante requerido',
+});
+
+type FormValues = z.infer<typeof schema>;
+
+function fmt(d: string): string {
+  return new Date(`${d.slice(0, 10)}T00:00:00`).toLocaleDateString('es-CO', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+interface PagosFacturaProps {
+  factura: Factura;
+  canRegistrar: boolean;
+  onRegistrado: (pago: Pago) => void;
+}
+
+// Saldo, vencimiento y abonos de una factura, con el registro de pagos parciales
+export function PagosFactura({ factura, canRegistrar, onRegistrado }: PagosFacturaProps) {
+  const qc = useQueryClient();
+  const saldo = saldoDe(factura);
+  const estado = estadoPagoDe(factura);
+  const pagos = [...(factura.pagos ?? [])].sort((a, b) => a.fecha.localeCompare(b.fecha));
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(schema) as unknown as Resolver<FormValues>,
+    defaultValues: { fecha: hoyISO(), metodo: 'TRANSFERENCIA', referencia: '' },
+  });
+
+  const pagoMutation = useMutation({
+    mutationFn: (payload: CreatePagoPayload) => facturasService.registrarPago(factura.id, payload),
+    onSuccess: (pago) => {
+      toast.success('Pago registrado');
+      qc.invalidateQueries({ queryKey: ['facturas'] });
+      form.reset({ fecha: hoyISO(), metodo: 'TRANSFERENCIA', referencia: '' });
+      onRegistrado(pago);
+    },
+    onError: (e: { response?: { data?: { message?: string } } }) =>
+      toast.error(e.response?.data?.message ?? 'No se pudo registrar el pago'),
+  });
+
+  const onSubmit = form.handleSubmit((values) => {
+    if (values.valor > saldo) {
+      form.setError('valor', { message: `Supera el saldo de ${fmtMoney(saldo)}` });
+      return;
+    }
+    pagoMutation.mutate({
+      fecha: values.fecha,
+      valor: values.valor,
+      metodo: values.metodo,
+      referencia: values.referencia?.trim() || null,
+    });
+  });
+
+  const errors = form.formState.errors;
+
+  return (
+    <div className="rounded-lg border border-[var(--color-border)] p-4 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm font-semibold flex items-center gap-1.5"><Wallet size={14} /> Cartera</p>
+        <StatusBadge pago={estado} />
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 text-sm">
+        <div>
+          <p className="text-xs text-[var(--color-tx-secondary)] mb-0.5">Vence</p>
+          <p>{fmt(vencimientoDe(factura))}</p>
+          {estado === 'VENCIDA' && <p className="text-xs text-red-500">{diasVencida(factura)} días de mora</p>}
+        </div>
+        <div>
+          <p className="text-xs text-[var(--color-tx-secondary)] mb-0.5">Pagado</p>
+          <p className="tabular-nums">{fmtMoney(pagadoDe(factura))}</p>
+        </div>
+        <div>
+          <p className="text-xs text-[var(--color-tx-secondary)] mb-0.5">Saldo</p>
+          <p className="tabular-nums font-semibold">{fmtMoney(saldo)}</p>
+        </div>
+      </div>
+
+      {pagos.length > 0 && (
+        <ul className="divide-y divide-[var(--color-border)] text-sm">
+          {pagos.map((p) => (
+            <li key={p.id} className="flex items-center justify-between gap-3 py-1.5">
+              <span>
+                {fmt(p.fecha)} · {METODO_PAGO_LABEL[p.metodo] ?? p.metodo}
+                {p.referencia && <span className="text-[var(--color-tx-secondary)] font-mono text-xs"> · {p.referencia}</span>}
+              </span>
+              <span className="tabular-nums font-medium">{fmtMoney(Number(p.valor))}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canRegistrar && saldo > 0 && (
+        <div className="border-t border-[var(--color-border)] pt-3 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <Field label="Fecha del pago" error={errors.fecha?.message} required>
+              <Input type="date" {...form.register('fecha')} error={errors.fecha?.message} />
+            </Field>
+            <Field label="Valor (COP)" error={errors.valor?.message} required>
+              <Input type="number" step="1000" min="0" placeholder={String(saldo)} {...form.register('valor')} error={errors.valor?.message} />
+            </Field>
+            <Field label="Método">
+              <Select {...form.register('metodo')} options={METODO_OPTIONS} />
+            </Field>
+            <Field label="Referencia" error={errors.referencia?.message}>
+              <Input placeholder="N° de transacción o cheque" {...form.register('referencia')} error={errors.referencia?.message} />
+            </Field>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button type="button" className="btn btn-ghost btn-sm" onClick={() => form.setValue('valor', saldo, { shouldValidate: true })}>
+              Pagar saldo completo
+            </button>
+            <button type="button" className="btn btn-primary btn-sm gap-1.5" onClick={onSubmit} disabled={pagoMutation.isPending}>
+              {pagoMutation.isPending && <Loader2 size={13} className="animate-spin" />}
+              Registrar pago
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
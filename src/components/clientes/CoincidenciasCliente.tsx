@@ -0,0 +1,41 @@
+import { AlertTriangle } from 'lucide-react';
+import { MOTIVO_DUPLICADO_LABEL, type CoincidenciaCliente } from '@/lib/clientes';
+import type { Cliente } from '@/types';
+
+interface CoincidenciasClienteProps {
+  coincidencias: CoincidenciaCliente[];
+  // Sin `onUsar` solo se avisa; con él se ofrece tomar el cliente existente en lugar de crear otro
+  onUsar?: (cliente: Cliente) => void;
+}
+
+export function CoincidenciasCliente({ coincidencias, onUsar }: CoincidenciasClienteProps) {
+  if (coincidencias.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-amber-300 bg-amber-50 dark:border-amber-700/50 dark:bg-amber-900/20 p-3 space-y-2">
+      <p className="text-xs font-semibold text-amber-700 dark:text-amber-400 flex items-center gap-1.5">
+        <AlertTriangle size={13} /> Posible cliente duplicado
+      </p>
+      <ul className="space-y-1.5">
+        {coincidencias.slice(0, 5).map(({ cliente, motivos }) => (
+          <li key={cliente.id} className="flex items-center justify-between gap-3 text-xs">
+            <div className="min-w-0">
+              <p className="font-medium text-[var(--color-tx-primary)] truncate">
+                {cliente.name}
+                {cliente.activo === false && <span className="text-[var(--color-tx-secondary)] font-normal"> · inactivo</span>}
+              </p>
+              <p className="text-[var(--color-tx-secondary)] truncate">
+                {cliente.documentId} · {cliente.email} · {motivos.map((m) => MOTIVO_DUPLICADO_LABEL[m]).join(', ')}
+              </p>
+            </div>
+            {onUsar && cliente.activo !== false && (
+              <button type="button" className="btn btn-ghost btn-sm shrink-0" onClick={() => onUsar(cliente)}>
+                Usar este
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { GitMerge, Loader2 } from 'lucide-react';
+import { clientesService } from '@/services/pedidos.service';
+import { MOTIVO_DUPLICADO_LABEL, coincidenciasDe, type GrupoDuplicados } from '@/lib/clientes';
+import { toast } from '@/lib/toast';
+import { useConfirm } from '@/components/ui/ConfirmDialog';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { cn } from '@/lib/cn';
+
+const claveGrupo = (g: GrupoDuplicados) => g.clientes.map((c) => c.id).join('|');
+
+interface FusionClientesProps {
+  grupos: GrupoDuplicados[];
+}
+
+// Grupos de posibles duplicados; se elige el cliente que se conserva y cuáles se fusionan en él.
+// Los grupos son transitivos (A~B, B~C), así que de entrada solo se marcan los que coinciden con el que se conserva
+export function FusionClientes({ grupos }: FusionClientesProps) {
+  const qc = useQueryClient();
+  const confirm = useConfirm();
+  const [principales, setPrincipales] = useState<Record<string, string>>({});
+  // Selección explícita por grupo; sin entrada se usan las coincidencias directas
+  const [marcados, setMarcados] = useState<Record<string, string[] | undefined>>({});
+
+  const fusionar = useMutation({
+    mutationFn: ({ principalId, duplicadoIds }: { principalId: string; duplicadoIds: string[] }) =>
+      clientesService.fusionar(principalId, duplicadoIds),
+    onSuccess: ({ cliente, pedidosReasignados }) => {
+      toast.success(`Clientes fusionados en ${cliente.name} · ${pedidosReasignados} pedido(s) reasignados`);
+      qc.invalidateQueries({ queryKey: ['clientes'] });
+      qc.invalidateQueries({ queryKey: ['pedidos'] });
+      qc.invalidateQueries({ queryKey: ['facturas'] });
+    },
+    onError: (e: { response?: { data?: { message?: string } } }) =>
+      toast.error(e.response?.data?.message ?? 'No se pudieron fusionar los clientes'),
+  });
+
+  const elegirPrincipal = (clave: string, id: string) => {
+    setPrincipales((p) => ({ ...p, [clave]: id }));
+    setMarcados((m) => ({ ...m, [clave]: undefined }));
+  };
+
+  const alternar = (clave: string, actuales: string[], id: string) =>
+    setMarcados((m) => ({ ...m, [clave]: actuales.includes(id) ? actuales.filter((x) => x !== id) : [...actuales, id] }));
+
+  const handleFusionar = async (g: GrupoDuplicados, principalId: string, duplicadoIds: string[]) => {
+    const principal = g.clientes.find((c) => c.id === principalId)!;
+    const duplicados = g.clientes.filter((c) => duplicadoIds.includes(c.id));
+    const ok = await confirm({
+      title: `Fusionar en ${principal.name}`,
+      description: `Los pedidos y facturas de ${duplicados.map((c) => c.name).join(', ')} pasarán a ${principal.name} y esos registros se eliminarán. Esta acción no se puede deshacer.`,
+      confirmText: 'Fusionar',
+      danger: true,
+    });
+    if (!ok) return;
+    fusionar.mutate({ principalId, duplicadoIds: duplicados.map((c) => c.id) });
+  };
+
+  if (grupos.length === 0) {
+    return <EmptyState title="Sin duplicados" description="No hay clientes que compartan documento, email o nombre." />;
+  }
+
+  return (
+    <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+      {grupos.map((g) => {
+        const clave = claveGrupo(g);
+        const principalId = principales[clave] ?? g.clientes[0].id;
+        const principal = g.clientes.find((c) => c.id === principalId)!;
+        const directos = new Map(coincidenciasDe(principal, g.clientes, principalId).map((m) => [m.cliente.id, m.motivos]));
+        const incluidos = marcados[clave] ?? [...directos.keys()];
+        const pendiente = fusionar.isPending && fusionar.variables?.principalId === principalId;
+        return (
+          <div key={clave} className="rounded-lg border border-[var(--color-border)] p-3 space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-[var(--color-tx-secondary)]">
+                {g.motivos.map((m) => MOTIVO_DUPLICADO_LABEL[m]).join(' · ')}
+              </p>
+              <button
+                className="btn btn-primary btn-sm gap-1.5"
+                onClick={() => handleFusionar(g, principalId, incluidos)}
+                disabled={fusionar.isPending || incluidos.length === 0}
+              >
+                {pendiente ? <Loader2 size={13} className="animate-spin" /> : <GitMerge size={13} />}
+                Fusionar{incluidos.length > 0 && ` (${incluidos.length})`}
+              </button>
+            </div>
+            <p className="text-[10px] text-[var(--color-tx-secondary)]">
+              Marca los clientes que se fusionan; el elegido con el círculo se conserva.
+            </p>
+            <ul className="space-y-1">
+              {g.clientes.map((c) => {
+                const esPrincipal = c.id === principalId;
+                const motivos = directos.get(c.id);
+                return (
+                  <li
+                    key={c.id}
+                    className={cn(
+                      'flex items-center gap-3 rounded-md px-2 py-1.5 text-sm hover:bg-[var(--color-muted)]',
+                      esPrincipal && 'bg-[var(--color-brand-soft)]',
+                    )}
+                  >
+                    <input
+                      type="checkbox"
+                      aria-label={`Fusionar ${c.name}`}
+                      checked={esPrincipal || incluidos.includes(c.id)}
+                      disabled={esPrincipal}
+                      onChange={() => alternar(clave, incluidos, c.id)}
+                    />
+                    <label className="flex flex-1 min-w-0 items-center gap-3 cursor-pointer">
+                      <input
+                        type="radio"
+                        name={`principal-${clave}`}
+                        checked={esPrincipal}
+                        onChange={() => elegirPrincipal(clave, c.id)}
+                      />
+                      <span className="font-medium">{c.name}</span>
+                      <span className="text-xs text-[var(--color-tx-secondary)] font-mono">{c.documentId}</span>
+                      <span className="text-xs text-[var(--color-tx-secondary)] truncate">{c.email}</span>
+                      {c.activo === false && <span className="badge bg-[var(--color-muted)] text-[var(--color-tx-secondary)]">Inactivo</span>}
+                    </label>
+                    {esPrincipal ? (
+                      <span className="text-xs font-semibold text-[#00D084] shrink-0">Se conserva</span>
+                    ) : (
+                      <span className={cn('text-xs shrink-0', motivos ? 'text-[var(--color-tx-secondary)]' : 'text-amber-600')}>
+                        {motivos ? motivos.map((m) => MOTIVO_DUPLICADO_LABEL[m]).join(' · ') : 'Sin coincidencia directa'}
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm, type Resolver } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Camera, CheckCircle2, Loader2, X } from 'lucide-react';
+import { despachoService, type EntregaPayload } from '@/services/despacho.service';
+import { facturasService } from '@/services/facturas.service';
+import { hoyISO } from '@/lib/dates';
+import { toast } from '@/lib/toast';
+import { Field, Input } from '@/components/ui/FormField';
+import { FirmaCanvas } from '@/components/despacho/FirmaCanvas';
+import type { ParadaRuta, RutaDespacho } from '@/types';
+
+const schema = z.object({
+  recibidoPor:       z.string().trim().min(3, 'Nombre de quien recibe'),
+  documentoReceptor: z.string().optional(),
+});
+
+type FormValues = z.infer<typeof schema>;
+
+interface EntregaParadaProps {
+  ruta: RutaDespacho;
+  parada: ParadaRuta;
+  onEntregada: () => void;
+}
+
+// Prueba de entrega: nombre, firma y foto; al guardarla la factura pasa a ENTREGADO
+export function EntregaParada({ ruta, parada, onEntregada }: EntregaParadaProps) {
+  const qc = useQueryClient();
+  const [firma, setFirma] = useState<Blob | null>(null);
+  const [firmaError, setFirmaError] = useState<string>();
+  const [foto, setFoto] = useState<File | null>(null);
+
+  const { register, handleSubmit, formState: { errors } } = useForm<FormValues>({
+    resolver: zodResolver(schema) as unknown as Resolver<FormValues>,
+  });
+
+  const fotoUrl = useMemo(() => (foto ? URL.createObjectURL(foto) : null), [foto]);
+  useEffect(() => () => { if (fotoUrl) URL.revokeObjectURL(fotoUrl); }, [fotoUrl]);
+
+  const entregar = useMutation({
+    // La prueba no se vuelve a enviar: si falla el cambio de estado, la parada queda
+    // entregada y el estado de la factura se reintenta desde la hoja de ruta
+    mutationFn: async (payload: EntregaPayload) => {
+      await despachoService.registrarEntrega(ruta.id, parada.id, payload);
+      try {
+        await facturasService.updateEstado(parada.factura.id, 'ENTREGADO', hoyISO());
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    onSuccess: (estadoActualizado) => {
+      if (estadoActualizado) {
+        toast.success(`Entrega del pedido ${parada.factura.pedido?.code ?? ''} confirmada`);
+      } else {
+        toast.error('La prueba de entrega quedó guardada, pero la factura no pasó a Entregado. Reintenta desde la hoja de ruta.', 8000);
+      }
+      qc.invalidateQueries({ queryKey: ['despachos'] });
+      qc.invalidateQueries({ queryKey: ['facturas'] });
+      qc.invalidateQueries({ queryKey: ['pedidos'] });
+      onEntregada();
+    },
+    onError: (e: { response?: { data?: { message?: string } } }) =>
+      toast.error(e.response?.data?.message ?? 'No se pudo registrar la entrega'),
+  });
+
+  const onSubmit = handleSubmit((v) => {
+    if (!firma) {
+      setFirmaError('La firma es obligatoria');
+      return;
+    }
+    entregar.mutate({
+      recibidoPor: v.recibidoPor,
+      documentoReceptor: v.documentoReceptor?.trim() || null,
+      firma,
+      foto,
+    });
+  });
+
+  const cliente = parada.factura.pedido?.client;
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-lg bg-[var(--color-muted)] p-3 text-sm">
+        <p className="font-semibold">
+          <span className="font-mono">{parada.factura.pedido?.code}</span> · {cliente?.name}
+        </p>
+        <p className="text-xs text-[var(--color-tx-secondary)]">
+          {[cliente?.address, cliente?.ciudad?.nombre].filter(Boolean).join(' · ') || 'Sin dirección registrada'}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <Field label="Recibido por" error={errors.recibidoPor?.message} required>
+          <Input placeholder="Nombre completo" {...register('recibidoPor')} error={errors.recibidoPor?.message} />
+        </Field>
+        <Field label="Documento">
+          <Input placeholder="Cédula de quien recibe" {...register('documentoReceptor')} />
+        </Field>
+      </div>
+
+      <Field error={firmaError}>
+        <FirmaCanvas
+          error={firmaError}
+          onChange={(f) => { setFirma(f); if (f) setFirmaError(undefined); }}
+        />
+      </Field>
+
+      <Field label="Foto de la entrega" hint="Opcional: mercancía descargada o remisión firmada">
+        {fotoUrl ? (
+          <div className="relative w-fit">
+            <img src={fotoUrl} alt="Foto de la entrega" className="h-32 rounded-lg border border-[var(--color-border)] object-cover" />
+            <button
+              type="button"
+              className="absolute top-1 right-1 btn btn-icon btn-secondary btn-xs"
+              onClick={() => setFoto(null)}
+              aria-label="Quitar foto"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        ) : (
+          <label className="btn btn-secondary btn-sm gap-1.5 w-fit cursor-pointer">
+            <Camera size={13} /> Tomar o adjuntar foto
+            <input
+              type="file"
+              accept="image/*"
+              capture="environment"
+              className="sr-only"
+              onChange={(e) => setFoto(e.target.files?.[0] ?? null)}
+            />
+          </label>
+        )}
+      </Field>
+
+      <div className="flex justify-end">
+        <button className="btn btn-primary gap-1.5" onClick={onSubmit} disabled={entregar.isPending}>
+          {entregar.isPending ? <Loader2 size={14} className="animate-spin" /> : <CheckCircle2 size={14} />}
+          Confirmar entrega
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useRef, type PointerEvent } from 'react';
+import { Eraser } from 'lucide-react';
+import { cn } from '@/lib/cn';
+
+interface FirmaCanvasProps {
+  // null mientras el recuadro está vacío
+  onChange: (firma: Blob | null) => void;
+  error?: string;
+}
+
+// Recuadro para firmar con el dedo, lápiz o mouse; entrega la firma como PNG al levantar el trazo
+export function FirmaCanvas({ onChange, error }: FirmaCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dibujando = useRef(false);
+  // Un toque sin arrastrar no pinta nada: no se entrega un PNG en blanco como firma
+  const trazoDibujado = useRef(false);
+
+  // El lienzo se escala a la densidad de la pantalla para que el trazo no salga pixelado
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    // offsetWidth y no getBoundingClientRect: la animación del modal escala el contenido al abrir
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = canvas.offsetHeight * ratio;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.scale(ratio, ratio);
+    ctx.lineWidth = 2;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#111827';
+  }, []);
+
+  const punto = (e: PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handleDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dibujando.current = true;
+    trazoDibujado.current = false;
+    const { x, y } = punto(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const handleMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!dibujando.current) return;
+    const ctx = e.currentTarget.getContext('2d');
+    const { x, y } = punto(e);
+    ctx?.lineTo(x, y);
+    ctx?.stroke();
+    trazoDibujado.current = true;
+  };
+
+  const handleUp = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!dibujando.current) return;
+    dibujando.current = false;
+    if (!trazoDibujado.current) return;
+    e.currentTarget.toBlob((blob) => onChange(blob), 'image/png');
+  };
+
+  const limpiar = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <canvas
+        ref={canvasRef}
+        className={cn(
+          'w-full h-40 rounded-lg border border-dashed bg-white touch-none cursor-crosshair',
+          error ? 'border-red-400' : 'border-[var(--color-border)]',
+        )}
+        aria-label="Recuadro de firma"
+        onPointerDown={handleDown}
+        onPointerMove={handleMove}
+        onPointerUp={handleUp}
+        onPointerLeave={handleUp}
+      />
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-[var(--color-tx-secondary)]">Firma de quien recibe</p>
+        <button type="button" className="btn btn-ghost btn-sm gap-1" onClick={limpiar}>
+          <Eraser size={12} /> Borrar
+        </button>
+      </div>
+    </div>
+  );
+}
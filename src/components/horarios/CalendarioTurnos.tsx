@@ -0,0 +1,254 @@
+import { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, AlertTriangle, UserX } from 'lucide-react';
+import type { Horario, HorarioAsignacion } from '@/services/horarios.service';
+import { addDays, hoyISO, parseISODate, toISODate } from '@/lib/dates';
+import {
+  aHora,
+  bloquesDelDia,
+  diasDeVista,
+  huecosCobertura,
+  inconsistenciasHorario,
+  type BloqueTurno,
+  type Hueco,
+  type VistaCalendario,
+} from '@/lib/turnos';
+import { cn } from '@/lib/cn';
+
+interface CalendarioTurnosProps {
+  horarios: Horario[];
+  asignaciones: HorarioAsignacion[];
+  operarios: { id: string; name: string }[];
+}
+
+const COLORES = [
+  'bg-blue-500/15 border-blue-500/50 text-blue-700 dark:text-blue-300',
+  'bg-emerald-500/15 border-emerald-500/50 text-emerald-700 dark:text-emerald-300',
+  'bg-violet-500/15 border-violet-500/50 text-violet-700 dark:text-violet-300',
+  'bg-amber-500/15 border-amber-500/50 text-amber-700 dark:text-amber-300',
+  'bg-pink-500/15 border-pink-500/50 text-pink-700 dark:text-pink-300',
+  'bg-cyan-500/15 border-cyan-500/50 text-cyan-700 dark:text-cyan-300',
+];
+
+const HORA_PX = 28;
+const DIAS_CORTOS = ['Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb', 'Dom'];
+
+const minutosSinCubrir = (huecos: Hueco[]) => huecos.reduce((s, h) => s + h.fin - h.inicio, 0);
+
+function fmtRango(vista: VistaCalendario, dias: string[]): string {
+  if (vista === 'mes') {
+    const mitad = parseISODate(dias[Math.floor(dias.length / 2)]);
+    return mitad.toLocaleDateString('es-CO', { month: 'long', year: 'numeric' });
+  }
+  const f = (d: string) => parseISODate(d).toLocaleDateString('es-CO', { day: '2-digit', month: 'short' });
+  return `${f(dias[0])} – ${f(dias[dias.length - 1])}`;
+}
+
+export function CalendarioTurnos({ horarios, asignaciones, operarios }: CalendarioTurnosProps) {
+  const [vista, setVista] = useState<VistaCalendario>('semana');
+  const [referencia, setReferencia] = useState(hoyISO);
+  const hoy = hoyISO();
+
+  const colorDe = useMemo(() => {
+    const idx = new Map(operarios.map((o, i) => [o.id, COLORES[i % COLORES.length]]));
+    return (operarioId: string) => idx.get(operarioId) ?? COLORES[0];
+  }, [operarios]);
+
+  const nombreDe = (id: string) => operarios.find((o) => o.id === id)?.name ?? 'Operario';
+
+  const dias = useMemo(() => diasDeVista(vista, referencia), [vista, referencia]);
+
+  const porDia = useMemo(() => dias.map((fecha) => {
+    const bloques = bloquesDelDia(fecha, asignaciones, horarios);
+    return { fecha, bloques, huecos: huecosCobertura(fecha, bloques) };
+  }), [dias, asignaciones, horarios]);
+
+  // Operarios sin ningún bloque en el rango visible
+  const sinAsignacion = useMemo(() => {
+    const conTurno = new Set(porDia.flatMap((d) => d.bloques.map((b) => b.operarioId)));
+    return operarios.filter((o) => !conTurno.has(o.id));
+  }, [porDia, operarios]);
+
+  const plantillasInconsistentes = useMemo(
+    () => horarios.map((h) => ({ horario: h, avisos: inconsistenciasHorario(h) })).filter((x) => x.avisos.length),
+    [horarios],
+  );
+
+  const mover = (dir: 1 | -1) => {
+    if (vista === 'semana') {
+      setReferencia((r) => addDays(r, dir * 7));
+    } else {
+      const d = parseISODate(referencia);
+      d.setMonth(d.getMonth() + dir, 1);
+      setReferencia(toISODate(d));
+    }
+  };
+
+  // Rango de horas de la vista semanal: jornada de planta ampliada a los turnos existentes
+  const minHora = Math.floor(Math.min(360, ...porDia.flatMap((d) => d.bloques.map((b) => b.inicio))) / 60) * 60;
+  const maxHora = Math.ceil(Math.max(1080, ...porDia.flatMap((d) => d.bloques.map((b) => b.fin))) / 60) * 60;
+  const alto = ((maxHora - minHora) / 60) * HORA_PX;
+  const top = (min: number) => ((min - minHora) / 60) * HORA_PX;
+
+  return (
+    <div className="card space-y-4">
+      {/* Encabezado */}
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div>
+          <p className="section-title">Calendario de turnos</p>
+          <p className="text-xs text-[var(--color-tx-secondary)] capitalize mt-0.5">{fmtRango(vista, dias)}</p>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <button className="btn btn-ghost btn-sm" onClick={() => mover(-1)} aria-label="Anterior">
+            <ChevronLeft size={14} />
+          </button>
+          <button className="btn btn-secondary btn-sm" onClick={() => setReferencia(hoyISO())}>Hoy</button>
+          <button className="btn btn-ghost btn-sm" onClick={() => mover(1)} aria-label="Siguiente">
+            <ChevronRight size={14} />
+          </button>
+          <div className="flex rounded-lg border border-[var(--color-border)] overflow-hidden ml-2">
+            {(['semana', 'mes'] as const).map((v) => (
+              <button
+                key={v}
+                className={cn(
+                  'px-3 h-[30px] text-xs font-semibold capitalize',
+                  vista === v ? 'bg-[var(--color-brand-soft)] text-[#00D084]' : 'text-[var(--color-tx-secondary)]',
+                )}
+                onClick={() => setVista(v)}
+              >
+                {v}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Alertas */}
+      {(sinAsignacion.length > 0 || plantillasInconsistentes.length > 0) && (
+        <div className="space-y-2">
+          {sinAsignacion.length > 0 && (
+            <div className="flex items-start gap-2 rounded-lg bg-amber-500/10 px-3 py-2 text-xs text-amber-700 dark:text-amber-400">
+              <UserX size={14} className="shrink-0 mt-0.5" />
+              <span>
+                <strong>Sin turno en este periodo:</strong> {sinAsignacion.map((o) => o.name).join(', ')}
+              </span>
+            </div>
+          )}
+          {plantillasInconsistentes.map(({ horario, avisos }) => (
+            <div key={horario.id} className="flex items-start gap-2 rounded-lg bg-red-500/10 px-3 py-2 text-xs text-red-600 dark:text-red-400">
+              <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+              <span>
+                <strong>{horario.nombre}:</strong> {avisos.join('. ')}.
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {vista === 'semana' ? (
+        <div className="overflow-x-auto">
+          <div className="grid min-w-[720px]" style={{ gridTemplateColumns: '44px repeat(7, minmax(0, 1fr))' }}>
+            {/* Cabecera de días */}
+            <div />
+            {porDia.map(({ fecha, huecos }, i) => (
+              <div key={fecha} className={cn('text-center pb-2 text-xs font-semibold', fecha === hoy && 'text-[#00D084]')}>
+                {DIAS_CORTOS[i]} {parseISODate(fecha).getDate()}
+                {huecos.length > 0 && (
+                  <p className="text-[10px] font-normal text-red-500">
+                    {Math.round(minutosSinCubrir(huecos) / 60 * 10) / 10} h sin cubrir
+                  </p>
+                )}
+              </div>
+            ))}
+
+            {/* Escala de horas */}
+            <div className="relative" style={{ height: alto }}>
+              {Array.from({ length: (maxHora - minHora) / 60 + 1 }, (_, i) => (
+                <span
+                  key={i}
+                  className="absolute right-1.5 -translate-y-1/2 text-[10px] text-[var(--color-tx-secondary)]"
+                  style={{ top: i * HORA_PX }}
+                >
+                  {aHora(minHora + i * 60)}
+                </span>
+              ))}
+            </div>
+
+            {/* Columnas */}
+            {porDia.map(({ fecha, bloques, huecos }) => (
+              <div
+                key={fecha}
+                className="relative border-l border-[var(--color-border)]"
+                style={{
+                  height: alto,
+                  backgroundImage: `repeating-linear-gradient(to bottom, var(--color-border) 0 1px, transparent 1px ${HORA_PX}px)`,
+                }}
+              >
+                {huecos.map((h) => (
+                  <div
+                    key={h.inicio}
+                    className="absolute inset-x-0 bg-red-500/10 border-y border-dashed border-red-400/50"
+                    style={{ top: top(h.inicio), height: top(h.fin) - top(h.inicio) }}
+                    title={`Sin cobertura ${aHora(h.inicio)}–${aHora(h.fin)}`}
+                  />
+                ))}
+                {bloques.map((b: BloqueTurno, i) => (
+                  <div
+                    key={`${b.operarioId}-${i}`}
+                    className={cn('absolute rounded border px-1 py-0.5 text-[10px] leading-tight overflow-hidden', colorDe(b.operarioId))}
+                    style={{
+                      top: top(b.inicio),
+                      height: Math.max(top(b.fin) - top(b.inicio), 14),
+                      left: `${(i / bloques.length) * 100}%`,
+                      width: `${100 / bloques.length}%`,
+                    }}
+                    title={`${nombreDe(b.operarioId)} · ${b.horario.nombre} · ${aHora(b.inicio)}–${aHora(b.fin)}`}
+                  >
+                    <p className="font-semibold truncate">{nombreDe(b.operarioId)}</p>
+                    <p className="truncate opacity-80">{aHora(b.inicio)}–{aHora(b.fin)}</p>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-7 gap-px rounded-lg overflow-hidden bg-[var(--color-border)]">
+          {DIAS_CORTOS.map((d) => (
+            <div key={d} className="bg-[var(--color-surface)] py-1.5 text-center text-[11px] font-semibold text-[var(--color-tx-secondary)]">
+              {d}
+            </div>
+          ))}
+          {porDia.map(({ fecha, bloques, huecos }) => {
+            const fueraDeMes = parseISODate(fecha).getMonth() !== parseISODate(referencia).getMonth();
+            const operariosDia = [...new Set(bloques.map((b) => b.operarioId))];
+            return (
+              <div
+                key={fecha}
+                className={cn('bg-[var(--color-surface)] min-h-[84px] p-1.5 space-y-1', fueraDeMes && 'opacity-40')}
+              >
+                <div className="flex items-center justify-between">
+                  <span className={cn('text-xs font-semibold', fecha === hoy && 'text-[#00D084]')}>
+                    {parseISODate(fecha).getDate()}
+                  </span>
+                  {huecos.length > 0 && (
+                    <span className="text-[9px] font-semibold text-red-500" title="Horas de planta sin operario">
+                      {Math.round(minutosSinCubrir(huecos) / 60 * 10) / 10} h
+                    </span>
+                  )}
+                </div>
+                {operariosDia.slice(0, 3).map((id) => (
+                  <p key={id} className={cn('truncate rounded border px-1 text-[10px]', colorDe(id))}>
+                    {nombreDe(id)}
+                  </p>
+                ))}
+                {operariosDia.length > 3 && (
+                  <p className="text-[10px] text-[var(--color-tx-secondary)]">+{operariosDia.length - 3} más</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
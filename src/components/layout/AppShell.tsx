@@ -2,23 +2,33 @@ import { useState } from 'react';
 import { Outlet, useLocation } from 'react-router-dom';
 import { Sidebar } from './Sidebar';
 import { Topbar } from './Topbar';
+import { OfflineBanner } from './OfflineBanner';
+import { SessionExpiryModal } from '@/components/auth/SessionExpiryModal';
 
 const PAGE_TITLES: Record<string, { title: string; subtitle: string }> = {
   '/dashboard':  { title: 'Dashboard', subtitle: 'Vista general del ciclo productivo' },
   '/maquilas':   { title: 'Maquilas', subtitle: 'Registro y gestión de pedidos' },
+  '/pedidos':    { title: 'Pedido',   subtitle: 'Trazabilidad completa por etapa' },
   '/tostion':    { title: 'Tostión', subtitle: 'Trazabilidad del proceso de tostado' },
   '/produccion': { title: 'Producción', subtitle: 'Empaque, molido y control de calidad' },
   '/facturacion':{ title: 'Facturación', subtitle: 'Documentos y confirmación de entrega' },
+  '/despacho':   { title: 'Despacho', subtitle: 'Hojas de ruta y pruebas de entrega' },
+  '/tarifas':    { title: 'Tarifas', subtitle: 'Precios por presentación, forma de entrega y cliente' },
+  '/cartera':    { title: 'Cartera', subtitle: 'Cuentas por cobrar y estados de cuenta' },
+  '/conciliacion': { title: 'Conciliación', subtitle: 'Balance de kilos entre etapas' },
+  '/analitica':  { title: 'Analítica', subtitle: 'Rendimientos por cliente, variedad y presentación' },
   '/clientes':   { title: 'Clientes',  subtitle: 'Directorio de clientes' },
   '/usuarios':   { title: 'Usuarios',  subtitle: 'Gestión de accesos y roles' },
   '/horarios':   { title: 'Horarios',  subtitle: 'Plantillas de horario operativo' },
   '/maquinas':   { title: 'Máquinas',  subtitle: 'Inventario y estado de maquinaria' },
+  '/configuracion': { title: 'Configuración', subtitle: 'Parámetros de planta' },
 };
 
 export function AppShell() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const location = useLocation();
-  const meta = PAGE_TITLES[location.pathname];
+  // Rutas con parámetros (/pedidos/:id) toman el título de su primer segmento
+  const meta = PAGE_TITLES[location.pathname] ?? PAGE_TITLES[`/${location.pathname.split('/')[1]}`];
 
   return (
     <div className="app-shell">
@@ -31,10 +41,14 @@ export function AppShell() {
           subtitle={meta?.subtitle}
         />
 
+        <OfflineBanner />
+
         <main className="flex-1">
           <Outlet />
         </main>
       </div>
+
+      <SessionExpiryModal />
     </div>
   );
 }
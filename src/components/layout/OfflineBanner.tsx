@@ -0,0 +1,26 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { WifiOff } from 'lucide-react';
+import { useOfflineStore } from '@/store/offline.store';
+
+function fmtHora(ts: number): string {
+  return new Date(ts).toLocaleString('es-CO', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+export function OfflineBanner() {
+  const online = useOfflineStore((s) => s.online);
+  const qc = useQueryClient();
+  if (online) return null;
+
+  // Hora de la lectura más reciente que tenemos en caché
+  const lastUpdate = Math.max(0, ...qc.getQueryCache().getAll().map((q) => q.state.dataUpdatedAt));
+
+  return (
+    <div className="flex items-center gap-2 px-4 py-2 text-xs font-medium bg-amber-500/10 text-amber-600 border-b border-amber-500/20">
+      <WifiOff size={13} className="shrink-0" />
+      <span>
+        Datos sin conexión — se muestra la última información guardada
+        {lastUpdate > 0 && <> ({fmtHora(lastUpdate)})</>}. Los cambios se sincronizarán al reconectar.
+      </span>
+    </div>
+  );
+}
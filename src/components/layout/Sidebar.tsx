@@ -1,16 +1,16 @@
 import { NavLink, useNavigate } from 'react-router-dom';
 import {
   LayoutDashboard, FlaskConical, Factory, FileText,
-  Users, Clock, Cpu, LogOut, Package, Scissors,
+  Users, Clock, Cpu, LogOut, Package, Scissors, SlidersHorizontal, Scale, BarChart3, Tag, Wallet, Truck,
 } from 'lucide-react';
 import { cn } from '@/lib/cn';
 import { useAuthStore } from '@/store/auth.store';
+import { canAccessRoute } from '@/lib/permissions';
 
 interface NavItem {
   to: string;
   label: string;
   icon: React.ReactNode;
-  roles?: string[];
   badge?: string;
 }
 
@@ -26,21 +26,27 @@ const navGroups: NavGroup[] = [
     title: 'Flujo de trabajo',
     items: [
       { to: '/dashboard',   label: 'Dashboard',   icon: <LayoutDashboard size={15} /> },
-      { to: '/maquilas',    label: 'Maquilas',    icon: <Package size={15} />,      roles: ['admin', 'operario'] },
-      { to: '/trillado',    label: 'Trillado',    icon: <Scissors size={15} />,     roles: ['admin', 'operario'] },
-      { to: '/tostion',     label: 'Tostión',     icon: <FlaskConical size={15} />, roles: ['admin', 'operario'] },
-      { to: '/produccion',  label: 'Producción',  icon: <Factory size={15} />,     roles: ['admin', 'operario'] },
-      { to: '/facturacion', label: 'Facturación', icon: <FileText size={15} />,    roles: ['admin', 'facturacion'] },
+      { to: '/maquilas',    label: 'Maquilas',    icon: <Package size={15} /> },
+      { to: '/trillado',    label: 'Trillado',    icon: <Scissors size={15} /> },
+      { to: '/tostion',     label: 'Tostión',     icon: <FlaskConical size={15} /> },
+      { to: '/produccion',  label: 'Producción',  icon: <Factory size={15} /> },
+      { to: '/facturacion', label: 'Facturación', icon: <FileText size={15} /> },
+      { to: '/despacho',    label: 'Despacho',    icon: <Truck size={15} /> },
+      { to: '/tarifas',     label: 'Tarifas',     icon: <Tag size={15} /> },
+      { to: '/cartera',     label: 'Cartera',     icon: <Wallet size={15} /> },
+      { to: '/conciliacion', label: 'Conciliación', icon: <Scale size={15} /> },
+      { to: '/analitica',    label: 'Analítica',    icon: <BarChart3 size={15} /> },
     ],
   },
   {
     id: 'admin',
     title: 'Administración',
     items: [
-      { to: '/clientes', label: 'Clientes', icon: <Users size={15} />,  roles: ['admin'] },
-      { to: '/horarios', label: 'Horarios', icon: <Clock size={15} />,  roles: ['admin'] },
-      { to: '/maquinas', label: 'Máquinas', icon: <Cpu size={15} />,   roles: ['admin'] },
-      { to: '/usuarios', label: 'Usuarios', icon: <Users size={15} />,  roles: ['admin'] },
+      { to: '/clientes', label: 'Clientes', icon: <Users size={15} /> },
+      { to: '/horarios', label: 'Horarios', icon: <Clock size={15} /> },
+      { to: '/maquinas', label: 'Máquinas', icon: <Cpu size={15} /> },
+      { to: '/usuarios', label: 'Usuarios', icon: <Users size={15} /> },
+      { to: '/configuracion', label: 'Configuración', icon: <SlidersHorizontal size={15} /> },
     ],
   },
 ];
@@ -61,9 +67,7 @@ export function Sidebar({ open, onClose }: SidebarProps) {
 
   const filteredGroups = navGroups.map((group) => ({
     ...group,
-    items: group.items.filter((item) =>
-      !item.roles || (user?.role && item.roles.includes(user.role))
-    ),
+    items: group.items.filter((item) => canAccessRoute(user?.role, item.to)),
   })).filter((g) => g.items.length > 0);
 
   return (
@@ -1,7 +1,10 @@
-import { Menu, Moon, Sun, LogOut, Bell } from 'lucide-react';
+import { Menu, Moon, Sun, LogOut, Bell, CloudOff, RefreshCw } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '@/store/auth.store';
 import { useThemeStore } from '@/store/theme.store';
+import { useOfflineStore } from '@/store/offline.store';
+import { flushQueue } from '@/lib/offlineQueue';
+import { cn } from '@/lib/cn';
 
 interface TopbarProps {
   onMenuClick: () => void;
@@ -31,6 +34,7 @@ const ROLE_LABELS: Record<string, string> = {
 export function Topbar({ onMenuClick, title, subtitle }: TopbarProps) {
   const { user, logout } = useAuthStore();
   const { theme, toggle } = useThemeStore();
+  const { online, pending, syncing } = useOfflineStore();
   const navigate = useNavigate();
 
   const handleLogout = () => {
@@ -70,6 +74,26 @@ export function Topbar({ onMenuClick, title, subtitle }: TopbarProps) {
 
       {/* Acciones */}
       <div className="flex items-center gap-1.5">
+        {/* Sincronización pendiente (cola offline) */}
+        {(!online || pending > 0) && (
+          <button
+            className={cn(
+              'inline-flex items-center gap-1.5 h-[30px] px-2.5 rounded-md text-[11px] font-semibold',
+              online ? 'bg-amber-500/10 text-amber-500' : 'bg-red-500/10 text-red-500'
+            )}
+            onClick={() => { void flushQueue(); }}
+            disabled={!online || syncing}
+            title={online ? 'Sincronizar ahora' : 'Sin conexión — los cambios se guardan en este equipo'}
+          >
+            {online
+              ? <RefreshCw size={12} className={cn(syncing && 'animate-spin')} />
+              : <CloudOff size={12} />}
+            <span className="hidden sm:inline">
+              {pending > 0 ? `${pending} por sincronizar` : 'Sin conexión'}
+            </span>
+          </button>
+        )}
+
         {/* Notificaciones (decorativo) */}
         <button
           className="btn btn-icon btn-ghost relative"
@@ -0,0 +1,276 @@
+import { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm, type Resolver } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { CalendarClock, CheckCircle2, Loader2, Plus, AlertTriangle } from 'lucide-react';
+import {
+  maquinasService,
+  type CreateMantenimientoPayload,
+  type Maquina,
+  type MantenimientoProgramado,
+} from '@/services/maquinas.service';
+import {
+  metricasDisponibilidad,
+  periodoDe,
+  recordatoriosMantenimiento,
+  DIAS_AVISO_MANTENIMIENTO,
+  type PeriodoClave,
+} from '@/lib/mantenimiento';
+import { hoyISO } from '@/lib/dates';
+import { toast } from '@/lib/toast';
+import { Modal } from '@/components/ui/Modal';
+import { Field, Input, Select } from '@/components/ui/FormField';
+import { TableSkeleton } from '@/components/ui/Skeleton';
+import { cn } from '@/lib/cn';
+
+const PERIODO_OPTIONS = [
+  { value: 'mes_actual',   label: 'Mes actual' },
+  { value: 'mes_anterior', label: 'Mes anterior' },
+  { value: 'ultimos_30',   label: 'Últimos 30 días' },
+];
+
+const schema = z.object({
+  maquinaId:      z.string().min(1, 'Selecciona una máquina'),
+  fecha:          z.string().min(1, 'Fecha requerida'),
+  descripcion:    z.string().min(3, 'Describe el mantenimiento'),
+  frecuenciaDias: z.coerce.number().int().positive('Debe ser mayor a 0').optional().or(z.literal('')),
+});
+
+type FormValues = z.infer<typeof schema>;
+
+function fmt(d: string): string {
+  return new Date(`${d.slice(0, 10)}T00:00:00`).toLocaleDateString('es-CO', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+const fmtHoras = (h: number) => `${h.toLocaleString('es-CO', { maximumFractionDigits: 1 })} h`;
+
+interface MantenimientoPanelProps {
+  maquinas: Maquina[];
+}
+
+export function MantenimientoPanel({ maquinas }: MantenimientoPanelProps) {
+  const qc = useQueryClient();
+  const [periodo, setPeriodo] = useState<PeriodoClave>('mes_actual');
+  const [showProgramar, setShowProgramar] = useState(false);
+
+  const eventosQuery = useQuery({
+    queryKey: ['maquinas', 'eventos'],
+    queryFn: () => maquinasService.getEventos(),
+    staleTime: 60_000,
+  });
+
+  const mantenimientosQuery = useQuery({
+    queryKey: ['maquinas', 'mantenimientos'],
+    queryFn: () => maquinasService.getMantenimientos(),
+    staleTime: 60_000,
+  });
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(schema) as unknown as Resolver<FormValues>,
+  });
+
+  const programarMutation = useMutation({
+    mutationFn: (data: CreateMantenimientoPayload) => maquinasService.programarMantenimiento(data),
+    onSuccess: () => {
+      toast.success('Mantenimiento programado');
+      qc.invalidateQueries({ queryKey: ['maquinas', 'mantenimientos'] });
+      setShowProgramar(false);
+    },
+    onError: (e: { response?: { data?: { message?: string } } }) =>
+      toast.error(e.response?.data?.message ?? 'No se pudo programar el mantenimiento'),
+  });
+
+  const completarMutation = useMutation({
+    mutationFn: (id: string) => maquinasService.completarMantenimiento(id),
+    onSuccess: () => {
+      toast.success('Mantenimiento marcado como realizado');
+      qc.invalidateQueries({ queryKey: ['maquinas', 'mantenimientos'] });
+    },
+    onError: (e: { response?: { data?: { message?: string } } }) =>
+      toast.error(e.response?.data?.message ?? 'No se pudo actualizar el mantenimiento'),
+  });
+
+  const { vencidos, proximos } = useMemo(
+    () => recordatoriosMantenimiento(mantenimientosQuery.data ?? []),
+    [mantenimientosQuery.data],
+  );
+
+  const metricas = useMemo(() => {
+    const p = periodoDe(periodo);
+    return maquinas
+      .map((m) => ({ maquina: m, ...metricasDisponibilidad(m.id, eventosQuery.data ?? [], p) }))
+      .sort((a, b) => a.disponibilidad - b.disponibilidad);
+  }, [maquinas, eventosQuery.data, periodo]);
+
+  const nombreMaquina = (id: string) => maquinas.find((m) => m.id === id)?.nombre ?? 'Máquina';
+
+  const openProgramar = () => {
+    form.reset({ maquinaId: '', fecha: hoyISO(), descripcion: '', frecuenciaDias: '' });
+    setShowProgramar(true);
+  };
+
+  const onSubmit = form.handleSubmit((values) => {
+    programarMutation.mutate({
+      maquinaId: values.maquinaId,
+      fecha: values.fecha,
+      descripcion: values.descripcion,
+      frecuenciaDias: values.frecuenciaDias ? Number(values.frecuenciaDias) : null,
+    });
+  });
+
+  const renderRecordatorio = (m: MantenimientoProgramado, vencido: boolean) => (
+    <div
+      key={m.id}
+      className={cn(
+        'flex items-center justify-between gap-3 rounded-lg px-3 py-2',
+        vencido ? 'bg-red-500/10' : 'bg-amber-500/10',
+      )}
+    >
+      <div className="min-w-0">
+        <p className="text-sm font-semibold truncate">
+          {nombreMaquina(m.maquinaId)} — {m.descripcion}
+        </p>
+        <p className={cn('text-xs', vencido ? 'text-red-600 dark:text-red-400' : 'text-amber-700 dark:text-amber-400')}>
+          {vencido ? 'Vencido desde el' : 'Programado para el'} {fmt(m.fecha)}
+          {m.frecuenciaDias && ` · cada ${m.frecuenciaDias} días`}
+        </p>
+      </div>
+      <button
+        className="btn btn-ghost btn-sm gap-1 shrink-0"
+        onClick={() => completarMutation.mutate(m.id)}
+        disabled={completarMutation.isPending}
+      >
+        <CheckCircle2 size={13} />
+        Realizado
+      </button>
+    </div>
+  );
+
+  return (
+    <>
+      {/* Recordatorios de mantenimiento preventivo */}
+      <div className="card">
+        <div className="flex items-center justify-between gap-3 mb-4">
+          <div>
+            <p className="section-title">Mantenimiento preventivo</p>
+            <p className="text-xs text-[var(--color-tx-secondary)] mt-0.5">
+              Vencidos y programados para los próximos {DIAS_AVISO_MANTENIMIENTO} días.
+            </p>
+          </div>
+          <button className="btn btn-secondary btn-sm gap-1.5" onClick={openProgramar}>
+            <Plus size={13} />
+            Programar
+          </button>
+        </div>
+        {mantenimientosQuery.isLoading ? (
+          <TableSkeleton rows={2} cols={3} />
+        ) : !vencidos.length && !proximos.length ? (
+          <p className="text-sm text-[var(--color-tx-secondary)] flex items-center gap-2">
+            <CalendarClock size={14} />
+            Sin mantenimientos pendientes en los próximos días.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {vencidos.map((m) => renderRecordatorio(m, true))}
+            {proximos.map((m) => renderRecordatorio(m, false))}
+          </div>
+        )}
+      </div>
+
+      {/* Disponibilidad */}
+      <div className="card">
+        <div className="flex items-center justify-between gap-3 mb-4 flex-wrap">
+          <p className="section-title">Disponibilidad y paradas</p>
+          <div className="w-44">
+            <Select
+              value={periodo}
+              onChange={(e) => setPeriodo(e.target.value as PeriodoClave)}
+              options={PERIODO_OPTIONS}
+            />
+          </div>
+        </div>
+        {eventosQuery.isLoading ? (
+          <TableSkeleton rows={4} cols={6} />
+        ) : (
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Máquina</th>
+                  <th>Disponibilidad</th>
+                  <th>Mantenimiento</th>
+                  <th>Fuera de servicio</th>
+                  <th>Paradas</th>
+                  <th>Motivo principal</th>
+                </tr>
+              </thead>
+              <tbody>
+                {metricas.map((r) => (
+                  <tr key={r.maquinaId}>
+                    <td>
+                      <span className="font-semibold">{r.maquina.nombre}</span>
+                      <span className="font-mono text-[11px] text-[var(--color-tx-secondary)] ml-2">{r.maquina.codigo}</span>
+                    </td>
+                    <td>
+                      <span
+                        className={cn(
+                          'font-semibold',
+                          r.disponibilidad < 80 ? 'text-red-500' : r.disponibilidad < 95 ? 'text-amber-500' : 'text-[#00D084]',
+                        )}
+                      >
+                        {r.disponibilidad < 80 && <AlertTriangle size={11} className="inline mr-1 -mt-0.5" />}
+                        {r.disponibilidad.toFixed(1)} %
+                      </span>
+                    </td>
+                    <td className="text-xs">{fmtHoras(r.horasMantenimiento)}</td>
+                    <td className="text-xs">{fmtHoras(r.horasFueraServicio)}</td>
+                    <td className="text-xs">{r.eventos}</td>
+                    <td className="text-xs text-[var(--color-tx-secondary)] max-w-[220px] truncate">{r.motivoPrincipal ?? '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Modal programar */}
+      <Modal
+        open={showProgramar}
+        onClose={() => setShowProgramar(false)}
+        title="Programar mantenimiento"
+        size="md"
+        footer={
+          <div className="flex gap-2">
+            <button className="btn btn-secondary" onClick={() => setShowProgramar(false)}>Cancelar</button>
+            <button className="btn btn-primary gap-2" onClick={onSubmit} disabled={programarMutation.isPending}>
+              {programarMutation.isPending && <Loader2 size={14} className="animate-spin" />}
+              Programar
+            </button>
+          </div>
+        }
+      >
+        <div className="grid grid-cols-2 gap-4">
+          <Field label="Máquina" error={form.formState.errors.maquinaId?.message} required className="col-span-2">
+            <Select
+              {...form.register('maquinaId')}
+              placeholder="Seleccionar máquina"
+              options={maquinas.map((m) => ({ value: m.id, label: `${m.codigo} — ${m.nombre}` }))}
+              error={form.formState.errors.maquinaId?.message}
+            />
+          </Field>
+          <Field label="Fecha" error={form.formState.errors.fecha?.message} required>
+            <Input type="date" {...form.register('fecha')} error={form.formState.errors.fecha?.message} />
+          </Field>
+          <Field label="Repetir cada (días)" error={form.formState.errors.frecuenciaDias?.message} hint="Opcional">
+            <Input type="number" min={1} placeholder="Ej: 30" {...form.register('frecuenciaDias')} />
+          </Field>
+          <Field label="Descripción" error={form.formState.errors.descripcion?.message} required className="col-span-2">
+            <Input placeholder="Ej: Cambio de rodamientos y limpieza de tambor" {...form.register('descripcion')} error={form.formState.errors.descripcion?.message} />
+          </Field>
+        </div>
+      </Modal>
+    </>
+  );
+}
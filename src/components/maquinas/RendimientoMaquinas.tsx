@@ -0,0 +1,136 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { LineChart } from 'lucide-react';
+import { trilladoService } from '@/services/trillado.service';
+import { tostionService } from '@/services/tostion.service';
+import { rendimientoPorMaquina } from '@/lib/rendimiento';
+import { Modal } from '@/components/ui/Modal';
+import { TableSkeleton } from '@/components/ui/Skeleton';
+import { EmptyState } from '@/components/ui/EmptyState';
+import type { Maquina } from '@/types';
+
+function fmt(d: string): string {
+  return new Date(d).toLocaleDateString('es-CO', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+const fmtKg = (n: number) => `${n.toLocaleString('es-CO', { maximumFractionDigits: 1 })} kg`;
+
+interface RendimientoMaquinasProps {
+  maquinas: Maquina[];
+}
+
+export function RendimientoMaquinas({ maquinas }: RendimientoMaquinasProps) {
+  const [detalle, setDetalle] = useState<Maquina | null>(null);
+
+  // Mismas keys que TriladoPage / TostionPage para compartir caché
+  const trilladosQuery = useQuery({
+    queryKey: ['trillado', 'historial'],
+    queryFn: () => trilladoService.getAll(),
+    staleTime: 30_000,
+  });
+
+  const tostionesQuery = useQuery({
+    queryKey: ['tostion', 'historial'],
+    queryFn: () => tostionService.getAll(),
+    staleTime: 30_000,
+  });
+
+  const rendimiento = useMemo(
+    () => rendimientoPorMaquina(trilladosQuery.data ?? [], tostionesQuery.data ?? []),
+    [trilladosQuery.data, tostionesQuery.data],
+  );
+
+  const detalleRend = detalle ? rendimiento.get(detalle.id) : undefined;
+  const loading = trilladosQuery.isLoading || tostionesQuery.isLoading;
+
+  return (
+    <div className="card">
+      <p className="section-title mb-4">Rendimiento por máquina</p>
+      {loading ? (
+        <TableSkeleton rows={4} cols={5} />
+      ) : (
+        <div className="table-wrap">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Máquina</th>
+                <th>Corridas</th>
+                <th>Kg procesados</th>
+                <th>Kg / hora</th>
+                <th>Merma promedio</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {maquinas.map((m) => {
+                const r = rendimiento.get(m.id);
+                return (
+                  <tr key={m.id}>
+                    <td>
+                      <span className="font-semibold">{m.nombre}</span>
+                      <span className="font-mono text-[11px] text-[var(--color-tx-secondary)] ml-2">{m.codigo}</span>
+                    </td>
+                    <td>{r?.corridas.length ?? 0}</td>
+                    <td className="font-semibold">{r ? fmtKg(r.kilosProcesados) : '—'}</td>
+                    <td>{r?.kgPorHora != null ? fmtKg(r.kgPorHora) : '—'}</td>
+                    <td>{r?.mermaPromedio != null ? `${r.mermaPromedio.toFixed(1)}%` : '—'}</td>
+                    <td>
+                      <button
+                        className="btn btn-ghost btn-sm gap-1"
+                        onClick={() => setDetalle(m)}
+                        disabled={!r}
+                      >
+                        <LineChart size={13} />
+                        Historial
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Modal historial de corridas */}
+      <Modal
+        open={!!detalle}
+        onClose={() => setDetalle(null)}
+        title={`Corridas: ${detalle?.nombre ?? ''}`}
+        description="Corridas finalizadas, más recientes primero."
+        size="lg"
+      >
+        {!detalleRend?.corridas.length ? (
+          <EmptyState title="Sin corridas" description="Esta máquina aún no tiene procesos finalizados." />
+        ) : (
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Fecha</th>
+                  <th>Pedido</th>
+                  <th>Entrada</th>
+                  <th>Salida</th>
+                  <th>Merma</th>
+                  <th>Kg / hora</th>
+                </tr>
+              </thead>
+              <tbody>
+                {detalleRend.corridas.map((c) => (
+                  <tr key={c.id}>
+                    <td className="text-xs">{fmt(c.fecha)}</td>
+                    <td className="font-mono text-xs font-semibold">{c.pedidoCode}</td>
+                    <td>{fmtKg(c.kilosEntrada)}</td>
+                    <td>{fmtKg(c.kilosSalida)}</td>
+                    <td>{c.merma.toFixed(1)}%</td>
+                    <td className="text-xs">{c.horas ? fmtKg(c.kilosEntrada / c.horas) : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
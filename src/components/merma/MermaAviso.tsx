@@ -0,0 +1,33 @@
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import type { MermaRango } from '@/services/config.service';
+import { evaluarMerma } from '@/lib/merma';
+import { cn } from '@/lib/cn';
+
+interface MermaAvisoProps {
+  merma: number | null;
+  rango: MermaRango;
+}
+
+// Aviso en vivo mientras se digitan los kilos en los modales de finalizar
+export function MermaAviso({ merma, rango }: MermaAvisoProps) {
+  if (merma == null) return null;
+  const evaluacion = evaluarMerma(merma, rango);
+  const ok = evaluacion === 'ok';
+
+  return (
+    <div
+      className={cn(
+        'flex items-start gap-2 rounded-lg px-3 py-2 text-sm',
+        ok ? 'bg-green-500/10 text-green-700 dark:text-green-400' : 'bg-red-500/10 text-red-600 dark:text-red-400',
+      )}
+    >
+      {ok ? <CheckCircle2 size={15} className="shrink-0 mt-0.5" /> : <AlertTriangle size={15} className="shrink-0 mt-0.5" />}
+      <p>
+        Merma <strong>{merma.toFixed(1)}%</strong>
+        {ok
+          ? ` — dentro del rango esperado (${rango.min}–${rango.max}%) para ${rango.presentacion}.`
+          : ` — ${evaluacion === 'alto' ? 'por encima' : 'por debajo'} del rango esperado (${rango.min}–${rango.max}%) para ${rango.presentacion}. Justifica la diferencia.`}
+      </p>
+    </div>
+  );
+}
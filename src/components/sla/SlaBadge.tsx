@@ -0,0 +1,32 @@
+import { AlarmClock } from 'lucide-react';
+import { RIESGO_SLA_LABEL, estaEnRiesgo, type SlaPedido } from '@/lib/sla';
+import { fmtFecha } from '@/lib/format';
+import { cn } from '@/lib/cn';
+
+interface SlaBadgeProps {
+  sla?: SlaPedido;
+  className?: string;
+}
+
+// Solo se muestra cuando el pedido no alcanza su fecha de entrega comprometida
+export function SlaBadge({ sla, className }: SlaBadgeProps) {
+  if (!estaEnRiesgo(sla)) return null;
+  const vencido = sla.riesgo === 'VENCIDO';
+
+  return (
+    <span
+      className={cn(
+        'badge gap-1',
+        vencido
+          ? 'bg-red-50 text-red-600 dark:bg-red-900/30 dark:text-red-400'
+          : 'bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+        className,
+      )}
+      title={`Compromiso: ${fmtFecha(`${sla.diaEntrega}T00:00:00`)} · Estimado: ${fmtFecha(`${sla.fechaEstimada}T00:00:00`)}`}
+    >
+      <AlarmClock size={10} />
+      {RIESGO_SLA_LABEL[sla.riesgo]}
+      {!vencido && ` · ${Math.abs(sla.holgura)}d tarde`}
+    </span>
+  );
+}
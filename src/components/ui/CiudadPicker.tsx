@@ -0,0 +1,196 @@
+import { useEffect, useId, useMemo, useRef, useState, type KeyboardEvent } from 'react';
+import * as Popover from '@radix-ui/react-popover';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2, MapPin, Search, X } from 'lucide-react';
+import { ciudadesService } from '@/services/ciudades.service';
+import { useCiudadesRecientesStore } from '@/store/ciudadesRecientes.store';
+import { cn } from '@/lib/cn';
+import type { Ciudad } from '@/types';
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_CHARS = 2;
+
+interface Grupo {
+  titulo: string;
+  ciudades: Ciudad[];
+  // Posición de la primera ciudad del grupo en la lista navegable con el teclado
+  inicio: number;
+}
+
+// Resultados agrupados por departamento, en el orden en que llegan del backend
+function agruparPorDepartamento(ciudades: Ciudad[]): Omit<Grupo, 'inicio'>[] {
+  const grupos = new Map<string, Ciudad[]>();
+  for (const c of ciudades) grupos.set(c.departamento, [...(grupos.get(c.departamento) ?? []), c]);
+  return [...grupos.entries()].map(([titulo, lista]) => ({ titulo, ciudades: lista }));
+}
+
+const etiqueta = (c: Ciudad) => `${c.nombre}, ${c.departamento}`;
+
+interface CiudadPickerProps {
+  value: Ciudad | null;
+  onChange: (ciudad: Ciudad | null) => void;
+  placeholder?: string;
+  error?: string;
+}
+
+// Combobox accesible: búsqueda con debounce, resultados por departamento, flechas/Enter/Escape y ciudades recientes
+export function CiudadPicker({ value, onChange, placeholder = 'Buscar ciudad o departamento…', error }: CiudadPickerProps) {
+  const listId = useId();
+  const anchorRef = useRef<HTMLDivElement>(null);
+  const [open, setOpen] = useState(false);
+  const [texto, setTexto] = useState('');
+  const [termino, setTermino] = useState('');
+  const [activo, setActivo] = useState(0);
+  const recientes = useCiudadesRecientesStore((s) => s.recientes);
+  const agregarReciente = useCiudadesRecientesStore((s) => s.agregar);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setTermino(texto.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [texto]);
+
+  const buscando = termino.length >= MIN_CHARS;
+  // Misma clave que usaba la búsqueda inline de Maquilas
+  const { data: resultados, isFetching } = useQuery({
+    queryKey: ['ciudades-search', termino],
+    queryFn: () => ciudadesService.search(termino),
+    enabled: buscando,
+    staleTime: 60_000,
+  });
+
+  const grupos = useMemo<Grupo[]>(() => {
+    const base = buscando
+      ? agruparPorDepartamento(resultados ?? [])
+      : recientes.length > 0 ? [{ titulo: 'Recientes', ciudades: recientes }] : [];
+    return base.map((g, k) => ({
+      ...g,
+      inicio: base.slice(0, k).reduce((n, prev) => n + prev.ciudades.length, 0),
+    }));
+  }, [buscando, resultados, recientes]);
+  const opciones = useMemo(() => grupos.flatMap((g) => g.ciudades), [grupos]);
+
+  // La opción activa sigue visible al navegar con el teclado
+  useEffect(() => {
+    if (open) document.getElementById(`${listId}-${activo}`)?.scrollIntoView({ block: 'nearest' });
+  }, [open, activo, listId]);
+
+  const seleccionar = (c: Ciudad) => {
+    onChange(c);
+    agregarReciente(c);
+    setTexto('');
+    setOpen(false);
+  };
+
+  const limpiar = () => {
+    onChange(null);
+    setTexto('');
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (!open) { setOpen(true); return; }
+      if (opciones.length === 0) return;
+      const paso = e.key === 'ArrowDown' ? 1 : -1;
+      setActivo((i) => (i + paso + opciones.length) % opciones.length);
+    } else if (e.key === 'Enter' && open && opciones[activo]) {
+      e.preventDefault();
+      seleccionar(opciones[activo]);
+    } else if (e.key === 'Escape' && open) {
+      // Que no cierre también el modal que contiene el campo
+      e.stopPropagation();
+      setOpen(false);
+    } else if (e.key === 'Tab') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Popover.Root open={open} onOpenChange={setOpen}>
+      <Popover.Anchor asChild>
+        <div ref={anchorRef} className="relative">
+          {isFetching
+            ? <Loader2 size={13} className="absolute left-3 top-1/2 -translate-y-1/2 text-[#00D084] animate-spin pointer-events-none" />
+            : <Search size={13} className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--color-tx-secondary)] pointer-events-none" />}
+          <input
+            type="text"
+            role="combobox"
+            aria-expanded={open}
+            aria-controls={listId}
+            aria-autocomplete="list"
+            aria-activedescendant={open && opciones[activo] ? `${listId}-${activo}` : undefined}
+            className={cn('input pl-8', value && 'pr-8', error && 'error')}
+            placeholder={placeholder}
+            value={value ? etiqueta(value) : texto}
+            onChange={(e) => {
+              if (value) onChange(null);
+              setTexto(e.target.value);
+              setActivo(0);
+              setOpen(true);
+            }}
+            onFocus={() => setOpen(true)}
+            onClick={() => setOpen(true)}
+            onKeyDown={handleKeyDown}
+          />
+          {value && (
+            <button
+              type="button"
+              className="absolute right-2 top-1/2 -translate-y-1/2 btn btn-icon btn-ghost btn-xs"
+              onClick={limpiar}
+              aria-label="Quitar ciudad"
+            >
+              <X size={12} />
+            </button>
+          )}
+        </div>
+      </Popover.Anchor>
+
+      <Popover.Portal>
+        <Popover.Content
+          align="start"
+          sideOffset={4}
+          className="menu-content w-[var(--radix-popover-trigger-width)] max-h-64 overflow-y-auto"
+          onOpenAutoFocus={(e) => e.preventDefault()}
+          onInteractOutside={(e) => {
+            // El clic en el propio campo no debe cerrar y reabrir la lista
+            if (anchorRef.current?.contains(e.target as Node)) e.preventDefault();
+          }}
+        >
+          <div id={listId} role="listbox" aria-label="Ciudades">
+            {grupos.map((g) => (
+              <div key={g.titulo} role="group" aria-label={g.titulo}>
+                <p className="menu-label">{g.titulo}</p>
+                {g.ciudades.map((c, j) => {
+                  const i = g.inicio + j;
+                  return (
+                    <div
+                      key={c.id}
+                      id={`${listId}-${i}`}
+                      role="option"
+                      aria-selected={value?.id === c.id}
+                      data-highlighted={i === activo ? '' : undefined}
+                      className="menu-item"
+                      onMouseEnter={() => setActivo(i)}
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => seleccionar(c)}
+                    >
+                      <MapPin size={12} className="text-[var(--color-tx-secondary)] shrink-0" />
+                      <span className="truncate">{g.titulo === 'Recientes' ? etiqueta(c) : c.nombre}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+          {grupos.length === 0 && (
+            <p className="px-2.5 py-2 text-xs text-[var(--color-tx-secondary)]">
+              {!buscando
+                ? `Escribe al menos ${MIN_CHARS} letras`
+                : isFetching ? 'Buscando…' : `Sin resultados para "${termino}"`}
+            </p>
+          )}
+        </Popover.Content>
+      </Popover.Portal>
+    </Popover.Root>
+  );
+}
@@ -0,0 +1,364 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
+import {
+  ArrowDown, ArrowUp, ArrowUpDown, Check, ChevronLeft, ChevronRight, Columns3, Loader2, RotateCcw, Search,
+} from 'lucide-react';
+import { EmptyState } from './EmptyState';
+import { TableSkeleton } from './Skeleton';
+import { PAGE_SIZES, totalPages, type ListParamsState } from '@/lib/pagination';
+import { useAuthStore } from '@/store/auth.store';
+import { useTableLayoutStore } from '@/store/tableLayout.store';
+import { cn } from '@/lib/cn';
+import type { Paginated, SortDirection } from '@/types';
+
+export interface DataTableColumn<T> {
+  key: string;
+  header: ReactNode;
+  // Campo que se envía como `sort` al backend; sin él la columna no se puede ordenar
+  sortField?: string;
+  // Valor para ordenar en el navegador cuando los datos no vienen paginados
+  sortValue?: (row: T) => string | number | null;
+  className?: string;
+  render: (row: T) => ReactNode;
+  // false = siempre visible (no aparece en el selector de columnas)
+  hideable?: boolean;
+  defaultHidden?: boolean;
+  // Título de la tarjeta en la vista móvil
+  primary?: boolean;
+}
+
+interface DataTableProps<T> {
+  // Identifica la tabla para guardar las columnas elegidas por cada usuario
+  id: string;
+  columns: DataTableColumn<T>[];
+  // Paginado desde el backend (requiere `list`) o la colección completa
+  data: Paginated<T> | T[] | undefined;
+  list?: ListParamsState;
+  rowKey: (row: T) => string;
+  loading?: boolean;
+  // Recargando con datos previos en pantalla
+  fetching?: boolean;
+  searchPlaceholder?: string;
+  toolbar?: ReactNode;
+  // Acciones a la derecha de la barra, junto al selector de columnas (p. ej. exportar)
+  actions?: ReactNode;
+  empty?: ReactNode;
+  // Altura máxima del cuerpo; el encabezado queda fijo al desplazarse
+  maxHeight?: number | string;
+  // Activa la selección de filas; recibe las filas marcadas de la página actual
+  bulkActions?: (rows: T[], clear: () => void) => ReactNode;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+function headerText(header: ReactNode, key: string): string {
+  return typeof header === 'string' && header ? header : key;
+}
+
+function compare(a: string | number | null, b: string | number | null): number {
+  if (a == null) return b == null ? 0 : 1;
+  if (b == null) return -1;
+  return typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : String(a).localeCompare(String(b), 'es', { numeric: true });
+}
+
+function ColumnChooser<T>({ columns, hidden, onToggle, onReset }: {
+  columns: DataTableColumn<T>[];
+  hidden: Set<string>;
+  onToggle: (key: string) => void;
+  onReset: () => void;
+}) {
+  const hideable = columns.filter((c) => c.hideable !== false);
+  if (!hideable.length) return null;
+  return (
+    <DropdownMenu.Root>
+      <DropdownMenu.Trigger asChild>
+        <button className="btn btn-secondary btn-sm gap-1" aria-label="Elegir columnas">
+          <Columns3 size={13} /> Columnas
+        </button>
+      </DropdownMenu.Trigger>
+      <DropdownMenu.Portal>
+        <DropdownMenu.Content align="end" sideOffset={6} className="menu-content">
+          <DropdownMenu.Label className="menu-label">Columnas visibles</DropdownMenu.Label>
+          {hideable.map((c) => (
+            <DropdownMenu.CheckboxItem
+              key={c.key}
+              className="menu-item"
+              checked={!hidden.has(c.key)}
+              onCheckedChange={() => onToggle(c.key)}
+              onSelect={(e) => e.preventDefault()}
+            >
+              <span className="w-4 inline-flex justify-center">
+                <DropdownMenu.ItemIndicator><Check size={13} /></DropdownMenu.ItemIndicator>
+              </span>
+              {headerText(c.header, c.key)}
+            </DropdownMenu.CheckboxItem>
+          ))}
+          <DropdownMenu.Separator className="menu-separator" />
+          <DropdownMenu.Item className="menu-item" onSelect={onReset}>
+            <RotateCcw size={13} /> Restablecer
+          </DropdownMenu.Item>
+        </DropdownMenu.Content>
+      </DropdownMenu.Portal>
+    </DropdownMenu.Root>
+  );
+}
+
+export function DataTable<T>({
+  id, columns, data, list, rowKey, loading, fetching, searchPlaceholder, toolbar, actions, empty, maxHeight, bulkActions,
+}: DataTableProps<T>) {
+  const params = list?.params;
+  const [search, setSearch] = useState(params?.q ?? '');
+  const [localSort, setLocalSort] = useState<{ key: string; dir: SortDirection } | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // ── Columnas guardadas por usuario ──────────────────────────
+  const userId = useAuthStore((s) => s.user?.id ?? 'anon');
+  const layoutKey = `${userId}:${id}`;
+  const saved = useTableLayoutStore((s) => s.layouts[layoutKey]);
+  const setHidden = useTableLayoutStore((s) => s.setHidden);
+  const resetLayout = useTableLayoutStore((s) => s.reset);
+  const hidden = new Set(saved?.hidden ?? columns.filter((c) => c.defaultHidden).map((c) => c.key));
+  const visibles = columns.filter((c) => !hidden.has(c.key));
+
+  const toggleColumn = (key: string) => {
+    const next = new Set(hidden);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setHidden(layoutKey, [...next]);
+  };
+
+  // La URL se actualiza cuando el usuario deja de escribir
+  const urlQ = params?.q ?? '';
+  const setListSearch = list?.setSearch;
+  useEffect(() => {
+    if (!setListSearch || search.trim() === urlQ) return;
+    const timer = setTimeout(() => setListSearch(search), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search, urlQ, setListSearch]);
+
+  // Y al revés: atrás/adelante o limpiar filtros cambian `q` en la URL y el campo lo refleja.
+  // No se pisa lo que se está escribiendo si solo difiere en espacios al final
+  const [urlQPrevia, setUrlQPrevia] = useState(urlQ);
+  if (urlQ !== urlQPrevia) {
+    setUrlQPrevia(urlQ);
+    if (urlQ !== search.trim()) setSearch(urlQ);
+  }
+
+  // ── Datos: paginados en el servidor u ordenados aquí ────────
+  const paginated = data && !Array.isArray(data) ? data : undefined;
+  let items: T[] = paginated ? paginated.items : (data as T[] | undefined) ?? [];
+  if (!paginated && localSort) {
+    const col = columns.find((c) => c.key === localSort.key);
+    if (col?.sortValue) {
+      const factor = localSort.dir === 'asc' ? 1 : -1;
+      items = [...items].sort((a, b) => factor * compare(col.sortValue!(a), col.sortValue!(b)));
+    }
+  }
+
+  const sortState = (c: DataTableColumn<T>): SortDirection | null | undefined => {
+    if (paginated || list) return c.sortField ? (params?.sort === c.sortField ? params.dir ?? 'asc' : null) : undefined;
+    return c.sortValue ? (localSort?.key === c.key ? localSort.dir : null) : undefined;
+  };
+
+  const toggleSort = (c: DataTableColumn<T>) => {
+    if (list && c.sortField) {
+      list.toggleSort(c.sortField);
+      return;
+    }
+    setLocalSort((s) => ({ key: c.key, dir: s?.key === c.key && s.dir === 'asc' ? 'desc' : 'asc' }));
+  };
+
+  // ── Selección ───────────────────────────────────────────────
+  const selectable = !!bulkActions;
+  const selectedRows = items.filter((r) => selected.has(rowKey(r)));
+  const allSelected = items.length > 0 && selectedRows.length === items.length;
+  const clearSelection = () => setSelected(new Set());
+  const toggleRow = (key: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(items.map(rowKey)));
+
+  // ── Paginación ──────────────────────────────────────────────
+  const total = paginated?.total ?? 0;
+  const pageSize = params?.pageSize ?? 0;
+  const page = params?.page ?? 1;
+  const pages = paginated ? totalPages(total, pageSize) : 1;
+  const desde = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const hasta = Math.min(total, page * pageSize);
+  const hayMas = paginated?.nextCursor ? true : page < pages;
+
+  const primary = visibles.find((c) => c.primary) ?? visibles[0];
+
+  return (
+    <div className="space-y-3">
+      {/* Barra de herramientas */}
+      <div className="flex items-center gap-3 flex-wrap">
+        {searchPlaceholder && list && (
+          <div className="relative flex-1 max-w-sm">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--color-tx-secondary)]" />
+            <input
+              type="search"
+              className="input pl-9"
+              placeholder={searchPlaceholder}
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+        )}
+        {toolbar}
+        {fetching && !loading && <Loader2 size={14} className="animate-spin text-[var(--color-tx-secondary)]" />}
+        <div className="ml-auto flex items-center gap-2">
+          {selectable && selectedRows.length > 0 && (
+            <>
+              <span className="text-xs text-[var(--color-tx-secondary)]">{selectedRows.length} seleccionados</span>
+              {bulkActions(selectedRows, clearSelection)}
+            </>
+          )}
+          {actions}
+          <ColumnChooser
+            columns={columns}
+            hidden={hidden}
+            onToggle={toggleColumn}
+            onReset={() => resetLayout(layoutKey)}
+          />
+        </div>
+      </div>
+
+      {loading ? (
+        <TableSkeleton rows={6} cols={Math.min(visibles.length, 6)} />
+      ) : items.length === 0 ? (
+        empty ?? <EmptyState title="Sin resultados" description="No hay registros que coincidan con la búsqueda." />
+      ) : (
+        <>
+          {/* Tabla (escritorio) */}
+          <div
+            className={cn('table-wrap hidden md:block', maxHeight != null && 'table-sticky')}
+            style={maxHeight != null ? { maxHeight } : undefined}
+          >
+            <table className={cn('table', fetching && 'opacity-60')}>
+              <thead>
+                <tr>
+                  {selectable && (
+                    <th className="w-8">
+                      <input type="checkbox" checked={allSelected} onChange={toggleAll} aria-label="Seleccionar todo" />
+                    </th>
+                  )}
+                  {visibles.map((c) => {
+                    const dir = sortState(c);
+                    return (
+                      <th key={c.key} className={c.className}>
+                        {dir !== undefined ? (
+                          <button
+                            className="inline-flex items-center gap-1 uppercase hover:text-[var(--color-tx-primary)]"
+                            onClick={() => toggleSort(c)}
+                          >
+                            {c.header}
+                            {dir === null
+                              ? <ArrowUpDown size={11} className="opacity-40" />
+                              : dir === 'desc' ? <ArrowDown size={11} /> : <ArrowUp size={11} />}
+                          </button>
+                        ) : c.header}
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((row) => {
+                  const key = rowKey(row);
+                  return (
+                    <tr key={key} className={cn(selected.has(key) && 'selected')}>
+                      {selectable && (
+                        <td className="w-8">
+                          <input type="checkbox" checked={selected.has(key)} onChange={() => toggleRow(key)} aria-label="Seleccionar fila" />
+                        </td>
+                      )}
+                      {visibles.map((c) => (
+                        <td key={c.key} className={c.className}>{c.render(row)}</td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Tarjetas (móvil) */}
+          <div className={cn('md:hidden space-y-2', fetching && 'opacity-60')}>
+            {items.map((row) => {
+              const key = rowKey(row);
+              return (
+                <div key={key} className={cn('card p-4 space-y-2', selected.has(key) && 'ring-1 ring-[#00D084]')}>
+                  <div className="flex items-center gap-2">
+                    {selectable && (
+                      <input type="checkbox" checked={selected.has(key)} onChange={() => toggleRow(key)} aria-label="Seleccionar fila" />
+                    )}
+                    <div className="font-semibold text-sm text-[var(--color-tx-primary)] min-w-0">{primary?.render(row)}</div>
+                  </div>
+                  <dl className="grid grid-cols-2 gap-x-3 gap-y-1.5">
+                    {visibles.filter((c) => c !== primary && headerText(c.header, '')).map((c) => (
+                      <div key={c.key} className="min-w-0">
+                        <dt className="text-[10px] uppercase tracking-wider text-[var(--color-tx-secondary)]">{c.header}</dt>
+                        <dd className="text-xs text-[var(--color-tx-primary)] truncate">{c.render(row)}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                  {/* Columnas sin título (acciones) al pie de la tarjeta */}
+                  {visibles.some((c) => c !== primary && !headerText(c.header, '')) && (
+                    <div className="flex justify-end gap-1 pt-1">
+                      {visibles.filter((c) => c !== primary && !headerText(c.header, '')).map((c) => (
+                        <div key={c.key}>{c.render(row)}</div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+
+      {/* Paginación */}
+      {list && paginated && !loading && total > 0 && (
+        <div className="flex items-center justify-between gap-3 flex-wrap text-xs text-[var(--color-tx-secondary)]">
+          <span className="tabular-nums">
+            {desde.toLocaleString('es-CO')}–{hasta.toLocaleString('es-CO')} de {total.toLocaleString('es-CO')}
+          </span>
+          <div className="flex items-center gap-2">
+            <select
+              className="input py-1 h-8 w-auto"
+              value={pageSize}
+              onChange={(e) => list.setPageSize(Number(e.target.value))}
+              aria-label="Filas por página"
+            >
+              {PAGE_SIZES.map((n) => <option key={n} value={n}>{n} / pág.</option>)}
+            </select>
+            <button
+              className="btn btn-ghost btn-sm"
+              onClick={() => list.setPage(page - 1)}
+              disabled={page <= 1}
+              aria-label="Página anterior"
+            >
+              <ChevronLeft size={14} />
+            </button>
+            <span className="tabular-nums">{page} / {pages}</span>
+            <button
+              className="btn btn-ghost btn-sm"
+              onClick={() => list.setPage(page + 1, paginated.nextCursor)}
+              disabled={!hayMas}
+              aria-label="Página siguiente"
+            >
+              <ChevronRight size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
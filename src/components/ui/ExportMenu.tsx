@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
+import { Download, FileSpreadsheet, FileText, Loader2 } from 'lucide-react';
+import { exportRows, type ExportColumn, type FormatoExport } from '@/lib/export';
+import { toast } from '@/lib/toast';
+
+interface ExportMenuProps<T> {
+  // Base del nombre del archivo; se le agrega la fecha
+  fileName: string;
+  columns: ExportColumn<T>[];
+  fetchRows: () => Promise<T[]>;
+}
+
+export function ExportMenu<T>({ fileName, columns, fetchRows }: ExportMenuProps<T>) {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (formato: FormatoExport) => {
+    setExporting(true);
+    try {
+      const rows = await fetchRows();
+      if (!rows.length) {
+        toast.info('No hay registros para exportar');
+        return;
+      }
+      await exportRows(rows, columns, formato, fileName);
+      toast.success(`${rows.length} registros exportados`);
+    } catch {
+      toast.error('No se pudo generar el archivo');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu.Root>
+      <DropdownMenu.Trigger asChild>
+        <button className="btn btn-secondary btn-sm gap-1" disabled={exporting}>
+          {exporting ? <Loader2 size={13} className="animate-spin" /> : <Download size={13} />}
+          Exportar
+        </button>
+      </DropdownMenu.Trigger>
+      <DropdownMenu.Portal>
+        <DropdownMenu.Content align="end" sideOffset={6} className="menu-content">
+          <DropdownMenu.Label className="menu-label">Con los filtros actuales</DropdownMenu.Label>
+          <DropdownMenu.Item className="menu-item" onSelect={() => handleExport('xlsx')}>
+            <FileSpreadsheet size={13} /> Excel (.xlsx)
+          </DropdownMenu.Item>
+          <DropdownMenu.Item className="menu-item" onSelect={() => handleExport('csv')}>
+            <FileText size={13} /> CSV
+          </DropdownMenu.Item>
+        </DropdownMenu.Content>
+      </DropdownMenu.Portal>
+    </DropdownMenu.Root>
+  );
+}
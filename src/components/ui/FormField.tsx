@@ -41,7 +41,7 @@ export const Input = forwardRef<
 Input.displayName = 'Input';
 
 // ─── Select ─────────────────────────────────────────────
-interface SelectOption { value: string; label: string; }
+interface SelectOption { value: string; label: string; disabled?: boolean; }
 
 export const Select = forwardRef<
   HTMLSelectElement,
@@ -55,7 +55,7 @@ export const Select = forwardRef<
     >
       {placeholder && <option value="">{placeholder}</option>}
       {options.map((o) => (
-        <option key={o.value} value={o.value}>{o.label}</option>
+        <option key={o.value} value={o.value} disabled={o.disabled}>{o.label}</option>
       ))}
     </select>
     <div className="pointer-events-none absolute inset-y-0 right-3 flex items-center">
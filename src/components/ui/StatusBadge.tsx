@@ -1,5 +1,5 @@
 import { cn } from '@/lib/cn';
-import type { PedidoEstado, EstadoEntrega } from '@/types';
+import type { PedidoEstado, EstadoEntrega, EstadoPago } from '@/types';
 
 const estadoConfig: Record<PedidoEstado, { label: string; className: string }> = {
   REGISTRADO:         { label: 'Registrado',        className: 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400' },
@@ -18,17 +18,27 @@ const entregaConfig: Record<EstadoEntrega, { label: string; className: string }>
   ENTREGADO:          { label: 'Entregado',           className: 'bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-400' },
 };
 
+const pagoConfig: Record<EstadoPago, { label: string; className: string }> = {
+  PENDIENTE: { label: 'Por pagar', className: 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400' },
+  PARCIAL:   { label: 'Abonada',   className: 'bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400' },
+  PAGADA:    { label: 'Pagada',    className: 'bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-400' },
+  VENCIDA:   { label: 'Vencida',   className: 'bg-red-50 text-red-600 dark:bg-red-900/30 dark:text-red-400' },
+};
+
 interface StatusBadgeProps {
   estado?: PedidoEstado;
   entrega?: EstadoEntrega;
+  pago?: EstadoPago;
   className?: string;
 }
 
-export function StatusBadge({ estado, entrega, className }: StatusBadgeProps) {
+export function StatusBadge({ estado, entrega, pago, className }: StatusBadgeProps) {
   const config = estado
     ? estadoConfig[estado]
     : entrega
     ? entregaConfig[entrega]
+    : pago
+    ? pagoConfig[pago]
     : null;
 
   if (!config) return null;
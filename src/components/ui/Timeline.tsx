@@ -5,6 +5,7 @@ export interface TimelineStep {
   id: string;
   label: string;
   description?: string;
+  content?: ReactNode;
   date?: string;
   status: 'completed' | 'active' | 'pending';
   icon?: ReactNode;
@@ -61,6 +62,7 @@ export function Timeline({ steps, className }: TimelineProps) {
               {step.description && (
                 <p className="text-xs text-[var(--color-tx-secondary)] mt-0.5">{step.description}</p>
               )}
+              {step.content && <div className="mt-2">{step.content}</div>}
             </div>
           </div>
         );
@@ -0,0 +1,151 @@
+import type { PedidoDetalle, PresentacionDetalle, Tostion, Trillado } from '@/types';
+
+export type EtapaRendimiento = 'trillado' | 'tostion';
+export type DimensionRendimiento = 'cliente' | 'variedad' | 'presentacion' | 'mes';
+
+// Una corrida finalizada, repartida por línea del pedido según sus kilos
+export interface ObservacionRendimiento {
+  etapa: EtapaRendimiento;
+  corridaId: string;
+  pedidoCode: string;
+  cliente: string;
+  variedad: string;
+  presentacion: PresentacionDetalle | null;
+  mes: string; // YYYY-MM
+  entrada: number;
+  salida: number;
+  // salida / entrada de la corrida completa, en %
+  rendimiento: number;
+}
+
+export interface BandasPercentil {
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface GrupoRendimiento extends BandasPercentil {
+  clave: string;
+  corridas: number;
+  kilosEntrada: number;
+  kilosSalida: number;
+  // Ponderado por kilos: salida total / entrada total
+  rendimiento: number;
+}
+
+export const SIN_VARIEDAD = 'Sin variedad';
+
+// Percentil con interpolación lineal sobre valores ya ordenados
+export function percentil(ordenados: number[], p: number): number {
+  if (!ordenados.length) return NaN;
+  const pos = (ordenados.length - 1) * p;
+  const base = Math.floor(pos);
+  const resto = pos - base;
+  const siguiente = ordenados[base + 1];
+  return siguiente !== undefined
+    ? ordenados[base] + resto * (siguiente - ordenados[base])
+    : ordenados[base];
+}
+
+export function bandasPercentil(valores: number[]): BandasPercentil {
+  const ordenados = [...valores].sort((a, b) => a - b);
+  return {
+    p10: percentil(ordenados, 0.1),
+    p25: percentil(ordenados, 0.25),
+    p50: percentil(ordenados, 0.5),
+    p75: percentil(ordenados, 0.75),
+    p90: percentil(ordenados, 0.9),
+  };
+}
+
+function mesDe(fecha: string): string {
+  return fecha.slice(0, 7);
+}
+
+function repartir(
+  base: Omit<ObservacionRendimiento, 'variedad' | 'presentacion' | 'entrada' | 'salida'>,
+  entrada: number,
+  salida: number,
+  detalles: PedidoDetalle[] | undefined,
+): ObservacionRendimiento[] {
+  const total = detalles?.reduce((s, d) => s + Number(d.kilos), 0) ?? 0;
+  if (!detalles?.length || total <= 0) {
+    return [{ ...base, variedad: SIN_VARIEDAD, presentacion: null, entrada, salida }];
+  }
+  return detalles.map((d) => {
+    const parte = Number(d.kilos) / total;
+    return {
+      ...base,
+      variedad: d.variedad?.trim() || SIN_VARIEDAD,
+      presentacion: d.presentacion,
+      entrada: entrada * parte,
+      salida: salida * parte,
+    };
+  });
+}
+
+export function observacionesRendimiento(trillados: Trillado[], tostiones: Tostion[]): ObservacionRendimiento[] {
+  // Tostión no trae los detalles del pedido: se toman del trillado del mismo pedido
+  const detallesPorPedido = new Map(trillados.map((t) => [t.pedido?.id, t.pedido?.detalles]));
+  const obs: ObservacionRendimiento[] = [];
+
+  for (const t of trillados) {
+    const entrada = Number(t.kilosEntrada);
+    const salida = Number(t.kilosSalida);
+    if (!t.fechaEntregaTostion || !entrada || t.kilosSalida == null) continue;
+    obs.push(...repartir({
+      etapa: 'trillado', corridaId: t.id, pedidoCode: t.pedido?.code, cliente: t.pedido?.client?.name ?? '—',
+      mes: mesDe(t.fechaEntregaTostion), rendimiento: (salida / entrada) * 100,
+    }, entrada, salida, t.pedido?.detalles));
+  }
+
+  for (const t of tostiones) {
+    const entrada = Number(t.kilosExcelso);
+    const salida = Number(t.kilosTostados);
+    if (!t.fechaEntregaProduccion || !entrada || t.kilosTostados == null) continue;
+    obs.push(...repartir({
+      etapa: 'tostion', corridaId: t.id, pedidoCode: t.pedido?.code, cliente: t.pedido?.client?.name ?? '—',
+      mes: mesDe(t.fechaEntregaProduccion), rendimiento: (salida / entrada) * 100,
+    }, entrada, salida, detallesPorPedido.get(t.pedido?.id)));
+  }
+
+  return obs;
+}
+
+function claveDe(o: ObservacionRendimiento, dimension: DimensionRendimiento): string {
+  switch (dimension) {
+    case 'cliente':      return o.cliente;
+    case 'variedad':     return o.variedad;
+    case 'presentacion': return o.presentacion ?? '—';
+    case 'mes':          return o.mes;
+  }
+}
+
+// Las bandas se calculan sobre el rendimiento de cada corrida (una vez por corrida, no por línea)
+export function agruparRendimiento(obs: ObservacionRendimiento[], dimension: DimensionRendimiento): GrupoRendimiento[] {
+  const grupos = new Map<string, ObservacionRendimiento[]>();
+  for (const o of obs) {
+    const k = claveDe(o, dimension);
+    grupos.set(k, [...(grupos.get(k) ?? []), o]);
+  }
+
+  const resultado = [...grupos.entries()].map(([clave, items]): GrupoRendimiento => {
+    const porCorrida = new Map(items.map((o) => [o.corridaId, o.rendimiento]));
+    const kilosEntrada = items.reduce((s, o) => s + o.entrada, 0);
+    const kilosSalida = items.reduce((s, o) => s + o.salida, 0);
+    return {
+      clave,
+      corridas: porCorrida.size,
+      kilosEntrada,
+      kilosSalida,
+      rendimiento: kilosEntrada > 0 ? (kilosSalida / kilosEntrada) * 100 : 0,
+      ...bandasPercentil([...porCorrida.values()]),
+    };
+  });
+
+  return dimension === 'mes'
+    ? resultado.sort((a, b) => a.clave.localeCompare(b.clave))
+    : resultado.sort((a, b) => b.kilosEntrada - a.kilosEntrada);
+}
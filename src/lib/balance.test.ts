@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { balanceDePedido } from '@/lib/balance';
+import type { Pedido, Trillado } from '@/types';
+
+const pedido = { id: 'p1', kilos: 100, estado: 'TRILLADO' } as Pedido;
+
+const trillado = (kilos: Partial<Pick<Trillado, 'kilosEntrada' | 'kilosSalida'>>) =>
+  ({ id: 't1', pedido: { id: 'p1' }, createdAt: '2026-03-01T10:00:00Z', kilosEntrada: null, kilosSalida: null, ...kilos }) as Trillado;
+
+describe('balanceDePedido', () => {
+  it('un trillado iniciado sin kilos queda pendiente, no incompleto', () => {
+    const b = balanceDePedido(pedido, [trillado({})], [], []);
+    expect(b.traspasos.find((t) => t.id === 'trillado')?.estado).toBe('pendiente');
+    expect(b.estado).toBe('cuadrado');
+  });
+
+  it('un trillado finalizado compara sus kilos con el pedido', () => {
+    const b = balanceDePedido(pedido, [trillado({ kilosEntrada: 100, kilosSalida: 82 })], [], []);
+    expect(b.traspasos.find((t) => t.id === 'trillado')?.estado).toBe('ok');
+    expect(b.traspasos.find((t) => t.id === 'tostion')?.estado).toBe('pendiente');
+  });
+});
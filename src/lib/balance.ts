@@ -0,0 +1,138 @@
+import type { Pedido, Produccion, Tostion, Trillado } from '@/types';
+
+// Diferencia tolerada en un traspaso: lo que sea mayor entre el mínimo en kg y el porcentaje
+export const TOLERANCIA_KG = 0.5;
+export const TOLERANCIA_PCT = 0.5;
+
+export type EstadoTraspaso = 'ok' | 'descuadre' | 'sin_registro' | 'pendiente';
+export type EstadoBalance = 'cuadrado' | 'descuadre' | 'incompleto';
+
+// Paso de kilos entre dos etapas: lo que sale de una debe ser lo que entra a la siguiente
+export interface Traspaso {
+  id: 'registro' | 'trillado' | 'tostion' | 'produccion';
+  desde: string;
+  hacia: string;
+  salida: number | null;
+  entrada: number | null;
+  // entrada - salida; negativo = café que no llegó a la siguiente etapa
+  diferencia: number | null;
+  estado: EstadoTraspaso;
+}
+
+// Pérdida dentro de una etapa (merma de proceso, ya justificada en su módulo)
+export interface MermaEtapa {
+  etapa: 'trillado' | 'tostion';
+  entrada: number;
+  salida: number;
+  kilos: number;
+}
+
+export interface BalancePedido {
+  pedido: Pedido;
+  kilosDeclarados: number;
+  trillado: Trillado | null;
+  tostion: Tostion | null;
+  produccion: Produccion | null;
+  traspasos: Traspaso[];
+  mermas: MermaEtapa[];
+  // Suma de diferencias fuera de tolerancia, en valor absoluto
+  kilosSinExplicar: number;
+  estado: EstadoBalance;
+}
+
+function num(v: number | null | undefined): number | null {
+  return v == null || Number.isNaN(Number(v)) ? null : Number(v);
+}
+
+export function dentroDeTolerancia(salida: number, entrada: number): boolean {
+  const tolerancia = Math.max(TOLERANCIA_KG, (salida * TOLERANCIA_PCT) / 100);
+  return Math.abs(entrada - salida) <= tolerancia;
+}
+
+// `alcanzada` indica que el pedido ya pasó por la etapa destino (o una posterior)
+function traspaso(
+  id: Traspaso['id'], desde: string, hacia: string,
+  salida: number | null, entrada: number | null, alcanzada: boolean,
+): Traspaso {
+  if (salida != null && entrada != null) {
+    return {
+      id, desde, hacia, salida, entrada,
+      diferencia: entrada - salida,
+      estado: dentroDeTolerancia(salida, entrada) ? 'ok' : 'descuadre',
+    };
+  }
+  return { id, desde, hacia, salida, entrada, diferencia: null, estado: alcanzada ? 'sin_registro' : 'pendiente' };
+}
+
+// Registro más reciente del pedido (un pedido puede reprocesarse)
+export function ultimoDe<T extends { createdAt: string; pedido: { id: string } }>(rows: T[], pedidoId: string): T | null {
+  return rows
+    .filter((r) => r.pedido?.id === pedidoId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0] ?? null;
+}
+
+export function balanceDePedido(
+  pedido: Pedido,
+  trillados: Trillado[],
+  tostiones: Tostion[],
+  producciones: Produccion[],
+): BalancePedido {
+  const trillado   = ultimoDe(trillados, pedido.id);
+  const tostion    = ultimoDe(tostiones, pedido.id);
+  const produccion = ultimoDe(producciones, pedido.id);
+
+  const kilosDeclarados = Number(pedido.kilos ?? 0);
+  const kilosDetalles = pedido.detalles?.length
+    ? pedido.detalles.reduce((s, d) => s + Number(d.kilos), 0)
+    : null;
+
+  const trEntrada = num(trillado?.kilosEntrada);
+  const trSalida  = num(trillado?.kilosSalida);
+  const toEntrada = num(tostion?.kilosExcelso);
+  const toSalida  = num(tostion?.kilosTostados);
+  const prEntrada = num(produccion?.kilosRecibidos);
+
+  // Una etapa iniciada aún no tiene kilos: cuenta como alcanzada cuando los registra o cuando una posterior ya tiene registro
+  const trilladoAlcanzado = trEntrada != null || trSalida != null || !!tostion || !!produccion;
+  const tostionAlcanzada  = toEntrada != null || toSalida != null || !!produccion;
+
+  const traspasos: Traspaso[] = [
+    traspaso('registro', 'Pedido (declarado)', 'Detalle por presentación', kilosDeclarados, kilosDetalles, true),
+    traspaso('trillado', 'Pedido', 'Trillado', kilosDetalles ?? kilosDeclarados, trEntrada, trilladoAlcanzado),
+    traspaso('tostion', 'Trillado', 'Tostión', trSalida, toEntrada, tostionAlcanzada),
+    traspaso('produccion', 'Tostión', 'Producción', toSalida, prEntrada, prEntrada != null),
+  ];
+  // Pedidos antiguos sin detalle por presentación: no hay nada que comparar
+  if (kilosDetalles == null) traspasos.shift();
+
+  const mermas: MermaEtapa[] = [];
+  if (trEntrada != null && trSalida != null) {
+    mermas.push({ etapa: 'trillado', entrada: trEntrada, salida: trSalida, kilos: trEntrada - trSalida });
+  }
+  if (toEntrada != null && toSalida != null) {
+    mermas.push({ etapa: 'tostion', entrada: toEntrada, salida: toSalida, kilos: toEntrada - toSalida });
+  }
+
+  const kilosSinExplicar = traspasos
+    .filter((t) => t.estado === 'descuadre')
+    .reduce((s, t) => s + Math.abs(t.diferencia ?? 0), 0);
+
+  const estado: EstadoBalance =
+    traspasos.some((t) => t.estado === 'descuadre') ? 'descuadre'
+    : traspasos.some((t) => t.estado === 'sin_registro') ? 'incompleto'
+    : 'cuadrado';
+
+  return { pedido, kilosDeclarados, trillado, tostion, produccion, traspasos, mermas, kilosSinExplicar, estado };
+}
+
+// Solo pedidos que ya entraron al proceso; los recién registrados no tienen nada que conciliar
+export function conciliarPedidos(
+  pedidos: Pedido[],
+  trillados: Trillado[],
+  tostiones: Tostion[],
+  producciones: Produccion[],
+): BalancePedido[] {
+  return pedidos
+    .filter((p) => p.estado !== 'REGISTRADO')
+    .map((p) => balanceDePedido(p, trillados, tostiones, producciones));
+}
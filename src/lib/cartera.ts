@@ -0,0 +1,143 @@
+import { addDays, hoyISO, parseISODate } from '@/lib/dates';
+import type { Cliente, EstadoPago, Factura, MetodoPago } from '@/types';
+
+// Plazo cuando el cliente no tiene uno pactado
+export const PLAZO_PAGO_DEFAULT = 30;
+
+export const ESTADO_PAGO_LABEL: Record<EstadoPago, string> = {
+  PENDIENTE: 'Por pagar',
+  PARCIAL:   'Abonada',
+  PAGADA:    'Pagada',
+  VENCIDA:   'Vencida',
+};
+
+export const METODO_PAGO_LABEL: Record<MetodoPago, string> = {
+  TRANSFERENCIA: 'Transferencia',
+  CONSIGNACION:  'Consignación',
+  EFECTIVO:      'Efectivo',
+  CHEQUE:        'Cheque',
+};
+
+export type TramoEdad = '0-30' | '31-60' | '61-90' | '90+';
+export const TRAMOS_EDAD: TramoEdad[] = ['0-30', '31-60', '61-90', '90+'];
+
+export function plazoDe(cliente: Pick<Cliente, 'plazoPagoDias'> | null | undefined): number {
+  return cliente?.plazoPagoDias ?? PLAZO_PAGO_DEFAULT;
+}
+
+export function vencimientoDe(f: Factura): string {
+  return f.fechaVencimiento?.slice(0, 10) ?? addDays(f.fecha, plazoDe(f.pedido?.client));
+}
+
+export function pagadoDe(f: Factura): number {
+  return (f.pagos ?? []).reduce((s, p) => s + Number(p.valor), 0);
+}
+
+export function saldoDe(f: Factura): number {
+  return Math.max(0, Number(f.valorTotal) - pagadoDe(f));
+}
+
+function diasEntre(desde: string, hasta: string): number {
+  return Math.round((parseISODate(hasta).getTime() - parseISODate(desde).getTime()) / 86_400_000);
+}
+
+// Se recalcula aquí para que VENCIDA no dependa de un proceso nocturno del backend
+export function estadoPagoDe(f: Factura, hoy = hoyISO()): EstadoPago {
+  if (saldoDe(f) <= 0) return 'PAGADA';
+  if (hoy > vencimientoDe(f)) return 'VENCIDA';
+  return pagadoDe(f) > 0 ? 'PARCIAL' : 'PENDIENTE';
+}
+
+export function diasVencida(f: Factura, hoy = hoyISO()): number {
+  return Math.max(0, diasEntre(vencimientoDe(f), hoy));
+}
+
+// La edad se mide desde la emisión de la factura, no desde el vencimiento
+export function tramoDe(f: Factura, hoy = hoyISO()): TramoEdad {
+  const dias = diasEntre(f.fecha.slice(0, 10), hoy);
+  if (dias <= 30) return '0-30';
+  if (dias <= 60) return '31-60';
+  if (dias <= 90) return '61-90';
+  return '90+';
+}
+
+export interface CarteraCliente {
+  clienteId: string;
+  cliente: string;
+  tramos: Record<TramoEdad, number>;
+  total: number;
+  vencido: number;
+  facturas: number;
+}
+
+const tramosVacios = (): Record<TramoEdad, number> => ({ '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 });
+
+// Saldo pendiente por cliente y tramo de edad, mayores deudores primero
+export function carteraPorEdades(facturas: Factura[], hoy = hoyISO()): CarteraCliente[] {
+  const porCliente = new Map<string, CarteraCliente>();
+  for (const f of facturas) {
+    const saldo = saldoDe(f);
+    if (saldo <= 0) continue;
+    const id = f.pedido?.client?.id ?? 'sin-cliente';
+    const fila = porCliente.get(id) ?? {
+      clienteId: id,
+      cliente: f.pedido?.client?.name ?? 'Sin cliente',
+      tramos: tramosVacios(),
+      total: 0,
+      vencido: 0,
+      facturas: 0,
+    };
+    fila.tramos[tramoDe(f, hoy)] += saldo;
+    fila.total += saldo;
+    if (estadoPagoDe(f, hoy) === 'VENCIDA') fila.vencido += saldo;
+    fila.facturas += 1;
+    porCliente.set(id, fila);
+  }
+  return [...porCliente.values()].sort((a, b) => b.total - a.total);
+}
+
+export function totalesCartera(filas: CarteraCliente[]) {
+  const tramos = tramosVacios();
+  for (const f of filas) for (const t of TRAMOS_EDAD) tramos[t] += f.tramos[t];
+  return {
+    tramos,
+    total: filas.reduce((s, f) => s + f.total, 0),
+    vencido: filas.reduce((s, f) => s + f.vencido, 0),
+  };
+}
+
+export interface MovimientoCuenta {
+  id: string;
+  fecha: string;
+  tipo: 'factura' | 'pago';
+  descripcion: string;
+  cargo: number;
+  abono: number;
+  saldo: number;
+}
+
+// Estado de cuenta: facturas como cargos y pagos como abonos, con saldo acumulado
+export function estadoDeCuenta(facturas: Factura[]): MovimientoCuenta[] {
+  const movimientos: Omit<MovimientoCuenta, 'saldo'>[] = [];
+  for (const f of facturas) {
+    movimientos.push({
+      id: f.id, fecha: f.fecha.slice(0, 10), tipo: 'factura',
+      descripcion: `Factura ${f.numero} · Pedido ${f.pedido?.code ?? ''}`,
+      cargo: Number(f.valorTotal), abono: 0,
+    });
+    for (const p of f.pagos ?? []) {
+      movimientos.push({
+        id: p.id, fecha: p.fecha.slice(0, 10), tipo: 'pago',
+        descripcion: `Pago ${METODO_PAGO_LABEL[p.metodo] ?? p.metodo}${p.referencia ? ` · ${p.referencia}` : ''} · Factura ${f.numero}`,
+        cargo: 0, abono: Number(p.valor),
+      });
+    }
+  }
+  // A igual fecha la factura va antes que sus pagos
+  movimientos.sort((a, b) => a.fecha.localeCompare(b.fecha) || (a.tipo === b.tipo ? 0 : a.tipo === 'factura' ? -1 : 1));
+  let saldo = 0;
+  return movimientos.map((m) => {
+    saldo += m.cargo - m.abono;
+    return { ...m, saldo };
+  });
+}
@@ -0,0 +1,135 @@
+import { useQuery } from '@tanstack/react-query';
+import { z } from 'zod';
+import { clientesService } from '@/services/pedidos.service';
+import { TIPOS_DOCUMENTO, claveDocumento, validarDocumento } from '@/lib/documento';
+import type { Cliente } from '@/types';
+
+// Esquema de todos los formularios de cliente (Clientes y alta rápida desde Maquilas)
+export const clienteSchema = z.object({
+  name:          z.string().min(2, 'Nombre requerido'),
+  tipoDocumento: z.enum(TIPOS_DOCUMENTO),
+  documentId:    z.string().min(1, 'Documento requerido'),
+  address:       z.string().optional(),
+  phone:         z.string().optional(),
+  email:         z.string().email('Email inválido'),
+  plazoPagoDias: z.coerce.number().int('Días enteros').min(0, 'Mínimo 0').optional().or(z.literal('')),
+}).superRefine((v, ctx) => {
+  const error = validarDocumento(v.tipoDocumento, v.documentId);
+  if (error) ctx.addIssue({ code: 'custom', path: ['documentId'], message: error });
+});
+
+export type ClienteFormValues = z.infer<typeof clienteSchema>;
+
+export type MotivoDuplicado = 'documento' | 'email' | 'nombre';
+
+export const MOTIVO_DUPLICADO_LABEL: Record<MotivoDuplicado, string> = {
+  documento: 'Mismo documento',
+  email:     'Mismo email',
+  nombre:    'Nombre similar',
+};
+
+// Directorio completo: la detección de duplicados compara contra todos los clientes, no solo la página visible
+export function useClientes() {
+  return useQuery({
+    queryKey: ['clientes'],
+    queryFn: () => clientesService.getAll(),
+    staleTime: 60_000,
+  });
+}
+
+// Formas societarias que no distinguen a un cliente de otro ("Café El Roble S.A.S." = "Cafe el Roble")
+const SUFIJOS_SOCIETARIOS = new Set(['sas', 'sa', 'ltda', 'limitada', 'eu', 'sca', 'cia']);
+
+export function normalizarNombre(nombre: string): string {
+  return nombre
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[.,]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t && !SUFIJOS_SOCIETARIOS.has(t))
+    .join(' ');
+}
+
+export function normalizarEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+type DatosCliente = Pick<Cliente, 'name' | 'documentId' | 'email'>;
+
+function clavesDe(c: DatosCliente): [MotivoDuplicado, string][] {
+  const claves: [MotivoDuplicado, string][] = [];
+  const doc = claveDocumento(c.documentId ?? '');
+  const email = normalizarEmail(c.email ?? '');
+  const nombre = normalizarNombre(c.name ?? '');
+  if (doc) claves.push(['documento', doc]);
+  if (email) claves.push(['email', email]);
+  if (nombre) claves.push(['nombre', nombre]);
+  return claves;
+}
+
+export interface CoincidenciaCliente {
+  cliente: Cliente;
+  motivos: MotivoDuplicado[];
+}
+
+// Clientes existentes que podrían ser el mismo que se está registrando o editando
+export function coincidenciasDe(datos: DatosCliente, clientes: Cliente[], excluirId?: string): CoincidenciaCliente[] {
+  const buscadas = new Map(clavesDe(datos).map(([motivo, valor]) => [motivo, valor]));
+  const out: CoincidenciaCliente[] = [];
+  for (const c of clientes) {
+    if (c.id === excluirId) continue;
+    const motivos = clavesDe(c).filter(([motivo, valor]) => buscadas.get(motivo) === valor).map(([motivo]) => motivo);
+    if (motivos.length > 0) out.push({ cliente: c, motivos });
+  }
+  // El documento pesa más que el nombre
+  return out.sort((a, b) => Number(b.motivos.includes('documento')) - Number(a.motivos.includes('documento')));
+}
+
+// El documento identifica al cliente: email o nombre repetidos solo se advierten, esto bloquea el guardado
+export function errorDocumentoRepetido(coincidencias: CoincidenciaCliente[]): string | null {
+  const mismoDocumento = coincidencias.find((m) => m.motivos.includes('documento'));
+  return mismoDocumento ? `Ya registrado para ${mismoDocumento.cliente.name}` : null;
+}
+
+export interface GrupoDuplicados {
+  clientes: Cliente[];
+  motivos: MotivoDuplicado[];
+}
+
+// Agrupa clientes que comparten documento, email o nombre normalizado; A~B y B~C quedan en el mismo grupo
+export function gruposDuplicados(clientes: Cliente[]): GrupoDuplicados[] {
+  const padre = clientes.map((_, i) => i);
+  const raiz = (i: number): number => (padre[i] === i ? i : (padre[i] = raiz(padre[i])));
+
+  const primeroPorClave = new Map<string, number>();
+  const motivosPorClave = new Map<string, MotivoDuplicado>();
+  const repetidas = new Set<string>();
+  clientes.forEach((c, i) => {
+    for (const [motivo, valor] of clavesDe(c)) {
+      const clave = `${motivo}:${valor}`;
+      const primero = primeroPorClave.get(clave);
+      if (primero == null) {
+        primeroPorClave.set(clave, i);
+        motivosPorClave.set(clave, motivo);
+      } else {
+        padre[raiz(i)] = raiz(primero);
+        repetidas.add(clave);
+      }
+    }
+  });
+
+  const grupos = new Map<number, GrupoDuplicados>();
+  clientes.forEach((c, i) => {
+    const r = raiz(i);
+    const g = grupos.get(r) ?? { clientes: [], motivos: [] };
+    g.clientes.push(c);
+    grupos.set(r, g);
+  });
+  for (const clave of repetidas) {
+    const g = grupos.get(raiz(primeroPorClave.get(clave)!))!;
+    const motivo = motivosPorClave.get(clave)!;
+    if (!g.motivos.includes(motivo)) g.motivos.push(motivo);
+  }
+  return [...grupos.values()].filter((g) => g.clientes.length > 1);
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { cierreDeRango, diaLocal } from '@/lib/dates';
+
+describe('cierreDeRango', () => {
+  const hoy = '2026-03-10';
+
+  it('cancela lo que empieza hoy o después', () => {
+    expect(cierreDeRango({ fechaInicio: '2026-03-10', fechaFin: '2026-03-10' }, hoy)).toBe('CANCELAR');
+    expect(cierreDeRango({ fechaInicio: '2026-03-12', fechaFin: null }, hoy)).toBe('CANCELAR');
+  });
+
+  it('finaliza lo que empezó antes y sigue después de hoy', () => {
+    expect(cierreDeRango({ fechaInicio: '2026-03-01', fechaFin: '2026-03-31' }, hoy)).toBe('FINALIZAR');
+    expect(cierreDeRango({ fechaInicio: '2026-03-01', fechaFin: null }, hoy)).toBe('FINALIZAR');
+  });
+
+  it('no corta lo que ya termina hoy', () => {
+    expect(cierreDeRango({ fechaInicio: '2026-03-04', fechaFin: '2026-03-10' }, hoy)).toBeNull();
+  });
+});
+
+describe('diaLocal', () => {
+  it('deja igual una fecha sin hora', () => {
+    expect(diaLocal('2026-03-10')).toBe('2026-03-10');
+  });
+
+  it('lleva un timestamp al día local', () => {
+    const ts = new Date(2026, 2, 10, 23, 30).toISOString();
+    expect(diaLocal(ts)).toBe('2026-03-10');
+  });
+});
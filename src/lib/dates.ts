@@ -0,0 +1,77 @@
+// Utilidades de fechas "YYYY-MM-DD" (sin hora) para asignaciones y vigencias
+
+export type Alcance = 'DIA' | 'SEMANA' | 'MES' | 'INDEFINIDO';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export function toISODate(d: Date): string {
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+// Fecha local de hoy (toISOString usa UTC y en la noche ya es "mañana")
+export function hoyISO(): string {
+  return toISODate(new Date());
+}
+
+// Día local de una fecha del API: los timestamps ("…T05:00:00Z") se convierten, las fechas solas se dejan igual
+export function diaLocal(fecha: string): string {
+  return fecha.length > 10 ? toISODate(new Date(fecha)) : fecha;
+}
+
+export function parseISODate(iso: string): Date {
+  const [y, m, d] = iso.slice(0, 10).split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+export function addDays(iso: string, days: number): string {
+  const d = parseISODate(iso);
+  d.setDate(d.getDate() + days);
+  return toISODate(d);
+}
+
+// Último día cubierto por una asignación que arranca en `inicio`
+export function finSegunAlcance(inicio: string, alcance: Alcance): string | null {
+  switch (alcance) {
+    case 'DIA':        return inicio.slice(0, 10);
+    case 'SEMANA':     return addDays(inicio, 6);
+    case 'MES': {
+      const d = parseISODate(inicio);
+      d.setMonth(d.getMonth() + 1, d.getDate() - 1);
+      return toISODate(d);
+    }
+    case 'INDEFINIDO': return null;
+  }
+}
+
+interface Rango {
+  fechaInicio: string;
+  fechaFin: string | null;
+}
+
+// Rangos inclusivos; fechaFin null = sin fecha de cierre
+export function rangesOverlap(a: Rango, b: Rango): boolean {
+  const aIni = a.fechaInicio.slice(0, 10);
+  const bIni = b.fechaInicio.slice(0, 10);
+  const aFin = a.fechaFin?.slice(0, 10) ?? null;
+  const bFin = b.fechaFin?.slice(0, 10) ?? null;
+  return (aFin === null || bIni <= aFin) && (bFin === null || aIni <= bFin);
+}
+
+export function isVigente(r: Rango, fecha = hoyISO()): boolean {
+  return rangesOverlap(r, { fechaInicio: fecha, fechaFin: fecha });
+}
+
+// Vigente hoy o programada a futuro
+export function isActualOFutura(r: Rango, fecha = hoyISO()): boolean {
+  return r.fechaFin === null || r.fechaFin.slice(0, 10) >= fecha;
+}
+
+export type CierreRango = 'CANCELAR' | 'FINALIZAR';
+
+// Cómo se corta hoy un rango: lo que aún no empezó (o empieza hoy) se cancela; lo que sigue después de hoy
+// se finaliza con fecha de hoy; lo que termina hoy no tiene nada que cortar
+export function cierreDeRango(r: Rango, fecha = hoyISO()): CierreRango | null {
+  if (r.fechaInicio.slice(0, 10) >= fecha) return 'CANCELAR';
+  if (r.fechaFin === null || r.fechaFin.slice(0, 10) > fecha) return 'FINALIZAR';
+  return null;
+}
@@ -0,0 +1,79 @@
+import type { Ciudad, Factura, Pedido, RutaDespacho } from '@/types';
+
+export type EstadoRuta = 'PLANEADA' | 'EN_RUTA' | 'COMPLETADA';
+
+export const ESTADO_RUTA_LABEL: Record<EstadoRuta, string> = {
+  PLANEADA:   'Planeada',
+  EN_RUTA:    'En ruta',
+  COMPLETADA: 'Completada',
+};
+
+// Se deriva de las paradas: la ruta termina cuando todas tienen prueba de entrega
+export function estadoRutaDe(r: RutaDespacho): EstadoRuta {
+  const entregadas = r.paradas.filter((p) => p.entrega).length;
+  if (entregadas === 0) return 'PLANEADA';
+  return entregadas === r.paradas.length ? 'COMPLETADA' : 'EN_RUTA';
+}
+
+export function kilosDePedido(p: Pedido): number {
+  if (p.detalles && p.detalles.length > 0) {
+    return p.detalles.reduce((s, d) => s + Number(d.kilos), 0);
+  }
+  return Number(p.kilos ?? 0);
+}
+
+export interface PorDespachar {
+  factura: Factura;
+  // Puede faltar si el pedido no está en caché; la factura solo trae código y cliente
+  pedido: Pedido | null;
+  diaEntrega: string | null;
+  ciudad: Ciudad | null;
+  kilos: number;
+}
+
+// Facturas listas para entrega que no van en ninguna hoja de ruta. Una parada ya entregada
+// cuya factura sigue LISTO_PARA_ENTREGA (falló el cambio de estado) tampoco vuelve a despacho
+export function porDespachar(facturas: Factura[], pedidos: Pedido[], rutas: RutaDespacho[]): PorDespachar[] {
+  const enRuta = new Set(rutas.flatMap((r) => r.paradas.map((p) => p.factura.id)));
+  const pedidoPorId = new Map(pedidos.map((p) => [p.id, p]));
+  return facturas
+    .filter((f) => f.estadoEntrega === 'LISTO_PARA_ENTREGA' && !enRuta.has(f.id))
+    .map((f) => {
+      const pedido = pedidoPorId.get(f.pedido?.id) ?? null;
+      return {
+        factura: f,
+        pedido,
+        diaEntrega: pedido?.diaEntrega?.slice(0, 10) ?? null,
+        ciudad: pedido?.client?.ciudad ?? f.pedido?.client?.ciudad ?? null,
+        kilos: pedido ? kilosDePedido(pedido) : 0,
+      };
+    });
+}
+
+export interface GrupoDespacho {
+  clave: string;
+  diaEntrega: string | null;
+  departamento: string;
+  items: PorDespachar[];
+  kilos: number;
+}
+
+// Un grupo por día de entrega y departamento; dentro, por ciudad y cliente para armar la ruta en orden
+export function agruparDespacho(items: PorDespachar[]): GrupoDespacho[] {
+  const grupos = new Map<string, GrupoDespacho>();
+  for (const it of items) {
+    const departamento = it.ciudad?.departamento ?? 'Sin ciudad';
+    const clave = `${it.diaEntrega ?? 'sin-fecha'}|${departamento}`;
+    const g = grupos.get(clave) ?? { clave, diaEntrega: it.diaEntrega, departamento, items: [], kilos: 0 };
+    g.items.push(it);
+    g.kilos += it.kilos;
+    grupos.set(clave, g);
+  }
+  const porCiudad = (a: PorDespachar, b: PorDespachar) =>
+    (a.ciudad?.nombre ?? '').localeCompare(b.ciudad?.nombre ?? '')
+    || (a.factura.pedido?.client?.name ?? '').localeCompare(b.factura.pedido?.client?.name ?? '');
+  return [...grupos.values()]
+    .map((g) => ({ ...g, items: [...g.items].sort(porCiudad) }))
+    // Sin fecha al final
+    .sort((a, b) => (a.diaEntrega ?? '9999').localeCompare(b.diaEntrega ?? '9999') || a.departamento.localeCompare(b.departamento));
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { calcularDV, claveDocumento, normalizarDocumento, validarDocumento } from '@/lib/documento';
+
+describe('calcularDV', () => {
+  it.each([
+    ['800197268', 4],
+    ['890903938', 8],
+    ['860034313', 7],
+  ])('NIT %s → %i', (nit, dv) => {
+    expect(calcularDV(nit)).toBe(dv);
+  });
+
+  it('ignora puntos y espacios', () => {
+    expect(calcularDV('800.197 268')).toBe(4);
+  });
+});
+
+describe('validarDocumento', () => {
+  it('exige un valor', () => {
+    expect(validarDocumento('NIT', '  ')).toBe('Documento requerido');
+  });
+
+  describe('NIT', () => {
+    it.each(['800197268-4', '800.197.268-4', '800197268', '1234567'])('acepta %s', (v) => {
+      expect(validarDocumento('NIT', v)).toBeNull();
+    });
+
+    it('acepta bases de 6 dígitos (cédulas antiguas)', () => {
+      expect(validarDocumento('NIT', `123456-${calcularDV('123456')}`)).toBeNull();
+    });
+
+    it('rechaza un DV incorrecto', () => {
+      expect(validarDocumento('NIT', '800197268-5')).toBe('Dígito de verificación incorrecto (debe ser 4)');
+    });
+
+    it('rechaza bases de longitud fuera de rango', () => {
+      expect(validarDocumento('NIT', '12345')).toBe('El NIT debe tener entre 6 y 15 dígitos sin el DV');
+      expect(validarDocumento('NIT', '1234567890123456')).toBe('El NIT debe tener entre 6 y 15 dígitos sin el DV');
+    });
+
+    it('rechaza letras', () => {
+      expect(validarDocumento('NIT', '80019A268')).toBe('NIT inválido: solo dígitos, puntos y el DV tras el guion');
+    });
+  });
+
+  describe('CC', () => {
+    it('acepta entre 6 y 10 dígitos con puntos', () => {
+      expect(validarDocumento('CC', '1.020.304.050')).toBeNull();
+      expect(validarDocumento('CC', '123456')).toBeNull();
+    });
+
+    it('rechaza longitudes fuera de rango', () => {
+      expect(validarDocumento('CC', '12345')).toBe('La cédula debe tener entre 6 y 10 dígitos');
+      expect(validarDocumento('CC', '12345678901')).toBe('La cédula debe tener entre 6 y 10 dígitos');
+    });
+
+    it('rechaza caracteres no numéricos', () => {
+      expect(validarDocumento('CC', '1020-304')).toBe('La cédula solo lleva dígitos');
+    });
+  });
+
+  describe('CE', () => {
+    it('acepta entre 6 y 10 dígitos', () => {
+      expect(validarDocumento('CE', '123456')).toBeNull();
+    });
+
+    it('rechaza longitudes fuera de rango', () => {
+      expect(validarDocumento('CE', '1234')).toBe('La cédula de extranjería debe tener entre 6 y 10 dígitos');
+    });
+
+    it('rechaza caracteres no numéricos', () => {
+      expect(validarDocumento('CE', 'E123456')).toBe('La cédula de extranjería solo lleva dígitos');
+    });
+  });
+
+  describe('PASAPORTE', () => {
+    it('acepta letras y dígitos', () => {
+      expect(validarDocumento('PASAPORTE', 'ab 123456')).toBeNull();
+    });
+
+    it('rechaza longitudes fuera de rango', () => {
+      expect(validarDocumento('PASAPORTE', 'AB12')).toBe('Pasaporte inválido: entre 5 y 20 letras o dígitos');
+      expect(validarDocumento('PASAPORTE', 'A'.repeat(21))).toBe('Pasaporte inválido: entre 5 y 20 letras o dígitos');
+    });
+  });
+});
+
+describe('normalizarDocumento', () => {
+  it('NIT: quita puntos y espacios y recalcula el DV', () => {
+    expect(normalizarDocumento('NIT', ' 800.197.268 - 4 ')).toBe('800197268-4');
+    expect(normalizarDocumento('NIT', '800 197 268')).toBe('800197268-4');
+    expect(normalizarDocumento('NIT', '800197268-9')).toBe('800197268-4');
+  });
+
+  it('cédulas: solo dígitos', () => {
+    expect(normalizarDocumento('CC', '1.020.304.050')).toBe('1020304050');
+    expect(normalizarDocumento('CE', ' 123 456 ')).toBe('123456');
+  });
+
+  it('pasaporte: alfanumérico en mayúsculas', () => {
+    expect(normalizarDocumento('PASAPORTE', 'ab-123 456')).toBe('AB123456');
+  });
+
+  it('NIT vacío queda vacío', () => {
+    expect(normalizarDocumento('NIT', ' - ')).toBe('');
+  });
+});
+
+describe('claveDocumento', () => {
+  it('ignora puntos, espacios y DV', () => {
+    expect(claveDocumento('800.197.268-4')).toBe('800197268');
+    expect(claveDocumento('800 197 268')).toBe('800197268');
+  });
+
+  it('compara pasaportes sin distinguir mayúsculas', () => {
+    expect(claveDocumento('ab123456')).toBe(claveDocumento('AB 123456'));
+  });
+});
@@ -0,0 +1,111 @@
+import type { Cliente, TipoDocumento } from '@/types';
+
+export const TIPOS_DOCUMENTO = ['NIT', 'CC', 'CE', 'PASAPORTE'] as const satisfies readonly TipoDocumento[];
+
+export const TIPO_DOCUMENTO_LABEL: Record<TipoDocumento, string> = {
+  NIT:       'NIT',
+  CC:        'Cédula de ciudadanía',
+  CE:        'Cédula de extranjería',
+  PASAPORTE: 'Pasaporte',
+};
+
+export const TIPO_DOCUMENTO_OPTIONS = TIPOS_DOCUMENTO.map((t) => ({ value: t, label: TIPO_DOCUMENTO_LABEL[t] }));
+
+export const DOCUMENTO_PLACEHOLDER: Record<TipoDocumento, string> = {
+  NIT:       '800.197.268-4',
+  CC:        '1.020.304.050',
+  CE:        '123456',
+  PASAPORTE: 'AB123456',
+};
+
+// Pesos de la DIAN (Orden 0030 de 1994) aplicados desde el dígito menos significativo del NIT
+const PESOS_DV = [3, 7, 13, 17, 19, 23, 29, 37, 41, 43, 47, 53, 59, 67, 71];
+
+export function calcularDV(nit: string): number {
+  const digitos = nit.replace(/\D/g, '');
+  let suma = 0;
+  for (let i = 0; i < digitos.length; i++) {
+    suma += Number(digitos[digitos.length - 1 - i]) * PESOS_DV[i];
+  }
+  const residuo = suma % 11;
+  return residuo > 1 ? 11 - residuo : residuo;
+}
+
+// Separa base y DV; se acepta "900.123.456-7", "900123456-7" y "900123456" (sin DV)
+function partesNit(valor: string): { base: string; dv: string | null } {
+  const [base, dv] = valor.split('-');
+  return { base: base.replace(/\D/g, ''), dv: dv != null ? dv.replace(/\D/g, '') : null };
+}
+
+// Forma en que se guarda: NIT como "900123456-7" (con el DV calculado), cédulas solo dígitos, pasaporte en mayúsculas
+export function normalizarDocumento(tipo: TipoDocumento, valor: string): string {
+  const v = valor.trim();
+  switch (tipo) {
+    case 'NIT': {
+      const { base } = partesNit(v);
+      return base ? `${base}-${calcularDV(base)}` : '';
+    }
+    case 'CC':
+    case 'CE':
+      return v.replace(/\D/g, '');
+    case 'PASAPORTE':
+      return v.replace(/[^0-9a-z]/gi, '').toUpperCase();
+  }
+}
+
+// DV que se muestra mientras se escribe el NIT, para compararlo con el RUT del cliente
+export function dvSugerido(tipo: TipoDocumento | undefined, valor: string | undefined): number | null {
+  if (tipo !== 'NIT') return null;
+  const { base } = partesNit(valor ?? '');
+  return base.length >= 6 && base.length <= PESOS_DV.length ? calcularDV(base) : null;
+}
+
+// Mensaje de error o null si el documento es válido para el tipo
+export function validarDocumento(tipo: TipoDocumento, valor: string): string | null {
+  const v = valor.trim();
+  if (!v) return 'Documento requerido';
+  switch (tipo) {
+    case 'NIT': {
+      if (!/^[\d.\s]+(-\s*\d)?$/.test(v)) return 'NIT inválido: solo dígitos, puntos y el DV tras el guion';
+      const { base, dv } = partesNit(v);
+      // Persona natural: el NIT es la cédula, que en las antiguas tiene 6 o 7 dígitos
+      if (base.length < 6 || base.length > PESOS_DV.length) return 'El NIT debe tener entre 6 y 15 dígitos sin el DV';
+      if (dv != null && Number(dv) !== calcularDV(base)) return `Dígito de verificación incorrecto (debe ser ${calcularDV(base)})`;
+      return null;
+    }
+    case 'CC':
+      if (!/^[\d.\s]+$/.test(v)) return 'La cédula solo lleva dígitos';
+      return /^\d{6,10}$/.test(v.replace(/\D/g, '')) ? null : 'La cédula debe tener entre 6 y 10 dígitos';
+    case 'CE':
+      if (!/^[\d.\s]+$/.test(v)) return 'La cédula de extranjería solo lleva dígitos';
+      return /^\d{6,10}$/.test(v.replace(/\D/g, '')) ? null : 'La cédula de extranjería debe tener entre 6 y 10 dígitos';
+    case 'PASAPORTE':
+      return /^[0-9A-Z]{5,20}$/.test(normalizarDocumento('PASAPORTE', v)) ? null : 'Pasaporte inválido: entre 5 y 20 letras o dígitos';
+  }
+}
+
+// Para mostrar: "900.123.456-7", "1.020.304.050"
+export function formatearDocumento(tipo: TipoDocumento, valor: string): string {
+  const miles = (d: string) => d.replace(/\B(?=(\d{3})+(?!\d))/g, '.');
+  switch (tipo) {
+    case 'NIT': {
+      const { base, dv } = partesNit(valor);
+      return dv ? `${miles(base)}-${dv}` : miles(base);
+    }
+    case 'CC':
+    case 'CE':
+      return miles(valor.replace(/\D/g, ''));
+    case 'PASAPORTE':
+      return valor;
+  }
+}
+
+// Clientes anteriores al campo: un DV tras guion delata un NIT
+export function tipoDocumentoDe(c: Pick<Cliente, 'tipoDocumento' | 'documentId'>): TipoDocumento {
+  return c.tipoDocumento ?? (/-\s*\d$/.test(c.documentId) ? 'NIT' : 'CC');
+}
+
+// Clave de comparación entre clientes: sin puntos, espacios ni DV ("900.123.456-7" = "900123456")
+export function claveDocumento(valor: string): string {
+  return valor.split('-')[0].replace(/[^0-9a-z]/gi, '').toUpperCase();
+}
@@ -0,0 +1,18 @@
+// Datos de la empresa para documentos impresos (factura, remisiones). Se fijan en el build vía .env
+export interface Empresa {
+  nombre: string;
+  nit: string;
+  direccion: string;
+  ciudad: string;
+  telefono: string;
+  email: string;
+}
+
+export const EMPRESA: Empresa = {
+  nombre:    import.meta.env.VITE_EMPRESA_NOMBRE ?? 'PIPE',
+  nit:       import.meta.env.VITE_EMPRESA_NIT ?? '',
+  direccion: import.meta.env.VITE_EMPRESA_DIRECCION ?? '',
+  ciudad:    import.meta.env.VITE_EMPRESA_CIUDAD ?? '',
+  telefono:  import.meta.env.VITE_EMPRESA_TELEFONO ?? '',
+  email:     import.meta.env.VITE_EMPRESA_EMAIL ?? '',
+};
@@ -0,0 +1,98 @@
+import { fmtMoney, fmtFecha } from '@/lib/format';
+import type { PageParams, Paginated } from '@/types';
+
+export type FormatoExport = 'csv' | 'xlsx';
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+  // 'fecha' recibe ISO (día "YYYY-MM-DD" o timestamp) y sale como fmtFecha; 'moneda' sale como número crudo + columna en COP
+  tipo?: 'texto' | 'numero' | 'fecha' | 'moneda';
+}
+
+const EXPORT_PAGE_SIZE = 500;
+
+// Recorre todas las páginas con los mismos filtros y orden que la tabla en pantalla
+export async function fetchAllPages<T>(
+  fetchPage: (params: PageParams) => Promise<Paginated<T>>,
+  params: PageParams,
+): Promise<T[]> {
+  const rows: T[] = [];
+  let page = 1;
+  let cursor: string | undefined;
+  for (;;) {
+    const res = await fetchPage({ ...params, page, pageSize: EXPORT_PAGE_SIZE, cursor });
+    rows.push(...res.items);
+    if (!res.items.length || (res.nextCursor == null && rows.length >= res.total)) break;
+    cursor = res.nextCursor ?? undefined;
+    page += 1;
+  }
+  return rows;
+}
+
+type Celda = string | number | null;
+
+function encabezados<T>(columns: ExportColumn<T>[]): string[] {
+  return columns.flatMap((c) => (c.tipo === 'moneda' ? [c.header, `${c.header} (COP)`] : [c.header]));
+}
+
+function celdas<T>(row: T, columns: ExportColumn<T>[]): Celda[] {
+  return columns.flatMap((c): Celda[] => {
+    const v = c.value(row);
+    if (c.tipo === 'moneda') {
+      const n = v == null || v === '' ? null : Number(v);
+      return [n, n == null ? null : fmtMoney(n)];
+    }
+    if (c.tipo === 'fecha') return [v ? fmtFecha(String(v)) : null];
+    if (c.tipo === 'numero') return [v == null || v === '' ? null : Number(v)];
+    return [v == null ? null : String(v)];
+  });
+}
+
+// Texto que Excel interpretaría como fórmula (=, +, -, @, tab, retorno): se antepone ' para que quede como texto.
+// Los números van sin prefijo, un negativo es un valor y no una fórmula
+const INICIO_FORMULA = /^[=+\-@\t\r]/;
+
+function csvEscape(v: Celda): string {
+  if (v == null) return '';
+  const s = typeof v === 'string' && INICIO_FORMULA.test(v) ? `'${v}` : String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function descargar(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // Algunos navegadores leen la URL después de click(): se libera en el siguiente tick
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+function nombreArchivo(base: string, formato: FormatoExport): string {
+  return `${base}-${new Date().toISOString().slice(0, 10)}.${formato}`;
+}
+
+export async function exportRows<T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  formato: FormatoExport,
+  fileName: string,
+): Promise<void> {
+  const header = encabezados(columns);
+  const body = rows.map((r) => celdas(r, columns));
+
+  if (formato === 'csv') {
+    const lines = [header, ...body].map((cols) => cols.map(csvEscape).join(','));
+    // BOM para que Excel abra el UTF-8 con tildes correctas
+    descargar(new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' }), nombreArchivo(fileName, 'csv'));
+    return;
+  }
+
+  // La librería de Excel solo se descarga cuando alguien exporta
+  const { default: writeExcelFile } = await import('write-excel-file/browser');
+  await writeExcelFile([
+    header.map((h) => ({ value: h, fontWeight: 'bold' as const })),
+    ...body,
+  ]).toFile(nombreArchivo(fileName, 'xlsx'));
+}
@@ -0,0 +1,204 @@
+import type { jsPDF } from 'jspdf';
+import { EMPRESA } from '@/lib/empresa';
+import { fmtFecha, fmtMoney } from '@/lib/format';
+import type { Factura, Pedido } from '@/types';
+
+const PRESENTACION_LABELS: Record<string, string> = {
+  CPS: 'CPS',
+  EXCELSO: 'Excelso',
+  HONEY: 'Honey',
+  NATURAL: 'Natural',
+};
+
+// A4 en milímetros
+const MARGEN = 18;
+const ANCHO = 210;
+const VERDE: [number, number, number] = [0, 208, 132];
+const GRIS: [number, number, number] = [107, 114, 128];
+
+interface Linea {
+  presentacion: string;
+  variedad: string;
+  kilos: number;
+  // Solo en facturas con desglose
+  precioKg?: number;
+  descuentoPct?: number;
+  subtotal?: number;
+}
+
+function lineasDe(factura: Factura, pedido: Pedido | null): Linea[] {
+  if (factura.lineas?.length) {
+    return factura.lineas.map((l) => ({
+      presentacion: PRESENTACION_LABELS[l.presentacion] ?? l.presentacion,
+      variedad: l.variedad || '—',
+      kilos: Number(l.kilos),
+      precioKg: Number(l.precioKg),
+      descuentoPct: Number(l.descuentoPct),
+      subtotal: Number(l.subtotal),
+    }));
+  }
+  if (!pedido) return [];
+  if (pedido.detalles?.length) {
+    return pedido.detalles.map((d) => ({
+      presentacion: PRESENTACION_LABELS[d.presentacion] ?? d.presentacion,
+      variedad: d.variedad || '—',
+      kilos: Number(d.kilos),
+    }));
+  }
+  // Pedidos antiguos sin detalle: una sola línea con la presentación del pedido
+  return [{
+    presentacion: PRESENTACION_LABELS[pedido.presentacion ?? ''] ?? pedido.presentacion ?? '—',
+    variedad: '—',
+    kilos: Number(pedido.kilos ?? 0),
+  }];
+}
+
+// Se arma en el navegador (jsPDF + QR) para que funcione sin conexión. Sin el pedido completo
+// (offline y fuera de caché) la factura sale sin el detalle de líneas
+export async function facturaPdf(factura: Factura, pedido: Pedido | null): Promise<jsPDF> {
+  const [{ jsPDF }, QRCode] = await Promise.all([import('jspdf'), import('qrcode')]);
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const derecha = ANCHO - MARGEN;
+  const cliente = pedido?.client ?? factura.pedido?.client;
+  const codigo = pedido?.code ?? factura.pedido?.code ?? '';
+
+  // ── Encabezado: empresa y numeración ──
+  doc.setFont('helvetica', 'bold').setFontSize(16).setTextColor(20);
+  doc.text(EMPRESA.nombre, MARGEN, 22);
+  doc.setFont('helvetica', 'normal').setFontSize(9).setTextColor(...GRIS);
+  const empresaLineas = [
+    EMPRESA.nit && `NIT ${EMPRESA.nit}`,
+    [EMPRESA.direccion, EMPRESA.ciudad].filter(Boolean).join(' · '),
+    [EMPRESA.telefono, EMPRESA.email].filter(Boolean).join(' · '),
+  ].filter(Boolean) as string[];
+  doc.text(empresaLineas, MARGEN, 28);
+
+  doc.setFont('helvetica', 'bold').setFontSize(11).setTextColor(...VERDE);
+  doc.text('FACTURA DE VENTA', derecha, 22, { align: 'right' });
+  doc.setFontSize(14).setTextColor(20);
+  doc.text(`N° ${factura.numero}`, derecha, 29, { align: 'right' });
+  doc.setFont('helvetica', 'normal').setFontSize(9).setTextColor(...GRIS);
+  // Fecha y entrega son días: se toma solo "YYYY-MM-DD" aunque el API los envíe como medianoche UTC
+  doc.text(`Fecha: ${fmtFecha(factura.fecha.slice(0, 10))}`, derecha, 35, { align: 'right' });
+
+  doc.setDrawColor(...VERDE).setLineWidth(0.6);
+  doc.line(MARGEN, 44, derecha, 44);
+
+  // ── Cliente y pedido ──
+  let y = 52;
+  doc.setFont('helvetica', 'bold').setFontSize(8).setTextColor(...GRIS);
+  doc.text('CLIENTE', MARGEN, y);
+  doc.text('PEDIDO', 120, y);
+  y += 5;
+  doc.setFont('helvetica', 'bold').setFontSize(10).setTextColor(20);
+  doc.text(cliente?.name ?? '—', MARGEN, y);
+  doc.text(codigo, 120, y);
+  doc.setFont('helvetica', 'normal').setFontSize(9).setTextColor(60);
+  const clienteLineas = [
+    cliente?.documentId && `Documento: ${cliente.documentId}`,
+    cliente?.address,
+    cliente?.ciudad && `${cliente.ciudad.nombre}, ${cliente.ciudad.departamento}`,
+    [cliente?.phone, cliente?.email].filter(Boolean).join(' · '),
+  ].filter(Boolean) as string[];
+  doc.text(clienteLineas, MARGEN, y + 5);
+  if (pedido) {
+    doc.text([
+      `Entrega: ${fmtFecha(pedido.diaEntrega.slice(0, 10))}`,
+      `Forma: ${pedido.formaEntrega === 'EMPACADO' ? 'Empacado' : 'A granel'}`,
+    ], 120, y + 5);
+  }
+
+  // QR con el código del pedido para ubicarlo desde el celular
+  const qr = await QRCode.toDataURL(codigo, { margin: 0, width: 240 });
+  doc.addImage(qr, 'PNG', derecha - 24, y - 5, 24, 24);
+
+  // ── Líneas del pedido ──
+  y = 92;
+  const lineas = lineasDe(factura, pedido);
+  const conPrecios = !!factura.lineas?.length;
+  // Sin desglose (facturas anteriores) solo hay kilos: la columna va al borde derecho
+  const cols = {
+    n: MARGEN, presentacion: MARGEN + 10,
+    variedad: conPrecios ? MARGEN + 42 : MARGEN + 70,
+    kilos: conPrecios ? 122 : derecha - 2,
+    precio: 148, desc: 164,
+  };
+  doc.setFillColor(243, 244, 246).rect(MARGEN, y - 5, derecha - MARGEN, 8, 'F');
+  doc.setFont('helvetica', 'bold').setFontSize(8).setTextColor(...GRIS);
+  doc.text('#', cols.n + 2, y);
+  doc.text('PRESENTACIÓN', cols.presentacion, y);
+  doc.text('VARIEDAD', cols.variedad, y);
+  doc.text('KILOS', cols.kilos, y, { align: 'right' });
+  if (conPrecios) {
+    doc.text('PRECIO/KG', cols.precio, y, { align: 'right' });
+    doc.text('DESC.', cols.desc, y, { align: 'right' });
+    doc.text('SUBTOTAL', derecha - 2, y, { align: 'right' });
+  }
+
+  doc.setFont('helvetica', 'normal').setFontSize(conPrecios ? 9 : 10).setTextColor(20);
+  lineas.forEach((l, i) => {
+    y += 8;
+    doc.text(String(i + 1), cols.n + 2, y);
+    doc.text(l.presentacion, cols.presentacion, y);
+    doc.text(l.variedad, cols.variedad, y);
+    doc.text(`${l.kilos.toFixed(1)} kg`, cols.kilos, y, { align: 'right' });
+    if (conPrecios) {
+      doc.text(fmtMoney(l.precioKg ?? 0), cols.precio, y, { align: 'right' });
+      doc.text(l.descuentoPct ? `${l.descuentoPct}%` : '—', cols.desc, y, { align: 'right' });
+      doc.text(fmtMoney(l.subtotal ?? 0), derecha - 2, y, { align: 'right' });
+    }
+  });
+
+  if (!lineas.length) {
+    y += 8;
+    doc.setTextColor(...GRIS).text('Detalle del pedido no disponible sin conexión', cols.presentacion, y);
+  }
+
+  y += 4;
+  doc.setDrawColor(229, 231, 235).setLineWidth(0.3);
+  doc.line(MARGEN, y, derecha, y);
+
+  // ── Totales ──
+  if (lineas.length) {
+    const totalKilos = lineas.reduce((s, l) => s + l.kilos, 0);
+    y += 7;
+    doc.setFontSize(9).setTextColor(...GRIS);
+    doc.text('Total kilos', 130, y);
+    doc.setTextColor(20).text(`${totalKilos.toFixed(1)} kg`, derecha - 2, y, { align: 'right' });
+  }
+  const desglose: [string, number][] = [];
+  if (factura.subtotal != null) desglose.push(['Subtotal', Number(factura.subtotal)]);
+  if (factura.descuento) desglose.push(['Descuentos', -Number(factura.descuento)]);
+  if (factura.iva != null) desglose.push([`IVA (${factura.ivaPct ?? 0}%)`, Number(factura.iva)]);
+  if (factura.retencion) desglose.push([`Retención (${factura.retencionPct ?? 0}%)`, -Number(factura.retencion)]);
+  for (const [label, valor] of desglose) {
+    y += 6;
+    doc.setFontSize(9).setTextColor(...GRIS).text(label, 130, y);
+    // Guion ASCII: la Helvetica de jsPDF solo cubre WinAnsi y un "−" (U+2212) descompone toda la línea
+    doc.setTextColor(20).text(`${valor < 0 ? '- ' : ''}${fmtMoney(Math.abs(valor))}`, derecha - 2, y, { align: 'right' });
+  }
+  y += 9;
+  doc.setFont('helvetica', 'bold').setFontSize(12).setTextColor(20);
+  doc.text('TOTAL', 130, y);
+  doc.text(fmtMoney(Number(factura.valorTotal)), derecha - 2, y, { align: 'right' });
+
+  // ── Pie ──
+  doc.setFont('helvetica', 'normal').setFontSize(8).setTextColor(...GRIS);
+  doc.text(
+    `Factura ${factura.numero} · Pedido ${codigo} · Generada el ${fmtFecha(new Date().toISOString())}`,
+    ANCHO / 2, 285, { align: 'center' },
+  );
+
+  return doc;
+}
+
+export async function descargarFacturaPdf(factura: Factura, pedido: Pedido | null): Promise<void> {
+  const doc = await facturaPdf(factura, pedido);
+  doc.save(`factura-${factura.numero}.pdf`);
+}
+
+export async function imprimirFacturaPdf(factura: Factura, pedido: Pedido | null): Promise<void> {
+  const doc = await facturaPdf(factura, pedido);
+  doc.autoPrint();
+  window.open(doc.output('bloburl'), '_blank');
+}
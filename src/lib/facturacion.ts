@@ -0,0 +1,54 @@
+import type { FacturaLinea, Pedido } from '@/types';
+
+// Maquila = servicio: IVA general. La retención solo aplica si el cliente es agente retenedor
+export const IVA_PCT_DEFAULT = 19;
+export const RETENCION_PCT_DEFAULT = 0;
+
+export interface LineaEntrada {
+  presentacion: FacturaLinea['presentacion'];
+  variedad: string;
+  kilos: number;
+  precioKg: number;
+  descuentoPct: number;
+}
+
+export interface TotalesFactura {
+  subtotal: number;
+  descuento: number;
+  base: number;
+  iva: number;
+  retencion: number;
+  total: number;
+}
+
+// Montos en pesos enteros, igual que se muestran con fmtMoney
+const pesos = (v: number) => Math.round(v);
+
+export function lineasDePedido(pedido: Pick<Pedido, 'detalles' | 'kilos' | 'presentacion'>, precioKg = 0): LineaEntrada[] {
+  if (pedido.detalles?.length) {
+    return pedido.detalles.map((d) => ({
+      presentacion: d.presentacion,
+      variedad: d.variedad ?? '',
+      kilos: Number(d.kilos),
+      precioKg,
+      descuentoPct: 0,
+    }));
+  }
+  // Pedidos antiguos sin detalle: una línea con el total del pedido
+  return [{ presentacion: pedido.presentacion ?? 'EXCELSO', variedad: '', kilos: Number(pedido.kilos ?? 0), precioKg, descuentoPct: 0 }];
+}
+
+export function calcularLinea(l: LineaEntrada): FacturaLinea {
+  const bruto = pesos(Number(l.kilos) * Number(l.precioKg));
+  const descuento = pesos(bruto * (Number(l.descuentoPct) || 0) / 100);
+  return { ...l, subtotal: bruto - descuento, descuento };
+}
+
+export function calcularTotales(lineas: LineaEntrada[], ivaPct: number, retencionPct: number): TotalesFactura {
+  const calculadas = lineas.map(calcularLinea);
+  const descuento = calculadas.reduce((s, l) => s + l.descuento, 0);
+  const base = calculadas.reduce((s, l) => s + l.subtotal, 0);
+  const iva = pesos(base * (Number(ivaPct) || 0) / 100);
+  const retencion = pesos(base * (Number(retencionPct) || 0) / 100);
+  return { subtotal: base + descuento, descuento, base, iva, retencion, total: base + iva - retencion };
+}
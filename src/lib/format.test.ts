@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { fmtFecha } from '@/lib/format';
+
+describe('fmtFecha', () => {
+  it('muestra el mismo día para fechas sin hora, también al oeste de UTC', () => {
+    const tz = process.env.TZ;
+    process.env.TZ = 'America/Bogota';
+    try {
+      expect(fmtFecha('2026-10-20')).toMatch(/^20/);
+    } finally {
+      process.env.TZ = tz;
+    }
+  });
+
+  it('respeta la hora de los timestamps', () => {
+    expect(fmtFecha(new Date(2026, 9, 20, 23, 30).toISOString())).toMatch(/^20/);
+  });
+
+  it('sin fecha', () => {
+    expect(fmtFecha(null)).toBe('—');
+  });
+});
@@ -0,0 +1,13 @@
+import { parseISODate } from '@/lib/dates';
+
+// Formatos es-CO compartidos (mismo estilo que los helpers `fmt` de cada página)
+export function fmtFecha(d?: string | null): string {
+  if (!d) return '—';
+  // "YYYY-MM-DD" es un día, no un instante: new Date() lo leería como medianoche UTC (el día anterior en Colombia)
+  const fecha = /^\d{4}-\d{2}-\d{2}$/.test(d) ? parseISODate(d) : new Date(d);
+  return fecha.toLocaleDateString('es-CO', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+export function fmtMoney(v: number): string {
+  return new Intl.NumberFormat('es-CO', { style: 'currency', currency: 'COP', maximumFractionDigits: 0 }).format(v);
+}
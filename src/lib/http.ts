@@ -1,4 +1,5 @@
-import axios from 'axios';
+import axios, { type InternalAxiosRequestConfig } from 'axios';
+import { useAuthStore } from '@/store/auth.store';
 
 const BASE_URL = import.meta.env.VITE_API_URL ?? 'http://localhost:4000';
 
@@ -8,31 +9,97 @@ export const http = axios.create({
   headers: { 'Content-Type': 'application/json' },
 });
 
+interface RefreshResponse {
+  token: string;
+  refreshToken?: string;
+}
+
+type RetryableConfig = InternalAxiosRequestConfig & { _retry?: boolean };
+
 // Inyectar token en cada request
 http.interceptors.request.use((config) => {
-  const raw = localStorage.getItem('pipe-auth');
-  if (raw) {
-    try {
-      // Zustand persist guarda: { state: { token, ... }, version: 0 }
-      const parsed = JSON.parse(raw) as { state?: { token?: string }; token?: string };
-      const token = parsed.state?.token ?? (parsed as { token?: string }).token;
-      if (token) {
-        config.headers.Authorization = `Bearer ${token}`;
-      }
-    } catch {
-      // ignorar
-    }
+  const { token } = useAuthStore.getState();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
   }
   return config;
 });
 
-// Logout automático en 401
+// ── Renovación de sesión ──
+// Un único refresh en vuelo: los 401 concurrentes esperan la misma promesa.
+let refreshing: Promise<string> | null = null;
+
+export function refreshSession(): Promise<string> {
+  if (!refreshing) {
+    refreshing = (async () => {
+      const { refreshToken, setTokens } = useAuthStore.getState();
+      if (!refreshToken) throw new Error('Sin refresh token');
+      // axios sin interceptores para no entrar en bucle con el 401 del propio refresh
+      const { data } = await axios.post<RefreshResponse>(
+        `${BASE_URL}/auth/refresh`,
+        { refreshToken },
+        { timeout: 12000 }
+      );
+      setTokens(data.token, data.refreshToken);
+      return data.token;
+    })().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+}
+
+// Espera a que el usuario vuelva a ingresar desde el modal de sesión vencida.
+// Se rechaza si en lugar de eso cierra sesión.
+let relogin: Promise<string> | null = null;
+
+function waitForRelogin(): Promise<string> {
+  if (!relogin) {
+    relogin = new Promise<string>((resolve, reject) => {
+      const unsubscribe = useAuthStore.subscribe((s) => {
+        if (!s.isAuthenticated) {
+          unsubscribe();
+          reject(new Error('Sesión cerrada'));
+        } else if (!s.sessionExpired && s.token) {
+          unsubscribe();
+          resolve(s.token);
+        }
+      });
+    }).finally(() => {
+      relogin = null;
+    });
+  }
+  return relogin;
+}
+
+async function renewToken(): Promise<string> {
+  try {
+    return await refreshSession();
+  } catch {
+    useAuthStore.getState().expireSession();
+    return waitForRelogin();
+  }
+}
+
 http.interceptors.response.use(
   (res) => res,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('pipe-auth');
-      window.location.href = '/login';
+  async (error) => {
+    const config = error.config as RetryableConfig | undefined;
+    const isAuthCall = config?.url?.startsWith('/auth/');
+
+    if (
+      error.response?.status === 401 &&
+      config && !config._retry && !isAuthCall &&
+      useAuthStore.getState().isAuthenticated
+    ) {
+      config._retry = true;
+      try {
+        const token = await renewToken();
+        config.headers.Authorization = `Bearer ${token}`;
+        return http(config);
+      } catch {
+        return Promise.reject(error);
+      }
     }
     return Promise.reject(error);
   }
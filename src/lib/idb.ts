@@ -0,0 +1,57 @@
+// Envoltorio mínimo sobre IndexedDB (promesas sobre IDBRequest)
+
+const DB_NAME = 'pipe';
+const DB_VERSION = 2;
+const STORES: Record<string, IDBObjectStoreParameters> = {
+  'offline-queue': { keyPath: 'id', autoIncrement: true },
+  'query-cache':   {},
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        for (const [name, options] of Object.entries(STORES)) {
+          if (!req.result.objectStoreNames.contains(name)) {
+            req.result.createObjectStore(name, options);
+          }
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(store: string, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = fn(db.transaction(store, mode).objectStore(store));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export const idb = {
+  get: <T>(store: string, key: IDBValidKey) =>
+    run<T | undefined>(store, 'readonly', (s) => s.get(key)),
+
+  getAll: <T>(store: string) =>
+    run<T[]>(store, 'readonly', (s) => s.getAll()),
+
+  count: (store: string) =>
+    run<number>(store, 'readonly', (s) => s.count()),
+
+  put: <T>(store: string, value: T, key?: IDBValidKey) =>
+    run<IDBValidKey>(store, 'readwrite', (s) => s.put(value, key)),
+
+  delete: (store: string, key: IDBValidKey) =>
+    run<undefined>(store, 'readwrite', (s) => s.delete(key)),
+};
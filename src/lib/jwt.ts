@@ -0,0 +1,24 @@
+// Lectura del payload de un JWT sin validar la firma (eso lo hace el backend)
+export function decodeJwt<T = Record<string, unknown>>(token: string): T | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const json = decodeURIComponent(
+      atob(base64)
+        .split('')
+        .map((c) => `%${c.charCodeAt(0).toString(16).padStart(2, '0')}`)
+        .join('')
+    );
+    return JSON.parse(json) as T;
+  } catch {
+    return null;
+  }
+}
+
+// Fecha de expiración en ms (epoch) o null si el token no trae `exp`
+export function tokenExpiresAt(token: string | null | undefined): number | null {
+  if (!token) return null;
+  const exp = decodeJwt<{ exp?: number }>(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
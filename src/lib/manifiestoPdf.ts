@@ -0,0 +1,142 @@
+import type { jsPDF } from 'jspdf';
+import { EMPRESA } from '@/lib/empresa';
+import { fmtFecha } from '@/lib/format';
+import { kilosDePedido } from '@/lib/despacho';
+import type { Pedido, RutaDespacho } from '@/types';
+
+// A4 en milímetros
+const MARGEN = 14;
+const ANCHO = 210;
+const ALTO_UTIL = 270;
+const VERDE: [number, number, number] = [0, 208, 132];
+const GRIS: [number, number, number] = [107, 114, 128];
+
+const COLS = { n: MARGEN, pedido: MARGEN + 8, cliente: MARGEN + 38, direccion: MARGEN + 86, kilos: 150, firma: 156 };
+
+function encabezadoTabla(doc: jsPDF, y: number) {
+  const derecha = ANCHO - MARGEN;
+  doc.setFillColor(243, 244, 246).rect(MARGEN, y - 5, derecha - MARGEN, 8, 'F');
+  doc.setFont('helvetica', 'bold').setFontSize(7.5).setTextColor(...GRIS);
+  doc.text('#', COLS.n + 2, y);
+  doc.text('PEDIDO / FACTURA', COLS.pedido, y);
+  doc.text('CLIENTE', COLS.cliente, y);
+  doc.text('DIRECCIÓN', COLS.direccion, y);
+  doc.text('KILOS', COLS.kilos, y, { align: 'right' });
+  doc.text('RECIBIDO (NOMBRE Y FIRMA)', COLS.firma, y);
+}
+
+// Hoja que viaja con el conductor: paradas en orden con espacio para la firma de quien recibe.
+// Los kilos salen de los pedidos aún por entregar; en una parada ya entregada la columna queda en blanco
+export async function manifiestoPdf(ruta: RutaDespacho, pedidos: Pedido[]): Promise<jsPDF> {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const derecha = ANCHO - MARGEN;
+  const pedidoPorId = new Map(pedidos.map((p) => [p.id, p]));
+
+  // ── Encabezado ──
+  doc.setFont('helvetica', 'bold').setFontSize(15).setTextColor(20);
+  doc.text(EMPRESA.nombre, MARGEN, 20);
+  doc.setFont('helvetica', 'normal').setFontSize(8.5).setTextColor(...GRIS);
+  doc.text([EMPRESA.nit && `NIT ${EMPRESA.nit}`, [EMPRESA.direccion, EMPRESA.ciudad].filter(Boolean).join(' · ')].filter(Boolean) as string[], MARGEN, 26);
+
+  doc.setFont('helvetica', 'bold').setFontSize(11).setTextColor(...VERDE);
+  doc.text('MANIFIESTO DE DESPACHO', derecha, 20, { align: 'right' });
+  doc.setFont('helvetica', 'normal').setFontSize(9).setTextColor(20);
+  // Día de la ruta, no un instante: solo "YYYY-MM-DD" para que no salga el día anterior
+  doc.text(`Fecha de entrega: ${fmtFecha(ruta.fecha.slice(0, 10))}`, derecha, 26, { align: 'right' });
+
+  doc.setDrawColor(...VERDE).setLineWidth(0.6);
+  doc.line(MARGEN, 34, derecha, 34);
+
+  // ── Vehículo y conductor ──
+  let y = 41;
+  doc.setFont('helvetica', 'bold').setFontSize(8).setTextColor(...GRIS);
+  doc.text('VEHÍCULO', MARGEN, y);
+  doc.text('CONDUCTOR', 70, y);
+  doc.text('PARADAS', 150, y);
+  y += 5;
+  doc.setFont('helvetica', 'bold').setFontSize(10).setTextColor(20);
+  doc.text(ruta.vehiculo.toUpperCase(), MARGEN, y);
+  doc.text(ruta.conductor, 70, y);
+  doc.text(String(ruta.paradas.length), 150, y);
+  if (ruta.conductorDocumento) {
+    doc.setFont('helvetica', 'normal').setFontSize(8.5).setTextColor(60);
+    doc.text(`Documento: ${ruta.conductorDocumento}`, 70, y + 4.5);
+  }
+  if (ruta.observaciones) {
+    y += 10;
+    doc.setFont('helvetica', 'normal').setFontSize(8.5).setTextColor(60);
+    doc.text(doc.splitTextToSize(`Observaciones: ${ruta.observaciones}`, derecha - MARGEN), MARGEN, y);
+  }
+
+  // ── Paradas ──
+  y += 14;
+  encabezadoTabla(doc, y);
+  let totalKilos = 0;
+  const paradas = [...ruta.paradas].sort((a, b) => a.orden - b.orden);
+  for (const parada of paradas) {
+    const cliente = parada.factura.pedido?.client;
+    const pedido = pedidoPorId.get(parada.factura.pedido?.id);
+    const kilos = pedido ? kilosDePedido(pedido) : null;
+    if (kilos != null) totalKilos += kilos;
+
+    doc.setFont('helvetica', 'normal').setFontSize(8.5);
+    const direccion = doc.splitTextToSize(
+      [cliente?.address, cliente?.ciudad && `${cliente.ciudad.nombre}, ${cliente.ciudad.departamento}`, cliente?.phone].filter(Boolean).join(' · ') || '—',
+      COLS.kilos - COLS.direccion - 14,
+    ) as string[];
+    const clienteTxt = doc.splitTextToSize(cliente?.name ?? '—', COLS.direccion - COLS.cliente - 3) as string[];
+    const alto = Math.max(14, Math.max(direccion.length, clienteTxt.length) * 4 + 6);
+
+    if (y + alto > ALTO_UTIL) {
+      doc.addPage();
+      y = 20;
+      encabezadoTabla(doc, y);
+    }
+
+    const top = y + 7;
+    doc.setFont('helvetica', 'bold').setTextColor(20);
+    doc.text(String(parada.orden), COLS.n + 2, top);
+    doc.text(parada.factura.pedido?.code ?? '—', COLS.pedido, top);
+    doc.setFont('helvetica', 'normal').setTextColor(...GRIS);
+    doc.text(`Fact. ${parada.factura.numero}`, COLS.pedido, top + 4);
+    doc.setTextColor(20).text(clienteTxt, COLS.cliente, top);
+    doc.setTextColor(60).text(direccion, COLS.direccion, top);
+    doc.setTextColor(20).text(kilos != null ? `${kilos.toFixed(1)} kg` : '', COLS.kilos, top, { align: 'right' });
+    if (parada.entrega) {
+      doc.setTextColor(...VERDE).text(`Entregado a ${parada.entrega.recibidoPor}`, COLS.firma, top);
+    }
+
+    y += alto;
+    doc.setDrawColor(229, 231, 235).setLineWidth(0.3);
+    doc.line(MARGEN, y + 1, derecha, y + 1);
+  }
+
+  y += 8;
+  doc.setFont('helvetica', 'bold').setFontSize(9).setTextColor(20);
+  doc.text('Total kilos', COLS.direccion, y);
+  doc.text(`${totalKilos.toFixed(1)} kg`, COLS.kilos, y, { align: 'right' });
+
+  // ── Firmas de salida ──
+  if (y + 30 > ALTO_UTIL) {
+    doc.addPage();
+    y = 10;
+  }
+  y += 24;
+  doc.setDrawColor(120).setLineWidth(0.3);
+  doc.line(MARGEN, y, MARGEN + 70, y);
+  doc.line(derecha - 70, y, derecha, y);
+  doc.setFont('helvetica', 'normal').setFontSize(8).setTextColor(...GRIS);
+  doc.text('Despachado por', MARGEN, y + 4);
+  doc.text('Conductor', derecha - 70, y + 4);
+
+  doc.text(`Generado el ${fmtFecha(new Date().toISOString())}`, ANCHO / 2, 287, { align: 'center' });
+
+  return doc;
+}
+
+export async function imprimirManifiesto(ruta: RutaDespacho, pedidos: Pedido[]): Promise<void> {
+  const doc = await manifiestoPdf(ruta, pedidos);
+  doc.autoPrint();
+  window.open(doc.output('bloburl'), '_blank');
+}
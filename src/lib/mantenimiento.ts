@@ -0,0 +1,99 @@
+import type { EstadoMaquina, MaquinaEvento, MantenimientoProgramado } from '@/services/maquinas.service';
+import { addDays, hoyISO } from '@/lib/dates';
+
+export interface Periodo {
+  desde: Date;
+  hasta: Date;
+}
+
+export interface MetricasMaquina {
+  maquinaId: string;
+  horasMantenimiento: number;
+  horasFueraServicio: number;
+  horasParada: number;
+  // % del periodo en estado ACTIVA
+  disponibilidad: number;
+  eventos: number;
+  // Motivo que más horas de parada sumó
+  motivoPrincipal: string | null;
+}
+
+const HORA_MS = 3_600_000;
+
+// Horas de un evento que caen dentro del periodo (los abiertos cuentan hasta `ahora`)
+function horasEnPeriodo(e: MaquinaEvento, periodo: Periodo, ahora: Date): number {
+  const ini = Math.max(new Date(e.inicio).getTime(), periodo.desde.getTime());
+  const fin = Math.min(e.fin ? new Date(e.fin).getTime() : ahora.getTime(), periodo.hasta.getTime());
+  return fin > ini ? (fin - ini) / HORA_MS : 0;
+}
+
+export function metricasDisponibilidad(
+  maquinaId: string,
+  eventos: MaquinaEvento[],
+  periodo: Periodo,
+  ahora = new Date(),
+): MetricasMaquina {
+  const totalHoras = Math.max(0, (Math.min(periodo.hasta.getTime(), ahora.getTime()) - periodo.desde.getTime()) / HORA_MS);
+  const horas: Record<EstadoMaquina, number> = { ACTIVA: 0, MANTENIMIENTO: 0, FUERA_SERVICIO: 0 };
+  const porMotivo = new Map<string, number>();
+  let contados = 0;
+
+  for (const e of eventos) {
+    if (e.maquinaId !== maquinaId) continue;
+    const h = horasEnPeriodo(e, periodo, ahora);
+    if (h <= 0) continue;
+    horas[e.estado] += h;
+    if (e.estado !== 'ACTIVA') {
+      contados++;
+      porMotivo.set(e.motivo, (porMotivo.get(e.motivo) ?? 0) + h);
+    }
+  }
+
+  const horasParada = horas.MANTENIMIENTO + horas.FUERA_SERVICIO;
+  const motivoPrincipal = [...porMotivo.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+  return {
+    maquinaId,
+    horasMantenimiento: horas.MANTENIMIENTO,
+    horasFueraServicio: horas.FUERA_SERVICIO,
+    horasParada,
+    disponibilidad: totalHoras > 0 ? Math.max(0, (1 - horasParada / totalHoras) * 100) : 100,
+    eventos: contados,
+    motivoPrincipal,
+  };
+}
+
+export type PeriodoClave = 'mes_actual' | 'mes_anterior' | 'ultimos_30';
+
+export function periodoDe(clave: PeriodoClave, ahora = new Date()): Periodo {
+  const y = ahora.getFullYear();
+  const m = ahora.getMonth();
+  switch (clave) {
+    case 'mes_actual':   return { desde: new Date(y, m, 1), hasta: new Date(y, m + 1, 1) };
+    case 'mes_anterior': return { desde: new Date(y, m - 1, 1), hasta: new Date(y, m, 1) };
+    case 'ultimos_30':   return { desde: new Date(ahora.getTime() - 30 * 24 * HORA_MS), hasta: ahora };
+  }
+}
+
+// Días de anticipación con que se avisa un mantenimiento programado
+export const DIAS_AVISO_MANTENIMIENTO = 7;
+
+export interface Recordatorios {
+  vencidos: MantenimientoProgramado[];
+  proximos: MantenimientoProgramado[];
+}
+
+export function recordatoriosMantenimiento(
+  mantenimientos: MantenimientoProgramado[],
+  hoy = hoyISO(),
+  diasAviso = DIAS_AVISO_MANTENIMIENTO,
+): Recordatorios {
+  const limite = addDays(hoy, diasAviso);
+  const pendientes = mantenimientos
+    .filter((m) => !m.completado)
+    .sort((a, b) => a.fecha.localeCompare(b.fecha));
+  return {
+    vencidos: pendientes.filter((m) => m.fecha.slice(0, 10) < hoy),
+    proximos: pendientes.filter((m) => m.fecha.slice(0, 10) >= hoy && m.fecha.slice(0, 10) <= limite),
+  };
+}
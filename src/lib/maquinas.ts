@@ -0,0 +1,22 @@
+import type { EstadoMaquina, Maquina, ProcesoMaquina } from '@/types';
+
+const MOTIVO_BLOQUEO: Record<EstadoMaquina, string | null> = {
+  ACTIVA: null,
+  MANTENIMIENTO: 'en mantenimiento',
+  FUERA_SERVICIO: 'fuera de servicio',
+};
+
+// Opciones para elegir la máquina de una corrida: solo las ACTIVA se pueden seleccionar
+export function opcionesMaquina(maquinas: Maquina[], proceso: ProcesoMaquina) {
+  return maquinas
+    .filter((m) => m.proceso === proceso)
+    .map((m) => ({
+      value: m.id,
+      label: `${m.codigo} — ${m.nombre}${MOTIVO_BLOQUEO[m.estado] ? ` (${MOTIVO_BLOQUEO[m.estado]})` : ''}`,
+      disabled: m.estado !== 'ACTIVA',
+    }));
+}
+
+export function maquinaDisponible(maquinas: Maquina[], id: string): boolean {
+  return maquinas.find((m) => m.id === id)?.estado === 'ACTIVA';
+}
@@ -0,0 +1,95 @@
+import { useQuery } from '@tanstack/react-query';
+import { configService, type EtapaMerma, type MermaRango } from '@/services/config.service';
+import type { PedidoDetalle, PresentacionDetalle, Tostion, Trillado } from '@/types';
+
+export const PRESENTACIONES: PresentacionDetalle[] = ['CPS', 'EXCELSO', 'HONEY', 'NATURAL'];
+export const ETAPAS_MERMA: EtapaMerma[] = ['TRILLADO', 'TOSTION'];
+
+// Límites históricos, usados cuando no hay configuración para la combinación
+export const MERMA_MAX_DEFAULT: Record<EtapaMerma, number> = { TRILLADO: 15, TOSTION: 20 };
+
+export function rangoDefault(etapa: EtapaMerma, presentacion: PresentacionDetalle): MermaRango {
+  return { etapa, presentacion, min: 0, max: MERMA_MAX_DEFAULT[etapa] };
+}
+
+export function rangoMerma(
+  rangos: MermaRango[] | undefined,
+  etapa: EtapaMerma,
+  presentacion: PresentacionDetalle | null,
+): MermaRango {
+  const p = presentacion ?? 'EXCELSO';
+  return rangos?.find((r) => r.etapa === etapa && r.presentacion === p) ?? rangoDefault(etapa, p);
+}
+
+export function calcularMerma(entrada: number | null | undefined, salida: number | null | undefined): number | null {
+  const e = Number(entrada);
+  const s = Number(salida);
+  if (!e || e <= 0 || salida == null || Number.isNaN(s)) return null;
+  return ((e - s) / e) * 100;
+}
+
+export type EvaluacionMerma = 'bajo' | 'ok' | 'alto';
+
+export function evaluarMerma(merma: number, rango: MermaRango): EvaluacionMerma {
+  if (merma > rango.max) return 'alto';
+  if (merma < rango.min) return 'bajo';
+  return 'ok';
+}
+
+// La presentación que rige la merma de un pedido mixto es la de más kilos
+export function presentacionPredominante(detalles: PedidoDetalle[] | undefined): PresentacionDetalle | null {
+  if (!detalles?.length) return null;
+  return [...detalles].sort((a, b) => Number(b.kilos) - Number(a.kilos))[0].presentacion;
+}
+
+export function useMermaRangos() {
+  return useQuery({
+    queryKey: ['config', 'merma'],
+    queryFn: () => configService.getMermaRangos(),
+    staleTime: 5 * 60_000,
+  });
+}
+
+export interface AlertaMerma {
+  id: string;
+  etapa: EtapaMerma;
+  pedidoId: string;
+  pedidoCode: string;
+  fecha: string;
+  merma: number;
+  rango: MermaRango;
+  justificacion: string | null;
+}
+
+// Corridas finalizadas con merma fuera del rango configurado, más recientes primero
+export function alertasMerma(trillados: Trillado[], tostiones: Tostion[], rangos: MermaRango[] | undefined): AlertaMerma[] {
+  // Tostion no trae los detalles del pedido: se toman del trillado del mismo pedido
+  const presentacionPorPedido = new Map(
+    trillados.map((t) => [t.pedido?.id, presentacionPredominante(t.pedido?.detalles)]),
+  );
+  const alertas: AlertaMerma[] = [];
+
+  for (const t of trillados) {
+    const merma = calcularMerma(t.kilosEntrada, t.kilosSalida);
+    if (merma == null || !t.fechaEntregaTostion) continue;
+    const rango = rangoMerma(rangos, 'TRILLADO', presentacionPredominante(t.pedido?.detalles));
+    if (evaluarMerma(merma, rango) === 'ok') continue;
+    alertas.push({
+      id: t.id, etapa: 'TRILLADO', pedidoId: t.pedido?.id, pedidoCode: t.pedido?.code,
+      fecha: t.fechaEntregaTostion, merma, rango, justificacion: t.justificacionMerma ?? null,
+    });
+  }
+
+  for (const t of tostiones) {
+    const merma = calcularMerma(t.kilosExcelso, t.kilosTostados);
+    if (merma == null || !t.fechaEntregaProduccion) continue;
+    const rango = rangoMerma(rangos, 'TOSTION', presentacionPorPedido.get(t.pedido?.id) ?? null);
+    if (evaluarMerma(merma, rango) === 'ok') continue;
+    alertas.push({
+      id: t.id, etapa: 'TOSTION', pedidoId: t.pedido?.id, pedidoCode: t.pedido?.code,
+      fecha: t.fechaEntregaProduccion, merma, rango, justificacion: t.justificacionMerma ?? null,
+    });
+  }
+
+  return alertas.sort((a, b) => b.fecha.localeCompare(a.fecha));
+}
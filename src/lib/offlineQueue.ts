@@ -0,0 +1,159 @@
+import axios, { type Method } from 'axios';
+import { http } from '@/lib/http';
+import { idb } from '@/lib/idb';
+import { toast } from '@/lib/toast';
+import { useOfflineStore } from '@/store/offline.store';
+import { useAuthStore } from '@/store/auth.store';
+
+const STORE = 'offline-queue';
+
+export interface QueuedRequest {
+  id?: number;
+  method: Extract<Method, 'post' | 'put' | 'patch'>;
+  url: string;
+  data?: unknown;
+  // Descripción para el usuario ("Finalizar trillado"), usada en los avisos
+  label: string;
+  // Usuario que la encoló: solo se reenvía con su propia sesión
+  userId: string | null;
+  // Se reenvía en cada intento (Idempotency-Key) para que el servidor no registre dos veces la misma operación
+  idempotencyKey?: string;
+  createdAt: string;
+}
+
+// Se lanza cuando la operación quedó en cola en lugar de enviarse
+export class OfflineQueuedError extends Error {
+  readonly label: string;
+
+  constructor(label: string) {
+    super(`${label}: guardado sin conexión, se enviará al reconectar`);
+    this.name = 'OfflineQueuedError';
+    this.label = label;
+  }
+}
+
+const currentUserId = () => useAuthStore.getState().user?.id ?? null;
+
+// Cola del usuario en sesión; la de otros usuarios del mismo equipo queda guardada sin tocar
+async function queueOfCurrentUser(): Promise<QueuedRequest[]> {
+  const userId = currentUserId();
+  const items = await idb.getAll<QueuedRequest>(STORE);
+  return items.filter((i) => i.userId === userId).sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+async function refreshPending() {
+  useOfflineStore.getState().setPending((await queueOfCurrentUser()).length);
+}
+
+type NuevaOperacion = Omit<QueuedRequest, 'id' | 'userId' | 'idempotencyKey' | 'createdAt'>;
+
+async function enqueue(req: NuevaOperacion) {
+  await idb.put<QueuedRequest>(STORE, {
+    ...req,
+    userId: currentUserId(),
+    idempotencyKey: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+  });
+  await refreshPending();
+}
+
+// La petición no salió del equipo. Un timeout no cuenta: el servidor pudo haberla guardado
+// y encolarla la duplicaría al reenviar
+const isNetworkError = (e: unknown) =>
+  axios.isAxiosError(e) && !e.response && (e.code === 'ERR_NETWORK' || !navigator.onLine);
+
+// Únicos rechazos definitivos: el servidor validó y no acepta la operación
+const CONFLICT_STATUSES = [409, 422];
+
+/**
+ * Envía la mutación o, si no hay red (o ya hay operaciones en cola, para
+ * respetar el orden), la guarda en IndexedDB y lanza OfflineQueuedError.
+ */
+export async function sendOrQueue<T>(req: NuevaOperacion): Promise<T> {
+  const { online, pending } = useOfflineStore.getState();
+  if (!online || pending > 0) {
+    await enqueue(req);
+    if (online) void flushQueue();
+    throw new OfflineQueuedError(req.label);
+  }
+  try {
+    const { data } = await http.request<T>({ method: req.method, url: req.url, data: req.data });
+    return data;
+  } catch (e) {
+    if (!isNetworkError(e)) throw e;
+    await enqueue(req);
+    throw new OfflineQueuedError(req.label);
+  }
+}
+
+let flushing: Promise<void> | null = null;
+let onSynced: (() => void) | null = null;
+
+// Reenvía la cola en orden. Solo los conflictos (409/422) se reportan y se descartan
+// para no bloquear la cola; ante cualquier otro error (red, 5xx, sesión vencida,
+// permisos, 408/429) se detiene y la operación queda guardada para el próximo intento;
+// cada reintento lleva la misma Idempotency-Key.
+export function flushQueue(): Promise<void> {
+  if (flushing) return flushing;
+  flushing = (async () => {
+    const { setSyncing } = useOfflineStore.getState();
+    setSyncing(true);
+    let sent = 0;
+    try {
+      const items = await queueOfCurrentUser();
+      for (const item of items) {
+        try {
+          await http.request({
+            method: item.method,
+            url: item.url,
+            data: item.data,
+            headers: item.idempotencyKey ? { 'Idempotency-Key': item.idempotencyKey } : undefined,
+          });
+          sent++;
+        } catch (e) {
+          const status = axios.isAxiosError(e) ? e.response?.status : undefined;
+          if (!status || !CONFLICT_STATUSES.includes(status)) {
+            if (status) toast.error(`No se pudo sincronizar "${item.label}" (error ${status}); se reintentará más tarde`, 8000);
+            break;
+          }
+          const msg = (e as { response?: { data?: { message?: string } } }).response?.data?.message;
+          toast.error(`Conflicto al sincronizar "${item.label}": ${msg ?? `error ${status}`}`, 8000);
+        }
+        await idb.delete(STORE, item.id as number);
+        await refreshPending();
+      }
+    } finally {
+      setSyncing(false);
+      flushing = null;
+    }
+    if (sent > 0) {
+      toast.success(sent === 1 ? '1 operación sincronizada' : `${sent} operaciones sincronizadas`);
+      onSynced?.();
+    }
+  })();
+  return flushing;
+}
+
+// Se llama una vez al arrancar la app (main.tsx)
+export function startOfflineSync(handleSynced: () => void) {
+  onSynced = handleSynced;
+  const { setOnline } = useOfflineStore.getState();
+
+  window.addEventListener('online', () => {
+    setOnline(true);
+    void flushQueue();
+  });
+  window.addEventListener('offline', () => setOnline(false));
+
+  // Al cambiar de usuario (logout/login en el mismo equipo) la cola visible es la del nuevo
+  useAuthStore.subscribe((s, prev) => {
+    if (s.user?.id === prev.user?.id) return;
+    void refreshPending().then(() => {
+      if (navigator.onLine && useOfflineStore.getState().pending > 0) void flushQueue();
+    });
+  });
+
+  void refreshPending().then(() => {
+    if (navigator.onLine && useOfflineStore.getState().pending > 0) void flushQueue();
+  });
+}
@@ -0,0 +1,116 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import type { PageParams, Paginated, SortDirection } from '@/types';
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const PAGE_SIZES = [10, 25, 50, 100];
+
+// Contrato de query string compartido por todos los listados del backend
+export function toRequestParams(params: PageParams): Record<string, string | number> {
+  const out: Record<string, string | number> = { page: params.page, pageSize: params.pageSize };
+  if (params.cursor) out.cursor = params.cursor;
+  if (params.sort) {
+    out.sort = params.sort;
+    out.dir = params.dir ?? 'asc';
+  }
+  if (params.q) out.q = params.q;
+  for (const [k, v] of Object.entries(params.filters ?? {})) {
+    if (v) out[k] = v;
+  }
+  return out;
+}
+
+// Conteo para KPIs: pide una sola fila y usa el `total` del listado filtrado,
+// en lugar de bajar la colección completa. La clave cuelga de `queryKey` para
+// que las invalidaciones del módulo también la refresquen
+export function useListTotal(
+  queryKey: readonly unknown[],
+  list: (params: PageParams) => Promise<Paginated<unknown>>,
+  filters: Record<string, string> = {},
+) {
+  return useQuery({
+    queryKey: [...queryKey, 'total', filters],
+    queryFn: async () => (await list({ page: 1, pageSize: 1, filters })).total,
+    staleTime: 30_000,
+  });
+}
+
+export function totalPages(total: number, pageSize: number): number {
+  return Math.max(1, Math.ceil(total / pageSize));
+}
+
+interface ListDefaults {
+  pageSize?: number;
+  sort?: string;
+  dir?: SortDirection;
+  // Filtros que la página lee de la URL además de page/sort/q
+  filters?: readonly string[];
+}
+
+export interface ListParamsState {
+  params: PageParams;
+  setPage: (page: number, cursor?: string | null) => void;
+  setPageSize: (pageSize: number) => void;
+  toggleSort: (field: string) => void;
+  setSearch: (q: string) => void;
+  setFilter: (key: string, value: string) => void;
+}
+
+// Estado del listado en la URL: el enlace se puede compartir y la vista sobrevive a una recarga
+export function useListParams(defaults: ListDefaults = {}): ListParamsState {
+  const [search, setSearchParams] = useSearchParams();
+  // Se compara como texto para que un arreglo literal no rehaga los parámetros en cada render
+  const filterKeys = defaults.filters?.join(',') ?? '';
+  const { pageSize: defaultPageSize, sort: defaultSort, dir: defaultDir } = defaults;
+
+  const params = useMemo<PageParams>(() => {
+    const filters: Record<string, string> = {};
+    for (const key of filterKeys.split(',').filter(Boolean)) {
+      const v = search.get(key);
+      if (v) filters[key] = v;
+    }
+    const dir = search.get('dir');
+    return {
+      page: Math.max(1, Number(search.get('page')) || 1),
+      pageSize: Number(search.get('pageSize')) || defaultPageSize || DEFAULT_PAGE_SIZE,
+      cursor: search.get('cursor') ?? undefined,
+      sort: search.get('sort') ?? defaultSort,
+      dir: dir === 'asc' || dir === 'desc' ? dir : defaultDir,
+      q: search.get('q') ?? undefined,
+      filters,
+    };
+  }, [search, filterKeys, defaultPageSize, defaultSort, defaultDir]);
+
+  // Cualquier cambio que no sea de página vuelve a la primera
+  const update = useCallback((changes: Record<string, string | null>, resetPage = true) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      for (const [k, v] of Object.entries(changes)) {
+        if (v) next.set(k, v);
+        else next.delete(k);
+      }
+      if (resetPage) {
+        next.delete('page');
+        next.delete('cursor');
+      }
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  // Setter estable: DataTable lo usa como dependencia del debounce de búsqueda
+  const setSearch = useCallback((q: string) => update({ q: q.trim() || null }), [update]);
+
+  // Mismo objeto mientras no cambien los parámetros, así los re-render del padre no disparan efectos
+  return useMemo<ListParamsState>(() => ({
+    params,
+    setPage: (page, cursor) => update({ page: page > 1 ? String(page) : null, cursor: cursor ?? null }, false),
+    setPageSize: (pageSize) => update({ pageSize: String(pageSize) }),
+    toggleSort: (field) => {
+      const dir = params.sort === field && params.dir === 'asc' ? 'desc' : 'asc';
+      update({ sort: field, dir });
+    },
+    setSearch,
+    setFilter: (key, value) => update({ [key]: value || null }),
+  }), [params, update, setSearch]);
+}
@@ -0,0 +1,63 @@
+import { matchPath } from 'react-router-dom';
+import { useAuthStore } from '@/store/auth.store';
+import type { UserRole } from '@/types';
+
+// Roles con acceso a cada ruta. Una ruta sin entrada queda abierta a cualquier usuario autenticado.
+// Lo comparten App.tsx (RequireRole), el Sidebar y las páginas.
+export const ROUTE_ROLES: Record<string, readonly UserRole[]> = {
+  '/maquilas':    ['admin', 'operario'],
+  // Trazabilidad del pedido: se enlaza desde Dashboard, Maquilas, Conciliación y el perfil del cliente
+  '/pedidos':     ['admin', 'operario', 'facturacion'],
+  '/trillado':    ['admin', 'operario'],
+  '/tostion':     ['admin', 'operario'],
+  '/produccion':  ['admin', 'operario'],
+  '/facturacion': ['admin', 'facturacion'],
+  '/despacho':    ['admin', 'facturacion'],
+  '/tarifas':     ['admin', 'facturacion'],
+  '/cartera':     ['admin', 'facturacion'],
+  '/conciliacion': ['admin', 'facturacion'],
+  '/analitica':   ['admin'],
+  '/clientes':    ['admin'],
+  '/horarios':    ['admin'],
+  '/maquinas':    ['admin'],
+  '/usuarios':    ['admin'],
+  '/configuracion': ['admin'],
+};
+
+// Acciones que modifican datos — los botones consultan este mapa vía useCan()
+export const ACTION_ROLES = {
+  'pedidos.crear':        ['admin', 'operario'],
+  'pedidos.editar':       ['admin'],
+  'clientes.crear':       ['admin', 'operario'],
+  'clientes.editar':      ['admin'],
+  'clientes.fusionar':    ['admin'],
+  'trillado.operar':      ['admin', 'operario'],
+  'tostion.operar':       ['admin', 'operario'],
+  'produccion.registrar': ['admin', 'operario'],
+  'facturas.crear':       ['admin', 'facturacion'],
+  'facturas.entrega':     ['admin', 'facturacion'],
+  'facturas.pagos':       ['admin', 'facturacion'],
+  'despacho.planear':     ['admin', 'facturacion'],
+  'tarifas.gestionar':    ['admin'],
+} as const satisfies Record<string, readonly UserRole[]>;
+
+export type Permission = keyof typeof ACTION_ROLES;
+
+export function rolesForPath(pathname: string): readonly UserRole[] | null {
+  const pattern = Object.keys(ROUTE_ROLES).find((p) => matchPath({ path: p, end: false }, pathname));
+  return pattern ? ROUTE_ROLES[pattern] : null;
+}
+
+export function canAccessRoute(role: UserRole | undefined, pathname: string): boolean {
+  const roles = rolesForPath(pathname);
+  return !roles || (!!role && roles.includes(role));
+}
+
+export function can(role: UserRole | undefined, permission: Permission): boolean {
+  return !!role && (ACTION_ROLES[permission] as readonly UserRole[]).includes(role);
+}
+
+export function useCan(permission: Permission): boolean {
+  const role = useAuthStore((s) => s.user?.role);
+  return can(role, permission);
+}
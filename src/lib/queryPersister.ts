@@ -0,0 +1,28 @@
+import { createAsyncStoragePersister } from '@tanstack/query-async-storage-persister';
+import { idb } from '@/lib/idb';
+
+const STORE = 'query-cache';
+
+// Datos más viejos que esto no se restauran al recargar
+export const QUERY_CACHE_MAX_AGE = 1000 * 60 * 60 * 24; // 24 h
+
+export const queryPersister = createAsyncStoragePersister({
+  key: 'pipe-query-cache',
+  throttleTime: 2000,
+  storage: {
+    getItem: async (key) => (await idb.get<string>(STORE, key)) ?? null,
+    setItem: async (key, value: string) => { await idb.put(STORE, value, key); },
+    removeItem: async (key) => { await idb.delete(STORE, key); },
+  },
+});
+
+// Respuestas de la API que guarda el service worker (cacheName en vite.config.ts)
+const API_CACHE_PREFIX = 'pipe-api';
+export const API_CACHE = `${API_CACHE_PREFIX}-${__APP_VERSION__}`;
+
+// Borra los cachés de la API salvo `conservar`; sin argumento borra todos
+export async function borrarCachesApi(conservar?: string): Promise<void> {
+  if (!('caches' in window)) return;
+  const nombres = await caches.keys();
+  await Promise.all(nombres.filter((n) => n.startsWith(API_CACHE_PREFIX) && n !== conservar).map((n) => caches.delete(n)));
+}
@@ -0,0 +1,78 @@
+import type { Trillado, Tostion } from '@/types';
+import { aMinutos } from '@/lib/turnos';
+
+export interface CorridaMaquina {
+  id: string;
+  etapa: 'trillado' | 'tostion';
+  fecha: string;
+  pedidoCode: string;
+  kilosEntrada: number;
+  kilosSalida: number;
+  merma: number; // %
+  horas: number | null;
+}
+
+export interface RendimientoMaquina {
+  maquinaId: string;
+  corridas: CorridaMaquina[];
+  kilosProcesados: number;
+  // Promedio ponderado por kilos de entrada
+  mermaPromedio: number | null;
+  kgPorHora: number | null;
+}
+
+// Duración de la corrida a partir de las horas registradas (admite cruce de medianoche)
+function horasCorrida(inicio: string | null, fin: string | null): number | null {
+  if (!inicio || !fin) return null;
+  let min = aMinutos(fin) - aMinutos(inicio);
+  if (min <= 0) min += 24 * 60;
+  return min / 60;
+}
+
+function corridaDe(
+  etapa: CorridaMaquina['etapa'],
+  r: { id: string; fechaIngreso: string; horaInicio: string | null; horaFin: string | null; pedido?: { code: string } },
+  entrada: number | null,
+  salida: number | null,
+): CorridaMaquina | null {
+  if (!entrada || salida == null) return null;
+  return {
+    id: r.id,
+    etapa,
+    fecha: r.fechaIngreso,
+    pedidoCode: r.pedido?.code ?? '—',
+    kilosEntrada: Number(entrada),
+    kilosSalida: Number(salida),
+    merma: ((Number(entrada) - Number(salida)) / Number(entrada)) * 100,
+    horas: horasCorrida(r.horaInicio, r.horaFin),
+  };
+}
+
+// Agrupa las corridas finalizadas por máquina
+export function rendimientoPorMaquina(trillados: Trillado[], tostiones: Tostion[]): Map<string, RendimientoMaquina> {
+  const porMaquina = new Map<string, CorridaMaquina[]>();
+  const add = (maquinaId: string | null, c: CorridaMaquina | null) => {
+    if (!maquinaId || !c) return;
+    porMaquina.set(maquinaId, [...(porMaquina.get(maquinaId) ?? []), c]);
+  };
+
+  for (const t of trillados) add(t.maquinaId, corridaDe('trillado', t, t.kilosEntrada, t.kilosSalida));
+  for (const t of tostiones) add(t.maquinaId, corridaDe('tostion', t, t.kilosExcelso, t.kilosTostados));
+
+  const result = new Map<string, RendimientoMaquina>();
+  for (const [maquinaId, corridas] of porMaquina) {
+    corridas.sort((a, b) => b.fecha.localeCompare(a.fecha));
+    const kilosProcesados = corridas.reduce((s, c) => s + c.kilosEntrada, 0);
+    const perdidos = corridas.reduce((s, c) => s + c.kilosEntrada - c.kilosSalida, 0);
+    const conHoras = corridas.filter((c) => c.horas);
+    const horas = conHoras.reduce((s, c) => s + (c.horas ?? 0), 0);
+    result.set(maquinaId, {
+      maquinaId,
+      corridas,
+      kilosProcesados,
+      mermaPromedio: kilosProcesados > 0 ? (perdidos / kilosProcesados) * 100 : null,
+      kgPorHora: horas > 0 ? conHoras.reduce((s, c) => s + c.kilosEntrada, 0) / horas : null,
+    });
+  }
+  return result;
+}
@@ -0,0 +1,115 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { pedidosService } from '@/services/pedidos.service';
+import { addDays, diaLocal, hoyISO, parseISODate } from '@/lib/dates';
+import type { DuracionEtapa, EtapaSla, InicioEtapas, Pedido, PedidoEstado } from '@/types';
+
+export type RiesgoSla = 'VENCIDO' | 'EN_RIESGO' | 'A_TIEMPO';
+
+export const ETAPAS_SLA: EtapaSla[] = ['TRILLADO', 'TOSTION', 'PRODUCCION'];
+
+export const ETAPA_SLA_LABEL: Record<EtapaSla, string> = {
+  TRILLADO:   'Trillado',
+  TOSTION:    'Tostión',
+  PRODUCCION: 'Producción',
+};
+
+export const RIESGO_SLA_LABEL: Record<RiesgoSla, string> = {
+  VENCIDO:   'Vencido',
+  EN_RIESGO: 'En riesgo',
+  A_TIEMPO:  'A tiempo',
+};
+
+// Etapa que le falta completar al pedido; las que no aparecen ya salieron de producción
+const ETAPA_DE_ESTADO: Partial<Record<PedidoEstado, EtapaSla>> = {
+  REGISTRADO: 'TRILLADO',
+  MAQUILA:    'TRILLADO',
+  TRILLADO:   'TOSTION',
+  TOSTION:    'TOSTION',
+  PRODUCCION: 'PRODUCCION',
+};
+
+export interface SlaPedido {
+  pedido: Pedido;
+  etapa: EtapaSla | null;
+  fechaEstimada: string;
+  diaEntrega: string;
+  // Días entre la fecha estimada y el compromiso; negativo = se entrega tarde
+  holgura: number;
+  riesgo: RiesgoSla;
+}
+
+export function estaEnRiesgo(sla: SlaPedido | undefined): sla is SlaPedido {
+  return !!sla && sla.riesgo !== 'A_TIEMPO';
+}
+
+function diasEntre(desde: string, hasta: string): number {
+  return Math.round((parseISODate(hasta).getTime() - parseISODate(desde).getTime()) / 86_400_000);
+}
+
+// Lo que queda de la etapa actual (descontando lo ya transcurrido) más las etapas siguientes completas
+export function estimarSla(
+  pedido: Pedido,
+  inicios: InicioEtapas | undefined,
+  duraciones: Record<EtapaSla, DuracionEtapa>,
+  hoy = hoyISO(),
+): SlaPedido {
+  const etapa = ETAPA_DE_ESTADO[pedido.estado] ?? null;
+  let restante = 0;
+  if (etapa) {
+    const inicio = inicios?.[etapa];
+    const transcurrido = inicio ? Math.max(0, diasEntre(inicio, hoy)) : 0;
+    restante = Math.max(0, duraciones[etapa].promedio - transcurrido);
+    for (const siguiente of ETAPAS_SLA.slice(ETAPAS_SLA.indexOf(etapa) + 1)) {
+      restante += duraciones[siguiente].promedio;
+    }
+  }
+
+  const diaEntrega = pedido.diaEntrega.slice(0, 10);
+  const fechaEstimada = addDays(hoy, Math.ceil(restante));
+  const holgura = diasEntre(fechaEstimada, diaEntrega);
+  const riesgo: RiesgoSla = diaEntrega < hoy ? 'VENCIDO' : holgura < 0 ? 'EN_RIESGO' : 'A_TIEMPO';
+  return { pedido, etapa, fechaEstimada, diaEntrega, holgura, riesgo };
+}
+
+// Días por etapa mientras no llegan los promedios del servidor
+const DURACIONES_DEFAULT: Record<EtapaSla, DuracionEtapa> = {
+  TRILLADO:   { promedio: 2, muestras: 0 },
+  TOSTION:    { promedio: 2, muestras: 0 },
+  PRODUCCION: { promedio: 1, muestras: 0 },
+};
+
+// El servidor promedia el historial y solo envía los pedidos sin entregar; la estimación se hace aquí con la fecha local
+export function useSla() {
+  const query = useQuery({ queryKey: ['pedidos', 'sla'], queryFn: () => pedidosService.sla(), staleTime: 30_000 });
+
+  const duraciones = query.data?.duraciones ?? DURACIONES_DEFAULT;
+
+  const porPedido = useMemo(() => {
+    const hoy = hoyISO();
+    return new Map((query.data?.activos ?? []).map(({ pedido, inicios }) => [
+      pedido.id,
+      // createdAt llega con hora en UTC: se lleva al día local antes de contar días
+      estimarSla(pedido, {
+        TRILLADO: diaLocal(inicios.TRILLADO),
+        TOSTION: inicios.TOSTION && diaLocal(inicios.TOSTION),
+        PRODUCCION: inicios.PRODUCCION && diaLocal(inicios.PRODUCCION),
+      }, duraciones, hoy),
+    ]));
+  }, [query.data, duraciones]);
+
+  // Más urgentes primero: compromiso más cercano (los vencidos quedan arriba) y menor holgura
+  const enRiesgo = useMemo(
+    () => [...porPedido.values()]
+      .filter(estaEnRiesgo)
+      .sort((a, b) => a.diaEntrega.localeCompare(b.diaEntrega) || a.holgura - b.holgura),
+    [porPedido],
+  );
+
+  return {
+    porPedido,
+    enRiesgo,
+    duraciones,
+    isLoading: query.isLoading,
+  };
+}
@@ -0,0 +1,52 @@
+import { useQuery } from '@tanstack/react-query';
+import { tarifasService } from '@/services/tarifas.service';
+import { hoyISO, isActualOFutura, isVigente, rangesOverlap } from '@/lib/dates';
+import type { FormaEntrega, PresentacionDetalle, Tarifa } from '@/types';
+
+export type EstadoTarifa = 'vigente' | 'programada' | 'vencida';
+
+export interface ClaveTarifa {
+  presentacion: PresentacionDetalle;
+  formaEntrega: FormaEntrega;
+  clienteId: string | null;
+}
+
+export function useTarifas() {
+  return useQuery({
+    queryKey: ['tarifas'],
+    queryFn: () => tarifasService.getAll(),
+    staleTime: 5 * 60_000,
+  });
+}
+
+export function estadoTarifa(t: Tarifa, fecha = hoyISO()): EstadoTarifa {
+  if (isVigente(t, fecha)) return 'vigente';
+  return isActualOFutura(t, fecha) ? 'programada' : 'vencida';
+}
+
+const mismaClave = (t: Tarifa, c: ClaveTarifa) =>
+  t.presentacion === c.presentacion && t.formaEntrega === c.formaEntrega && (t.clienteId ?? null) === c.clienteId;
+
+// Precio que aplica a una línea: primero el pactado con el cliente, si no la tarifa general.
+// Si hubiera dos vigentes para la misma clave gana la que empezó más tarde
+export function tarifaVigente(
+  tarifas: Tarifa[] | undefined,
+  c: Omit<ClaveTarifa, 'clienteId'> & { clienteId?: string | null },
+  fecha = hoyISO(),
+): Tarifa | null {
+  const vigentes = (tarifas ?? []).filter((t) => isVigente(t, fecha));
+  const buscar = (clienteId: string | null) =>
+    vigentes
+      .filter((t) => mismaClave(t, { ...c, clienteId }))
+      .sort((a, b) => b.fechaInicio.localeCompare(a.fechaInicio))[0] ?? null;
+  return (c.clienteId ? buscar(c.clienteId) : null) ?? buscar(null);
+}
+
+// Dos tarifas de la misma clave no pueden cubrir el mismo día
+export function tarifaQueSeCruza(
+  tarifas: Tarifa[] | undefined,
+  nueva: ClaveTarifa & { fechaInicio: string; fechaFin: string | null },
+  ignorarId?: string,
+): Tarifa | null {
+  return (tarifas ?? []).find((t) => t.id !== ignorarId && mismaClave(t, nueva) && rangesOverlap(t, nueva)) ?? null;
+}
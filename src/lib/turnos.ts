@@ -0,0 +1,106 @@
+import type { Horario, HorarioAsignacion, HorarioDetalle } from '@/services/horarios.service';
+import { addDays, isVigente, parseISODate, toISODate } from '@/lib/dates';
+
+export type DiaSemana = HorarioDetalle['diaSemana'];
+
+// Índice de Date.getDay() → diaSemana del backend
+const DIA_POR_INDICE: DiaSemana[] = ['DOMINGO', 'LUNES', 'MARTES', 'MIERCOLES', 'JUEVES', 'VIERNES', 'SABADO'];
+
+export function diaSemanaDe(fecha: string): DiaSemana {
+  return DIA_POR_INDICE[parseISODate(fecha).getDay()];
+}
+
+// Horas en que la planta debe tener al menos un operario. null = no se opera.
+export const JORNADA_PLANTA: Record<DiaSemana, { inicio: string; fin: string } | null> = {
+  LUNES:     { inicio: '06:00', fin: '18:00' },
+  MARTES:    { inicio: '06:00', fin: '18:00' },
+  MIERCOLES: { inicio: '06:00', fin: '18:00' },
+  JUEVES:    { inicio: '06:00', fin: '18:00' },
+  VIERNES:   { inicio: '06:00', fin: '18:00' },
+  SABADO:    { inicio: '06:00', fin: '12:00' },
+  DOMINGO:   null,
+};
+
+export function aMinutos(hora: string): number {
+  const [h, m] = hora.split(':').map(Number);
+  return h * 60 + (m || 0);
+}
+
+export function aHora(minutos: number): string {
+  return `${String(Math.floor(minutos / 60)).padStart(2, '0')}:${String(minutos % 60).padStart(2, '0')}`;
+}
+
+export interface BloqueTurno {
+  operarioId: string;
+  horario: Horario;
+  inicio: number; // minutos desde 00:00
+  fin: number;
+}
+
+// Bloques de trabajo de un día según las asignaciones vigentes en esa fecha
+export function bloquesDelDia(fecha: string, asignaciones: HorarioAsignacion[], horarios: Horario[]): BloqueTurno[] {
+  const dia = diaSemanaDe(fecha);
+  const porId = new Map(horarios.map((h) => [h.id, h]));
+  const bloques: BloqueTurno[] = [];
+  for (const a of asignaciones) {
+    if (!isVigente(a, fecha)) continue;
+    const horario = porId.get(a.horarioId);
+    const detalle = horario?.detalles.find((d) => d.diaSemana === dia);
+    if (!horario || !detalle) continue;
+    bloques.push({ operarioId: a.operarioId, horario, inicio: aMinutos(detalle.horaInicio), fin: aMinutos(detalle.horaFin) });
+  }
+  return bloques.sort((a, b) => a.inicio - b.inicio);
+}
+
+export interface Hueco {
+  inicio: number;
+  fin: number;
+}
+
+// Tramos de la jornada de planta que ningún bloque cubre
+export function huecosCobertura(fecha: string, bloques: BloqueTurno[]): Hueco[] {
+  const jornada = JORNADA_PLANTA[diaSemanaDe(fecha)];
+  if (!jornada) return [];
+  const fin = aMinutos(jornada.fin);
+  let cursor = aMinutos(jornada.inicio);
+  const huecos: Hueco[] = [];
+  for (const b of bloques) {
+    if (b.fin <= cursor) continue;
+    if (b.inicio > cursor) huecos.push({ inicio: cursor, fin: Math.min(b.inicio, fin) });
+    cursor = Math.max(cursor, b.fin);
+    if (cursor >= fin) break;
+  }
+  if (cursor < fin) huecos.push({ inicio: cursor, fin });
+  return huecos.filter((h) => h.fin > h.inicio);
+}
+
+// Plantillas cuyos flags de fin de semana no coinciden con sus detalles
+export function inconsistenciasHorario(h: Horario): string[] {
+  const tiene = (dia: DiaSemana) => h.detalles.some((d) => d.diaSemana === dia);
+  const avisos: string[] = [];
+  if (h.incluyeSabado && !tiene('SABADO'))   avisos.push('Marca "incluye sábado" pero no tiene horario para el sábado');
+  if (!h.incluyeSabado && tiene('SABADO'))   avisos.push('Tiene horario el sábado sin marcar "incluye sábado"');
+  if (h.incluyeDomingo && !tiene('DOMINGO')) avisos.push('Marca "incluye domingo" pero no tiene horario para el domingo');
+  if (!h.incluyeDomingo && tiene('DOMINGO')) avisos.push('Tiene horario el domingo sin marcar "incluye domingo"');
+  return avisos;
+}
+
+export type VistaCalendario = 'semana' | 'mes';
+
+// Fechas visibles: semana de lunes a domingo, o el mes completo en semanas enteras
+export function diasDeVista(vista: VistaCalendario, referencia: string): string[] {
+  const ref = parseISODate(referencia);
+  let desde: string;
+  let total: number;
+  if (vista === 'semana') {
+    desde = addDays(referencia, -((ref.getDay() + 6) % 7));
+    total = 7;
+  } else {
+    const primero = toISODate(new Date(ref.getFullYear(), ref.getMonth(), 1));
+    const ultimo = toISODate(new Date(ref.getFullYear(), ref.getMonth() + 1, 0));
+    desde = addDays(primero, -((parseISODate(primero).getDay() + 6) % 7));
+    const hasta = addDays(ultimo, (7 - parseISODate(ultimo).getDay()) % 7);
+    total = Math.round((parseISODate(hasta).getTime() - parseISODate(desde).getTime()) / 86_400_000) + 1;
+  }
+  return Array.from({ length: total }, (_, i) => addDays(desde, i));
+}
@@ -1,11 +1,15 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { QueryClient } from '@tanstack/react-query';
+import { PersistQueryClientProvider } from '@tanstack/react-query-persist-client';
 import App from './App';
 import './index.css';
 import { ToastProvider } from '@/components/ui/ToastProvider';
 import { ConfirmProvider } from '@/components/ui/ConfirmDialog';
+import { startOfflineSync } from '@/lib/offlineQueue';
+import { API_CACHE, borrarCachesApi, queryPersister, QUERY_CACHE_MAX_AGE } from '@/lib/queryPersister';
+import { useAuthStore } from '@/store/auth.store';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -13,19 +17,43 @@ const queryClient = new QueryClient({
       retry: 1,
       refetchOnWindowFocus: false,
       staleTime: 1000 * 60, // 1 min
+      // Debe cubrir la vida del caché persistido o se descarta al restaurar
+      gcTime: QUERY_CACHE_MAX_AGE,
     },
   },
 });
 
+// Reenvía las mutaciones encoladas sin conexión y refresca los datos al terminar
+startOfflineSync(() => queryClient.invalidateQueries());
+
+// Los cachés de la API de versiones anteriores ya no se leen
+void borrarCachesApi(API_CACHE);
+
+// Al cerrar sesión no deben quedar datos del usuario anterior en el equipo
+useAuthStore.subscribe((s, prev) => {
+  if (prev.isAuthenticated && !s.isAuthenticated) {
+    queryClient.clear();
+    void borrarCachesApi();
+  }
+});
+
 ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(
   <React.StrictMode>
-    <QueryClientProvider client={queryClient}>
+    <PersistQueryClientProvider
+      client={queryClient}
+      persistOptions={{
+        persister: queryPersister,
+        maxAge: QUERY_CACHE_MAX_AGE,
+        // Un despliegue nuevo invalida el caché guardado
+        buster: __APP_VERSION__,
+      }}
+    >
       <ConfirmProvider>
         <BrowserRouter>
           <App />
         </BrowserRouter>
         <ToastProvider />
       </ConfirmProvider>
-    </QueryClientProvider>
+    </PersistQueryClientProvider>
   </React.StrictMode>
 );
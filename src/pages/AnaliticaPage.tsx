@@ -0,0 +1,196 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Scissors, FlaskConical, Gauge, Scale } from 'lucide-react';
+import { trilladoService } from '@/services/trillado.service';
+import { tostionService } from '@/services/tostion.service';
+import {
+  agruparRendimiento, bandasPercentil, observacionesRendimiento,
+  type DimensionRendimiento, type EtapaRendimiento,
+} from '@/lib/analitica';
+import { BandasRendimiento } from '@/components/analitica/BandasRendimiento';
+import { KpiCard } from '@/components/ui/KpiCard';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { CardSkeleton, TableSkeleton } from '@/components/ui/Skeleton';
+import { cn } from '@/lib/cn';
+
+const ETAPAS: { value: EtapaRendimiento; label: string; descripcion: string; icon: React.ReactNode }[] = [
+  { value: 'trillado', label: 'Verde → excelso',   descripcion: 'Kilos de salida del trillado sobre kilos de café verde recibidos', icon: <Scissors size={13} /> },
+  { value: 'tostion',  label: 'Excelso → tostado', descripcion: 'Kilos tostados sobre kilos de excelso que entran al tostador',       icon: <FlaskConical size={13} /> },
+];
+
+const DIMENSIONES: { value: Exclude<DimensionRendimiento, 'mes'>; label: string }[] = [
+  { value: 'cliente',      label: 'Cliente' },
+  { value: 'variedad',     label: 'Variedad' },
+  { value: 'presentacion', label: 'Presentación' },
+];
+
+const PRESENTACION_LABELS: Record<string, string> = {
+  CPS: 'CPS',
+  EXCELSO: 'Excelso',
+  HONEY: 'Honey',
+  NATURAL: 'Natural',
+};
+
+function fmtMes(mes: string) {
+  const [y, m] = mes.split('-').map(Number);
+  return new Date(y, m - 1, 1).toLocaleDateString('es-CO', { month: 'short', year: '2-digit' });
+}
+
+function pct(v: number) {
+  return Number.isFinite(v) ? `${v.toFixed(1)}%` : '—';
+}
+
+export function AnaliticaPage() {
+  const [etapa, setEtapa] = useState<EtapaRendimiento>('trillado');
+  const [dimension, setDimension] = useState<Exclude<DimensionRendimiento, 'mes'>>('cliente');
+  const [desde, setDesde] = useState('');
+  const [hasta, setHasta] = useState('');
+
+  // Mismas claves que Trillado y Tostión para compartir caché
+  const trilladoQuery = useQuery({ queryKey: ['trillado', 'historial'], queryFn: () => trilladoService.getAll(), staleTime: 60_000 });
+  const tostionQuery  = useQuery({ queryKey: ['tostion', 'historial'],  queryFn: () => tostionService.getAll(),  staleTime: 60_000 });
+  const isLoading = trilladoQuery.isLoading || tostionQuery.isLoading;
+
+  const observaciones = useMemo(
+    () => observacionesRendimiento(trilladoQuery.data ?? [], tostionQuery.data ?? [])
+      .filter((o) => o.etapa === etapa && (!desde || o.mes >= desde) && (!hasta || o.mes <= hasta)),
+    [trilladoQuery.data, tostionQuery.data, etapa, desde, hasta],
+  );
+
+  const porMes = useMemo(() => agruparRendimiento(observaciones, 'mes'), [observaciones]);
+  const porDimension = useMemo(() => agruparRendimiento(observaciones, dimension), [observaciones, dimension]);
+
+  const resumen = useMemo(() => {
+    const porCorrida = new Map(observaciones.map((o) => [o.corridaId, o.rendimiento]));
+    const entrada = observaciones.reduce((s, o) => s + o.entrada, 0);
+    const salida = observaciones.reduce((s, o) => s + o.salida, 0);
+    return {
+      corridas: porCorrida.size,
+      entrada,
+      ponderado: entrada > 0 ? (salida / entrada) * 100 : NaN,
+      bandas: bandasPercentil([...porCorrida.values()]),
+    };
+  }, [observaciones]);
+
+  const etiquetaDimension = (clave: string) =>
+    dimension === 'presentacion' ? PRESENTACION_LABELS[clave] ?? clave : clave;
+  const etapaActual = ETAPAS.find((e) => e.value === etapa)!;
+
+  return (
+    <div className="page space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div>
+          <span className="chip mb-2">Calidad</span>
+          <h2 className="text-2xl font-bold text-[var(--color-tx-primary)] mt-1">Analítica de rendimiento</h2>
+          <p className="text-sm text-[var(--color-tx-secondary)] mt-1">{etapaActual.descripcion}.</p>
+        </div>
+        <div className="flex items-end gap-2 flex-wrap">
+          <label className="text-xs text-[var(--color-tx-secondary)]">
+            Desde
+            <input type="month" className="input mt-1" value={desde} onChange={(e) => setDesde(e.target.value)} />
+          </label>
+          <label className="text-xs text-[var(--color-tx-secondary)]">
+            Hasta
+            <input type="month" className="input mt-1" value={hasta} onChange={(e) => setHasta(e.target.value)} />
+          </label>
+        </div>
+      </div>
+
+      {/* Etapa */}
+      <div className="flex gap-1">
+        {ETAPAS.map((e) => (
+          <button
+            key={e.value}
+            className={cn('btn btn-sm gap-1', etapa === e.value ? 'btn-primary' : 'btn-ghost')}
+            onClick={() => setEtapa(e.value)}
+          >
+            {e.icon}
+            {e.label}
+          </button>
+        ))}
+      </div>
+
+      {/* KPIs */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <KpiCard label="Corridas"            value={resumen.corridas}                       icon={<Gauge size={15} />} accent="#6B7280" loading={isLoading} />
+        <KpiCard label="Kg procesados"       value={`${resumen.entrada.toFixed(0)} kg`}     icon={<Scale size={15} />} accent="#3B82F6" loading={isLoading} />
+        <KpiCard label="Rendimiento ponderado" value={pct(resumen.ponderado)}                accent="#00D084" loading={isLoading} />
+        <KpiCard label="Banda P10–P90"       value={`${pct(resumen.bandas.p10)} – ${pct(resumen.bandas.p90)}`} accent="#8B5CF6" loading={isLoading} />
+      </div>
+
+      {isLoading ? (
+        <>
+          <CardSkeleton className="h-72" />
+          <TableSkeleton rows={5} cols={6} />
+        </>
+      ) : observaciones.length === 0 ? (
+        <EmptyState title="Sin corridas" description="No hay corridas finalizadas en el periodo seleccionado." />
+      ) : (
+        <>
+          {/* Tendencia mensual */}
+          <div className="card">
+            <p className="section-title mb-1">Tendencia mensual</p>
+            <p className="text-xs text-[var(--color-tx-secondary)] mb-4">
+              Línea: mediana · banda oscura: P25–P75 · banda clara: P10–P90
+            </p>
+            <BandasRendimiento grupos={porMes} variante="tendencia" etiqueta={fmtMes} />
+          </div>
+
+          {/* Por dimensión */}
+          <div className="card">
+            <div className="flex items-center justify-between gap-3 flex-wrap mb-4">
+              <p className="section-title">Rendimiento por {DIMENSIONES.find((d) => d.value === dimension)?.label.toLowerCase()}</p>
+              <div className="flex gap-1">
+                {DIMENSIONES.map((d) => (
+                  <button
+                    key={d.value}
+                    className={cn('btn btn-sm', dimension === d.value ? 'btn-primary' : 'btn-ghost')}
+                    onClick={() => setDimension(d.value)}
+                  >
+                    {d.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <BandasRendimiento grupos={porDimension.slice(0, 12)} variante="categorias" etiqueta={etiquetaDimension} />
+
+            <div className="table-wrap mt-6">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>{DIMENSIONES.find((d) => d.value === dimension)?.label}</th>
+                    <th>Corridas</th>
+                    <th>Kg entrada</th>
+                    <th>Ponderado</th>
+                    <th>P10</th>
+                    <th>Mediana</th>
+                    <th>P90</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {porDimension.map((g) => (
+                    <tr key={g.clave}>
+                      <td className="font-medium">{etiquetaDimension(g.clave)}</td>
+                      <td className="tabular-nums">{g.corridas}</td>
+                      <td className="tabular-nums">{g.kilosEntrada.toFixed(1)} kg</td>
+                      <td className="tabular-nums font-semibold">{pct(g.rendimiento)}</td>
+                      <td className="tabular-nums text-[var(--color-tx-secondary)]">{pct(g.p10)}</td>
+                      <td className="tabular-nums">{pct(g.p50)}</td>
+                      <td className="tabular-nums text-[var(--color-tx-secondary)]">{pct(g.p90)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {dimension !== 'cliente' && (
+              <p className="text-xs text-[var(--color-tx-secondary)] mt-3">
+                Los pedidos mixtos se reparten entre sus líneas según los kilos de cada una.
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Search, Wallet, AlertTriangle, Clock, FileText } from 'lucide-react';
+import { facturasService } from '@/services/facturas.service';
+import { TRAMOS_EDAD, carteraPorEdades, totalesCartera, type CarteraCliente } from '@/lib/cartera';
+import { fmtMoney } from '@/lib/format';
+import { KpiCard } from '@/components/ui/KpiCard';
+import { Modal } from '@/components/ui/Modal';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { TableSkeleton } from '@/components/ui/Skeleton';
+import { EstadoCuenta } from '@/components/cartera/EstadoCuenta';
+import { cn } from '@/lib/cn';
+import type { Cliente } from '@/types';
+
+export function CarteraPage() {
+  const [search, setSearch] = useState('');
+  const [clienteCuenta, setClienteCuenta] = useState<Pick<Cliente, 'id' | 'name' | 'plazoPagoDias'> | null>(null);
+
+  // Bajo ['facturas'] para que registrar un pago o facturar la refresque
+  const facturasQuery = useQuery({
+    queryKey: ['facturas', 'cartera'],
+    queryFn: () => facturasService.getConSaldo(),
+    staleTime: 20_000,
+  });
+
+  const filas = useMemo(() => carteraPorEdades(facturasQuery.data ?? []), [facturasQuery.data]);
+  const totales = totalesCartera(filas);
+
+  const visibles = filas.filter((f) => !search || f.cliente.toLowerCase().includes(search.toLowerCase()));
+
+  const abrirCuenta = (fila: CarteraCliente) => {
+    const cliente = facturasQuery.data?.find((f) => f.pedido?.client?.id === fila.clienteId)?.pedido.client;
+    if (cliente) setClienteCuenta(cliente);
+  };
+
+  return (
+    <div className="page space-y-6">
+      {/* Header */}
+      <div>
+        <span className="chip mb-2">Ciclo de facturación</span>
+        <h2 className="text-2xl font-bold text-[var(--color-tx-primary)] mt-1">Cartera</h2>
+        <p className="text-sm text-[var(--color-tx-secondary)] mt-1">
+          Saldos por cobrar por cliente según la edad de la factura.
+        </p>
+      </div>
+
+      {/* KPIs */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <KpiCard label="Por cobrar" value={fmtMoney(totales.total)} icon={<Wallet size={15} />} accent="#3B82F6" loading={facturasQuery.isLoading} />
+        <KpiCard label="Vencido" value={fmtMoney(totales.vencido)} icon={<AlertTriangle size={15} />} accent="#EF4444" loading={facturasQuery.isLoading} />
+        <KpiCard label="Más de 90 días" value={fmtMoney(totales.tramos['90+'])} icon={<Clock size={15} />} accent="#F59E0B" loading={facturasQuery.isLoading} />
+        <KpiCard label="Clientes con saldo" value={filas.length} icon={<FileText size={15} />} accent="#6B7280" loading={facturasQuery.isLoading} />
+      </div>
+
+      {/* Tabla por edades */}
+      <div className="card">
+        <div className="flex items-center justify-between gap-3 flex-wrap mb-4">
+          <p className="section-title">Cartera por edades</p>
+          <div className="relative">
+            <Search size={13} className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--color-tx-secondary)]" />
+            <input
+              className="input pl-8 w-64"
+              placeholder="Buscar cliente…"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {facturasQuery.isLoading ? (
+          <TableSkeleton rows={5} cols={8} />
+        ) : visibles.length === 0 ? (
+          <EmptyState title="Sin saldos pendientes" description="Todas las facturas están pagadas." />
+        ) : (
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Cliente</th>
+                  <th className="text-center">Facturas</th>
+                  {TRAMOS_EDAD.map((t) => <th key={t} className="text-right">{t} días</th>)}
+                  <th className="text-right">Total</th>
+                  <th className="text-right">Vencido</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibles.map((f) => (
+                  <tr key={f.clienteId} className="cursor-pointer" onClick={() => abrirCuenta(f)} title="Ver estado de cuenta">
+                    <td className="font-medium">{f.cliente}</td>
+                    <td className="text-center">{f.facturas}</td>
+                    {TRAMOS_EDAD.map((t) => (
+                      <td key={t} className={cn('text-right tabular-nums', !f.tramos[t] && 'text-[var(--color-tx-secondary)]')}>
+                        {f.tramos[t] ? fmtMoney(f.tramos[t]) : '—'}
+                      </td>
+                    ))}
+                    <td className="text-right tabular-nums font-semibold">{fmtMoney(f.total)}</td>
+                    <td className={cn('text-right tabular-nums', f.vencido > 0 ? 'text-red-500 font-semibold' : 'text-[var(--color-tx-secondary)]')}>
+                      {f.vencido > 0 ? fmtMoney(f.vencido) : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="font-semibold">
+                  <td>Total</td>
+                  <td />
+                  {TRAMOS_EDAD.map((t) => <td key={t} className="text-right tabular-nums">{fmtMoney(totales.tramos[t])}</td>)}
+                  <td className="text-right tabular-nums">{fmtMoney(totales.total)}</td>
+                  <td className="text-right tabular-nums text-red-500">{fmtMoney(totales.vencido)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Modal estado de cuenta */}
+      <Modal
+        open={!!clienteCuenta}
+        onClose={() => setClienteCuenta(null)}
+        title={`Estado de cuenta · ${clienteCuenta?.name ?? ''}`}
+        size="xl"
+      >
+        {clienteCuenta && <EstadoCuenta cliente={clienteCuenta} />}
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, ClipboardList, Scale, FileText, Wallet, MapPin, Mail, Phone } from 'lucide-react';
+import { clientesService, pedidosService } from '@/services/pedidos.service';
+import { facturasService } from '@/services/facturas.service';
+import { estadoPagoDe, plazoDe, saldoDe } from '@/lib/cartera';
+import { fmtMoney } from '@/lib/format';
+import { KpiCard } from '@/components/ui/KpiCard';
+import { StatusBadge } from '@/components/ui/StatusBadge';
+import { Modal } from '@/components/ui/Modal';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { CardSkeleton, TableSkeleton } from '@/components/ui/Skeleton';
+import { EstadoCuenta } from '@/components/cartera/EstadoCuenta';
+import type { Pedido } from '@/types';
+
+function fmt(d?: string | null) {
+  if (!d) return '—';
+  return new Date(`${d.slice(0, 10)}T00:00:00`).toLocaleDateString('es-CO', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+function fmtKg(v: number) {
+  return `${v.toLocaleString('es-CO', { maximumFractionDigits: 1 })} kg`;
+}
+
+function totalKilos(p: Pedido): number {
+  if (p.detalles && p.detalles.length > 0) {
+    return p.detalles.reduce((s, d) => s + Number(d.kilos), 0);
+  }
+  return Number(p.kilos ?? 0);
+}
+
+export function ClienteDetallePage() {
+  const { id = '' } = useParams<{ id: string }>();
+  const [showCuenta, setShowCuenta] = useState(false);
+
+  const clienteQuery = useQuery({
+    queryKey: ['clientes', id],
+    queryFn: () => clientesService.getById(id),
+    enabled: !!id,
+    staleTime: 30_000,
+  });
+
+  const pedidosQuery = useQuery({
+    queryKey: ['pedidos', 'cliente', id],
+    queryFn: () => pedidosService.getByCliente(id),
+    enabled: !!id,
+    staleTime: 20_000,
+  });
+
+  // Misma clave que el estado de cuenta para compartir caché
+  const facturasQuery = useQuery({
+    queryKey: ['facturas', 'cliente', id],
+    queryFn: () => facturasService.getByCliente(id),
+    enabled: !!id,
+    staleTime: 20_000,
+  });
+
+  const cliente = clienteQuery.data;
+  const pedidos = useMemo(
+    () => [...(pedidosQuery.data ?? [])].sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    [pedidosQuery.data],
+  );
+  const facturas = useMemo(
+    () => [...(facturasQuery.data ?? [])].sort((a, b) => b.fecha.localeCompare(a.fecha)),
+    [facturasQuery.data],
+  );
+
+  // Procesado = el café ya salió de recepción; lo registrado sin trillar aún no cuenta
+  const kilos = useMemo(() => ({
+    pedidos: pedidos.reduce((s, p) => s + totalKilos(p), 0),
+    procesados: pedidos.filter((p) => p.estado !== 'REGISTRADO').reduce((s, p) => s + totalKilos(p), 0),
+  }), [pedidos]);
+
+  const facturado = facturas.reduce((s, f) => s + Number(f.valorTotal), 0);
+  const saldo = facturas.reduce((s, f) => s + saldoDe(f), 0);
+
+  if (clienteQuery.isLoading) {
+    return (
+      <div className="page space-y-6">
+        <CardSkeleton />
+        <CardSkeleton className="h-64" />
+      </div>
+    );
+  }
+
+  if (!cliente) {
+    return (
+      <div className="page">
+        <EmptyState
+          title="Cliente no encontrado"
+          description="El cliente no existe o fue fusionado con otro."
+          action={<Link to="/clientes" className="btn btn-primary btn-sm">Volver a Clientes</Link>}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="page space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div>
+          <Link to="/clientes" className="text-xs font-semibold text-[#00D084] hover:underline inline-flex items-center gap-1 mb-2">
+            <ArrowLeft size={11} /> Clientes
+          </Link>
+          <div className="flex items-center gap-3 mt-1">
+            <h2 className="text-2xl font-bold text-[var(--color-tx-primary)]">{cliente.name}</h2>
+            {cliente.activo === false && (
+              <span className="badge bg-[var(--color-muted)] text-[var(--color-tx-secondary)]">Inactivo</span>
+            )}
+          </div>
+          <p className="text-sm text-[var(--color-tx-secondary)] mt-1 flex items-center gap-x-3 gap-y-1 flex-wrap">
+            <span className="font-mono">{cliente.documentId}</span>
+            {cliente.email && <span className="inline-flex items-center gap-1"><Mail size={11} /> {cliente.email}</span>}
+            {cliente.phone && <span className="inline-flex items-center gap-1"><Phone size={11} /> {cliente.phone}</span>}
+            {cliente.ciudad && (
+              <span className="inline-flex items-center gap-1">
+                <MapPin size={11} /> {cliente.ciudad.nombre}, {cliente.ciudad.departamento}
+              </span>
+            )}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-xs text-[var(--color-tx-secondary)]">Plazo de pago</p>
+          <p className="text-sm font-semibold">{plazoDe(cliente)} días</p>
+          <button className="btn btn-ghost btn-sm gap-1 mt-1" onClick={() => setShowCuenta(true)}>
+            <Wallet size={13} /> Estado de cuenta
+          </button>
+        </div>
+      </div>
+
+      {/* KPIs */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <KpiCard label="Pedidos"          value={pedidos.length}          icon={<ClipboardList size={15} />} accent="#3B82F6" loading={pedidosQuery.isLoading} />
+        <KpiCard label="Kg procesados"    value={fmtKg(kilos.procesados)} icon={<Scale size={15} />}         accent="#00D084" loading={pedidosQuery.isLoading} />
+        <KpiCard label="Facturado"        value={fmtMoney(facturado)}     icon={<FileText size={15} />}      accent="#8B5CF6" loading={facturasQuery.isLoading} />
+        <KpiCard label="Saldo por cobrar" value={fmtMoney(saldo)}         icon={<Wallet size={15} />}        accent="#F59E0B" loading={facturasQuery.isLoading} />
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        {/* Pedidos */}
+        <div className="card space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <p className="section-title text-base">Pedidos</p>
+            <p className="text-xs text-[var(--color-tx-secondary)]">{fmtKg(kilos.pedidos)} pedidos en total</p>
+          </div>
+          {pedidosQuery.isLoading ? (
+            <TableSkeleton rows={4} cols={4} />
+          ) : pedidos.length === 0 ? (
+            <EmptyState title="Sin pedidos" description="El cliente aún no tiene pedidos registrados." />
+          ) : (
+            <div className="table-wrap max-h-[50vh] overflow-y-auto">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Código</th>
+                    <th>Registro</th>
+                    <th className="text-right">Kilos</th>
+                    <th>Estado</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pedidos.map((p) => (
+                    <tr key={p.id}>
+                      <td>
+                        <Link to={`/pedidos/${p.id}`} className="font-mono text-xs font-semibold hover:text-[#00D084] hover:underline">
+                          {p.code}
+                        </Link>
+                      </td>
+                      <td className="text-xs whitespace-nowrap">{fmt(p.createdAt)}</td>
+                      <td className="text-right tabular-nums">{fmtKg(totalKilos(p))}</td>
+                      <td><StatusBadge estado={p.estado} /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Facturas */}
+        <div className="card space-y-3">
+          <p className="section-title text-base">Facturas</p>
+          {facturasQuery.isLoading ? (
+            <TableSkeleton rows={4} cols={5} />
+          ) : facturas.length === 0 ? (
+            <EmptyState title="Sin facturas" description="El cliente aún no tiene facturas." />
+          ) : (
+            <div className="table-wrap max-h-[50vh] overflow-y-auto">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>N°</th>
+                    <th>Fecha</th>
+                    <th className="text-right">Total</th>
+                    <th>Pago</th>
+                    <th className="text-right">Saldo</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {facturas.map((f) => (
+                    <tr key={f.id}>
+                      <td className="font-mono text-xs font-semibold">{f.numero}</td>
+                      <td className="text-xs whitespace-nowrap">{fmt(f.fecha)}</td>
+                      <td className="text-right tabular-nums">{fmtMoney(Number(f.valorTotal))}</td>
+                      <td><StatusBadge pago={estadoPagoDe(f)} /></td>
+                      <td className="text-right tabular-nums font-medium">{fmtMoney(saldoDe(f))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Modal
+        open={showCuenta}
+        onClose={() => setShowCuenta(false)}
+        title={`Estado de cuenta · ${cliente.name}`}
+        size="xl"
+      >
+        <EstadoCuenta cliente={cliente} />
+      </Modal>
+    </div>
+  );
+}
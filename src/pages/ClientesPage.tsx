@@ -1,63 +1,212 @@
-import { useState } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Plus, Search, Loader2 } from 'lucide-react';
-import { useForm, type Resolver } from 'react-hook-form';
-import { z } from 'zod';
+import { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { Plus, Loader2, Wallet, Pencil, UserX, UserCheck, GitMerge } from 'lucide-react';
+import { useForm, useWatch, type Resolver } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { clientesService } from '@/services/pedidos.service';
+import { clientesService, type UpdateClientePayload } from '@/services/pedidos.service';
 import { toast } from '@/lib/toast';
+import { useCan } from '@/lib/permissions';
+import {
+  clienteSchema, coincidenciasDe, errorDocumentoRepetido, gruposDuplicados, useClientes, type ClienteFormValues,
+} from '@/lib/clientes';
+import {
+  DOCUMENTO_PLACEHOLDER, TIPO_DOCUMENTO_OPTIONS, dvSugerido, formatearDocumento, normalizarDocumento, tipoDocumentoDe,
+} from '@/lib/documento';
 import { Modal } from '@/components/ui/Modal';
-import { Field, Input } from '@/components/ui/FormField';
+import { Field, Input, Select } from '@/components/ui/FormField';
 import { EmptyState } from '@/components/ui/EmptyState';
-import { TableSkeleton } from '@/components/ui/Skeleton';
-import type { Cliente } from '@/types';
+import { DataTable, type DataTableColumn } from '@/components/ui/DataTable';
+import { ExportMenu } from '@/components/ui/ExportMenu';
+import { useListParams } from '@/lib/pagination';
+import { PLAZO_PAGO_DEFAULT } from '@/lib/cartera';
+import { EstadoCuenta } from '@/components/cartera/EstadoCuenta';
+import { CoincidenciasCliente } from '@/components/clientes/CoincidenciasCliente';
+import { FusionClientes } from '@/components/clientes/FusionClientes';
+import { CiudadPicker } from '@/components/ui/CiudadPicker';
+import { useConfirm } from '@/components/ui/ConfirmDialog';
+import { cn } from '@/lib/cn';
+import { fetchAllPages, type ExportColumn } from '@/lib/export';
+import type { Ciudad, Cliente } from '@/types';
 
-const schema = z.object({
-  name:       z.string().min(2, 'Nombre requerido'),
-  documentId: z.string().min(1, 'Documento requerido'),
-  address:    z.string().optional(),
-  phone:      z.string().optional(),
-  email:      z.string().email('Email inválido'),
-});
+type FormValues = ClienteFormValues;
 
-type FormValues = z.infer<typeof schema>;
+const EXPORT_COLUMNS: ExportColumn<Cliente>[] = [
+  { header: 'Nombre',    value: (c) => c.name },
+  { header: 'Tipo doc.', value: (c) => tipoDocumentoDe(c) },
+  { header: 'Documento', value: (c) => c.documentId },
+  { header: 'Email',     value: (c) => c.email },
+  { header: 'Teléfono',  value: (c) => c.phone },
+  { header: 'Dirección', value: (c) => c.address },
+  { header: 'Ciudad',    value: (c) => c.ciudad ? `${c.ciudad.nombre}, ${c.ciudad.departamento}` : '' },
+  { header: 'Plazo pago (días)', tipo: 'numero', value: (c) => c.plazoPagoDias ?? PLAZO_PAGO_DEFAULT },
+  { header: 'Estado',    value: (c) => (c.activo === false ? 'Inactivo' : 'Activo') },
+];
+
+
+const EMPTY_FORM: FormValues = { name: '', tipoDocumento: 'NIT', documentId: '', address: '', phone: '', email: '', plazoPagoDias: '' };
 
 export function ClientesPage() {
   const qc = useQueryClient();
+  const confirm = useConfirm();
+  const canEditar = useCan('clientes.editar');
+  const canFusionar = useCan('clientes.fusionar');
   const [showForm, setShowForm] = useState(false);
-  const [search, setSearch] = useState('');
+  const [editTarget, setEditTarget] = useState<Cliente | null>(null);
+  const [ciudad, setCiudad] = useState<Ciudad | null>(null);
+  const [cuentaTarget, setCuentaTarget] = useState<Cliente | null>(null);
+  const [showDuplicados, setShowDuplicados] = useState(false);
+  const list = useListParams({ sort: 'name', dir: 'asc', filters: ['activo'] });
 
-  const { data: clientes, isLoading } = useQuery({
-    queryKey: ['clientes'],
-    queryFn: () => clientesService.getAll(),
+  const clientesQuery = useQuery({
+    queryKey: ['clientes', 'lista', list.params],
+    queryFn: () => clientesService.list(list.params),
+    placeholderData: keepPreviousData,
     staleTime: 30_000,
   });
 
-  const { register, handleSubmit, reset, formState: { errors } } = useForm<FormValues>({
-    resolver: zodResolver(schema) as unknown as Resolver<FormValues>,
+  // Directorio completo para detectar duplicados fuera de la página visible
+  const todosQuery = useClientes();
+  const grupos = useMemo(() => gruposDuplicados(todosQuery.data ?? []), [todosQuery.data]);
+
+  const { register, handleSubmit, reset, control, setError, formState: { errors } } = useForm<FormValues>({
+    resolver: zodResolver(clienteSchema) as unknown as Resolver<FormValues>,
+    defaultValues: EMPTY_FORM,
   });
 
+  const [name, tipoDocumento, documentId, email] = useWatch({ control, name: ['name', 'tipoDocumento', 'documentId', 'email'] });
+  // El DV se muestra mientras se escribe para poder compararlo con el RUT del cliente
+  const dvCalculado = dvSugerido(tipoDocumento, documentId);
+  const coincidencias = showForm
+    ? coincidenciasDe({ name: name ?? '', documentId: documentId ?? '', email: email ?? '' }, todosQuery.data ?? [], editTarget?.id)
+    : [];
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditTarget(null);
+    setCiudad(null);
+    reset(EMPTY_FORM);
+  };
+
   const crear = useMutation({
-    mutationFn: (p: Omit<Cliente, 'id'>) => clientesService.create(p),
+    mutationFn: (p: Omit<Cliente, 'id'> & { ciudadId?: number | null }) => clientesService.create(p),
     onSuccess: () => {
       toast.success('Cliente registrado');
       qc.invalidateQueries({ queryKey: ['clientes'] });
-      setShowForm(false);
-      reset();
+      closeForm();
     },
     onError: () => toast.error('No se pudo registrar el cliente'),
   });
 
-  const onSubmit = handleSubmit((v) =>
-    crear.mutate({ name: v.name, documentId: v.documentId, address: v.address ?? '', phone: v.phone ?? '', email: v.email })
-  );
+  const actualizar = useMutation({
+    mutationFn: ({ id, ...payload }: UpdateClientePayload & { id: string }) => clientesService.update(id, payload),
+    onSuccess: () => {
+      toast.success('Cliente actualizado');
+      qc.invalidateQueries({ queryKey: ['clientes'] });
+      closeForm();
+    },
+    onError: (e: { response?: { data?: { message?: string } } }) =>
+      toast.error(e.response?.data?.message ?? 'No se pudo actualizar el cliente'),
+  });
 
-  const filtered = (clientes ?? []).filter(
-    (c) =>
-      !search ||
-      c.name.toLowerCase().includes(search.toLowerCase()) ||
-      c.email.toLowerCase().includes(search.toLowerCase())
-  );
+  const cambiarActivo = useMutation({
+    mutationFn: ({ id, activo }: { id: string; activo: boolean }) => clientesService.setActivo(id, activo),
+    onSuccess: (c) => {
+      toast.success(c.activo === false ? `${c.name} desactivado` : `${c.name} reactivado`);
+      qc.invalidateQueries({ queryKey: ['clientes'] });
+    },
+    onError: () => toast.error('No se pudo cambiar el estado del cliente'),
+  });
+
+  const openEdit = (c: Cliente) => {
+    setEditTarget(c);
+    setCiudad(c.ciudad ?? null);
+    reset({
+      name: c.name, tipoDocumento: tipoDocumentoDe(c), documentId: c.documentId, address: c.address ?? '', phone: c.phone ?? '', email: c.email,
+      plazoPagoDias: c.plazoPagoDias ?? '',
+    });
+    setShowForm(true);
+  };
+
+  const handleToggleActivo = async (c: Cliente) => {
+    if (c.activo !== false) {
+      const ok = await confirm({
+        title: `Desactivar ${c.name}`,
+        description: 'El cliente conserva sus pedidos y facturas, pero no se podrá seleccionar en pedidos nuevos.',
+        confirmText: 'Desactivar',
+        danger: true,
+      });
+      if (!ok) return;
+    }
+    cambiarActivo.mutate({ id: c.id, activo: c.activo === false });
+  };
+
+  const onSubmit = handleSubmit((v) => {
+    const repetido = errorDocumentoRepetido(coincidencias);
+    if (repetido) {
+      setError('documentId', { message: repetido });
+      return;
+    }
+    const payload = {
+      name: v.name, tipoDocumento: v.tipoDocumento, documentId: normalizarDocumento(v.tipoDocumento, v.documentId), address: v.address ?? '', phone: v.phone ?? '', email: v.email,
+      plazoPagoDias: v.plazoPagoDias === '' || v.plazoPagoDias == null ? null : v.plazoPagoDias,
+      ciudadId: ciudad?.id ?? null,
+    };
+    if (editTarget) actualizar.mutate({ id: editTarget.id, ...payload });
+    else crear.mutate(payload);
+  });
+
+  const guardando = crear.isPending || actualizar.isPending;
+
+  const columns: DataTableColumn<Cliente>[] = [
+    {
+      key: 'name', header: 'Nombre', sortField: 'name', primary: true, hideable: false, className: 'font-medium',
+      render: (c) => (
+        <Link to={`/clientes/${c.id}`} className={cn('hover:text-[#00D084] hover:underline', c.activo === false && 'text-[var(--color-tx-secondary)]')}>
+          {c.name}
+        </Link>
+      ),
+    },
+    {
+      key: 'documentId', header: 'Documento', sortField: 'documentId', className: 'font-mono text-xs text-[var(--color-tx-secondary)]',
+      render: (c) => `${tipoDocumentoDe(c)} ${formatearDocumento(tipoDocumentoDe(c), c.documentId)}`,
+    },
+    { key: 'email',      header: 'Email',     sortField: 'email',      className: 'text-xs text-[var(--color-tx-secondary)]', render: (c) => c.email },
+    { key: 'phone',      header: 'Teléfono',  className: 'text-xs text-[var(--color-tx-secondary)]', render: (c) => c.phone || '—' },
+    { key: 'address',    header: 'Dirección', className: 'text-xs text-[var(--color-tx-secondary)] max-w-[200px] truncate', render: (c) => c.address || '—' },
+    { key: 'plazoPagoDias', header: 'Plazo pago', className: 'text-xs', defaultHidden: true, render: (c) => `${c.plazoPagoDias ?? PLAZO_PAGO_DEFAULT} días` },
+    {
+      key: 'activo', header: 'Estado',
+      render: (c) => c.activo === false
+        ? <span className="badge bg-[var(--color-muted)] text-[var(--color-tx-secondary)]">Inactivo</span>
+        : <span className="badge bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-400">Activo</span>,
+    },
+    {
+      key: 'acciones', header: '', hideable: false,
+      render: (c) => (
+        <div className="flex gap-1 justify-end">
+          <button className="btn btn-ghost btn-sm gap-1" onClick={() => setCuentaTarget(c)} title="Estado de cuenta">
+            <Wallet size={13} /> Cuenta
+          </button>
+          {canEditar && (
+            <>
+              <button className="btn btn-ghost btn-sm" onClick={() => openEdit(c)} title="Editar cliente">
+                <Pencil size={13} />
+              </button>
+              <button
+                className={cn('btn btn-ghost btn-sm', c.activo !== false && 'text-red-500')}
+                onClick={() => handleToggleActivo(c)}
+                disabled={cambiarActivo.isPending}
+                title={c.activo === false ? 'Reactivar cliente' : 'Desactivar cliente'}
+              >
+                {c.activo === false ? <UserCheck size={13} /> : <UserX size={13} />}
+              </button>
+            </>
+          )}
+        </div>
+      ),
+    },
+  ];
 
   return (
     <div className="page space-y-6">
@@ -65,61 +214,67 @@ export function ClientesPage() {
         <div>
           <span className="chip mb-2">Comercial</span>
           <h2 className="text-2xl font-bold text-[var(--color-tx-primary)] mt-1">Clientes</h2>
-          <p className="text-sm text-[var(--color-tx-secondary)] mt-1">Directorio de clientes activos.</p>
+          <p className="text-sm text-[var(--color-tx-secondary)] mt-1">Directorio de clientes, duplicados y estado de cuenta.</p>
+        </div>
+        <div className="flex gap-2">
+          {canFusionar && (
+            <button className="btn btn-secondary gap-1.5" onClick={() => setShowDuplicados(true)}>
+              <GitMerge size={15} /> Duplicados
+              {grupos.length > 0 && <span className="badge bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">{grupos.length}</span>}
+            </button>
+          )}
+          <button className="btn btn-primary" onClick={() => setShowForm(true)}>
+            <Plus size={15} /> Nuevo cliente
+          </button>
         </div>
-        <button className="btn btn-primary" onClick={() => setShowForm(true)}>
-          <Plus size={15} /> Nuevo cliente
-        </button>
-      </div>
-
-      <div className="relative max-w-sm">
-        <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--color-tx-secondary)]" />
-        <input className="input pl-9" placeholder="Buscar cliente…" value={search} onChange={(e) => setSearch(e.target.value)} />
       </div>
 
-      {isLoading ? (
-        <TableSkeleton rows={6} cols={5} />
-      ) : filtered.length === 0 ? (
-        <EmptyState
-          title="Sin clientes"
-          action={<button className="btn btn-primary btn-sm" onClick={() => setShowForm(true)}><Plus size={13} /> Registrar</button>}
-        />
-      ) : (
-        <div className="table-wrap">
-          <table className="table">
-            <thead>
-              <tr>
-                <th>Nombre</th>
-                <th>Documento</th>
-                <th>Email</th>
-                <th>Teléfono</th>
-                <th>Dirección</th>
-              </tr>
-            </thead>
-            <tbody>
-              {filtered.map((c) => (
-                <tr key={c.id}>
-                  <td className="font-medium">{c.name}</td>
-                  <td className="font-mono text-xs text-[var(--color-tx-secondary)]">{c.documentId}</td>
-                  <td className="text-xs text-[var(--color-tx-secondary)]">{c.email}</td>
-                  <td className="text-xs text-[var(--color-tx-secondary)]">{c.phone || '—'}</td>
-                  <td className="text-xs text-[var(--color-tx-secondary)] max-w-[200px] truncate">{c.address || '—'}</td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-      )}
+      <DataTable
+        id="clientes"
+        columns={columns}
+        data={clientesQuery.data}
+        list={list}
+        rowKey={(c) => c.id}
+        maxHeight="70vh"
+        loading={clientesQuery.isLoading}
+        fetching={clientesQuery.isFetching}
+        searchPlaceholder="Buscar cliente…"
+        toolbar={
+          <select
+            className="input w-auto"
+            value={list.params.filters?.activo ?? ''}
+            onChange={(e) => list.setFilter('activo', e.target.value)}
+            aria-label="Estado del cliente"
+          >
+            <option value="">Todos</option>
+            <option value="true">Activos</option>
+            <option value="false">Inactivos</option>
+          </select>
+        }
+        actions={
+          <ExportMenu
+            fileName="clientes"
+            columns={EXPORT_COLUMNS}
+            fetchRows={() => fetchAllPages(clientesService.list, list.params)}
+          />
+        }
+        empty={!list.params.q && !list.params.filters?.activo ? (
+          <EmptyState
+            title="Sin clientes"
+            action={<button className="btn btn-primary btn-sm" onClick={() => setShowForm(true)}><Plus size={13} /> Registrar</button>}
+          />
+        ) : undefined}
+      />
 
       <Modal
         open={showForm}
-        onClose={() => { setShowForm(false); reset(); }}
-        title="Nuevo cliente"
+        onClose={closeForm}
+        title={editTarget ? `Editar · ${editTarget.name}` : 'Nuevo cliente'}
         footer={
           <div className="flex gap-2">
-            <button className="btn btn-secondary" onClick={() => setShowForm(false)}>Cancelar</button>
-            <button className="btn btn-primary" onClick={onSubmit} disabled={crear.isPending}>
-              {crear.isPending && <Loader2 size={14} className="animate-spin" />} Guardar
+            <button className="btn btn-secondary" onClick={closeForm}>Cancelar</button>
+            <button className="btn btn-primary" onClick={onSubmit} disabled={guardando}>
+              {guardando && <Loader2 size={14} className="animate-spin" />} Guardar
             </button>
           </div>
         }
@@ -128,20 +283,56 @@ export function ClientesPage() {
           <Field label="Nombre" error={errors.name?.message} required className="col-span-2">
             <Input placeholder="Juan García" {...register('name')} error={errors.name?.message} />
           </Field>
-          <Field label="Documento" error={errors.documentId?.message} required>
-            <Input placeholder="900.123.456-7" {...register('documentId')} error={errors.documentId?.message} />
+          <Field label="Tipo de documento" required>
+            <Select {...register('tipoDocumento')} options={TIPO_DOCUMENTO_OPTIONS} />
+          </Field>
+          <Field
+            label="Documento"
+            error={errors.documentId?.message}
+            hint={dvCalculado != null ? `DV calculado: ${dvCalculado}` : undefined}
+            required
+          >
+            <Input placeholder={DOCUMENTO_PLACEHOLDER[tipoDocumento ?? 'NIT']} {...register('documentId')} error={errors.documentId?.message} />
           </Field>
           <Field label="Teléfono">
             <Input type="tel" placeholder="+57 300 000 0000" {...register('phone')} />
           </Field>
+          <Field label="Plazo de pago (días)" hint={`Vacío = ${PLAZO_PAGO_DEFAULT} días`} error={errors.plazoPagoDias?.message}>
+            <Input type="number" min="0" step="1" placeholder={String(PLAZO_PAGO_DEFAULT)} {...register('plazoPagoDias')} error={errors.plazoPagoDias?.message} />
+          </Field>
           <Field label="Email" error={errors.email?.message} required className="col-span-2">
             <Input type="email" placeholder="cliente@empresa.com" {...register('email')} error={errors.email?.message} />
           </Field>
           <Field label="Dirección" className="col-span-2">
             <Input placeholder="Cra. 7 # 32-00, Bogotá" {...register('address')} />
           </Field>
+          <Field label="Ciudad" className="col-span-2">
+            <CiudadPicker value={ciudad} onChange={setCiudad} />
+          </Field>
+          <div className="col-span-2">
+            <CoincidenciasCliente coincidencias={coincidencias} />
+          </div>
         </div>
       </Modal>
+
+      <Modal
+        open={showDuplicados}
+        onClose={() => setShowDuplicados(false)}
+        title="Clientes duplicados"
+        description="Clientes que comparten documento, email o nombre. Al fusionar, los pedidos pasan al cliente que se conserva."
+        size="lg"
+      >
+        <FusionClientes grupos={grupos} />
+      </Modal>
+
+      <Modal
+        open={!!cuentaTarget}
+        onClose={() => setCuentaTarget(null)}
+        title={`Estado de cuenta · ${cuentaTarget?.name ?? ''}`}
+        size="xl"
+      >
+        {cuentaTarget && <EstadoCuenta cliente={cuentaTarget} />}
+      </Modal>
     </div>
   );
 }
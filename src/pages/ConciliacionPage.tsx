@@ -0,0 +1,256 @@
+import { Fragment, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { Search, ChevronDown, ChevronRight, Scale, AlertTriangle, TrendingDown, HelpCircle, ArrowRight } from 'lucide-react';
+import { pedidosService } from '@/services/pedidos.service';
+import { trilladoService } from '@/services/trillado.service';
+import { tostionService } from '@/services/tostion.service';
+import { produccionService } from '@/services/produccion.service';
+import { conciliarPedidos, type BalancePedido, type EstadoBalance, type EstadoTraspaso } from '@/lib/balance';
+import { KpiCard } from '@/components/ui/KpiCard';
+import { StatusBadge } from '@/components/ui/StatusBadge';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { TableSkeleton } from '@/components/ui/Skeleton';
+import { cn } from '@/lib/cn';
+
+function fmtKg(v?: number | null) {
+  return v != null ? `${v.toFixed(1)} kg` : '—';
+}
+
+function fmtDiferencia(v: number | null) {
+  if (v == null) return '—';
+  return `${v > 0 ? '+' : ''}${v.toFixed(1)} kg`;
+}
+
+const ESTADO_BALANCE: Record<EstadoBalance, { label: string; className: string }> = {
+  cuadrado:   { label: 'Cuadrado',   className: 'bg-green-50 text-green-600' },
+  descuadre:  { label: 'Descuadre',  className: 'bg-red-50 text-red-600' },
+  incompleto: { label: 'Incompleto', className: 'bg-amber-50 text-amber-600' },
+};
+
+const ESTADO_TRASPASO: Record<EstadoTraspaso, { label: string; className: string }> = {
+  ok:           { label: 'Cuadra',       className: 'text-green-600' },
+  descuadre:    { label: 'Descuadre',    className: 'text-red-600' },
+  sin_registro: { label: 'Sin registro', className: 'text-amber-600' },
+  pendiente:    { label: 'Pendiente',    className: 'text-[var(--color-tx-secondary)]' },
+};
+
+type Filtro = 'todos' | EstadoBalance;
+
+const FILTROS: { value: Filtro; label: string }[] = [
+  { value: 'todos',      label: 'Todos' },
+  { value: 'descuadre',  label: 'Con descuadre' },
+  { value: 'incompleto', label: 'Incompletos' },
+  { value: 'cuadrado',   label: 'Cuadrados' },
+];
+
+function DetalleBalance({ balance }: { balance: BalancePedido }) {
+  return (
+    <div className="space-y-4 p-4 bg-[var(--color-muted)] rounded-lg">
+      {/* Cadena de kilos */}
+      <div className="flex items-center gap-2 flex-wrap text-xs">
+        <span className="badge bg-[var(--color-surface)]">Pedido {fmtKg(balance.kilosDeclarados)}</span>
+        <ArrowRight size={12} className="text-[var(--color-tx-secondary)]" />
+        <span className="badge bg-[var(--color-surface)]">
+          Trillado {fmtKg(balance.trillado?.kilosEntrada)} → {fmtKg(balance.trillado?.kilosSalida)}
+        </span>
+        <ArrowRight size={12} className="text-[var(--color-tx-secondary)]" />
+        <span className="badge bg-[var(--color-surface)]">
+          Tostión {fmtKg(balance.tostion?.kilosExcelso)} → {fmtKg(balance.tostion?.kilosTostados)}
+        </span>
+        <ArrowRight size={12} className="text-[var(--color-tx-secondary)]" />
+        <span className="badge bg-[var(--color-surface)]">Producción {fmtKg(balance.produccion?.kilosRecibidos)}</span>
+      </div>
+
+      {/* Traspasos entre etapas */}
+      <div className="table-wrap">
+        <table className="table">
+          <thead>
+            <tr>
+              <th>Traspaso</th>
+              <th>Sale</th>
+              <th>Entra</th>
+              <th>Diferencia</th>
+              <th>Resultado</th>
+            </tr>
+          </thead>
+          <tbody>
+            {balance.traspasos.map((t) => (
+              <tr key={t.id}>
+                <td className="text-xs">{t.desde} → {t.hacia}</td>
+                <td className="tabular-nums">{fmtKg(t.salida)}</td>
+                <td className="tabular-nums">{fmtKg(t.entrada)}</td>
+                <td className={cn('tabular-nums font-semibold', t.estado === 'descuadre' && 'text-red-600')}>
+                  {fmtDiferencia(t.diferencia)}
+                </td>
+                <td className={cn('text-xs font-semibold', ESTADO_TRASPASO[t.estado].className)}>
+                  {ESTADO_TRASPASO[t.estado].label}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Mermas de proceso */}
+      {balance.mermas.length > 0 && (
+        <p className="text-xs text-[var(--color-tx-secondary)]">
+          Merma de proceso (no cuenta como descuadre):{' '}
+          {balance.mermas.map((m) => (
+            <span key={m.etapa} className="mr-3">
+              {m.etapa === 'trillado' ? 'Trillado' : 'Tostión'}{' '}
+              <strong className="text-[var(--color-tx-primary)]">{fmtKg(m.kilos)}</strong>
+              {' '}({((m.kilos / m.entrada) * 100).toFixed(1)}%)
+            </span>
+          ))}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function ConciliacionPage() {
+  const [filtro, setFiltro] = useState<Filtro>('todos');
+  const [search, setSearch] = useState('');
+  const [expandido, setExpandido] = useState<string | null>(null);
+
+  // Mismas claves que los módulos de cada etapa para compartir caché
+  const pedidosQuery    = useQuery({ queryKey: ['pedidos'],               queryFn: () => pedidosService.getAll(),    staleTime: 30_000 });
+  const trilladoQuery   = useQuery({ queryKey: ['trillado', 'historial'], queryFn: () => trilladoService.getAll(),   staleTime: 30_000 });
+  const tostionQuery    = useQuery({ queryKey: ['tostion', 'historial'],  queryFn: () => tostionService.getAll(),    staleTime: 30_000 });
+  const produccionQuery = useQuery({ queryKey: ['produccion'],            queryFn: () => produccionService.getAll(), staleTime: 30_000 });
+
+  const isLoading = pedidosQuery.isLoading || trilladoQuery.isLoading || tostionQuery.isLoading || produccionQuery.isLoading;
+
+  const balances = useMemo(
+    () => conciliarPedidos(pedidosQuery.data ?? [], trilladoQuery.data ?? [], tostionQuery.data ?? [], produccionQuery.data ?? [])
+      // Descuadres más grandes primero
+      .sort((a, b) => b.kilosSinExplicar - a.kilosSinExplicar || b.pedido.createdAt.localeCompare(a.pedido.createdAt)),
+    [pedidosQuery.data, trilladoQuery.data, tostionQuery.data, produccionQuery.data],
+  );
+
+  const stats = useMemo(() => ({
+    total:       balances.length,
+    descuadres:  balances.filter((b) => b.estado === 'descuadre').length,
+    incompletos: balances.filter((b) => b.estado === 'incompleto').length,
+    kilos:       balances.reduce((s, b) => s + b.kilosSinExplicar, 0),
+  }), [balances]);
+
+  const filtrados = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return balances.filter((b) =>
+      (filtro === 'todos' || b.estado === filtro) &&
+      (!q || b.pedido.code.toLowerCase().includes(q) || b.pedido.client?.name?.toLowerCase().includes(q)),
+    );
+  }, [balances, filtro, search]);
+
+  return (
+    <div className="page space-y-6">
+      {/* Header */}
+      <div>
+        <span className="chip mb-2">Auditoría</span>
+        <h2 className="text-2xl font-bold text-[var(--color-tx-primary)] mt-1">Conciliación de kilos</h2>
+        <p className="text-sm text-[var(--color-tx-secondary)] mt-1">
+          Balance de masa por pedido: lo que sale de cada etapa debe ser lo que entra a la siguiente.
+        </p>
+      </div>
+
+      {/* KPIs */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <KpiCard label="Pedidos en proceso" value={stats.total}       icon={<Scale size={15} />}         accent="#6B7280" loading={isLoading} />
+        <KpiCard label="Con descuadre"      value={stats.descuadres}  icon={<AlertTriangle size={15} />} accent="#EF4444" loading={isLoading} />
+        <KpiCard label="Etapas sin registro" value={stats.incompletos} icon={<HelpCircle size={15} />}   accent="#F59E0B" loading={isLoading} />
+        <KpiCard label="Kg sin explicar"    value={`${stats.kilos.toFixed(1)} kg`} icon={<TrendingDown size={15} />} accent="#3B82F6" loading={isLoading} />
+      </div>
+
+      {/* Filtros */}
+      <div className="flex items-center gap-3 flex-wrap">
+        <div className="relative flex-1 max-w-sm">
+          <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--color-tx-secondary)]" />
+          <input
+            type="search"
+            className="input pl-9"
+            placeholder="Buscar por código o cliente…"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+        <div className="flex gap-1">
+          {FILTROS.map((f) => (
+            <button
+              key={f.value}
+              className={cn('btn btn-sm', filtro === f.value ? 'btn-primary' : 'btn-ghost')}
+              onClick={() => setFiltro(f.value)}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Tabla */}
+      {isLoading ? (
+        <TableSkeleton rows={6} cols={6} />
+      ) : filtrados.length === 0 ? (
+        <EmptyState title="Sin resultados" description="No hay pedidos que coincidan con el filtro." />
+      ) : (
+        <div className="table-wrap">
+          <table className="table">
+            <thead>
+              <tr>
+                <th></th>
+                <th>Código</th>
+                <th>Cliente</th>
+                <th>Estado pedido</th>
+                <th>Kg declarados</th>
+                <th>Kg sin explicar</th>
+                <th>Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filtrados.map((b) => {
+                const abierto = expandido === b.pedido.id;
+                return (
+                  <Fragment key={b.pedido.id}>
+                    <tr className="cursor-pointer" onClick={() => setExpandido(abierto ? null : b.pedido.id)}>
+                      <td className="w-8">
+                        {abierto ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                      </td>
+                      <td className="font-mono text-xs font-semibold">
+                        <Link
+                          to={`/pedidos/${b.pedido.id}`}
+                          className="hover:text-[#00D084] hover:underline"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          {b.pedido.code}
+                        </Link>
+                      </td>
+                      <td>{b.pedido.client?.name}</td>
+                      <td><StatusBadge estado={b.pedido.estado} /></td>
+                      <td className="tabular-nums">{fmtKg(b.kilosDeclarados)}</td>
+                      <td className={cn('tabular-nums font-semibold', b.kilosSinExplicar > 0 && 'text-red-600')}>
+                        {b.kilosSinExplicar > 0 ? fmtKg(b.kilosSinExplicar) : '—'}
+                      </td>
+                      <td>
+                        <span className={cn('badge', ESTADO_BALANCE[b.estado].className)}>
+                          {ESTADO_BALANCE[b.estado].label}
+                        </span>
+                      </td>
+                    </tr>
+                    {abierto && (
+                      <tr>
+                        <td colSpan={7}>
+                          <DetalleBalance balance={b} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
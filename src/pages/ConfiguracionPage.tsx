@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Save, RotateCcw } from 'lucide-react';
+import { configService, type EtapaMerma, type MermaRango } from '@/services/config.service';
+import { ETAPAS_MERMA, PRESENTACIONES, rangoMerma, useMermaRangos } from '@/lib/merma';
+import { toast } from '@/lib/toast';
+import { Input } from '@/components/ui/FormField';
+import { TableSkeleton } from '@/components/ui/Skeleton';
+import type { PresentacionDetalle } from '@/types';
+
+const PRESENTACION_LABELS: Record<PresentacionDetalle, string> = {
+  CPS: 'CPS',
+  EXCELSO: 'Excelso',
+  HONEY: 'Honey',
+  NATURAL: 'Natural',
+};
+
+const ETAPA_LABELS: Record<EtapaMerma, string> = {
+  TRILLADO: 'Trillado',
+  TOSTION: 'Tostión',
+};
+
+type Borrador = Record<string, { min: string; max: string }>;
+
+const clave = (etapa: EtapaMerma, presentacion: PresentacionDetalle) => `${etapa}:${presentacion}`;
+
+export function ConfiguracionPage() {
+  const qc = useQueryClient();
+  const rangosQuery = useMermaRangos();
+  // null = sin cambios locales, se muestra lo guardado
+  const [borrador, setBorrador] = useState<Borrador | null>(null);
+
+  const valor = (etapa: EtapaMerma, presentacion: PresentacionDetalle, campo: 'min' | 'max') =>
+    borrador?.[clave(etapa, presentacion)]?.[campo]
+    ?? String(rangoMerma(rangosQuery.data, etapa, presentacion)[campo]);
+
+  const setValor = (etapa: EtapaMerma, presentacion: PresentacionDetalle, campo: 'min' | 'max', v: string) => {
+    const k = clave(etapa, presentacion);
+    setBorrador((prev) => ({
+      ...prev,
+      [k]: {
+        min: valor(etapa, presentacion, 'min'),
+        max: valor(etapa, presentacion, 'max'),
+        ...prev?.[k],
+        [campo]: v,
+      },
+    }));
+  };
+
+  const rangos: MermaRango[] = ETAPAS_MERMA.flatMap((etapa) =>
+    PRESENTACIONES.map((presentacion) => ({
+      etapa,
+      presentacion,
+      min: Number(valor(etapa, presentacion, 'min')),
+      max: Number(valor(etapa, presentacion, 'max')),
+    })),
+  );
+
+  const errorDe = (r: MermaRango) => {
+    if (Number.isNaN(r.min) || Number.isNaN(r.max)) return 'Valor inválido';
+    if (r.min < 0 || r.max > 100) return 'Entre 0 y 100';
+    if (r.min > r.max) return 'Mín. mayor que máx.';
+    return null;
+  };
+  const hayErrores = rangos.some((r) => errorDe(r));
+
+  const guardarMutation = useMutation({
+    mutationFn: () => configService.updateMermaRangos(rangos),
+    onSuccess: (data) => {
+      qc.setQueryData(['config', 'merma'], data);
+      setBorrador(null);
+      toast.success('Rangos de merma actualizados');
+    },
+    onError: (e: { response?: { data?: { message?: string } } }) =>
+      toast.error(e.response?.data?.message ?? 'Error al guardar la configuración'),
+  });
+
+  return (
+    <div className="page space-y-8">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div>
+          <span className="chip mb-2">Administración</span>
+          <h2 className="text-2xl font-bold text-[var(--color-tx-primary)] mt-1">Configuración</h2>
+          <p className="text-sm text-[var(--color-tx-secondary)] mt-1">
+            Parámetros de planta que usan los módulos de proceso.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            className="btn btn-secondary gap-2"
+            onClick={() => setBorrador(null)}
+            disabled={!borrador || guardarMutation.isPending}
+          >
+            <RotateCcw size={14} />
+            Descartar
+          </button>
+          <button
+            className="btn btn-primary gap-2"
+            onClick={() => guardarMutation.mutate()}
+            disabled={!borrador || hayErrores || guardarMutation.isPending}
+          >
+            {guardarMutation.isPending ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />}
+            Guardar cambios
+          </button>
+        </div>
+      </div>
+
+      {/* Rangos de merma */}
+      <div className="card">
+        <p className="section-title mb-1">Rangos de merma esperada (%)</p>
+        <p className="text-xs text-[var(--color-tx-secondary)] mb-4">
+          Al finalizar una corrida fuera de este rango se pide una justificación y se genera una alerta en el dashboard.
+        </p>
+        {rangosQuery.isLoading ? (
+          <TableSkeleton rows={4} cols={3} />
+        ) : (
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Presentación</th>
+                  {ETAPAS_MERMA.map((etapa) => <th key={etapa}>{ETAPA_LABELS[etapa]} (mín – máx)</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {PRESENTACIONES.map((presentacion) => (
+                  <tr key={presentacion}>
+                    <td className="font-medium">{PRESENTACION_LABELS[presentacion]}</td>
+                    {ETAPAS_MERMA.map((etapa) => {
+                      const error = errorDe(rangos.find((r) => r.etapa === etapa && r.presentacion === presentacion)!);
+                      return (
+                        <td key={etapa}>
+                          <div className="flex items-center gap-2">
+                            <Input
+                              type="number" step="0.1" min="0" max="100"
+                              className="w-20"
+                              value={valor(etapa, presentacion, 'min')}
+                              onChange={(e) => setValor(etapa, presentacion, 'min', e.target.value)}
+                              error={error ?? undefined}
+                              aria-label={`Mínimo ${ETAPA_LABELS[etapa]} ${PRESENTACION_LABELS[presentacion]}`}
+                            />
+                            <span className="text-[var(--color-tx-secondary)]">–</span>
+                            <Input
+                              type="number" step="0.1" min="0" max="100"
+                              className="w-20"
+                              value={valor(etapa, presentacion, 'max')}
+                              onChange={(e) => setValor(etapa, presentacion, 'max', e.target.value)}
+                              error={error ?? undefined}
+                              aria-label={`Máximo ${ETAPA_LABELS[etapa]} ${PRESENTACION_LABELS[presentacion]}`}
+                            />
+                          </div>
+                          {error && <p className="field-error">{error}</p>}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
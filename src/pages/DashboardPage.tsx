@@ -4,15 +4,20 @@ import { Link } from 'react-router-dom';
 import {
   Package, FlaskConical, Factory, FileText,
   CheckCircle2, ArrowRight, Clock, TrendingUp,
-  Scale,
+  Scale, AlertTriangle, AlarmClock,
 } from 'lucide-react';
 import { pedidosService } from '@/services/pedidos.service';
 
 import { facturasService } from '@/services/facturas.service';
+import { trilladoService } from '@/services/trillado.service';
+import { tostionService } from '@/services/tostion.service';
+import { alertasMerma, useMermaRangos } from '@/lib/merma';
+import { ETAPAS_SLA, ETAPA_SLA_LABEL, useSla } from '@/lib/sla';
 import { KpiCard } from '@/components/ui/KpiCard';
 import { StatusBadge, ESTADO_ORDER } from '@/components/ui/StatusBadge';
 import { TableSkeleton } from '@/components/ui/Skeleton';
 import { EmptyState } from '@/components/ui/EmptyState';
+import { SlaBadge } from '@/components/sla/SlaBadge';
 import type { PedidoEstado } from '@/types';
 
 function formatDate(d: string) {
@@ -30,6 +35,10 @@ function daysUntil(d: string) {
 export function DashboardPage() {
   const pedidosQuery   = useQuery({ queryKey: ['pedidos'],  queryFn: () => pedidosService.getAll(), staleTime: 30_000 });
   const facturasQuery  = useQuery({ queryKey: ['facturas'],  queryFn: () => facturasService.getAll(), staleTime: 30_000 });
+  const trilladoQuery  = useQuery({ queryKey: ['trillado', 'historial'], queryFn: () => trilladoService.getAll(), staleTime: 30_000 });
+  const tostionQuery   = useQuery({ queryKey: ['tostion', 'historial'],  queryFn: () => tostionService.getAll(), staleTime: 30_000 });
+  const rangosQuery    = useMermaRangos();
+  const sla            = useSla();
 
   const pedidos = pedidosQuery.data ?? [];
   const isLoading = pedidosQuery.isLoading;
@@ -56,6 +65,11 @@ export function DashboardPage() {
     return { activos: activos.length, kgTotal, entregados, facturadas };
   }, [pedidos, facturasQuery.data]);
 
+  const mermasFueraDeRango = useMemo(
+    () => alertasMerma(trilladoQuery.data ?? [], tostionQuery.data ?? [], rangosQuery.data).slice(0, 6),
+    [trilladoQuery.data, tostionQuery.data, rangosQuery.data],
+  );
+
   const recientes = useMemo(
     () => pedidos.slice().sort((a, b) => b.createdAt.localeCompare(a.createdAt)).slice(0, 8),
     [pedidos]
@@ -159,7 +173,9 @@ export function DashboardPage() {
                 <tbody>
                   {recientes.map((p) => (
                     <tr key={p.id}>
-                      <td className="font-mono text-xs font-semibold text-[var(--color-tx-primary)]">{p.code}</td>
+                      <td className="font-mono text-xs font-semibold text-[var(--color-tx-primary)]">
+                        <Link to={`/pedidos/${p.id}`} className="hover:text-[#00D084] hover:underline">{p.code}</Link>
+                      </td>
                       <td className="max-w-[160px] truncate">{p.client?.name ?? '—'}</td>
                       <td className="tabular-nums">{Number(p.kilos).toFixed(1)}</td>
                       <td><StatusBadge estado={p.estado} /></td>
@@ -195,6 +211,7 @@ export function DashboardPage() {
                     <div className="text-right shrink-0">
                       <p className={`text-xs font-bold ${urgent ? 'text-amber-500' : 'text-[var(--color-tx-primary)]'}`}>{label}</p>
                       <p className="text-[10px] text-[var(--color-tx-secondary)]">{formatDate(p.diaEntrega)}</p>
+                      <SlaBadge sla={sla.porPedido.get(p.id)} className="mt-1 text-[9px]" />
                     </div>
                   </div>
                 );
@@ -203,6 +220,78 @@ export function DashboardPage() {
           )}
         </div>
       </div>
+
+      {/* Entregas en riesgo */}
+      {sla.enRiesgo.length > 0 && (
+        <div className="card">
+          <div className="flex items-start justify-between gap-3 flex-wrap mb-4">
+            <div className="flex items-center gap-2">
+              <AlarmClock size={14} className="text-red-500" />
+              <p className="section-title text-base">Entregas en riesgo</p>
+              <span className="badge bg-red-50 text-red-600">{sla.enRiesgo.length}</span>
+            </div>
+            <p className="text-[10px] text-[var(--color-tx-secondary)]">
+              Promedio por etapa: {ETAPAS_SLA.map((e) => `${ETAPA_SLA_LABEL[e]} ${sla.duraciones[e].promedio.toFixed(1)}d`).join(' · ')}
+            </p>
+          </div>
+          <div className="space-y-2">
+            {sla.enRiesgo.slice(0, 8).map((s) => (
+              <Link
+                key={s.pedido.id}
+                to={`/pedidos/${s.pedido.id}`}
+                className="flex items-center justify-between p-3 rounded-lg bg-[var(--color-muted)] gap-3 hover:ring-1 hover:ring-[#00D084]"
+              >
+                <div className="min-w-0">
+                  <p className="font-mono font-semibold text-xs text-[var(--color-tx-primary)]">
+                    {s.pedido.code} · {s.etapa ? ETAPA_SLA_LABEL[s.etapa] : 'Pendiente de entrega'}
+                  </p>
+                  <p className="text-xs text-[var(--color-tx-secondary)] truncate">{s.pedido.client?.name}</p>
+                </div>
+                <div className="text-right shrink-0">
+                  <SlaBadge sla={s} />
+                  <p className="text-[10px] text-[var(--color-tx-secondary)] mt-1">
+                    compromiso {formatDate(`${s.diaEntrega}T00:00:00`)} · estimado {formatDate(`${s.fechaEstimada}T00:00:00`)}
+                  </p>
+                </div>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Mermas fuera de rango */}
+      {mermasFueraDeRango.length > 0 && (
+        <div className="card">
+          <div className="flex items-center gap-2 mb-4">
+            <AlertTriangle size={14} className="text-red-500" />
+            <p className="section-title text-base">Mermas fuera de rango</p>
+          </div>
+          <div className="space-y-2">
+            {mermasFueraDeRango.map((a) => (
+              <Link
+                key={`${a.etapa}-${a.id}`}
+                to={`/pedidos/${a.pedidoId}`}
+                className="flex items-center justify-between p-3 rounded-lg bg-[var(--color-muted)] gap-3 hover:ring-1 hover:ring-[#00D084]"
+              >
+                <div className="min-w-0">
+                  <p className="font-mono font-semibold text-xs text-[var(--color-tx-primary)]">
+                    {a.pedidoCode} · {a.etapa === 'TRILLADO' ? 'Trillado' : 'Tostión'}
+                  </p>
+                  <p className="text-xs text-[var(--color-tx-secondary)] truncate">
+                    {a.justificacion ?? 'Sin justificación'}
+                  </p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className="text-xs font-bold text-red-500">{a.merma.toFixed(1)}%</p>
+                  <p className="text-[10px] text-[var(--color-tx-secondary)]">
+                    esperado {a.rango.min}–{a.rango.max}% · {formatDate(a.fecha)}
+                  </p>
+                </div>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
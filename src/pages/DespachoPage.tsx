@@ -0,0 +1,458 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useForm, type Resolver } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  Truck, PackageCheck, Route, Scale, Loader2, Printer, Trash2, ArrowUp, ArrowDown, CheckCircle2, MapPin, Plus, AlertTriangle,
+} from 'lucide-react';
+import { despachoService, type CreateRutaPayload } from '@/services/despacho.service';
+import { facturasService } from '@/services/facturas.service';
+import { pedidosService } from '@/services/pedidos.service';
+import {
+  ESTADO_RUTA_LABEL, agruparDespacho, estadoRutaDe, porDespachar, type EstadoRuta, type PorDespachar,
+} from '@/lib/despacho';
+import { imprimirManifiesto } from '@/lib/manifiestoPdf';
+import { hoyISO } from '@/lib/dates';
+import { useCan } from '@/lib/permissions';
+import { toast } from '@/lib/toast';
+import { KpiCard } from '@/components/ui/KpiCard';
+import { Modal } from '@/components/ui/Modal';
+import { Field, Input, Textarea } from '@/components/ui/FormField';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { CardSkeleton } from '@/components/ui/Skeleton';
+import { useConfirm } from '@/components/ui/ConfirmDialog';
+import { EntregaParada } from '@/components/despacho/EntregaParada';
+import { cn } from '@/lib/cn';
+import type { ParadaRuta, RutaDespacho } from '@/types';
+
+const rutaSchema = z.object({
+  fecha:              z.string().min(1, 'Fecha requerida'),
+  vehiculo:           z.string().trim().min(5, 'Placa del vehículo'),
+  conductor:          z.string().trim().min(3, 'Nombre del conductor'),
+  conductorDocumento: z.string().optional(),
+  observaciones:      z.string().max(500).optional(),
+});
+
+type RutaFormValues = z.infer<typeof rutaSchema>;
+
+const ESTADO_RUTA_BADGE: Record<EstadoRuta, string> = {
+  PLANEADA:   'bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+  EN_RUTA:    'bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  COMPLETADA: 'bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+};
+
+function fmt(d?: string | null) {
+  if (!d) return 'Sin fecha';
+  return new Date(`${d.slice(0, 10)}T00:00:00`).toLocaleDateString('es-CO', { weekday: 'short', day: '2-digit', month: 'short' });
+}
+
+function fmtHora(d: string) {
+  return new Date(d).toLocaleString('es-CO', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+function fmtKg(v: number) {
+  return `${v.toLocaleString('es-CO', { maximumFractionDigits: 1 })} kg`;
+}
+
+export function DespachoPage() {
+  const qc = useQueryClient();
+  const confirm = useConfirm();
+  const canPlanear = useCan('despacho.planear');
+  // Entregar cambia la factura a ENTREGADO: mismo permiso que en Facturación
+  const canEntregar = useCan('facturas.entrega');
+
+  const [seleccion, setSeleccion] = useState<string[]>([]);
+  const [showRuta, setShowRuta] = useState(false);
+  const [mostrarCompletadas, setMostrarCompletadas] = useState(false);
+  const [entregaTarget, setEntregaTarget] = useState<{ ruta: RutaDespacho; parada: ParadaRuta } | null>(null);
+
+  // ── Queries ──────────────────────────────────────────────
+  // Solo lo que falta entregar: facturas listas y sus pedidos (kilos, ciudad y día de entrega)
+  const facturasQuery = useQuery({
+    queryKey: ['facturas', { estadoEntrega: 'LISTO_PARA_ENTREGA' }],
+    queryFn: () => facturasService.getByEstadoEntrega('LISTO_PARA_ENTREGA'),
+    staleTime: 20_000,
+  });
+  const pedidosQuery = useQuery({
+    queryKey: ['pedidos', { estado: 'FACTURACION,LISTO_PARA_ENTREGA' }],
+    queryFn: () => pedidosService.getAll(['FACTURACION', 'LISTO_PARA_ENTREGA']),
+    staleTime: 20_000,
+  });
+  const rutasQuery = useQuery({ queryKey: ['despachos'], queryFn: () => despachoService.getRutas(), staleTime: 20_000 });
+
+  const pendientes = useMemo(
+    () => porDespachar(facturasQuery.data ?? [], pedidosQuery.data ?? [], rutasQuery.data ?? []),
+    [facturasQuery.data, pedidosQuery.data, rutasQuery.data],
+  );
+  const grupos = useMemo(() => agruparDespacho(pendientes), [pendientes]);
+
+  const rutas = useMemo(
+    () => [...(rutasQuery.data ?? [])]
+      .filter((r) => mostrarCompletadas || estadoRutaDe(r) !== 'COMPLETADA')
+      .sort((a, b) => a.fecha.localeCompare(b.fecha)),
+    [rutasQuery.data, mostrarCompletadas],
+  );
+
+  // La selección conserva el orden en que se marcaron: es el orden inicial de las paradas
+  const seleccionados = seleccion
+    .map((id) => pendientes.find((p) => p.factura.id === id))
+    .filter((p): p is PorDespachar => !!p);
+
+  const stats = {
+    porDespachar: pendientes.length,
+    kilos: pendientes.reduce((s, p) => s + p.kilos, 0),
+    rutasAbiertas: (rutasQuery.data ?? []).filter((r) => estadoRutaDe(r) !== 'COMPLETADA').length,
+    paradasPendientes: (rutasQuery.data ?? []).reduce((s, r) => s + r.paradas.filter((p) => !p.entrega).length, 0),
+  };
+
+  // ── Form ─────────────────────────────────────────────────
+  const form = useForm<RutaFormValues>({
+    resolver: zodResolver(rutaSchema) as unknown as Resolver<RutaFormValues>,
+  });
+
+  const crearRuta = useMutation({
+    mutationFn: (payload: CreateRutaPayload) => despachoService.create(payload),
+    onSuccess: (ruta) => {
+      toast.success(`Hoja de ruta creada con ${ruta.paradas.length} paradas`);
+      qc.invalidateQueries({ queryKey: ['despachos'] });
+      setSeleccion([]);
+      setShowRuta(false);
+      form.reset();
+    },
+    onError: (e: { response?: { data?: { message?: string } } }) =>
+      toast.error(e.response?.data?.message ?? 'No se pudo crear la hoja de ruta'),
+  });
+
+  const eliminarRuta = useMutation({
+    mutationFn: (id: string) => despachoService.remove(id),
+    onSuccess: () => {
+      toast.success('Hoja de ruta eliminada');
+      qc.invalidateQueries({ queryKey: ['despachos'] });
+    },
+    onError: () => toast.error('No se pudo eliminar la hoja de ruta'),
+  });
+
+  const manifiesto = useMutation({
+    mutationFn: (ruta: RutaDespacho) => imprimirManifiesto(ruta, pedidosQuery.data ?? []),
+    networkMode: 'always',
+    onError: () => toast.error('No se pudo generar el manifiesto'),
+  });
+
+  // Parada con prueba de entrega cuya factura sigue en la lista de por entregar
+  const listas = new Set((facturasQuery.data ?? []).map((f) => f.id));
+  const estadoPendiente = (p: ParadaRuta) => !!p.entrega && listas.has(p.factura.id);
+
+  const confirmarEstado = useMutation({
+    mutationFn: (p: ParadaRuta) => facturasService.updateEstado(p.factura.id, 'ENTREGADO', p.entrega?.fecha.slice(0, 10)),
+    onSuccess: () => {
+      toast.success('Factura marcada como entregada');
+      qc.invalidateQueries({ queryKey: ['despachos'] });
+      qc.invalidateQueries({ queryKey: ['facturas'] });
+      qc.invalidateQueries({ queryKey: ['pedidos'] });
+    },
+    onError: (e: { response?: { data?: { message?: string } } }) =>
+      toast.error(e.response?.data?.message ?? 'No se pudo actualizar el estado de la factura'),
+  });
+
+  const toggle = (id: string) =>
+    setSeleccion((s) => (s.includes(id) ? s.filter((x) => x !== id) : [...s, id]));
+
+  const toggleGrupo = (items: PorDespachar[]) => {
+    const ids = items.map((i) => i.factura.id);
+    const todos = ids.every((id) => seleccion.includes(id));
+    setSeleccion((s) => (todos ? s.filter((id) => !ids.includes(id)) : [...s, ...ids.filter((id) => !s.includes(id))]));
+  };
+
+  const mover = (index: number, paso: -1 | 1) =>
+    setSeleccion((s) => {
+      const ids = seleccionados.map((p) => p.factura.id);
+      const destino = index + paso;
+      if (destino < 0 || destino >= ids.length) return s;
+      [ids[index], ids[destino]] = [ids[destino], ids[index]];
+      return ids;
+    });
+
+  const openRuta = () => {
+    form.reset({ fecha: seleccionados[0]?.diaEntrega ?? hoyISO(), vehiculo: '', conductor: '', conductorDocumento: '', observaciones: '' });
+    setShowRuta(true);
+  };
+
+  const onSubmitRuta = form.handleSubmit((v) => {
+    crearRuta.mutate({
+      fecha: v.fecha,
+      vehiculo: v.vehiculo.toUpperCase().replace(/\s+/g, ''),
+      conductor: v.conductor,
+      conductorDocumento: v.conductorDocumento?.trim() || null,
+      observaciones: v.observaciones?.trim() || null,
+      facturaIds: seleccionados.map((p) => p.factura.id),
+    });
+  });
+
+  const handleEliminar = async (ruta: RutaDespacho) => {
+    const ok = await confirm({
+      title: 'Eliminar hoja de ruta',
+      description: `Las ${ruta.paradas.length} paradas de ${ruta.vehiculo} vuelven a quedar por despachar.`,
+      confirmText: 'Eliminar',
+      danger: true,
+    });
+    if (ok) eliminarRuta.mutate(ruta.id);
+  };
+
+  const loading = facturasQuery.isLoading || pedidosQuery.isLoading || rutasQuery.isLoading;
+  const errors = form.formState.errors;
+
+  return (
+    <div className="page space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div>
+          <span className="chip mb-2">Logística</span>
+          <h2 className="text-2xl font-bold text-[var(--color-tx-primary)] mt-1">Despacho</h2>
+          <p className="text-sm text-[var(--color-tx-secondary)] mt-1">
+            Pedidos listos para entrega, hojas de ruta y confirmación con firma del cliente.
+          </p>
+        </div>
+        {canPlanear && (
+          <button className="btn btn-primary gap-2" onClick={openRuta} disabled={seleccionados.length === 0}>
+            <Plus size={15} />
+            Crear hoja de ruta{seleccionados.length > 0 && ` (${seleccionados.length})`}
+          </button>
+        )}
+      </div>
+
+      {/* KPIs */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <KpiCard label="Por despachar"      value={stats.porDespachar}      icon={<PackageCheck size={15} />} accent="#00D084" loading={loading} />
+        <KpiCard label="Kg por despachar"   value={fmtKg(stats.kilos)}      icon={<Scale size={15} />}        accent="#3B82F6" loading={loading} />
+        <KpiCard label="Rutas abiertas"     value={stats.rutasAbiertas}     icon={<Route size={15} />}        accent="#F59E0B" loading={rutasQuery.isLoading} />
+        <KpiCard label="Entregas en camino" value={stats.paradasPendientes} icon={<Truck size={15} />}        accent="#8B5CF6" loading={rutasQuery.isLoading} />
+      </div>
+
+      {/* Por despachar */}
+      <div className="space-y-3">
+        <p className="section-title">Por despachar</p>
+        {loading ? (
+          <CardSkeleton className="h-40" />
+        ) : grupos.length === 0 ? (
+          <div className="card">
+            <EmptyState title="Nada por despachar" description="Las facturas marcadas como listas para entrega aparecen aquí." />
+          </div>
+        ) : (
+          <div className="grid lg:grid-cols-2 gap-4">
+            {grupos.map((g) => {
+              const todos = g.items.every((i) => seleccion.includes(i.factura.id));
+              return (
+                <div key={g.clave} className="card space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      {canPlanear && <input type="checkbox" checked={todos} onChange={() => toggleGrupo(g.items)} />}
+                      <span className="font-semibold capitalize">{fmt(g.diaEntrega)}</span>
+                      <span className="text-sm text-[var(--color-tx-secondary)]">· {g.departamento}</span>
+                    </label>
+                    <span className="text-xs text-[var(--color-tx-secondary)]">{g.items.length} pedido(s) · {fmtKg(g.kilos)}</span>
+                  </div>
+                  <ul className="divide-y divide-[var(--color-border)]">
+                    {g.items.map((it) => (
+                      <li key={it.factura.id}>
+                        <label className={cn('flex items-center gap-3 py-2 text-sm', canPlanear && 'cursor-pointer')}>
+                          {canPlanear && (
+                            <input type="checkbox" checked={seleccion.includes(it.factura.id)} onChange={() => toggle(it.factura.id)} />
+                          )}
+                          <span className="font-mono text-xs font-semibold">{it.factura.pedido?.code}</span>
+                          <span className="truncate">{it.factura.pedido?.client?.name}</span>
+                          <span className="text-xs text-[var(--color-tx-secondary)] inline-flex items-center gap-1 ml-auto shrink-0">
+                            <MapPin size={11} /> {it.ciudad?.nombre ?? 'Sin ciudad'}
+                          </span>
+                          <span className="text-xs tabular-nums w-16 text-right shrink-0">{it.kilos ? fmtKg(it.kilos) : '—'}</span>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Hojas de ruta */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <p className="section-title">Hojas de ruta</p>
+          <label className="flex items-center gap-2 text-sm text-[var(--color-tx-secondary)] cursor-pointer">
+            <input type="checkbox" checked={mostrarCompletadas} onChange={(e) => setMostrarCompletadas(e.target.checked)} />
+            Mostrar completadas
+          </label>
+        </div>
+        {rutasQuery.isLoading ? (
+          <CardSkeleton className="h-40" />
+        ) : rutas.length === 0 ? (
+          <div className="card">
+            <EmptyState title="Sin hojas de ruta" description="Selecciona pedidos por despachar para armar una ruta." />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {rutas.map((r) => {
+              const estado = estadoRutaDe(r);
+              const entregadas = r.paradas.filter((p) => p.entrega).length;
+              return (
+                <div key={r.id} className="card space-y-3">
+                  <div className="flex items-start justify-between gap-3 flex-wrap">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <p className="font-semibold capitalize">{fmt(r.fecha)}</p>
+                        <span className={cn('badge', ESTADO_RUTA_BADGE[estado])}>{ESTADO_RUTA_LABEL[estado]}</span>
+                      </div>
+                      <p className="text-sm text-[var(--color-tx-secondary)]">
+                        <span className="font-mono font-semibold text-[var(--color-tx-primary)]">{r.vehiculo}</span> · {r.conductor}
+                        {' · '}{entregadas}/{r.paradas.length} entregadas
+                      </p>
+                      {r.observaciones && <p className="text-xs text-[var(--color-tx-secondary)] mt-1">{r.observaciones}</p>}
+                    </div>
+                    <div className="flex gap-1">
+                      <button
+                        className="btn btn-secondary btn-sm gap-1"
+                        onClick={() => manifiesto.mutate(r)}
+                        disabled={manifiesto.isPending}
+                      >
+                        {manifiesto.isPending && manifiesto.variables?.id === r.id
+                          ? <Loader2 size={13} className="animate-spin" />
+                          : <Printer size={13} />}
+                        Manifiesto
+                      </button>
+                      {canPlanear && estado === 'PLANEADA' && (
+                        <button className="btn btn-ghost btn-sm text-red-500" onClick={() => handleEliminar(r)} title="Eliminar hoja de ruta">
+                          <Trash2 size={13} />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  <ol className="divide-y divide-[var(--color-border)]">
+                    {[...r.paradas].sort((a, b) => a.orden - b.orden).map((p) => (
+                      <li key={p.id} className="flex items-center gap-3 py-2 text-sm">
+                        <span className="w-5 text-center text-xs font-semibold text-[var(--color-tx-secondary)]">{p.orden}</span>
+                        <span className="font-mono text-xs font-semibold">{p.factura.pedido?.code}</span>
+                        <span className="truncate">{p.factura.pedido?.client?.name}</span>
+                        <span className="text-xs text-[var(--color-tx-secondary)] truncate hidden sm:inline">
+                          {p.factura.pedido?.client?.ciudad?.nombre}
+                        </span>
+                        <span className="ml-auto shrink-0">
+                          {p.entrega ? (
+                            <span className="inline-flex items-center gap-1.5 text-xs text-[#00D084]">
+                              <CheckCircle2 size={13} />
+                              {p.entrega.recibidoPor} · {fmtHora(p.entrega.fecha)}
+                              <a href={p.entrega.firmaUrl} target="_blank" rel="noreferrer" className="underline">firma</a>
+                              {p.entrega.fotoUrl && <a href={p.entrega.fotoUrl} target="_blank" rel="noreferrer" className="underline">foto</a>}
+                              {estadoPendiente(p) && canEntregar && (
+                                <button
+                                  className="btn btn-secondary btn-sm gap-1 text-amber-600"
+                                  onClick={() => confirmarEstado.mutate(p)}
+                                  disabled={confirmarEstado.isPending}
+                                  title="La prueba quedó guardada pero la factura sigue lista para entrega"
+                                >
+                                  {confirmarEstado.isPending && confirmarEstado.variables?.id === p.id
+                                    ? <Loader2 size={13} className="animate-spin" />
+                                    : <AlertTriangle size={13} />}
+                                  Marcar factura entregada
+                                </button>
+                              )}
+                            </span>
+                          ) : canEntregar ? (
+                            <button className="btn btn-primary btn-sm gap-1" onClick={() => setEntregaTarget({ ruta: r, parada: p })}>
+                              <PackageCheck size={13} /> Entregar
+                            </button>
+                          ) : (
+                            <span className="text-xs text-[var(--color-tx-secondary)]">Pendiente</span>
+                          )}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* ── Modal hoja de ruta ── */}
+      <Modal
+        open={showRuta}
+        onClose={() => setShowRuta(false)}
+        title="Nueva hoja de ruta"
+        description="Ordena las paradas en el orden en que las recorrerá el vehículo."
+        size="lg"
+        footer={
+          <div className="flex gap-2">
+            <button className="btn btn-secondary" onClick={() => setShowRuta(false)}>Cancelar</button>
+            <button className="btn btn-primary" onClick={onSubmitRuta} disabled={crearRuta.isPending || seleccionados.length === 0}>
+              {crearRuta.isPending && <Loader2 size={14} className="animate-spin" />}
+              Crear hoja de ruta
+            </button>
+          </div>
+        }
+      >
+        <div className="space-y-5">
+          <div className="grid grid-cols-2 gap-4">
+            <Field label="Fecha de entrega" error={errors.fecha?.message} required>
+              <Input type="date" {...form.register('fecha')} error={errors.fecha?.message} />
+            </Field>
+            <Field label="Vehículo (placa)" error={errors.vehiculo?.message} required>
+              <Input placeholder="ABC123" className="uppercase" {...form.register('vehiculo')} error={errors.vehiculo?.message} />
+            </Field>
+            <Field label="Conductor" error={errors.conductor?.message} required>
+              <Input placeholder="Nombre completo" {...form.register('conductor')} error={errors.conductor?.message} />
+            </Field>
+            <Field label="Documento del conductor">
+              <Input placeholder="Cédula" {...form.register('conductorDocumento')} />
+            </Field>
+            <Field label="Observaciones" error={errors.observaciones?.message} className="col-span-2">
+              <Textarea rows={2} placeholder="Horarios de recibo, accesos, carga especial…" {...form.register('observaciones')} />
+            </Field>
+          </div>
+
+          <div>
+            <p className="field-label">Paradas ({seleccionados.length})</p>
+            <ol className="rounded-lg border border-[var(--color-border)] divide-y divide-[var(--color-border)]">
+              {seleccionados.map((p, i) => (
+                <li key={p.factura.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  <span className="w-5 text-center text-xs font-semibold text-[var(--color-tx-secondary)]">{i + 1}</span>
+                  <span className="font-mono text-xs font-semibold">{p.factura.pedido?.code}</span>
+                  <span className="truncate">{p.factura.pedido?.client?.name}</span>
+                  <span className="text-xs text-[var(--color-tx-secondary)] ml-auto shrink-0">{p.ciudad?.nombre ?? 'Sin ciudad'}</span>
+                  <div className="flex shrink-0">
+                    <button type="button" className="btn btn-icon btn-ghost btn-xs" onClick={() => mover(i, -1)} disabled={i === 0} aria-label="Subir parada">
+                      <ArrowUp size={12} />
+                    </button>
+                    <button type="button" className="btn btn-icon btn-ghost btn-xs" onClick={() => mover(i, 1)} disabled={i === seleccionados.length - 1} aria-label="Bajar parada">
+                      <ArrowDown size={12} />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </div>
+        </div>
+      </Modal>
+
+      {/* ── Modal prueba de entrega ── */}
+      <Modal
+        open={!!entregaTarget}
+        onClose={() => setEntregaTarget(null)}
+        title="Prueba de entrega"
+        description="Quien recibe firma en pantalla; la factura queda como entregada."
+        size="md"
+      >
+        {entregaTarget && (
+          <EntregaParada
+            ruta={entregaTarget.ruta}
+            parada={entregaTarget.parada}
+            onEntregada={() => setEntregaTarget(null)}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+}
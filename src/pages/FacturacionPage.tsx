@@ -1,21 +1,39 @@
 import { useState, useMemo } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useForm, type Resolver } from 'react-hook-form';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { useForm, useFieldArray, useWatch, type Resolver } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { Plus, Loader2, CheckCircle2, Truck } from 'lucide-react';
+import { Plus, Loader2, CheckCircle2, Truck, FileDown, Printer } from 'lucide-react';
 import { pedidosService } from '@/services/pedidos.service';
 import { facturasService, type CreateFacturaPayload } from '@/services/facturas.service';
 import { toast } from '@/lib/toast';
 import { cn } from '@/lib/cn';
+import { useCan } from '@/lib/permissions';
+import { useListParams } from '@/lib/pagination';
+import { fmtMoney } from '@/lib/format';
+import { calcularLinea, calcularTotales, lineasDePedido, IVA_PCT_DEFAULT, RETENCION_PCT_DEFAULT } from '@/lib/facturacion';
+import { tarifaVigente, useTarifas } from '@/lib/tarifas';
+import { ESTADO_PAGO_LABEL, estadoPagoDe, plazoDe, saldoDe, vencimientoDe } from '@/lib/cartera';
+import { addDays } from '@/lib/dates';
+import { descargarFacturaPdf, imprimirFacturaPdf } from '@/lib/facturaPdf';
+import { fetchAllPages, type ExportColumn } from '@/lib/export';
 import { KpiCard } from '@/components/ui/KpiCard';
 import { StatusBadge } from '@/components/ui/StatusBadge';
 import { Modal } from '@/components/ui/Modal';
 import { Field, Input, Select } from '@/components/ui/FormField';
 import { EmptyState } from '@/components/ui/EmptyState';
-import { TableSkeleton } from '@/components/ui/Skeleton';
+import { DataTable, type DataTableColumn } from '@/components/ui/DataTable';
+import { ExportMenu } from '@/components/ui/ExportMenu';
 import { useConfirm } from '@/components/ui/ConfirmDialog';
-import type { Factura, EstadoEntrega } from '@/types';
+import { PagosFactura } from '@/components/cartera/PagosFactura';
+import type { Factura, EstadoEntrega, Pedido, Tarifa } from '@/types';
+
+const PRESENTACION_LABELS: Record<string, string> = {
+  CPS: 'CPS',
+  EXCELSO: 'Excelso',
+  HONEY: 'Honey',
+  NATURAL: 'Natural',
+};
 
 const SEMAFORO: Record<EstadoEntrega, string> = {
   PENDIENTE_ENTREGA:  'bg-red-500',
@@ -29,13 +47,27 @@ const SEMAFORO_LABEL: Record<EstadoEntrega, string> = {
   ENTREGADO:          'Entregado',
 };
 
+const lineaSchema = z.object({
+  presentacion: z.enum(['CPS', 'EXCELSO', 'HONEY', 'NATURAL'] as const),
+  variedad:     z.string().optional().default(''),
+  kilos:        z.coerce.number().positive('Mayor a 0'),
+  precioKg:     z.coerce.number().positive('Precio requerido'),
+  descuentoPct: z.coerce.number().min(0, 'Mínimo 0').max(100, 'Máximo 100').default(0),
+});
+
 const schema = z.object({
   pedidoId:    z.string().min(1, 'Selecciona un pedido'),
   numero:      z.string().min(1, 'Número de factura requerido'),
   fecha:       z.string().min(1, 'Fecha requerida'),
-  valorTotal:  z.coerce.number().positive('El valor debe ser mayor a 0'),
+  lineas:      z.array(lineaSchema).min(1, 'El pedido no tiene líneas para facturar'),
+  ivaPct:       z.coerce.number().min(0, 'Mínimo 0').max(100, 'Máximo 100'),
+  retencionPct: z.coerce.number().min(0, 'Mínimo 0').max(100, 'Máximo 100'),
   estadoEntrega: z.enum(['PENDIENTE_ENTREGA', 'LISTO_PARA_ENTREGA', 'ENTREGADO']).optional(),
   fechaConfirmacionEntrega: z.string().optional(),
+}).superRefine((v, ctx) => {
+  if (calcularTotales(v.lineas, v.ivaPct, v.retencionPct).total <= 0) {
+    ctx.addIssue({ code: 'custom', path: ['lineas'], message: 'El total de la factura debe ser mayor a 0' });
+  }
 });
 
 type FormValues = z.infer<typeof schema>;
@@ -45,13 +77,51 @@ function fmt(d?: string | null) {
   return new Date(d).toLocaleDateString('es-CO', { day: '2-digit', month: 'short', year: 'numeric' });
 }
 
-function fmtMoney(v: number) {
-  return new Intl.NumberFormat('es-CO', { style: 'currency', currency: 'COP', maximumFractionDigits: 0 }).format(v);
+const EXPORT_COLUMNS: ExportColumn<Factura>[] = [
+  { header: 'N° Factura',     value: (f) => f.numero },
+  { header: 'Pedido',         value: (f) => f.pedido?.code },
+  { header: 'Cliente',        value: (f) => f.pedido?.client?.name },
+  { header: 'Fecha',          tipo: 'fecha',  value: (f) => f.fecha },
+  { header: 'Subtotal',       tipo: 'moneda', value: (f) => f.subtotal },
+  { header: 'Descuentos',     tipo: 'moneda', value: (f) => f.descuento },
+  { header: 'IVA',            tipo: 'moneda', value: (f) => f.iva },
+  { header: 'Retención',      tipo: 'moneda', value: (f) => f.retencion },
+  { header: 'Total',          tipo: 'moneda', value: (f) => Number(f.valorTotal) },
+  { header: 'Estado entrega', value: (f) => SEMAFORO_LABEL[f.estadoEntrega] },
+  { header: 'Entregada',      tipo: 'fecha',  value: (f) => f.fechaConfirmacionEntrega },
+  { header: 'Vence',          tipo: 'fecha',  value: (f) => vencimientoDe(f) },
+  { header: 'Estado pago',    value: (f) => ESTADO_PAGO_LABEL[estadoPagoDe(f)] },
+  { header: 'Saldo',          tipo: 'moneda', value: (f) => saldoDe(f) },
+];
+
+// Precio de la tarifa vigente bajo el campo de cada línea; si el usuario lo cambió, un clic lo restaura
+function SugerenciaTarifa({ tarifa, precioActual, onUsar }: {
+  tarifa: Tarifa | null;
+  precioActual: number;
+  onUsar: (precio: number) => void;
+}) {
+  if (!tarifa) return <p className="text-[11px] text-[var(--color-tx-secondary)] mt-0.5">Sin tarifa vigente</p>;
+  const precio = Number(tarifa.precioKg);
+  const origen = tarifa.clienteId ? 'pactada' : 'general';
+  if (precioActual === precio) return <p className="text-[11px] text-[#00D084] mt-0.5">Tarifa {origen}</p>;
+  return (
+    <button
+      type="button"
+      className="text-[11px] text-amber-600 hover:underline mt-0.5"
+      onClick={() => onUsar(precio)}
+      title="Usar el precio de la tarifa"
+    >
+      Tarifa {origen}: {fmtMoney(precio)}
+    </button>
+  );
 }
 
 export function FacturacionPage() {
   const qc = useQueryClient();
   const confirm = useConfirm();
+  const canCrear = useCan('facturas.crear');
+  const canEntrega = useCan('facturas.entrega');
+  const canPagos = useCan('facturas.pagos');
   const [showForm, setShowForm] = useState(false);
   const [previewFactura, setPreviewFactura] = useState<Factura | null>(null);
 
@@ -61,20 +131,78 @@ export function FacturacionPage() {
     staleTime: 20_000,
   });
 
-  const facturasQuery = useQuery({
-    queryKey: ['facturas'],
-    queryFn: () => facturasService.getAll(),
+  // Solo los agregados: el historial completo se recorre paginado en la tabla
+  const resumenQuery = useQuery({
+    queryKey: ['facturas', 'resumen'],
+    queryFn: () => facturasService.resumen(),
+    staleTime: 20_000,
+  });
+
+  const list = useListParams({ sort: 'fecha', dir: 'desc', filters: ['estadoEntrega'] });
+  const listaQuery = useQuery({
+    queryKey: ['facturas', 'lista', list.params],
+    queryFn: () => facturasService.list(list.params),
+    placeholderData: keepPreviousData,
     staleTime: 20_000,
   });
 
-  const { register, handleSubmit, reset, formState: { errors } } = useForm<FormValues>({
+  const { register, handleSubmit, reset, control, setValue, getValues, formState: { errors } } = useForm<FormValues>({
     resolver: zodResolver(schema) as unknown as Resolver<FormValues>,
     defaultValues: {
       fecha: new Date().toISOString().slice(0, 10),
+      lineas: [],
+      ivaPct: IVA_PCT_DEFAULT,
+      retencionPct: RETENCION_PCT_DEFAULT,
       estadoEntrega: 'PENDIENTE_ENTREGA',
     },
   });
 
+  // ── Líneas y totales en vivo ──
+  const { fields: lineaFields, replace: replaceLineas } = useFieldArray({ control, name: 'lineas' });
+  const [precioBase, setPrecioBase] = useState('');
+  const lineasEnVivo = useWatch({ control, name: 'lineas' });
+  const ivaPctEnVivo = useWatch({ control, name: 'ivaPct' });
+  const retencionPctEnVivo = useWatch({ control, name: 'retencionPct' });
+  const totales = calcularTotales(lineasEnVivo ?? [], ivaPctEnVivo, retencionPctEnVivo);
+
+  // ── Tarifas: precio sugerido por línea según cliente, forma de entrega y fecha de la factura ──
+  const tarifasQuery = useTarifas();
+  const pedidoIdEnVivo = useWatch({ control, name: 'pedidoId' });
+  const fechaEnVivo = useWatch({ control, name: 'fecha' });
+  const pedidoSeleccionado = pedidosQuery.data?.find((p) => p.id === pedidoIdEnVivo);
+  const tarifaDeLinea = (i: number) => {
+    const linea = lineasEnVivo?.[i];
+    if (!pedidoSeleccionado || !linea) return null;
+    return tarifaVigente(tarifasQuery.data, {
+      presentacion: linea.presentacion,
+      formaEntrega: pedidoSeleccionado.formaEntrega,
+      clienteId: pedidoSeleccionado.client?.id,
+    }, fechaEnVivo || undefined);
+  };
+
+  const cargarLineas = (pedidoId: string) => {
+    const pedido = pedidosQuery.data?.find((p) => p.id === pedidoId);
+    if (!pedido) {
+      replaceLineas([]);
+      return;
+    }
+    const fecha = getValues('fecha') || undefined;
+    replaceLineas(lineasDePedido(pedido, Number(precioBase) || 0).map((l) => {
+      const tarifa = tarifaVigente(tarifasQuery.data, {
+        presentacion: l.presentacion,
+        formaEntrega: pedido.formaEntrega,
+        clienteId: pedido.client?.id,
+      }, fecha);
+      return tarifa ? { ...l, precioKg: Number(tarifa.precioKg) } : l;
+    }));
+  };
+
+  const aplicarPrecioBase = () => {
+    const precio = Number(precioBase);
+    if (!precio) return;
+    lineaFields.forEach((_, i) => setValue(`lineas.${i}.precioKg`, precio, { shouldValidate: true }));
+  };
+
   const crearFactura = useMutation({
     mutationFn: (payload: CreateFacturaPayload) => facturasService.create(payload),
     onSuccess: () => {
@@ -99,6 +227,23 @@ export function FacturacionPage() {
     onError: () => toast.error('No se pudo actualizar el estado'),
   });
 
+  // Sin conexión se usa el pedido en caché (persistido) para no dejar la mutación en pausa
+  const pedidoDeFactura = async (f: Factura): Promise<Pedido | null> => {
+    const queryKey = ['pedidos', f.pedido.id];
+    if (!navigator.onLine) return qc.getQueryData<Pedido>(queryKey) ?? null;
+    return qc.fetchQuery({ queryKey, queryFn: () => pedidosService.getById(f.pedido.id), staleTime: 20_000 });
+  };
+
+  const pdfMutation = useMutation({
+    mutationFn: async ({ factura, accion }: { factura: Factura; accion: 'descargar' | 'imprimir' }) => {
+      const pedido = await pedidoDeFactura(factura);
+      if (accion === 'imprimir') await imprimirFacturaPdf(factura, pedido);
+      else await descargarFacturaPdf(factura, pedido);
+    },
+    networkMode: 'always',
+    onError: () => toast.error('No se pudo generar el PDF de la factura'),
+  });
+
   const onSubmit = handleSubmit(async (values) => {
     const ok = await confirm({
       title: `Guardar registro ${values.numero}`,
@@ -106,11 +251,21 @@ export function FacturacionPage() {
       confirmText: 'Guardar registro',
     });
     if (!ok) return;
+    const t = calcularTotales(values.lineas, values.ivaPct, values.retencionPct);
+    const cliente = pedidosQuery.data?.find((p) => p.id === values.pedidoId)?.client;
     crearFactura.mutate({
       pedidoId: values.pedidoId,
       numero: values.numero,
       fecha: values.fecha,
-      valorTotal: values.valorTotal,
+      lineas: values.lineas.map(calcularLinea),
+      ivaPct: values.ivaPct,
+      retencionPct: values.retencionPct,
+      subtotal: t.subtotal,
+      descuento: t.descuento,
+      iva: t.iva,
+      retencion: t.retencion,
+      valorTotal: t.total,
+      fechaVencimiento: addDays(values.fecha, plazoDe(cliente)),
       estadoEntrega: values.estadoEntrega ?? 'PENDIENTE_ENTREGA',
       fechaConfirmacionEntrega: values.fechaConfirmacionEntrega || null,
     });
@@ -142,10 +297,51 @@ export function FacturacionPage() {
 
   const stats = useMemo(() => ({
     pendientes: pedidosQuery.data?.length ?? 0,
-    facturas:   facturasQuery.data?.length ?? 0,
-    entregadas: facturasQuery.data?.filter((f) => f.estadoEntrega === 'ENTREGADO').length ?? 0,
-    totalFacturado: facturasQuery.data?.reduce((acc, f) => acc + Number(f.valorTotal), 0) ?? 0,
-  }), [pedidosQuery.data, facturasQuery.data]);
+    facturas:   resumenQuery.data?.facturas ?? 0,
+    entregadas: resumenQuery.data?.entregadas ?? 0,
+    totalFacturado: Number(resumenQuery.data?.totalFacturado ?? 0),
+  }), [pedidosQuery.data, resumenQuery.data]);
+
+  const columns: DataTableColumn<Factura>[] = [
+    { key: 'numero',  header: 'N° Factura', sortField: 'numero', primary: true, hideable: false, className: 'font-mono text-xs font-bold', render: (f) => f.numero },
+    { key: 'pedido',  header: 'Pedido',     className: 'font-mono text-xs', render: (f) => f.pedido?.code },
+    { key: 'cliente', header: 'Cliente',    className: 'max-w-[140px] truncate text-[var(--color-tx-secondary)]', render: (f) => f.pedido?.client?.name },
+    { key: 'fecha',   header: 'Fecha',      sortField: 'fecha', className: 'text-xs', render: (f) => fmt(f.fecha) },
+    {
+      key: 'valorTotal', header: 'Total', sortField: 'valorTotal', className: 'tabular-nums font-semibold text-sm',
+      render: (f) => fmtMoney(Number(f.valorTotal)),
+    },
+    {
+      key: 'estadoEntrega', header: 'Estado entrega',
+      render: (f) => (
+        <div className="flex items-center gap-1.5">
+          <span
+            className={cn('inline-block w-2.5 h-2.5 rounded-full flex-shrink-0', SEMAFORO[f.estadoEntrega])}
+            title={SEMAFORO_LABEL[f.estadoEntrega]}
+          />
+          <StatusBadge entrega={f.estadoEntrega} />
+        </div>
+      ),
+    },
+    {
+      key: 'pago', header: 'Pago',
+      render: (f) => (
+        <div className="flex flex-col gap-0.5">
+          <StatusBadge pago={estadoPagoDe(f)} />
+          {saldoDe(f) > 0 && <span className="text-xs tabular-nums text-[var(--color-tx-secondary)]">Saldo {fmtMoney(saldoDe(f))}</span>}
+        </div>
+      ),
+    },
+    { key: 'vence', header: 'Vence', className: 'text-xs', defaultHidden: true, render: (f) => fmt(vencimientoDe(f)) },
+    {
+      key: 'acciones', header: '', hideable: false,
+      render: (f) => (
+        <button className="btn btn-ghost btn-sm text-xs" onClick={() => setPreviewFactura(f)}>
+          Ver
+        </button>
+      ),
+    },
+  ];
 
   return (
     <div className="page space-y-6">
@@ -158,14 +354,16 @@ export function FacturacionPage() {
             Genera facturas y cierra el ciclo con la confirmación de entrega.
           </p>
         </div>
-        <button
-          className="btn btn-primary"
-          onClick={() => setShowForm(true)}
-          disabled={!pedidosQuery.data?.length}
-        >
-          <Plus size={15} />
-          Nueva factura
-        </button>
+        {canCrear && (
+          <button
+            className="btn btn-primary"
+            onClick={() => setShowForm(true)}
+            disabled={!pedidosQuery.data?.length}
+          >
+            <Plus size={15} />
+            Nueva factura
+          </button>
+        )}
       </div>
 
       {/* KPIs */}
@@ -180,63 +378,47 @@ export function FacturacionPage() {
         {/* Lista de facturas */}
         <div className="card">
           <p className="section-title text-base mb-4">Historial de facturas</p>
-          {facturasQuery.isLoading ? (
-            <TableSkeleton rows={5} cols={5} />
-          ) : (facturasQuery.data ?? []).length === 0 ? (
-            <EmptyState
-              title="Sin facturas"
-              description="Genera la primera factura cuando un pedido esté listo."
-              action={
-                <button className="btn btn-primary btn-sm" onClick={() => setShowForm(true)} disabled={!pedidosQuery.data?.length}>
-                  <Plus size={13} /> Nueva factura
-                </button>
-              }
-            />
-          ) : (
-            <div className="table-wrap">
-              <table className="table">
-                <thead>
-                  <tr>
-                    <th>N° Factura</th>
-                    <th>Pedido</th>
-                    <th>Cliente</th>
-                    <th>Fecha</th>
-                    <th>Total</th>
-                    <th>Estado entrega</th>
-                    <th></th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {(facturasQuery.data ?? []).map((f) => (
-                    <tr key={f.id}>
-                      <td className="font-mono text-xs font-bold">{f.numero}</td>
-                      <td className="font-mono text-xs">{f.pedido?.code}</td>
-                      <td className="max-w-[140px] truncate text-[var(--color-tx-secondary)]">{f.pedido?.client?.name}</td>
-                      <td className="text-xs">{fmt(f.fecha)}</td>
-                      <td className="tabular-nums font-semibold text-sm">{fmtMoney(Number(f.valorTotal))}</td>
-                      <td>
-                        <div className="flex items-center gap-1.5">
-                          <span
-                            className={cn('inline-block w-2.5 h-2.5 rounded-full flex-shrink-0', SEMAFORO[f.estadoEntrega])}
-                            title={SEMAFORO_LABEL[f.estadoEntrega]}
-                          />
-                          <StatusBadge entrega={f.estadoEntrega} />
-                        </div>
-                      </td>
-                      <td>
-                        <button
-                          className="btn btn-ghost btn-sm text-xs"
-                          onClick={() => setPreviewFactura(f)}
-                        >
-                          Ver
-                        </button>
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
-          )}
+          <DataTable
+            id="facturas"
+            columns={columns}
+            data={listaQuery.data}
+            list={list}
+            rowKey={(f) => f.id}
+            loading={listaQuery.isLoading}
+            fetching={listaQuery.isFetching}
+            searchPlaceholder="Buscar por número, pedido o cliente…"
+            actions={
+              <ExportMenu
+                fileName="facturas"
+                columns={EXPORT_COLUMNS}
+                fetchRows={() => fetchAllPages(facturasService.list, list.params)}
+              />
+            }
+            toolbar={
+              <select
+                className="input w-auto"
+                value={list.params.filters?.estadoEntrega ?? ''}
+                onChange={(e) => list.setFilter('estadoEntrega', e.target.value)}
+                aria-label="Estado de entrega"
+              >
+                <option value="">Todos los estados</option>
+                {(Object.keys(SEMAFORO_LABEL) as EstadoEntrega[]).map((e) => (
+                  <option key={e} value={e}>{SEMAFORO_LABEL[e]}</option>
+                ))}
+              </select>
+            }
+            empty={!list.params.q && !list.params.filters?.estadoEntrega ? (
+              <EmptyState
+                title="Sin facturas"
+                description="Genera la primera factura cuando un pedido esté listo."
+                action={canCrear && (
+                  <button className="btn btn-primary btn-sm" onClick={() => setShowForm(true)} disabled={!pedidosQuery.data?.length}>
+                    <Plus size={13} /> Nueva factura
+                  </button>
+                )}
+              />
+            ) : undefined}
+          />
         </div>
 
         {/* Pedidos listos para facturar */}
@@ -263,12 +445,14 @@ export function FacturacionPage() {
                     <p className="text-xs text-[var(--color-tx-secondary)] truncate">{pedido.client?.name}</p>
                     <p className="text-xs text-[var(--color-tx-secondary)]">Entrega: {fmt(pedido.diaEntrega)}</p>
                   </div>
-                  <button
-                    className="btn btn-primary btn-sm shrink-0"
-                    onClick={() => setShowForm(true)}
-                  >
-                    Facturar
-                  </button>
+                  {canCrear && (
+                    <button
+                      className="btn btn-primary btn-sm shrink-0"
+                      onClick={() => setShowForm(true)}
+                    >
+                      Facturar
+                    </button>
+                  )}
                 </div>
               ))}
             </div>
@@ -281,8 +465,8 @@ export function FacturacionPage() {
         open={showForm}
         onClose={() => { setShowForm(false); reset(); }}
         title="Guardar registro de factura"
-        description="Completa los datos para guardar el registro."
-        size="md"
+        description="Las líneas salen del pedido; el total se calcula con precio, descuentos, IVA y retención."
+        size="lg"
         footer={
           <div className="flex gap-2">
             <button className="btn btn-secondary" onClick={() => setShowForm(false)}>Cancelar</button>
@@ -296,7 +480,7 @@ export function FacturacionPage() {
         <div className="space-y-4">
           <Field label="Pedido" error={errors.pedidoId?.message} required>
             <Select
-              {...register('pedidoId')}
+              {...register('pedidoId', { onChange: (e) => cargarLineas(e.target.value) })}
               placeholder="Selecciona un pedido"
               options={(pedidosQuery.data ?? []).map((p) => ({
                 value: p.id,
@@ -316,9 +500,94 @@ export function FacturacionPage() {
             </Field>
           </div>
 
-          <Field label="Valor total (COP)" error={errors.valorTotal?.message} required>
-            <Input type="number" step="1000" min="0" placeholder="5000000" {...register('valorTotal')} error={errors.valorTotal?.message} />
-          </Field>
+          {/* Líneas de la factura */}
+          {lineaFields.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-end gap-2">
+                <Field label="Precio por kg (COP)" hint="Para líneas sin tarifa; se aplica a todas">
+                  <Input type="number" step="100" min="0" placeholder="12000" value={precioBase} onChange={(e) => setPrecioBase(e.target.value)} />
+                </Field>
+                <button type="button" className="btn btn-secondary btn-sm mb-0.5" onClick={aplicarPrecioBase} disabled={!Number(precioBase)}>
+                  Aplicar
+                </button>
+              </div>
+
+              <div className="table-wrap">
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th>Línea</th>
+                      <th className="text-right">Kg</th>
+                      <th>Precio/kg</th>
+                      <th>Desc. %</th>
+                      <th className="text-right">Subtotal</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lineaFields.map((field, i) => (
+                      <tr key={field.id}>
+                        <td className="text-sm">
+                          {PRESENTACION_LABELS[field.presentacion] ?? field.presentacion}
+                          {field.variedad ? <span className="text-[var(--color-tx-secondary)]"> · {field.variedad}</span> : null}
+                        </td>
+                        <td className="text-right tabular-nums">{Number(field.kilos).toFixed(1)}</td>
+                        <td className="w-36">
+                          <Input
+                            type="number" step="100" min="0"
+                            {...register(`lineas.${i}.precioKg`)}
+                            error={errors.lineas?.[i]?.precioKg?.message}
+                            title={errors.lineas?.[i]?.precioKg?.message}
+                          />
+                          <SugerenciaTarifa
+                            tarifa={tarifaDeLinea(i)}
+                            precioActual={Number(lineasEnVivo?.[i]?.precioKg)}
+                            onUsar={(precio) => setValue(`lineas.${i}.precioKg`, precio, { shouldValidate: true })}
+                          />
+                        </td>
+                        <td className="w-24">
+                          <Input
+                            type="number" step="1" min="0" max="100"
+                            {...register(`lineas.${i}.descuentoPct`)}
+                            error={errors.lineas?.[i]?.descuentoPct?.message}
+                            title={errors.lineas?.[i]?.descuentoPct?.message}
+                          />
+                        </td>
+                        <td className="text-right tabular-nums font-medium">
+                          {fmtMoney(lineasEnVivo?.[i] ? calcularLinea(lineasEnVivo[i]).subtotal : 0)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+          {errors.lineas?.message && <p className="text-xs text-red-500">{errors.lineas.message}</p>}
+          {errors.lineas?.root?.message && <p className="text-xs text-red-500">{errors.lineas.root.message}</p>}
+
+          <div className="grid grid-cols-2 gap-4">
+            <Field label="IVA %" error={errors.ivaPct?.message}>
+              <Input type="number" step="1" min="0" max="100" {...register('ivaPct')} error={errors.ivaPct?.message} />
+            </Field>
+            <Field label="Retención %" hint="Solo si el cliente es agente retenedor" error={errors.retencionPct?.message}>
+              <Input type="number" step="0.1" min="0" max="100" {...register('retencionPct')} error={errors.retencionPct?.message} />
+            </Field>
+          </div>
+
+          {/* Totales calculados */}
+          <div className="rounded-lg bg-[var(--color-muted)] p-3 space-y-1 text-sm">
+            <div className="flex justify-between"><span className="text-[var(--color-tx-secondary)]">Subtotal</span><span className="tabular-nums">{fmtMoney(totales.subtotal)}</span></div>
+            {totales.descuento > 0 && (
+              <div className="flex justify-between"><span className="text-[var(--color-tx-secondary)]">Descuentos</span><span className="tabular-nums">− {fmtMoney(totales.descuento)}</span></div>
+            )}
+            <div className="flex justify-between"><span className="text-[var(--color-tx-secondary)]">IVA ({Number(ivaPctEnVivo) || 0}%)</span><span className="tabular-nums">{fmtMoney(totales.iva)}</span></div>
+            {totales.retencion > 0 && (
+              <div className="flex justify-between"><span className="text-[var(--color-tx-secondary)]">Retención ({Number(retencionPctEnVivo) || 0}%)</span><span className="tabular-nums">− {fmtMoney(totales.retencion)}</span></div>
+            )}
+            <div className="flex justify-between border-t border-[var(--color-border)] pt-1.5 mt-1.5 font-bold text-base">
+              <span>Total</span><span className="tabular-nums">{fmtMoney(totales.total)}</span>
+            </div>
+          </div>
 
           <Field label="Estado de entrega">
             <Select
@@ -346,7 +615,23 @@ export function FacturacionPage() {
         footer={
           <div className="flex gap-2">
             <button className="btn btn-secondary" onClick={() => setPreviewFactura(null)}>Cerrar</button>
-            {previewFactura?.estadoEntrega === 'PENDIENTE_ENTREGA' && (
+            <button
+              className="btn btn-secondary gap-1.5"
+              onClick={() => previewFactura && pdfMutation.mutate({ factura: previewFactura, accion: 'imprimir' })}
+              disabled={pdfMutation.isPending}
+              title="Imprimir factura"
+            >
+              <Printer size={14} />
+            </button>
+            <button
+              className="btn btn-secondary gap-1.5"
+              onClick={() => previewFactura && pdfMutation.mutate({ factura: previewFactura, accion: 'descargar' })}
+              disabled={pdfMutation.isPending}
+            >
+              {pdfMutation.isPending ? <Loader2 size={14} className="animate-spin" /> : <FileDown size={14} />}
+              PDF
+            </button>
+            {canEntrega && previewFactura?.estadoEntrega === 'PENDIENTE_ENTREGA' && (
               <button
                 className="btn btn-primary gap-1.5"
                 onClick={() => previewFactura && handleMarcarListo(previewFactura)}
@@ -356,7 +641,7 @@ export function FacturacionPage() {
                 Marcar como listo
               </button>
             )}
-            {previewFactura?.estadoEntrega === 'LISTO_PARA_ENTREGA' && (
+            {canEntrega && previewFactura?.estadoEntrega === 'LISTO_PARA_ENTREGA' && (
               <button
                 className="btn btn-primary gap-1.5"
                 onClick={() => previewFactura && handleConfirmarEntrega(previewFactura)}
@@ -401,6 +686,32 @@ export function FacturacionPage() {
                   </div>
                 </div>
 
+                {previewFactura.lineas?.length ? (
+                  <div className="border-t border-[var(--color-border)] pt-3 space-y-1 text-sm">
+                    {previewFactura.lineas.map((l, i) => (
+                      <div key={i} className="flex justify-between gap-3">
+                        <span className="text-[var(--color-tx-secondary)]">
+                          {PRESENTACION_LABELS[l.presentacion] ?? l.presentacion}{l.variedad ? ` · ${l.variedad}` : ''} · {Number(l.kilos).toFixed(1)} kg × {fmtMoney(Number(l.precioKg))}
+                          {Number(l.descuentoPct) > 0 && ` (−${l.descuentoPct}%)`}
+                        </span>
+                        <span className="tabular-nums">{fmtMoney(Number(l.subtotal))}</span>
+                      </div>
+                    ))}
+                    {previewFactura.iva != null && (
+                      <div className="flex justify-between text-[var(--color-tx-secondary)]">
+                        <span>IVA ({previewFactura.ivaPct ?? 0}%)</span>
+                        <span className="tabular-nums">{fmtMoney(Number(previewFactura.iva))}</span>
+                      </div>
+                    )}
+                    {!!previewFactura.retencion && (
+                      <div className="flex justify-between text-[var(--color-tx-secondary)]">
+                        <span>Retención ({previewFactura.retencionPct ?? 0}%)</span>
+                        <span className="tabular-nums">− {fmtMoney(Number(previewFactura.retencion))}</span>
+                      </div>
+                    )}
+                  </div>
+                ) : null}
+
                 <div className="border-t border-[var(--color-border)] pt-3 flex items-center justify-between">
                   <p className="text-sm text-[var(--color-tx-secondary)]">Total</p>
                   <p className="text-xl font-bold text-[var(--color-tx-primary)]">
@@ -423,6 +734,12 @@ export function FacturacionPage() {
                 <p className="text-sm font-medium">Listo para ser despachado al cliente</p>
               </div>
             )}
+
+            <PagosFactura
+              factura={previewFactura}
+              canRegistrar={canPagos}
+              onRegistrado={(pago) => setPreviewFactura({ ...previewFactura, pagos: [...(previewFactura.pagos ?? []), pago] })}
+            />
           </div>
         )}
       </Modal>
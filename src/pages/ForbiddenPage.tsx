@@ -0,0 +1,16 @@
+import { Link } from 'react-router-dom';
+import { ShieldOff } from 'lucide-react';
+
+export function ForbiddenPage() {
+  return (
+    <div className="page flex items-center justify-center min-h-[60vh]">
+      <div className="text-center space-y-3">
+        <ShieldOff size={36} className="mx-auto opacity-20" />
+        <p className="text-5xl font-bold opacity-20">403</p>
+        <p className="text-lg font-semibold text-[var(--color-tx-primary)]">Acceso restringido</p>
+        <p className="text-sm text-[var(--color-tx-secondary)]">Tu rol no tiene permiso para ver este módulo.</p>
+        <Link to="/dashboard" className="btn btn-secondary btn-sm mt-2">Ir al dashboard</Link>
+      </div>
+    </div>
+  );
+}
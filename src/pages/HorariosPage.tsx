@@ -1,14 +1,24 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useForm, useFieldArray, Controller, type Resolver } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { Plus, Pencil, Loader2, Clock, CalendarRange, CheckCircle2, XCircle, Trash2 } from 'lucide-react';
-import { horariosService, type CreateHorarioPayload } from '@/services/horarios.service';
+import { Plus, Pencil, Loader2, Clock, CalendarRange, CheckCircle2, XCircle, Trash2, UserCheck, CalendarX, AlertTriangle } from 'lucide-react';
+import {
+  horariosService,
+  type CreateHorarioPayload,
+  type CreateHorarioAsignacionPayload,
+  type HorarioAsignacion,
+} from '@/services/horarios.service';
+import { usuariosService } from '@/services/usuarios.service';
+import { cierreDeRango, finSegunAlcance, hoyISO, isActualOFutura, isVigente, rangesOverlap } from '@/lib/dates';
+import { inconsistenciasHorario } from '@/lib/turnos';
+import { useConfirm } from '@/components/ui/ConfirmDialog';
+import { CalendarioTurnos } from '@/components/horarios/CalendarioTurnos';
 import { toast } from '@/lib/toast';
 import { KpiCard } from '@/components/ui/KpiCard';
 import { Modal } from '@/components/ui/Modal';
-import { Field, Input } from '@/components/ui/FormField';
+import { Field, Input, Select } from '@/components/ui/FormField';
 import { EmptyState } from '@/components/ui/EmptyState';
 import { TableSkeleton } from '@/components/ui/Skeleton';
 import { cn } from '@/lib/cn';
@@ -42,10 +52,45 @@ type Horario = Awaited<ReturnType<typeof horariosService.getAll>>[0];
 
 const defaultDetalle = (dia: Dia) => ({ diaSemana: dia, horaInicio: '08:00', horaFin: '17:00' });
 
+const VIGENCIA_OPTIONS = [
+  { value: 'DIA',        label: 'Día' },
+  { value: 'SEMANA',     label: 'Semana' },
+  { value: 'MES',        label: 'Mes' },
+  { value: 'INDEFINIDO', label: 'Indefinido' },
+];
+
+const asignacionSchema = z.object({
+  operarioId:  z.string().min(1, 'Selecciona un operario'),
+  horarioId:   z.string().min(1, 'Selecciona un horario'),
+  vigencia:    z.enum(['DIA', 'SEMANA', 'MES', 'INDEFINIDO']),
+  fechaInicio: z.string().min(1, 'Fecha requerida'),
+  fechaFin:    z.string().optional(),
+}).refine(v => !v.fechaFin || v.fechaFin >= v.fechaInicio, {
+  message: 'Debe ser igual o posterior al inicio',
+  path: ['fechaFin'],
+});
+
+type AsignacionValues = z.infer<typeof asignacionSchema>;
+
+const asignacionDefaults = (): AsignacionValues => ({
+  operarioId: '',
+  horarioId: '',
+  vigencia: 'SEMANA',
+  fechaInicio: hoyISO(),
+  fechaFin: finSegunAlcance(hoyISO(), 'SEMANA') ?? '',
+});
+
+function fmt(d: string | null): string {
+  if (!d) return 'Sin cierre';
+  return new Date(`${d.slice(0, 10)}T00:00:00`).toLocaleDateString('es-CO', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
 export function HorariosPage() {
   const qc = useQueryClient();
   const [editTarget, setEditTarget] = useState<Horario | null>(null);
   const [showCreate, setShowCreate] = useState(false);
+  const [showAsignar, setShowAsignar] = useState(false);
+  const confirm = useConfirm();
 
   const query = useQuery({
     queryKey: ['horarios'],
@@ -53,6 +98,36 @@ export function HorariosPage() {
     staleTime: 30_000,
   });
 
+  const asignacionesQuery = useQuery({
+    queryKey: ['horarios', 'asignaciones'],
+    queryFn: () => horariosService.getAsignaciones(),
+    staleTime: 30_000,
+  });
+
+  const usuariosQuery = useQuery({
+    queryKey: ['usuarios'],
+    queryFn: () => usuariosService.getAll(),
+    staleTime: 30_000,
+  });
+
+  const operarios = useMemo(
+    () => (usuariosQuery.data ?? []).filter(u => u.role === 'operario' && u.status === 'active'),
+    [usuariosQuery.data],
+  );
+
+  // Asignaciones vigentes o programadas de cada operario
+  const asignacionesPorOperario = useMemo(() => {
+    const map = new Map<string, HorarioAsignacion[]>();
+    for (const a of asignacionesQuery.data ?? []) {
+      if (!isActualOFutura(a)) continue;
+      map.set(a.operarioId, [...(map.get(a.operarioId) ?? []), a]);
+    }
+    for (const list of map.values()) list.sort((a, b) => a.fechaInicio.localeCompare(b.fechaInicio));
+    return map;
+  }, [asignacionesQuery.data]);
+
+  const nombreHorario = (id: string) => query.data?.find(h => h.id === id)?.nombre ?? 'Horario';
+
   const defaultValues: FormValues = {
     nombre: '',
     descripcion: '',
@@ -92,6 +167,83 @@ export function HorariosPage() {
       toast.error(e.response?.data?.message ?? 'No se pudo actualizar el horario'),
   });
 
+  // ── Asignaciones ──
+  const asignForm = useForm<AsignacionValues>({
+    resolver: zodResolver(asignacionSchema) as unknown as Resolver<AsignacionValues>,
+    defaultValues: asignacionDefaults(),
+  });
+
+  // La fecha de cierre se propone según la vigencia; el admin la puede ajustar
+  const sugerirFin = () => {
+    const { fechaInicio, vigencia } = asignForm.getValues();
+    if (!fechaInicio) return;
+    asignForm.setValue('fechaFin', finSegunAlcance(fechaInicio, vigencia) ?? '');
+  };
+
+  const asignarMutation = useMutation({
+    mutationFn: (data: CreateHorarioAsignacionPayload) => horariosService.asignar(data),
+    onSuccess: () => {
+      toast.success('Horario asignado');
+      qc.invalidateQueries({ queryKey: ['horarios', 'asignaciones'] });
+      setShowAsignar(false);
+    },
+    onError: (e: { response?: { data?: { message?: string } } }) =>
+      toast.error(e.response?.data?.message ?? 'No se pudo asignar el horario'),
+  });
+
+  const cerrarAsignMutation = useMutation({
+    mutationFn: async (a: HorarioAsignacion) => {
+      if (cierreDeRango(a) === 'CANCELAR') await horariosService.cancelarAsignacion(a.id);
+      else await horariosService.finalizarAsignacion(a.id, hoyISO());
+    },
+    onSuccess: (_, a) => {
+      toast.success(cierreDeRango(a) === 'CANCELAR' ? 'Asignación cancelada' : 'Asignación finalizada');
+      qc.invalidateQueries({ queryKey: ['horarios', 'asignaciones'] });
+    },
+    onError: (e: { response?: { data?: { message?: string } } }) =>
+      toast.error(e.response?.data?.message ?? 'No se pudo cerrar la asignación'),
+  });
+
+  const openAsignar = (operarioId = '') => {
+    asignForm.reset({ ...asignacionDefaults(), operarioId });
+    setShowAsignar(true);
+  };
+
+  const onAsignar = asignForm.handleSubmit((values) => {
+    const rango = { fechaInicio: values.fechaInicio, fechaFin: values.fechaFin || null };
+
+    // Un operario tiene un solo horario a la vez
+    const choque = (asignacionesPorOperario.get(values.operarioId) ?? []).find(a => rangesOverlap(a, rango));
+    if (choque) {
+      asignForm.setError('fechaInicio', {
+        message: `Se cruza con "${nombreHorario(choque.horarioId)}" (${fmt(choque.fechaInicio)} – ${fmt(choque.fechaFin)}). Finalízala o cancélala primero.`,
+      });
+      return;
+    }
+
+    asignarMutation.mutate({
+      operarioId: values.operarioId,
+      horarioId: values.horarioId,
+      vigencia: values.vigencia,
+      fechaInicio: rango.fechaInicio,
+      fechaFin: rango.fechaFin,
+    });
+  });
+
+  const handleCerrarAsignacion = async (a: HorarioAsignacion, operario: string) => {
+    const cancelar = cierreDeRango(a) === 'CANCELAR';
+    const ok = await confirm({
+      title: cancelar ? 'Cancelar asignación' : 'Finalizar asignación',
+      description: cancelar
+        ? `¿Cancelar el horario "${nombreHorario(a.horarioId)}" de ${operario} desde el ${fmt(a.fechaInicio)}?`
+        : `¿Terminar hoy el horario "${nombreHorario(a.horarioId)}" de ${operario}?`,
+      confirmText: cancelar ? 'Cancelar asignación' : 'Finalizar',
+      danger: true,
+    });
+    if (!ok) return;
+    cerrarAsignMutation.mutate(a);
+  };
+
   const isEditing = !!editTarget;
   const isPending = createMutation.isPending || updateMutation.isPending;
 
@@ -133,8 +285,9 @@ export function HorariosPage() {
   const isOpen = showCreate || isEditing;
 
   const stats = {
-    total:   query.data?.length ?? 0,
-    activos: query.data?.filter(h => h.activo).length ?? 0,
+    total:      query.data?.length ?? 0,
+    activos:    query.data?.filter(h => h.activo).length ?? 0,
+    sinHorario: operarios.filter(u => !(asignacionesPorOperario.get(u.id) ?? []).some(a => isVigente(a))).length,
   };
 
   return (
@@ -148,18 +301,34 @@ export function HorariosPage() {
             Define las plantillas de horario que se asignan a los operarios.
           </p>
         </div>
-        <button className="btn btn-primary gap-2" onClick={openCreate}>
-          <Plus size={15} />
-          Nuevo horario
-        </button>
+        <div className="flex gap-2">
+          <button className="btn btn-secondary gap-2" onClick={() => openAsignar()}>
+            <UserCheck size={15} />
+            Asignar horario
+          </button>
+          <button className="btn btn-primary gap-2" onClick={openCreate}>
+            <Plus size={15} />
+            Nuevo horario
+          </button>
+        </div>
       </div>
 
       {/* KPIs */}
-      <div className="grid grid-cols-2 gap-4 max-w-sm">
-        <KpiCard label="Total horarios" value={stats.total}   icon={<CalendarRange size={15} />} accent="#3B82F6" loading={query.isLoading} />
-        <KpiCard label="Activos"        value={stats.activos} icon={<Clock size={15} />}         accent="#00D084" loading={query.isLoading} />
+      <div className="grid grid-cols-3 gap-4 max-w-xl">
+        <KpiCard label="Total horarios"        value={stats.total}      icon={<CalendarRange size={15} />} accent="#3B82F6" loading={query.isLoading} />
+        <KpiCard label="Activos"               value={stats.activos}    icon={<Clock size={15} />}         accent="#00D084" loading={query.isLoading} />
+        <KpiCard label="Operarios sin horario" value={stats.sinHorario} icon={<UserCheck size={15} />}     accent="#F59E0B" loading={usuariosQuery.isLoading || asignacionesQuery.isLoading} />
       </div>
 
+      {/* Calendario */}
+      {!query.isLoading && !asignacionesQuery.isLoading && (
+        <CalendarioTurnos
+          horarios={query.data ?? []}
+          asignaciones={asignacionesQuery.data ?? []}
+          operarios={operarios}
+        />
+      )}
+
       {/* Lista de horarios */}
       {query.isLoading ? (
         <TableSkeleton rows={3} cols={3} />
@@ -175,6 +344,11 @@ export function HorariosPage() {
                   {h.descripcion && <p className="text-xs text-[var(--color-tx-secondary)] mt-0.5">{h.descripcion}</p>}
                 </div>
                 <div className="flex items-center gap-1.5 shrink-0">
+                  {inconsistenciasHorario(h).length > 0 && (
+                    <span title={inconsistenciasHorario(h).join('\n')}>
+                      <AlertTriangle size={15} className="text-red-500" />
+                    </span>
+                  )}
                   {h.activo
                     ? <CheckCircle2 size={15} className="text-[#00D084]" />
                     : <XCircle size={15} className="text-gray-400" />}
@@ -209,6 +383,127 @@ export function HorariosPage() {
         </div>
       )}
 
+      {/* Asignaciones por operario */}
+      <div className="card">
+        <p className="section-title mb-4">Asignaciones por operario</p>
+        {usuariosQuery.isLoading || asignacionesQuery.isLoading ? (
+          <TableSkeleton rows={4} cols={4} />
+        ) : !operarios.length ? (
+          <EmptyState title="Sin operarios" description="Registra operarios en el módulo de Usuarios." />
+        ) : (
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Operario</th>
+                  <th>Horario</th>
+                  <th>Vigencia</th>
+                  <th>Desde</th>
+                  <th>Hasta</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {operarios.flatMap((u) => {
+                  const asignaciones = asignacionesPorOperario.get(u.id) ?? [];
+                  if (!asignaciones.length) {
+                    return [
+                      <tr key={u.id}>
+                        <td className="font-semibold">{u.name}</td>
+                        <td colSpan={4} className="text-xs text-amber-600">Sin horario asignado</td>
+                        <td>
+                          <button className="btn btn-ghost btn-sm gap-1" onClick={() => openAsignar(u.id)}>
+                            <UserCheck size={13} />
+                            Asignar
+                          </button>
+                        </td>
+                      </tr>,
+                    ];
+                  }
+                  return asignaciones.map((a, i) => {
+                    const cierre = cierreDeRango(a);
+                    return (
+                      <tr key={a.id}>
+                        <td className="font-semibold">{i === 0 ? u.name : ''}</td>
+                        <td>
+                          {nombreHorario(a.horarioId)}
+                          {!isVigente(a) && <span className="badge ml-2 bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400">Programada</span>}
+                        </td>
+                        <td className="text-xs">{VIGENCIA_OPTIONS.find(o => o.value === a.vigencia)?.label ?? a.vigencia}</td>
+                        <td className="text-xs">{fmt(a.fechaInicio)}</td>
+                        <td className="text-xs">{fmt(a.fechaFin)}</td>
+                        <td>
+                          {cierre && (
+                            <button
+                              className="btn btn-ghost btn-sm gap-1 text-red-500"
+                              onClick={() => handleCerrarAsignacion(a, u.name)}
+                              disabled={cerrarAsignMutation.isPending}
+                            >
+                              <CalendarX size={13} />
+                              {cierre === 'CANCELAR' ? 'Cancelar' : 'Finalizar'}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  });
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Modal asignar horario */}
+      <Modal
+        open={showAsignar}
+        onClose={() => setShowAsignar(false)}
+        title="Asignar horario"
+        description="El operario trabajará con esta plantilla durante la vigencia indicada."
+        size="md"
+        footer={
+          <div className="flex gap-2">
+            <button className="btn btn-secondary" onClick={() => setShowAsignar(false)}>Cancelar</button>
+            <button className="btn btn-primary gap-2" onClick={onAsignar} disabled={asignarMutation.isPending}>
+              {asignarMutation.isPending && <Loader2 size={14} className="animate-spin" />}
+              Asignar
+            </button>
+          </div>
+        }
+      >
+        <div className="grid grid-cols-2 gap-4">
+          <Field label="Operario" error={asignForm.formState.errors.operarioId?.message} required className="col-span-2">
+            <Select
+              {...asignForm.register('operarioId')}
+              placeholder="Seleccionar operario"
+              options={operarios.map(u => ({ value: u.id, label: u.name }))}
+              error={asignForm.formState.errors.operarioId?.message}
+            />
+          </Field>
+          <Field label="Horario" error={asignForm.formState.errors.horarioId?.message} required className="col-span-2">
+            <Select
+              {...asignForm.register('horarioId')}
+              placeholder="Seleccionar horario"
+              options={(query.data ?? []).filter(h => h.activo).map(h => ({ value: h.id, label: h.nombre }))}
+              error={asignForm.formState.errors.horarioId?.message}
+            />
+          </Field>
+          <Field label="Vigencia" className="col-span-2">
+            <Select {...asignForm.register('vigencia', { onChange: sugerirFin })} options={VIGENCIA_OPTIONS} />
+          </Field>
+          <Field label="Desde" error={asignForm.formState.errors.fechaInicio?.message} required>
+            <Input
+              type="date"
+              {...asignForm.register('fechaInicio', { onChange: sugerirFin })}
+              error={asignForm.formState.errors.fechaInicio?.message}
+            />
+          </Field>
+          <Field label="Hasta" error={asignForm.formState.errors.fechaFin?.message} hint="Vacío = sin fecha de cierre">
+            <Input type="date" {...asignForm.register('fechaFin')} error={asignForm.formState.errors.fechaFin?.message} />
+          </Field>
+        </div>
+      </Modal>
+
       {/* Modal crear/editar */}
       <Modal
         open={isOpen}
@@ -35,8 +35,8 @@ export function LoginPage() {
   const onSubmit = handleSubmit(async (values) => {
     setLoading(true);
     try {
-      const { user, token } = await authService.login(values);
-      setAuth(user, token);
+      const { user, token, refreshToken } = await authService.login(values);
+      setAuth(user, token, refreshToken);
       navigate('/dashboard', { replace: true });
     } catch (err: unknown) {
       const msg = (err as { response?: { data?: { message?: string } } })
@@ -1,21 +1,29 @@
-import { useState, useCallback, useMemo } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useForm, useFieldArray, type Resolver } from 'react-hook-form';
+import { useState, useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { useForm, useFieldArray, useWatch, type Resolver } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Plus, Search, Loader2, UserPlus, X, Trash2, Pencil, User } from 'lucide-react';
 import { pedidosService, clientesService, type CreatePedidoPayload } from '@/services/pedidos.service';
-import { ciudadesService } from '@/services/ciudades.service';
 import { toast } from '@/lib/toast';
-import { StatusBadge } from '@/components/ui/StatusBadge';
+import { StatusBadge, ESTADO_LABELS } from '@/components/ui/StatusBadge';
 import { KpiCard } from '@/components/ui/KpiCard';
 import { Modal } from '@/components/ui/Modal';
 import { Field, Input, Select, Textarea } from '@/components/ui/FormField';
 import { EmptyState } from '@/components/ui/EmptyState';
-import { TableSkeleton } from '@/components/ui/Skeleton';
+import { DataTable, type DataTableColumn } from '@/components/ui/DataTable';
+import { ExportMenu } from '@/components/ui/ExportMenu';
 import { useConfirm } from '@/components/ui/ConfirmDialog';
-import { useAuthStore } from '@/store/auth.store';
-import type { Cliente, Pedido, Ciudad } from '@/types';
+import { useCan } from '@/lib/permissions';
+import { useListParams, useListTotal } from '@/lib/pagination';
+import { hoyISO } from '@/lib/dates';
+import { clienteSchema, coincidenciasDe, errorDocumentoRepetido, useClientes, type ClienteFormValues } from '@/lib/clientes';
+import { DOCUMENTO_PLACEHOLDER, TIPO_DOCUMENTO_OPTIONS, dvSugerido, normalizarDocumento, tipoDocumentoDe } from '@/lib/documento';
+import { CoincidenciasCliente } from '@/components/clientes/CoincidenciasCliente';
+import { CiudadPicker } from '@/components/ui/CiudadPicker';
+import { fetchAllPages, type ExportColumn } from '@/lib/export';
+import type { Cliente, Pedido, PedidoEstado, Ciudad } from '@/types';
 import { cn } from '@/lib/cn';
 
 // ─── Schemas ────────────────────────────────────────────────
@@ -33,14 +41,6 @@ const pedidoSchema = z.object({
   diaEntrega:    z.string().min(1, 'Fecha requerida'),
 });
 
-const clienteSchema = z.object({
-  name:       z.string().min(2, 'Nombre requerido'),
-  documentId: z.string().min(1, 'Documento requerido'),
-  address:    z.string().optional(),
-  phone:      z.string().optional(),
-  email:      z.string().email('Email inválido'),
-});
-
 const editSchema = z.object({
   formaEntrega:   z.enum(['A_GRANEL', 'EMPACADO'] as const),
   detalleEmpaque: z.string().max(800).optional(),
@@ -49,7 +49,6 @@ const editSchema = z.object({
 });
 
 type PedidoFormValues  = z.infer<typeof pedidoSchema>;
-type ClienteFormValues = z.infer<typeof clienteSchema>;
 type EditFormValues    = z.infer<typeof editSchema>;
 
 const PRESENTACION_LABELS: Record<string, string> = {
@@ -70,28 +69,50 @@ function totalKilos(p: Pedido): number {
   return Number(p.kilos ?? 0);
 }
 
+const EXPORT_COLUMNS: ExportColumn<Pedido>[] = [
+  { header: 'Código', value: (p) => p.code },
+  { header: 'Cliente', value: (p) => p.client?.name },
+  { header: 'Ciudad', value: (p) => p.client?.ciudad ? `${p.client.ciudad.nombre}, ${p.client.ciudad.departamento}` : '' },
+  { header: 'Total kg', tipo: 'numero', value: (p) => Number(totalKilos(p).toFixed(1)) },
+  {
+    header: 'Líneas',
+    value: (p) => (p.detalles ?? [])
+      .map((d) => `${PRESENTACION_LABELS[d.presentacion] ?? d.presentacion}${d.variedad ? ` · ${d.variedad}` : ''} (${Number(d.kilos)} kg)`)
+      .join('; '),
+  },
+  { header: 'Forma entrega', value: (p) => (p.formaEntrega === 'EMPACADO' ? 'Empacado' : 'A granel') },
+  { header: 'Estado', value: (p) => ESTADO_LABELS[p.estado]?.label ?? p.estado },
+  { header: 'Entrega', tipo: 'fecha', value: (p) => p.diaEntrega },
+];
+
 // ─── Page ────────────────────────────────────────────────────
 export function MaquilasPage() {
   const qc = useQueryClient();
   const confirm = useConfirm();
-  const user = useAuthStore((s) => s.user);
-  const isAdmin = user?.role === 'admin';
+  const canCreate = useCan('pedidos.crear');
+  const canEdit = useCan('pedidos.editar');
+  const canCreateCliente = useCan('clientes.crear');
 
   const [showNewPedido, setShowNewPedido] = useState(false);
   const [showNewCliente, setShowNewCliente] = useState(false);
   const [editTarget, setEditTarget] = useState<Pedido | null>(null);
   const [selectedCliente, setSelectedCliente] = useState<Cliente | null>(null);
   const [clienteSearch, setClienteSearch] = useState('');
-  const [searchFilter, setSearchFilter] = useState('');
 
-  // Ciudad search state (inside new-client modal)
-  const [ciudadSearch, setCiudadSearch] = useState('');
+  // Ciudad del cliente nuevo (modal)
   const [selectedCiudad, setSelectedCiudad] = useState<Ciudad | null>(null);
 
   // ── Queries ──────────────────────────────────────────────
-  const { data: pedidos, isLoading } = useQuery({
-    queryKey: ['pedidos'],
-    queryFn: () => pedidosService.getAll(),
+  // KPIs con el total de listados filtrados, sin bajar todos los pedidos
+  const totalQuery      = useListTotal(['pedidos'], pedidosService.list);
+  const entregadosQuery = useListTotal(['pedidos'], pedidosService.list, { estado: 'ENTREGADO' });
+  const hoyQuery        = useListTotal(['pedidos'], pedidosService.list, { diaEntrega: hoyISO() });
+
+  const list = useListParams({ sort: 'createdAt', dir: 'desc', filters: ['estado'] });
+  const listaQuery = useQuery({
+    queryKey: ['pedidos', 'lista', list.params],
+    queryFn: () => pedidosService.list(list.params),
+    placeholderData: keepPreviousData,
     staleTime: 20_000,
   });
 
@@ -101,13 +122,8 @@ export function MaquilasPage() {
     enabled:  clienteSearch.length >= 2,
     staleTime: 10_000,
   });
-
-  const { data: ciudadResults, isFetching: searchingCiudades } = useQuery({
-    queryKey: ['ciudades-search', ciudadSearch],
-    queryFn:  () => ciudadesService.search(ciudadSearch),
-    enabled:  ciudadSearch.length >= 2,
-    staleTime: 60_000,
-  });
+  // Los clientes inactivos conservan su historial pero no reciben pedidos nuevos
+  const clientesActivos = (clienteResults ?? []).filter((c) => c.activo !== false);
 
   // ── Forms ─────────────────────────────────────────────────
   const pedidoForm = useForm<PedidoFormValues>({
@@ -127,8 +143,26 @@ export function MaquilasPage() {
 
   const clienteForm = useForm<ClienteFormValues>({
     resolver: zodResolver(clienteSchema) as unknown as Resolver<ClienteFormValues>,
+    defaultValues: { tipoDocumento: 'NIT' },
   });
 
+  // Se compara contra todo el directorio para no volver a crear un cliente que ya existe
+  const { data: todosClientes } = useClientes();
+  const [nuevoNombre, nuevoTipoDoc, nuevoDocumento, nuevoEmail] = useWatch({
+    control: clienteForm.control,
+    name: ['name', 'tipoDocumento', 'documentId', 'email'],
+  });
+  const dvCalculado = dvSugerido(nuevoTipoDoc, nuevoDocumento);
+  const coincidencias = showNewCliente
+    ? coincidenciasDe({ name: nuevoNombre ?? '', documentId: nuevoDocumento ?? '', email: nuevoEmail ?? '' }, todosClientes ?? [])
+    : [];
+
+  const cerrarNuevoCliente = () => {
+    setShowNewCliente(false);
+    clienteForm.reset();
+    setSelectedCiudad(null);
+  };
+
   const editForm = useForm<EditFormValues>({
     resolver: zodResolver(editSchema) as unknown as Resolver<EditFormValues>,
     defaultValues: { formaEntrega: 'A_GRANEL', detalles: [] },
@@ -162,12 +196,10 @@ export function MaquilasPage() {
     onSuccess: (cliente) => {
       toast.success(`Cliente ${cliente.name} registrado`);
       qc.invalidateQueries({ queryKey: ['clientes-search'] });
+      qc.invalidateQueries({ queryKey: ['clientes'] });
       setSelectedCliente(cliente);
       setClienteSearch(cliente.name);
-      setShowNewCliente(false);
-      clienteForm.reset();
-      setSelectedCiudad(null);
-      setCiudadSearch('');
+      cerrarNuevoCliente();
     },
     onError: () => toast.error('No se pudo registrar el cliente'),
   });
@@ -209,6 +241,7 @@ export function MaquilasPage() {
       diaEntrega: values.diaEntrega,
       client: {
         name:       selectedCliente.name,
+        tipoDocumento: tipoDocumentoDe(selectedCliente),
         documentId: selectedCliente.documentId,
         address:    selectedCliente.address,
         phone:      selectedCliente.phone,
@@ -218,10 +251,22 @@ export function MaquilasPage() {
     });
   });
 
+  const usarClienteExistente = (cliente: Cliente) => {
+    setSelectedCliente(cliente);
+    setClienteSearch(cliente.name);
+    cerrarNuevoCliente();
+  };
+
   const onSubmitCliente = clienteForm.handleSubmit(async (values) => {
+    const repetido = errorDocumentoRepetido(coincidencias);
+    if (repetido) {
+      clienteForm.setError('documentId', { message: repetido });
+      return;
+    }
     crearCliente.mutate({
       name:       values.name,
-      documentId: values.documentId,
+      tipoDocumento: values.tipoDocumento,
+      documentId: normalizarDocumento(values.tipoDocumento, values.documentId),
       address:    values.address ?? '',
       phone:      values.phone ?? '',
       email:      values.email,
@@ -253,24 +298,61 @@ export function MaquilasPage() {
   });
 
   // ── Stats ─────────────────────────────────────────────────
-  const stats = useMemo(() => {
-    const all = pedidos ?? [];
-    return {
-      total:   all.length,
-      activos: all.filter((p) => p.estado !== 'ENTREGADO').length,
-      hoy:     all.filter((p) => p.diaEntrega === new Date().toISOString().slice(0, 10)).length,
-    };
-  }, [pedidos]);
-
-  const filteredPedidos = useMemo(() => {
-    if (!searchFilter) return pedidos ?? [];
-    const q = searchFilter.toLowerCase();
-    return (pedidos ?? []).filter(
-      (p) =>
-        p.code.toLowerCase().includes(q) ||
-        p.client?.name.toLowerCase().includes(q)
-    );
-  }, [pedidos, searchFilter]);
+  const stats = {
+    total:   totalQuery.data ?? 0,
+    activos: (totalQuery.data ?? 0) - (entregadosQuery.data ?? 0),
+    hoy:     hoyQuery.data ?? 0,
+  };
+
+  const columns: DataTableColumn<Pedido>[] = [
+    {
+      key: 'code', header: 'Código', sortField: 'code', primary: true, hideable: false, className: 'font-mono text-xs font-semibold',
+      render: (p) => <Link to={`/pedidos/${p.id}`} className="hover:text-[#00D084] hover:underline">{p.code}</Link>,
+    },
+    {
+      key: 'cliente', header: 'Cliente',
+      render: (p) => (
+        <div>
+          <p className="font-medium text-[var(--color-tx-primary)]">{p.client?.name}</p>
+          <p className="text-xs text-[var(--color-tx-secondary)]">
+            {p.client?.ciudad
+              ? `${p.client.ciudad.nombre}, ${p.client.ciudad.departamento}`
+              : p.client?.email}
+          </p>
+        </div>
+      ),
+    },
+    { key: 'kilos', header: 'Total kg', sortField: 'kilos', className: 'tabular-nums font-medium', render: (p) => `${totalKilos(p).toFixed(1)} kg` },
+    {
+      key: 'detalles', header: 'Líneas',
+      render: (p) => p.detalles && p.detalles.length > 0 ? (
+        <div className="flex flex-wrap gap-1">
+          {p.detalles.map((d, i) => (
+            <span key={i} className="badge bg-[var(--color-muted)] text-[var(--color-tx-secondary)] text-xs">
+              {PRESENTACION_LABELS[d.presentacion] ?? d.presentacion}
+              {d.variedad ? ` · ${d.variedad}` : ''}
+            </span>
+          ))}
+        </div>
+      ) : (
+        <span className="text-[var(--color-tx-secondary)] text-xs">—</span>
+      ),
+    },
+    {
+      key: 'formaEntrega', header: 'Forma entrega', className: 'text-[var(--color-tx-secondary)]',
+      render: (p) => (p.formaEntrega === 'EMPACADO' ? 'Empacado' : 'A granel'),
+    },
+    { key: 'estado', header: 'Estado', sortField: 'estado', render: (p) => <StatusBadge estado={p.estado} /> },
+    { key: 'diaEntrega', header: 'Entrega', sortField: 'diaEntrega', className: 'text-xs text-[var(--color-tx-secondary)]', render: (p) => formatDate(p.diaEntrega) },
+    ...(canEdit ? [{
+      key: 'acciones', header: '', hideable: false,
+      render: (p: Pedido) => (
+        <button className="btn btn-ghost btn-sm" onClick={() => openEdit(p)} title="Editar pedido">
+          <Pencil size={13} />
+        </button>
+      ),
+    }] : []),
+  ];
 
   const resetNewPedido = useCallback(() => {
     setShowNewPedido(false);
@@ -296,112 +378,64 @@ export function MaquilasPage() {
             Registro de pedidos, clientes y compromisos de entrega.
           </p>
         </div>
-        <button className="btn btn-primary" onClick={() => setShowNewPedido(true)}>
-          <Plus size={15} />
-          Nuevo pedido
-        </button>
+        {canCreate && (
+          <button className="btn btn-primary" onClick={() => setShowNewPedido(true)}>
+            <Plus size={15} />
+            Nuevo pedido
+          </button>
+        )}
       </div>
 
       {/* KPIs */}
       <div className="grid grid-cols-3 gap-4">
-        <KpiCard label="Total pedidos" value={stats.total} accent="#6B7280" />
-        <KpiCard label="Activos" value={stats.activos} accent="#3B82F6" />
-        <KpiCard label="Entrega hoy" value={stats.hoy} accent="#00D084" />
-      </div>
-
-      {/* Filtro */}
-      <div className="flex items-center gap-3">
-        <div className="relative flex-1 max-w-sm">
-          <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--color-tx-secondary)]" />
-          <input
-            type="search"
-            className="input pl-9"
-            placeholder="Buscar por código o cliente…"
-            value={searchFilter}
-            onChange={(e) => setSearchFilter(e.target.value)}
-          />
-        </div>
+        <KpiCard label="Total pedidos" value={stats.total} accent="#6B7280" loading={totalQuery.isLoading} />
+        <KpiCard label="Activos" value={stats.activos} accent="#3B82F6" loading={totalQuery.isLoading || entregadosQuery.isLoading} />
+        <KpiCard label="Entrega hoy" value={stats.hoy} accent="#00D084" loading={hoyQuery.isLoading} />
       </div>
 
       {/* Tabla */}
-      {isLoading ? (
-        <TableSkeleton rows={6} cols={6} />
-      ) : filteredPedidos.length === 0 ? (
-        <EmptyState
-          title="Sin pedidos"
-          description="Aún no hay pedidos registrados."
-          action={
-            <button className="btn btn-primary btn-sm" onClick={() => setShowNewPedido(true)}>
-              <Plus size={13} /> Registrar pedido
-            </button>
-          }
-        />
-      ) : (
-        <div className="table-wrap">
-          <table className="table">
-            <thead>
-              <tr>
-                <th>Código</th>
-                <th>Cliente</th>
-                <th>Total kg</th>
-                <th>Líneas</th>
-                <th>Forma entrega</th>
-                <th>Estado</th>
-                <th>Entrega</th>
-                {isAdmin && <th></th>}
-              </tr>
-            </thead>
-            <tbody>
-              {filteredPedidos.map((p) => (
-                <tr key={p.id}>
-                  <td className="font-mono text-xs font-semibold">{p.code}</td>
-                  <td>
-                    <div>
-                      <p className="font-medium text-[var(--color-tx-primary)]">{p.client?.name}</p>
-                      <p className="text-xs text-[var(--color-tx-secondary)]">
-                        {p.client?.ciudad
-                          ? `${p.client.ciudad.nombre}, ${p.client.ciudad.departamento}`
-                          : p.client?.email}
-                      </p>
-                    </div>
-                  </td>
-                  <td className="tabular-nums font-medium">{totalKilos(p).toFixed(1)} kg</td>
-                  <td>
-                    {p.detalles && p.detalles.length > 0 ? (
-                      <div className="flex flex-wrap gap-1">
-                        {p.detalles.map((d, i) => (
-                          <span key={i} className="badge bg-[var(--color-muted)] text-[var(--color-tx-secondary)] text-xs">
-                            {PRESENTACION_LABELS[d.presentacion] ?? d.presentacion}
-                            {d.variedad ? ` · ${d.variedad}` : ''}
-                          </span>
-                        ))}
-                      </div>
-                    ) : (
-                      <span className="text-[var(--color-tx-secondary)] text-xs">—</span>
-                    )}
-                  </td>
-                  <td className="text-[var(--color-tx-secondary)]">
-                    {p.formaEntrega === 'EMPACADO' ? 'Empacado' : 'A granel'}
-                  </td>
-                  <td><StatusBadge estado={p.estado} /></td>
-                  <td className="text-xs text-[var(--color-tx-secondary)]">{formatDate(p.diaEntrega)}</td>
-                  {isAdmin && (
-                    <td>
-                      <button
-                        className="btn btn-ghost btn-sm"
-                        onClick={() => openEdit(p)}
-                        title="Editar pedido"
-                      >
-                        <Pencil size={13} />
-                      </button>
-                    </td>
-                  )}
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-      )}
+      <DataTable
+        id="pedidos"
+        columns={columns}
+        data={listaQuery.data}
+        list={list}
+        rowKey={(p) => p.id}
+        maxHeight="70vh"
+        loading={listaQuery.isLoading}
+        fetching={listaQuery.isFetching}
+        searchPlaceholder="Buscar por código o cliente…"
+        actions={
+          <ExportMenu
+            fileName="pedidos"
+            columns={EXPORT_COLUMNS}
+            fetchRows={() => fetchAllPages(pedidosService.list, list.params)}
+          />
+        }
+        toolbar={
+          <select
+            className="input w-auto"
+            value={list.params.filters?.estado ?? ''}
+            onChange={(e) => list.setFilter('estado', e.target.value)}
+            aria-label="Estado del pedido"
+          >
+            <option value="">Todos los estados</option>
+            {(Object.keys(ESTADO_LABELS) as PedidoEstado[]).map((e) => (
+              <option key={e} value={e}>{ESTADO_LABELS[e].label}</option>
+            ))}
+          </select>
+        }
+        empty={!list.params.q && !list.params.filters?.estado ? (
+          <EmptyState
+            title="Sin pedidos"
+            description="Aún no hay pedidos registrados."
+            action={canCreate && (
+              <button className="btn btn-primary btn-sm" onClick={() => setShowNewPedido(true)}>
+                <Plus size={13} /> Registrar pedido
+              </button>
+            )}
+          />
+        ) : undefined}
+      />
 
       {/* ── Modal editar pedido (admin) ── */}
       <Modal
@@ -588,14 +622,16 @@ export function MaquilasPage() {
               <p className="text-xs font-semibold uppercase tracking-widest text-[var(--color-tx-secondary)]">
                 Información del cliente
               </p>
-              <button
-                type="button"
-                className="btn btn-ghost btn-sm"
-                onClick={() => setShowNewCliente(true)}
-              >
-                <UserPlus size={13} />
-                Nuevo cliente
-              </button>
+              {canCreateCliente && (
+                <button
+                  type="button"
+                  className="btn btn-ghost btn-sm"
+                  onClick={() => setShowNewCliente(true)}
+                >
+                  <UserPlus size={13} />
+                  Nuevo cliente
+                </button>
+              )}
             </div>
 
             {/* Búsqueda de cliente */}
@@ -645,16 +681,18 @@ export function MaquilasPage() {
                     <div className="flex items-center gap-2 px-4 py-3 text-xs text-[var(--color-tx-secondary)]">
                       <Loader2 size={12} className="animate-spin" /> Buscando…
                     </div>
-                  ) : (clienteResults ?? []).length === 0 ? (
+                  ) : clientesActivos.length === 0 ? (
                     <div className="px-4 py-3 text-xs text-[var(--color-tx-secondary)]">
                       Sin resultados para <strong className="text-[var(--color-tx-primary)]">"{clienteSearch}"</strong>.{' '}
-                      <button className="text-[#00D084] font-semibold hover:underline" onClick={() => setShowNewCliente(true)}>
-                        Registrar cliente
-                      </button>
+                      {canCreateCliente && (
+                        <button className="text-[#00D084] font-semibold hover:underline" onClick={() => setShowNewCliente(true)}>
+                          Registrar cliente
+                        </button>
+                      )}
                     </div>
                   ) : (
                     <ul>
-                      {(clienteResults ?? []).map((c) => (
+                      {clientesActivos.map((c) => (
                         <li key={c.id}>
                           <button
                             type="button"
@@ -843,13 +881,13 @@ export function MaquilasPage() {
       {/* ── Modal nuevo cliente ── */}
       <Modal
         open={showNewCliente}
-        onClose={() => { setShowNewCliente(false); clienteForm.reset(); setSelectedCiudad(null); setCiudadSearch(''); }}
+        onClose={cerrarNuevoCliente}
         title="Registrar cliente"
         description="Ingresa los datos del nuevo cliente."
         size="md"
         footer={
           <div className="flex gap-2">
-            <button className="btn btn-secondary" onClick={() => { setShowNewCliente(false); clienteForm.reset(); }}>
+            <button className="btn btn-secondary" onClick={cerrarNuevoCliente}>
               Cancelar
             </button>
             <button
@@ -872,9 +910,21 @@ export function MaquilasPage() {
             />
           </Field>
 
-          <Field label="Documento" error={clienteForm.formState.errors.documentId?.message} required>
+          <Field label="Tipo de documento" required>
+            <Select
+              {...clienteForm.register('tipoDocumento')}
+              options={TIPO_DOCUMENTO_OPTIONS}
+            />
+          </Field>
+
+          <Field
+            label="Documento"
+            error={clienteForm.formState.errors.documentId?.message}
+            hint={dvCalculado != null ? `DV calculado: ${dvCalculado}` : undefined}
+            required
+          >
             <Input
-              placeholder="900.123.456-7"
+              placeholder={DOCUMENTO_PLACEHOLDER[nuevoTipoDoc ?? 'NIT']}
               {...clienteForm.register('documentId')}
               error={clienteForm.formState.errors.documentId?.message}
             />
@@ -888,7 +938,7 @@ export function MaquilasPage() {
             />
           </Field>
 
-          <Field label="Email" error={clienteForm.formState.errors.email?.message} required className="col-span-2">
+          <Field label="Email" error={clienteForm.formState.errors.email?.message} required>
             <Input
               type="email"
               placeholder="cliente@empresa.com"
@@ -904,52 +954,13 @@ export function MaquilasPage() {
             />
           </Field>
 
-          {/* Ciudad combobox */}
           <Field label="Ciudad" className="col-span-2">
-            <div className="relative">
-              <Search size={13} className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--color-tx-secondary)] pointer-events-none" />
-              <input
-                type="text"
-                className="input pl-8"
-                placeholder="Buscar ciudad o departamento…"
-                value={selectedCiudad ? `${selectedCiudad.nombre}, ${selectedCiudad.departamento}` : ciudadSearch}
-                onChange={(e) => {
-                  setCiudadSearch(e.target.value);
-                  if (selectedCiudad) setSelectedCiudad(null);
-                }}
-              />
-              {selectedCiudad && (
-                <button
-                  type="button"
-                  className="absolute right-2 top-1/2 -translate-y-1/2 btn btn-icon btn-ghost btn-xs"
-                  onClick={() => { setSelectedCiudad(null); setCiudadSearch(''); }}
-                >
-                  <X size={12} />
-                </button>
-              )}
-              {ciudadSearch && !selectedCiudad && (
-                <div className="absolute top-full mt-1 w-full bg-[var(--color-surface)] border border-[var(--color-border)] rounded-lg shadow-lg z-20 max-h-48 overflow-y-auto">
-                  {searchingCiudades ? (
-                    <div className="p-3 text-xs text-[var(--color-tx-secondary)]">Buscando…</div>
-                  ) : (ciudadResults ?? []).length === 0 ? (
-                    <div className="p-3 text-xs text-[var(--color-tx-secondary)]">Sin resultados</div>
-                  ) : (
-                    (ciudadResults ?? []).map((c) => (
-                      <button
-                        key={c.id}
-                        type="button"
-                        className="w-full text-left px-4 py-2 hover:bg-[var(--color-muted)] transition-colors border-b border-[var(--color-border)] last:border-0"
-                        onClick={() => { setSelectedCiudad(c); setCiudadSearch(''); }}
-                      >
-                        <p className="text-sm font-medium">{c.nombre}</p>
-                        <p className="text-xs text-[var(--color-tx-secondary)]">{c.departamento}</p>
-                      </button>
-                    ))
-                  )}
-                </div>
-              )}
-            </div>
+            <CiudadPicker value={selectedCiudad} onChange={setSelectedCiudad} />
           </Field>
+
+          <div className="col-span-2">
+            <CoincidenciasCliente coincidencias={coincidencias} onUsar={usarClienteExistente} />
+          </div>
         </div>
       </Modal>
     </div>
@@ -1,16 +1,31 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useForm } from 'react-hook-form';
+import { useForm, useWatch } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { Plus, Pencil, Loader2, Cog, Wrench, AlertTriangle } from 'lucide-react';
+import { Plus, Pencil, Loader2, Cog, Wrench, AlertTriangle, UserCog, CalendarX, History } from 'lucide-react';
 import type { Resolver } from 'react-hook-form';
-import { maquinasService, type CreateMaquinaPayload, type Maquina } from '@/services/maquinas.service';
+import {
+  maquinasService,
+  type CreateMaquinaPayload,
+  type CreateMaquinaAsignacionPayload,
+  type CambiarEstadoPayload,
+  type EstadoMaquina,
+  type Maquina,
+  type MaquinaAsignacion,
+} from '@/services/maquinas.service';
+import { usuariosService } from '@/services/usuarios.service';
+import { cierreDeRango, finSegunAlcance, hoyISO, isActualOFutura, isVigente, rangesOverlap } from '@/lib/dates';
+import { useConfirm } from '@/components/ui/ConfirmDialog';
+import { MantenimientoPanel } from '@/components/maquinas/MantenimientoPanel';
+import { RendimientoMaquinas } from '@/components/maquinas/RendimientoMaquinas';
+import { useAuthStore } from '@/store/auth.store';
 import { toast } from '@/lib/toast';
 import { KpiCard } from '@/components/ui/KpiCard';
 import { Modal } from '@/components/ui/Modal';
-import { Field, Input, Select } from '@/components/ui/FormField';
+import { Field, Input, Select, Textarea } from '@/components/ui/FormField';
 import { EmptyState } from '@/components/ui/EmptyState';
+import { DataTable, type DataTableColumn } from '@/components/ui/DataTable';
 import { TableSkeleton } from '@/components/ui/Skeleton';
 import { cn } from '@/lib/cn';
 
@@ -50,10 +65,54 @@ const schema = z.object({
 
 type FormValues = z.infer<typeof schema>;
 
+const ALCANCE_OPTIONS = [
+  { value: 'DIA',    label: 'Día' },
+  { value: 'SEMANA', label: 'Semana' },
+  { value: 'MES',    label: 'Mes' },
+];
+
+const asignacionSchema = z.object({
+  operarioId:  z.string().min(1, 'Selecciona un operario'),
+  alcance:     z.enum(['DIA', 'SEMANA', 'MES']),
+  fechaInicio: z.string().min(1, 'Fecha requerida'),
+  notas:       z.string().optional(),
+});
+
+type AsignacionValues = z.infer<typeof asignacionSchema>;
+
+const estadoSchema = z.object({
+  estado: z.enum(['ACTIVA', 'MANTENIMIENTO', 'FUERA_SERVICIO']),
+  motivo: z.string().min(3, 'Indica el motivo del cambio'),
+  inicio: z.string().min(1, 'Fecha requerida'),
+});
+
+type EstadoValues = z.infer<typeof estadoSchema>;
+
+// Valor para <input type="datetime-local"> en hora local
+const ahoraLocal = () => {
+  const d = new Date();
+  d.setMinutes(d.getMinutes() - d.getTimezoneOffset());
+  return d.toISOString().slice(0, 16);
+};
+
+function fmtFechaHora(d: string): string {
+  return new Date(d).toLocaleString('es-CO', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+function fmt(d: string | null): string {
+  if (!d) return '—';
+  return new Date(`${d.slice(0, 10)}T00:00:00`).toLocaleDateString('es-CO', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
 export function MaquinasPage() {
   const qc = useQueryClient();
   const [editTarget, setEditTarget] = useState<Maquina | null>(null);
   const [showCreate, setShowCreate] = useState(false);
+  const [asignTarget, setAsignTarget] = useState<Maquina | null>(null);
+  const [estadoTarget, setEstadoTarget] = useState<Maquina | null>(null);
+  const [historialTarget, setHistorialTarget] = useState<Maquina | null>(null);
+  const user = useAuthStore((s) => s.user);
+  const confirm = useConfirm();
 
   const query = useQuery({
     queryKey: ['maquinas'],
@@ -61,6 +120,39 @@ export function MaquinasPage() {
     staleTime: 30_000,
   });
 
+  const asignacionesQuery = useQuery({
+    queryKey: ['maquinas', 'asignaciones'],
+    queryFn: () => maquinasService.getAsignaciones(),
+    staleTime: 30_000,
+  });
+
+  const usuariosQuery = useQuery({
+    queryKey: ['usuarios'],
+    queryFn: () => usuariosService.getAll(),
+    staleTime: 30_000,
+  });
+
+  const operarios = useMemo(
+    () => (usuariosQuery.data ?? []).filter(u => u.role === 'operario' && u.status === 'active'),
+    [usuariosQuery.data],
+  );
+
+  const nombreOperario = (id: string) =>
+    usuariosQuery.data?.find(u => u.id === id)?.name ?? 'Operario';
+
+  // Asignaciones agrupadas por máquina, más recientes primero
+  const asignacionesPorMaquina = useMemo(() => {
+    const map = new Map<string, MaquinaAsignacion[]>();
+    for (const a of asignacionesQuery.data ?? []) {
+      map.set(a.maquinaId, [...(map.get(a.maquinaId) ?? []), a]);
+    }
+    for (const list of map.values()) list.sort((a, b) => b.fechaInicio.localeCompare(a.fechaInicio));
+    return map;
+  }, [asignacionesQuery.data]);
+
+  const operariosHoy = (maquinaId: string) =>
+    (asignacionesPorMaquina.get(maquinaId) ?? []).filter(a => isVigente(a)).map(a => nombreOperario(a.operarioId));
+
   const form = useForm<FormValues>({
     resolver: zodResolver(schema) as unknown as Resolver<FormValues>,
     defaultValues: { estado: 'ACTIVA' },
@@ -79,7 +171,7 @@ export function MaquinasPage() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: ({ id, ...data }: FormValues & { id: string }) => maquinasService.update(id, data),
+    mutationFn: ({ id, ...data }: Omit<FormValues, 'estado'> & { id: string }) => maquinasService.update(id, data),
     onSuccess: () => {
       toast.success('Máquina actualizada');
       qc.invalidateQueries({ queryKey: ['maquinas'] });
@@ -89,6 +181,144 @@ export function MaquinasPage() {
       toast.error(e.response?.data?.message ?? 'No se pudo actualizar la máquina'),
   });
 
+  // ── Asignaciones ──
+  const asignForm = useForm<AsignacionValues>({
+    resolver: zodResolver(asignacionSchema) as unknown as Resolver<AsignacionValues>,
+    defaultValues: { alcance: 'DIA', fechaInicio: hoyISO() },
+  });
+
+  const asignarMutation = useMutation({
+    mutationFn: (data: CreateMaquinaAsignacionPayload) => maquinasService.asignar(data),
+    onSuccess: () => {
+      toast.success('Operario asignado');
+      qc.invalidateQueries({ queryKey: ['maquinas', 'asignaciones'] });
+      asignForm.reset({ alcance: 'DIA', fechaInicio: hoyISO(), operarioId: '', notas: '' });
+    },
+    onError: (e: { response?: { data?: { message?: string } } }) =>
+      toast.error(e.response?.data?.message ?? 'No se pudo registrar la asignación'),
+  });
+
+  const cerrarAsignMutation = useMutation({
+    mutationFn: async (a: MaquinaAsignacion) => {
+      if (cierreDeRango(a) === 'CANCELAR') await maquinasService.cancelarAsignacion(a.id);
+      else await maquinasService.finalizarAsignacion(a.id, hoyISO());
+    },
+    onSuccess: (_, a) => {
+      toast.success(cierreDeRango(a) === 'CANCELAR' ? 'Asignación cancelada' : 'Asignación finalizada');
+      qc.invalidateQueries({ queryKey: ['maquinas', 'asignaciones'] });
+    },
+    onError: (e: { response?: { data?: { message?: string } } }) =>
+      toast.error(e.response?.data?.message ?? 'No se pudo cerrar la asignación'),
+  });
+
+  const openAsignar = (m: Maquina) => {
+    asignForm.reset({ alcance: 'DIA', fechaInicio: hoyISO(), operarioId: '', notas: '' });
+    setAsignTarget(m);
+  };
+
+  const asignAlcance = useWatch({ control: asignForm.control, name: 'alcance' });
+  const asignInicio = useWatch({ control: asignForm.control, name: 'fechaInicio' });
+  const asignFin = asignInicio ? finSegunAlcance(asignInicio, asignAlcance) : null;
+
+  const onAsignar = asignForm.handleSubmit(async (values) => {
+    if (!asignTarget) return;
+    const rango = { fechaInicio: values.fechaInicio, fechaFin: finSegunAlcance(values.fechaInicio, values.alcance) };
+
+    // Una máquina no puede tener dos asignaciones que se crucen
+    const choque = (asignacionesPorMaquina.get(asignTarget.id) ?? []).find(a => rangesOverlap(a, rango));
+    if (choque) {
+      asignForm.setError('fechaInicio', {
+        message: `Se cruza con ${nombreOperario(choque.operarioId)} (${fmt(choque.fechaInicio)} – ${fmt(choque.fechaFin)})`,
+      });
+      return;
+    }
+
+    // El operario sí puede cubrir otra máquina, pero se pide confirmación
+    const otra = (asignacionesQuery.data ?? []).find(
+      a => a.operarioId === values.operarioId && a.maquinaId !== asignTarget.id && rangesOverlap(a, rango),
+    );
+    if (otra) {
+      const maquina = query.data?.find(m => m.id === otra.maquinaId);
+      const ok = await confirm({
+        title: 'Operario ya asignado',
+        description: `${nombreOperario(values.operarioId)} ya está asignado a ${maquina?.nombre ?? 'otra máquina'} en esas fechas. ¿Asignarlo también a ${asignTarget.nombre}?`,
+        confirmText: 'Asignar igual',
+      });
+      if (!ok) return;
+    }
+
+    asignarMutation.mutate({
+      maquinaId: asignTarget.id,
+      operarioId: values.operarioId,
+      alcance: values.alcance,
+      fechaInicio: rango.fechaInicio,
+      fechaFin: rango.fechaFin,
+      notas: values.notas || undefined,
+    });
+  });
+
+  const handleCerrarAsignacion = async (a: MaquinaAsignacion) => {
+    const cancelar = cierreDeRango(a) === 'CANCELAR';
+    const ok = await confirm({
+      title: cancelar ? 'Cancelar asignación' : 'Finalizar asignación',
+      description: cancelar
+        ? `¿Cancelar la asignación de ${nombreOperario(a.operarioId)} desde el ${fmt(a.fechaInicio)}?`
+        : `¿Terminar hoy la asignación de ${nombreOperario(a.operarioId)}?`,
+      confirmText: cancelar ? 'Cancelar asignación' : 'Finalizar',
+      danger: true,
+    });
+    if (!ok) return;
+    cerrarAsignMutation.mutate(a);
+  };
+
+  const asignacionesTarget = asignTarget ? asignacionesPorMaquina.get(asignTarget.id) ?? [] : [];
+  const asignVigentes = asignacionesTarget.filter(a => isActualOFutura(a));
+  const asignHistorial = asignacionesTarget.filter(a => !isActualOFutura(a));
+
+  // ── Cambios de estado (bitácora de mantenimiento) ──
+  const estadoForm = useForm<EstadoValues>({
+    resolver: zodResolver(estadoSchema) as unknown as Resolver<EstadoValues>,
+  });
+
+  const historialQuery = useQuery({
+    queryKey: ['maquinas', 'eventos', historialTarget?.id],
+    queryFn: () => maquinasService.getEventos(historialTarget!.id),
+    enabled: !!historialTarget,
+    staleTime: 30_000,
+  });
+
+  const estadoMutation = useMutation({
+    mutationFn: ({ id, ...data }: CambiarEstadoPayload & { id: string }) => maquinasService.cambiarEstado(id, data),
+    onSuccess: () => {
+      toast.success('Estado actualizado y registrado en la bitácora');
+      qc.invalidateQueries({ queryKey: ['maquinas'] });
+      setEstadoTarget(null);
+    },
+    onError: (e: { response?: { data?: { message?: string } } }) =>
+      toast.error(e.response?.data?.message ?? 'No se pudo cambiar el estado'),
+  });
+
+  const openEstado = (m: Maquina) => {
+    const siguiente: EstadoMaquina = m.estado === 'ACTIVA' ? 'MANTENIMIENTO' : 'ACTIVA';
+    estadoForm.reset({ estado: siguiente, motivo: '', inicio: ahoraLocal() });
+    setEstadoTarget(m);
+  };
+
+  const onCambiarEstado = estadoForm.handleSubmit((values) => {
+    if (!estadoTarget || !user) return;
+    if (values.estado === estadoTarget.estado) {
+      estadoForm.setError('estado', { message: 'La máquina ya está en ese estado' });
+      return;
+    }
+    estadoMutation.mutate({
+      id: estadoTarget.id,
+      estado: values.estado,
+      motivo: values.motivo.trim(),
+      inicio: new Date(values.inicio).toISOString(),
+      responsableId: user.id,
+    });
+  });
+
   const isEditing = !!editTarget;
   const isPending = createMutation.isPending || updateMutation.isPending;
 
@@ -110,7 +340,14 @@ export function MaquinasPage() {
 
   const onSubmit = form.handleSubmit((values) => {
     if (isEditing) {
-      updateMutation.mutate({ id: editTarget.id, ...values });
+      // El estado no se edita aquí: pasa por cambiarEstado para quedar en la bitácora
+      updateMutation.mutate({
+        id: editTarget.id,
+        nombre: values.nombre,
+        codigo: values.codigo,
+        proceso: values.proceso,
+        descripcion: values.descripcion,
+      });
     } else {
       createMutation.mutate(values);
     }
@@ -127,6 +364,61 @@ export function MaquinasPage() {
     mantenimiento: query.data?.filter(m => m.estado === 'MANTENIMIENTO').length ?? 0,
   };
 
+  const columns: DataTableColumn<Maquina>[] = [
+    { key: 'codigo', header: 'Código', sortValue: (m) => m.codigo, className: 'font-mono text-xs font-semibold', hideable: false, render: (m) => m.codigo },
+    { key: 'nombre', header: 'Nombre', sortValue: (m) => m.nombre, className: 'font-semibold', primary: true, render: (m) => m.nombre },
+    {
+      key: 'proceso', header: 'Proceso', sortValue: (m) => m.proceso,
+      render: (m) => (
+        <span className={cn('badge', PROCESO_COLORS[m.proceso] ?? '')}>
+          {m.proceso === 'MAQUILA' ? 'Maquila' : 'Tostión'}
+        </span>
+      ),
+    },
+    {
+      key: 'estado', header: 'Estado', sortValue: (m) => m.estado,
+      render: (m) => (
+        <span className={cn('badge flex items-center gap-1 w-fit', ESTADO_COLORS[m.estado] ?? '')}>
+          {m.estado === 'MANTENIMIENTO' && <Wrench size={10} />}
+          {m.estado === 'FUERA_SERVICIO' && <AlertTriangle size={10} />}
+          {ESTADO_LABELS[m.estado] ?? m.estado}
+        </span>
+      ),
+    },
+    {
+      key: 'operario', header: 'Operario hoy', className: 'text-xs',
+      render: (m) => operariosHoy(m.id).length
+        ? <span className="font-semibold">{operariosHoy(m.id).join(', ')}</span>
+        : <span className="text-[var(--color-tx-secondary)]">Sin asignar</span>,
+    },
+    {
+      key: 'descripcion', header: 'Descripción', className: 'text-[var(--color-tx-secondary)] text-xs max-w-[180px] truncate',
+      render: (m) => m.descripcion ?? '—',
+    },
+    {
+      key: 'acciones', header: '', hideable: false,
+      render: (m) => (
+        <div className="flex gap-1 justify-end">
+          <button className="btn btn-ghost btn-sm gap-1" onClick={() => openEstado(m)}>
+            <Wrench size={13} />
+            Estado
+          </button>
+          <button className="btn btn-ghost btn-sm" onClick={() => setHistorialTarget(m)} title="Bitácora">
+            <History size={13} />
+          </button>
+          <button className="btn btn-ghost btn-sm gap-1" onClick={() => openAsignar(m)}>
+            <UserCog size={13} />
+            Asignar
+          </button>
+          <button className="btn btn-ghost btn-sm gap-1" onClick={() => openEdit(m)}>
+            <Pencil size={13} />
+            Editar
+          </button>
+        </div>
+      ),
+    },
+  ];
+
   return (
     <div className="page space-y-8">
       {/* Header */}
@@ -154,57 +446,21 @@ export function MaquinasPage() {
       {/* Tabla */}
       <div className="card">
         <p className="section-title mb-4">Inventario de máquinas</p>
-        {query.isLoading ? (
-          <TableSkeleton rows={5} cols={5} />
-        ) : !query.data?.length ? (
-          <EmptyState title="Sin máquinas registradas" description="Agrega la primera máquina con el botón de arriba." />
-        ) : (
-          <div className="table-wrap">
-            <table className="table">
-              <thead>
-                <tr>
-                  <th>Código</th>
-                  <th>Nombre</th>
-                  <th>Proceso</th>
-                  <th>Estado</th>
-                  <th>Descripción</th>
-                  <th></th>
-                </tr>
-              </thead>
-              <tbody>
-                {query.data.map((m) => (
-                  <tr key={m.id}>
-                    <td className="font-mono text-xs font-semibold">{m.codigo}</td>
-                    <td className="font-semibold">{m.nombre}</td>
-                    <td>
-                      <span className={cn('badge', PROCESO_COLORS[m.proceso] ?? '')}>
-                        {m.proceso === 'MAQUILA' ? 'Maquila' : 'Tostión'}
-                      </span>
-                    </td>
-                    <td>
-                      <span className={cn('badge flex items-center gap-1 w-fit', ESTADO_COLORS[m.estado] ?? '')}>
-                        {m.estado === 'MANTENIMIENTO' && <Wrench size={10} />}
-                        {m.estado === 'FUERA_SERVICIO' && <AlertTriangle size={10} />}
-                        {ESTADO_LABELS[m.estado] ?? m.estado}
-                      </span>
-                    </td>
-                    <td className="text-[var(--color-tx-secondary)] text-xs max-w-[180px] truncate">
-                      {m.descripcion ?? '—'}
-                    </td>
-                    <td>
-                      <button className="btn btn-ghost btn-sm gap-1" onClick={() => openEdit(m)}>
-                        <Pencil size={13} />
-                        Editar
-                      </button>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        )}
+        <DataTable
+          id="maquinas"
+          columns={columns}
+          data={query.data}
+          rowKey={(m) => m.id}
+          loading={query.isLoading}
+          fetching={query.isFetching}
+          empty={<EmptyState title="Sin máquinas registradas" description="Agrega la primera máquina con el botón de arriba." />}
+        />
       </div>
 
+      <MantenimientoPanel maquinas={query.data ?? []} />
+
+      <RendimientoMaquinas maquinas={query.data ?? []} />
+
       {/* Modal crear/editar */}
       <Modal
         open={showCreate || isEditing}
@@ -236,17 +492,208 @@ export function MaquinasPage() {
               error={form.formState.errors.proceso?.message}
             />
           </Field>
-          <Field label="Estado">
-            <Select
-              {...form.register('estado')}
-              options={ESTADO_OPTIONS}
-            />
-          </Field>
+          {!isEditing && (
+            <Field label="Estado">
+              <Select
+                {...form.register('estado')}
+                options={ESTADO_OPTIONS}
+              />
+            </Field>
+          )}
           <Field label="Descripción" className="col-span-2">
             <Input placeholder="Notas o descripción opcional" {...form.register('descripcion')} />
           </Field>
         </div>
       </Modal>
+      {/* Modal asignaciones */}
+      <Modal
+        open={!!asignTarget}
+        onClose={() => setAsignTarget(null)}
+        title={`Asignaciones: ${asignTarget?.nombre ?? ''}`}
+        description="Operarios a cargo de la máquina por día, semana o mes."
+        size="lg"
+        footer={
+          <div className="flex gap-2">
+            <button className="btn btn-secondary" onClick={() => setAsignTarget(null)}>Cerrar</button>
+            <button className="btn btn-primary gap-2" onClick={onAsignar} disabled={asignarMutation.isPending}>
+              {asignarMutation.isPending && <Loader2 size={14} className="animate-spin" />}
+              Asignar operario
+            </button>
+          </div>
+        }
+      >
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <Field label="Operario" error={asignForm.formState.errors.operarioId?.message} required className="col-span-2">
+              <Select
+                {...asignForm.register('operarioId')}
+                placeholder={usuariosQuery.isLoading ? 'Cargando…' : 'Seleccionar operario'}
+                options={operarios.map(u => ({ value: u.id, label: u.name }))}
+                error={asignForm.formState.errors.operarioId?.message}
+              />
+            </Field>
+            <Field label="Alcance">
+              <Select {...asignForm.register('alcance')} options={ALCANCE_OPTIONS} />
+            </Field>
+            <Field
+              label="Desde"
+              error={asignForm.formState.errors.fechaInicio?.message}
+              hint={asignFin ? `Hasta el ${fmt(asignFin)}` : undefined}
+              required
+            >
+              <Input type="date" {...asignForm.register('fechaInicio')} error={asignForm.formState.errors.fechaInicio?.message} />
+            </Field>
+            <Field label="Notas" className="col-span-2">
+              <Input placeholder="Turno, observaciones…" {...asignForm.register('notas')} />
+            </Field>
+          </div>
+
+          {/* Vigentes y programadas */}
+          <div>
+            <p className="section-title mb-2">Vigentes y programadas</p>
+            {!asignVigentes.length ? (
+              <p className="text-sm text-[var(--color-tx-secondary)]">Sin asignaciones vigentes.</p>
+            ) : (
+              <div className="space-y-2">
+                {asignVigentes.map(a => {
+                  const cierre = cierreDeRango(a);
+                  return (
+                    <div key={a.id} className="flex items-center justify-between gap-3 rounded-lg border border-[var(--color-border)] px-3 py-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-semibold truncate">
+                          {nombreOperario(a.operarioId)}
+                          {isVigente(a) && <span className="badge ml-2 bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-400">Hoy</span>}
+                        </p>
+                        <p className="text-xs text-[var(--color-tx-secondary)]">
+                          {fmt(a.fechaInicio)} – {fmt(a.fechaFin)} · {ALCANCE_OPTIONS.find(o => o.value === a.alcance)?.label}
+                          {a.notas && ` · ${a.notas}`}
+                        </p>
+                      </div>
+                      {cierre && (
+                        <button
+                          className="btn btn-ghost btn-sm gap-1 text-red-500 shrink-0"
+                          onClick={() => handleCerrarAsignacion(a)}
+                          disabled={cerrarAsignMutation.isPending}
+                        >
+                          <CalendarX size={13} />
+                          {cierre === 'CANCELAR' ? 'Cancelar' : 'Finalizar'}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Historial */}
+          {asignHistorial.length > 0 && (
+            <div>
+              <p className="section-title mb-2">Historial</p>
+              <div className="table-wrap">
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th>Operario</th>
+                      <th>Desde</th>
+                      <th>Hasta</th>
+                      <th>Alcance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {asignHistorial.map(a => (
+                      <tr key={a.id}>
+                        <td className="font-semibold">{nombreOperario(a.operarioId)}</td>
+                        <td className="text-xs">{fmt(a.fechaInicio)}</td>
+                        <td className="text-xs">{fmt(a.fechaFin)}</td>
+                        <td className="text-xs">{ALCANCE_OPTIONS.find(o => o.value === a.alcance)?.label}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </Modal>
+      {/* Modal cambiar estado */}
+      <Modal
+        open={!!estadoTarget}
+        onClose={() => setEstadoTarget(null)}
+        title={`Cambiar estado: ${estadoTarget?.nombre ?? ''}`}
+        description={estadoTarget ? `Estado actual: ${ESTADO_LABELS[estadoTarget.estado] ?? estadoTarget.estado}` : undefined}
+        size="md"
+        footer={
+          <div className="flex gap-2">
+            <button className="btn btn-secondary" onClick={() => setEstadoTarget(null)}>Cancelar</button>
+            <button className="btn btn-primary gap-2" onClick={onCambiarEstado} disabled={estadoMutation.isPending}>
+              {estadoMutation.isPending && <Loader2 size={14} className="animate-spin" />}
+              Registrar cambio
+            </button>
+          </div>
+        }
+      >
+        <div className="grid grid-cols-2 gap-4">
+          <Field label="Nuevo estado" error={estadoForm.formState.errors.estado?.message} required>
+            <Select {...estadoForm.register('estado')} options={ESTADO_OPTIONS} error={estadoForm.formState.errors.estado?.message} />
+          </Field>
+          <Field label="Desde" error={estadoForm.formState.errors.inicio?.message} required>
+            <Input type="datetime-local" {...estadoForm.register('inicio')} error={estadoForm.formState.errors.inicio?.message} />
+          </Field>
+          <Field label="Motivo" error={estadoForm.formState.errors.motivo?.message} required className="col-span-2">
+            <Textarea
+              rows={3}
+              placeholder="Ej: Falla en el quemador, se espera repuesto"
+              {...estadoForm.register('motivo')}
+              error={estadoForm.formState.errors.motivo?.message}
+            />
+          </Field>
+          <p className="col-span-2 text-xs text-[var(--color-tx-secondary)]">
+            Responsable: <strong>{user?.name ?? user?.email}</strong>
+          </p>
+        </div>
+      </Modal>
+
+      {/* Modal bitácora */}
+      <Modal
+        open={!!historialTarget}
+        onClose={() => setHistorialTarget(null)}
+        title={`Bitácora: ${historialTarget?.nombre ?? ''}`}
+        size="lg"
+      >
+        {historialQuery.isLoading ? (
+          <TableSkeleton rows={4} cols={4} />
+        ) : !historialQuery.data?.length ? (
+          <EmptyState title="Sin cambios registrados" description="Los cambios de estado aparecerán aquí." />
+        ) : (
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Estado</th>
+                  <th>Desde</th>
+                  <th>Hasta</th>
+                  <th>Motivo</th>
+                  <th>Responsable</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...historialQuery.data].sort((a, b) => b.inicio.localeCompare(a.inicio)).map((e) => (
+                  <tr key={e.id}>
+                    <td>
+                      <span className={cn('badge', ESTADO_COLORS[e.estado] ?? '')}>{ESTADO_LABELS[e.estado] ?? e.estado}</span>
+                    </td>
+                    <td className="text-xs whitespace-nowrap">{fmtFechaHora(e.inicio)}</td>
+                    <td className="text-xs whitespace-nowrap">{e.fin ? fmtFechaHora(e.fin) : 'En curso'}</td>
+                    <td className="text-xs max-w-[240px]">{e.motivo}</td>
+                    <td className="text-xs">{e.responsable?.name ?? '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Modal>
     </div>
   );
 }
@@ -0,0 +1,333 @@
+import { useMemo, type ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link, useParams } from 'react-router-dom';
+import {
+  ArrowLeft, ClipboardList, Scissors, FlaskConical, Factory,
+  FileText, Truck, Scale, TrendingDown, MapPin,
+} from 'lucide-react';
+import { pedidosService } from '@/services/pedidos.service';
+import { trilladoService } from '@/services/trillado.service';
+import { tostionService } from '@/services/tostion.service';
+import { produccionService } from '@/services/produccion.service';
+import { facturasService } from '@/services/facturas.service';
+import { ultimoDe } from '@/lib/balance';
+import { canAccessRoute } from '@/lib/permissions';
+import { useAuthStore } from '@/store/auth.store';
+import { KpiCard } from '@/components/ui/KpiCard';
+import { StatusBadge } from '@/components/ui/StatusBadge';
+import { Timeline, type TimelineStep } from '@/components/ui/Timeline';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { CardSkeleton } from '@/components/ui/Skeleton';
+import type { Pedido } from '@/types';
+
+function fmt(d?: string | null) {
+  if (!d) return '—';
+  return new Date(d).toLocaleDateString('es-CO', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+function fmtMoney(v: number) {
+  return new Intl.NumberFormat('es-CO', { style: 'currency', currency: 'COP', maximumFractionDigits: 0 }).format(v);
+}
+
+function fmtKg(v?: number | null) {
+  return v != null ? `${Number(v).toFixed(1)} kg` : '—';
+}
+
+function totalKilos(p: Pedido): number {
+  if (p.detalles && p.detalles.length > 0) {
+    return p.detalles.reduce((s, d) => s + Number(d.kilos), 0);
+  }
+  return Number(p.kilos ?? 0);
+}
+
+function mermaPct(entrada?: number | null, salida?: number | null): string | null {
+  if (!entrada || salida == null) return null;
+  return ((Number(entrada) - Number(salida)) / Number(entrada) * 100).toFixed(1);
+}
+
+// El backend guarda en `auditoria` quién ejecutó cada acción; el formato varía según la versión
+function responsable(auditoria: Record<string, unknown> | null): string | null {
+  if (!auditoria) return null;
+  for (const key of ['finalizadoPor', 'usuario', 'iniciadoPor', 'user']) {
+    const v = auditoria[key];
+    if (typeof v === 'string' && v) return v;
+    if (v && typeof v === 'object') {
+      const { name, nombre, email } = v as { name?: string; nombre?: string; email?: string };
+      const label = name ?? nombre ?? email;
+      if (label) return label;
+    }
+  }
+  return null;
+}
+
+// Listado al que vuelve el usuario según su rol (facturación no entra a Maquilas)
+const VOLVER_A = [
+  { to: '/maquilas', label: 'Maquilas' },
+  { to: '/conciliacion', label: 'Conciliación' },
+  { to: '/dashboard', label: 'Dashboard' },
+];
+
+function Dato({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <div>
+      <p className="text-[10px] uppercase tracking-wider text-[var(--color-tx-secondary)]">{label}</p>
+      <p className="text-xs font-semibold text-[var(--color-tx-primary)]">{value}</p>
+    </div>
+  );
+}
+
+function DatosEtapa({ children }: { children: ReactNode }) {
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 p-3 rounded-lg bg-[var(--color-muted)]">
+      {children}
+    </div>
+  );
+}
+
+export function PedidoDetallePage() {
+  const { id = '' } = useParams<{ id: string }>();
+  const role = useAuthStore((s) => s.user?.role);
+  const volver = VOLVER_A.find((v) => canAccessRoute(role, v.to)) ?? VOLVER_A[VOLVER_A.length - 1];
+
+  const pedidoQuery = useQuery({
+    queryKey: ['pedidos', id],
+    queryFn: () => pedidosService.getById(id),
+    enabled: !!id,
+    staleTime: 20_000,
+  });
+
+  // Solo los registros de este pedido; las claves cuelgan de las de cada etapa para que sus invalidaciones lleguen aquí
+  const trilladoQuery   = useQuery({ queryKey: ['trillado', 'pedido', id],   queryFn: () => trilladoService.getByPedido(id),   enabled: !!id, staleTime: 30_000 });
+  const tostionQuery    = useQuery({ queryKey: ['tostion', 'pedido', id],    queryFn: () => tostionService.getByPedido(id),    enabled: !!id, staleTime: 30_000 });
+  const produccionQuery = useQuery({ queryKey: ['produccion', 'pedido', id], queryFn: () => produccionService.getByPedido(id), enabled: !!id, staleTime: 30_000 });
+  const facturasQuery   = useQuery({ queryKey: ['facturas', 'pedido', id],   queryFn: () => facturasService.getByPedido(id),   enabled: !!id, staleTime: 30_000 });
+
+  const pedido     = pedidoQuery.data;
+  const trillado   = ultimoDe(trilladoQuery.data ?? [], id);
+  const tostion    = ultimoDe(tostionQuery.data ?? [], id);
+  const produccion = ultimoDe(produccionQuery.data ?? [], id);
+  const factura    = ultimoDe(facturasQuery.data ?? [], id);
+
+  const steps = useMemo<TimelineStep[]>(() => {
+    if (!pedido) return [];
+
+    const trilladoMerma = mermaPct(trillado?.kilosEntrada, trillado?.kilosSalida);
+    const tostionMerma  = mermaPct(tostion?.kilosExcelso, tostion?.kilosTostados);
+
+    return [
+      {
+        id: 'registro',
+        label: 'Registro del pedido',
+        status: 'completed',
+        date: fmt(pedido.createdAt),
+        icon: <ClipboardList size={13} />,
+        content: (
+          <DatosEtapa>
+            <Dato label="Kg pedidos" value={fmtKg(totalKilos(pedido))} />
+            <Dato label="Forma entrega" value={pedido.formaEntrega === 'EMPACADO' ? 'Empacado' : 'A granel'} />
+            <Dato label="Entrega comprometida" value={fmt(pedido.diaEntrega)} />
+            <Dato label="Líneas" value={pedido.detalles?.length ?? 0} />
+          </DatosEtapa>
+        ),
+      },
+      {
+        id: 'trillado',
+        label: 'Trillado',
+        status: trillado?.fechaEntregaTostion ? 'completed' : trillado ? 'active' : 'pending',
+        date: trillado ? `${fmt(trillado.fechaIngreso)} → ${fmt(trillado.fechaEntregaTostion)}` : undefined,
+        description: trillado ? undefined : 'Aún no ingresa a trillado',
+        icon: <Scissors size={13} />,
+        content: trillado && (
+          <DatosEtapa>
+            <Dato label="Kg entrada" value={fmtKg(trillado.kilosEntrada)} />
+            <Dato label="Kg salida" value={fmtKg(trillado.kilosSalida)} />
+            <Dato label="Merma" value={trilladoMerma ? `${trilladoMerma}%` : '—'} />
+            <Dato label="Responsable" value={responsable(trillado.auditoria) ?? '—'} />
+            {trillado.horaInicio && trillado.horaFin && (
+              <Dato label="Horario" value={`${trillado.horaInicio} – ${trillado.horaFin}`} />
+            )}
+          </DatosEtapa>
+        ),
+      },
+      {
+        id: 'tostion',
+        label: 'Tostión',
+        status: tostion?.fechaEntregaProduccion ? 'completed' : tostion ? 'active' : 'pending',
+        date: tostion ? `${fmt(tostion.fechaIngreso)} → ${fmt(tostion.fechaEntregaProduccion)}` : undefined,
+        description: tostion ? undefined : 'Aún no ingresa a tostión',
+        icon: <FlaskConical size={13} />,
+        content: tostion && (
+          <DatosEtapa>
+            <Dato label="Kg excelso" value={fmtKg(tostion.kilosExcelso)} />
+            <Dato label="Kg tostados" value={fmtKg(tostion.kilosTostados)} />
+            <Dato label="Merma" value={tostionMerma ? `${tostionMerma}%` : '—'} />
+            <Dato label="Responsable" value={responsable(tostion.auditoria) ?? '—'} />
+            {tostion.baches != null && <Dato label="Baches" value={tostion.baches} />}
+            {tostion.horaInicio && tostion.horaFin && (
+              <Dato label="Horario" value={`${tostion.horaInicio} – ${tostion.horaFin}`} />
+            )}
+          </DatosEtapa>
+        ),
+      },
+      {
+        id: 'produccion',
+        label: 'Producción',
+        status: produccion ? 'completed' : pedido.estado === 'PRODUCCION' ? 'active' : 'pending',
+        date: produccion ? fmt(produccion.fechaProcesamiento) : undefined,
+        description: produccion ? undefined : 'Sin registro de producción',
+        icon: <Factory size={13} />,
+        content: produccion && (
+          <DatosEtapa>
+            <Dato label="Kg recibidos" value={fmtKg(produccion.kilosRecibidos)} />
+            <Dato label="Proceso" value={produccion.proceso} />
+            <Dato label="Salida" value={produccion.entregaFinal} />
+            <Dato label="Noti. facturación" value={fmt(produccion.fechaNotificacionFacturacion)} />
+          </DatosEtapa>
+        ),
+      },
+      {
+        id: 'facturacion',
+        label: 'Facturación',
+        status: factura ? 'completed' : pedido.estado === 'FACTURACION' ? 'active' : 'pending',
+        date: factura ? fmt(factura.fecha) : undefined,
+        description: factura ? undefined : 'Sin factura generada',
+        icon: <FileText size={13} />,
+        content: factura && (
+          <DatosEtapa>
+            <Dato label="N° factura" value={<span className="font-mono">{factura.numero}</span>} />
+            <Dato label="Total" value={fmtMoney(Number(factura.valorTotal))} />
+            <Dato label="Estado entrega" value={<StatusBadge entrega={factura.estadoEntrega} />} />
+          </DatosEtapa>
+        ),
+      },
+      {
+        id: 'entrega',
+        label: 'Entrega al cliente',
+        status: factura?.estadoEntrega === 'ENTREGADO'
+          ? 'completed'
+          : factura?.estadoEntrega === 'LISTO_PARA_ENTREGA' ? 'active' : 'pending',
+        date: factura?.fechaConfirmacionEntrega ? fmt(factura.fechaConfirmacionEntrega) : undefined,
+        description: factura?.estadoEntrega === 'ENTREGADO'
+          ? 'Entrega confirmada'
+          : factura?.estadoEntrega === 'LISTO_PARA_ENTREGA'
+          ? 'Listo para despachar'
+          : `Comprometida para el ${fmt(pedido.diaEntrega)}`,
+        icon: <Truck size={13} />,
+      },
+    ];
+  }, [pedido, trillado, tostion, produccion, factura]);
+
+  const kilos = useMemo(() => {
+    if (!pedido) return null;
+    const inicial = totalKilos(pedido);
+    const final   = produccion?.kilosRecibidos ?? tostion?.kilosTostados ?? null;
+    return {
+      inicial,
+      trillados: trillado?.kilosSalida ?? null,
+      tostados:  tostion?.kilosTostados ?? null,
+      mermaTotal: final != null ? mermaPct(inicial, final) : null,
+    };
+  }, [pedido, trillado, tostion, produccion]);
+
+  const etapasLoading = trilladoQuery.isLoading || tostionQuery.isLoading || produccionQuery.isLoading || facturasQuery.isLoading;
+
+  if (pedidoQuery.isLoading) {
+    return (
+      <div className="page space-y-6">
+        <CardSkeleton />
+        <CardSkeleton className="h-64" />
+      </div>
+    );
+  }
+
+  if (!pedido) {
+    return (
+      <div className="page">
+        <EmptyState
+          title="Pedido no encontrado"
+          description="El pedido solicitado no existe o fue eliminado."
+          action={<Link to={volver.to} className="btn btn-primary btn-sm">Volver a {volver.label}</Link>}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="page space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div>
+          <Link to={volver.to} className="text-xs font-semibold text-[#00D084] hover:underline inline-flex items-center gap-1 mb-2">
+            <ArrowLeft size={11} /> {volver.label}
+          </Link>
+          <div className="flex items-center gap-3 mt-1">
+            <h2 className="text-2xl font-bold font-mono text-[var(--color-tx-primary)]">{pedido.code}</h2>
+            <StatusBadge estado={pedido.estado} />
+          </div>
+          <p className="text-sm text-[var(--color-tx-secondary)] mt-1">
+            {pedido.client?.name}
+            {pedido.client?.ciudad && (
+              <span className="inline-flex items-center gap-1 ml-2">
+                <MapPin size={11} /> {pedido.client.ciudad.nombre}, {pedido.client.ciudad.departamento}
+              </span>
+            )}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-xs text-[var(--color-tx-secondary)]">Entrega comprometida</p>
+          <p className="text-sm font-semibold">{fmt(pedido.diaEntrega)}</p>
+        </div>
+      </div>
+
+      {/* KPIs de kilos */}
+      {kilos && (
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          <KpiCard label="Kg pedidos"   value={fmtKg(kilos.inicial)}   icon={<Scale size={15} />}        accent="#3B82F6" />
+          <KpiCard label="Kg trillados" value={fmtKg(kilos.trillados)} icon={<Scissors size={15} />}     accent="#06B6D4" loading={trilladoQuery.isLoading} />
+          <KpiCard label="Kg tostados"  value={fmtKg(kilos.tostados)}  icon={<FlaskConical size={15} />} accent="#F59E0B" loading={tostionQuery.isLoading} />
+          <KpiCard label="Merma total"  value={kilos.mermaTotal ? `${kilos.mermaTotal}%` : '—'} icon={<TrendingDown size={15} />} accent="#EF4444" loading={etapasLoading} />
+        </div>
+      )}
+
+      <div className="grid lg:grid-cols-[1fr_300px] gap-6">
+        {/* Línea de tiempo */}
+        <div className="card">
+          <p className="section-title text-base mb-5">Trazabilidad por etapa</p>
+          {etapasLoading ? (
+            <div className="space-y-3">{[1, 2, 3, 4].map((i) => <div key={i} className="skeleton h-16 rounded-lg" />)}</div>
+          ) : (
+            <Timeline steps={steps} />
+          )}
+        </div>
+
+        {/* Líneas del pedido */}
+        <div className="card space-y-3 h-fit">
+          <p className="section-title text-base">Líneas del pedido</p>
+          {pedido.detalles && pedido.detalles.length > 0 ? (
+            <div className="space-y-2">
+              {pedido.detalles.map((d) => (
+                <div key={d.id} className="flex items-center justify-between p-3 rounded-lg bg-[var(--color-muted)] text-xs">
+                  <div>
+                    <p className="font-semibold uppercase">{d.presentacion}</p>
+                    <p className="text-[var(--color-tx-secondary)] italic">{d.variedad || 'Sin variedad'}</p>
+                  </div>
+                  <p className="font-semibold tabular-nums">{fmtKg(d.kilos)}</p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-[var(--color-tx-secondary)]">
+              {fmtKg(pedido.kilos)}{pedido.presentacion ? ` · ${pedido.presentacion}` : ''}
+            </p>
+          )}
+          {pedido.detalleEmpaque && (
+            <div className="pt-3 border-t border-[var(--color-border)]">
+              <p className="text-[10px] uppercase tracking-wider text-[var(--color-tx-secondary)]">Empaque</p>
+              <p className="text-xs font-semibold text-purple-600 dark:text-purple-400">{pedido.detalleEmpaque}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
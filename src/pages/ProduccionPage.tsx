@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { useForm, type Resolver } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -8,13 +8,22 @@ import { pedidosService } from '@/services/pedidos.service';
 import { produccionService, type CreateProduccionPayload } from '@/services/produccion.service';
 import { tostionService } from '@/services/tostion.service';
 import { toast } from '@/lib/toast';
+import { OfflineQueuedError } from '@/lib/offlineQueue';
+import { useCan } from '@/lib/permissions';
+import { useListParams, useListTotal } from '@/lib/pagination';
+import { hoyISO } from '@/lib/dates';
+import { fetchAllPages, type ExportColumn } from '@/lib/export';
 import { KpiCard } from '@/components/ui/KpiCard';
 import { StatusBadge } from '@/components/ui/StatusBadge';
 import { Modal } from '@/components/ui/Modal';
 import { Field, Input, Select } from '@/components/ui/FormField';
 import { EmptyState } from '@/components/ui/EmptyState';
 import { TableSkeleton } from '@/components/ui/Skeleton';
-import type { Pedido } from '@/types';
+import { DataTable, type DataTableColumn } from '@/components/ui/DataTable';
+import { ExportMenu } from '@/components/ui/ExportMenu';
+import { SlaBadge } from '@/components/sla/SlaBadge';
+import { estaEnRiesgo, useSla } from '@/lib/sla';
+import type { Pedido, Produccion } from '@/types';
 
 // El proceso se guía por los datos del pedido (detalleEmpaque, formaEntrega)
 // fechaNotificacionFacturacion = hoy (automático) → mueve estado a FACTURACION
@@ -42,8 +51,18 @@ function sugerirSalida(pedido: Pedido): string {
   return '';
 }
 
+const EXPORT_COLUMNS: ExportColumn<Produccion>[] = [
+  { header: 'Pedido',            value: (p) => p.pedido?.code },
+  { header: 'Cliente',           value: (p) => p.pedido?.client?.name },
+  { header: 'Proceso',           value: (p) => p.proceso },
+  { header: 'Salida registrada', value: (p) => p.entregaFinal },
+  { header: 'Fecha proceso',     tipo: 'fecha', value: (p) => p.fechaProcesamiento },
+  { header: 'Noti. facturación', tipo: 'fecha', value: (p) => p.fechaNotificacionFacturacion },
+];
+
 export function ProduccionPage() {
   const qc = useQueryClient();
+  const canRegistrar = useCan('produccion.registrar');
   const [targetPedido, setTargetPedido] = useState<Pedido | null>(null);
 
   const pedidosQuery = useQuery({
@@ -52,12 +71,35 @@ export function ProduccionPage() {
     staleTime: 20_000,
   });
 
-  const historialQuery = useQuery({
-    queryKey: ['produccion'],
-    queryFn: () => produccionService.getAll(),
+  // KPIs con el total del listado paginado
+  const totalQuery = useListTotal(['produccion'], produccionService.list);
+  const hoyQuery   = useListTotal(['produccion'], produccionService.list, { fechaProcesamiento: hoyISO() });
+
+  const list = useListParams({ sort: 'fechaProcesamiento', dir: 'desc' });
+  const listaQuery = useQuery({
+    queryKey: ['produccion', 'lista', list.params],
+    queryFn: () => produccionService.list(list.params),
+    placeholderData: keepPreviousData,
     staleTime: 30_000,
   });
 
+  const historialColumns: DataTableColumn<Produccion>[] = [
+    { key: 'pedido',  header: 'Pedido',  primary: true, hideable: false, className: 'font-mono text-xs font-semibold', render: (p) => p.pedido?.code },
+    { key: 'cliente', header: 'Cliente', className: 'text-[var(--color-tx-secondary)] max-w-[140px] truncate', render: (p) => p.pedido?.client?.name },
+    {
+      key: 'proceso', header: 'Proceso', sortField: 'proceso',
+      render: (p) => <span className="badge bg-purple-50 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400">{p.proceso}</span>,
+    },
+    { key: 'entregaFinal', header: 'Salida registrada', className: 'text-xs', render: (p) => p.entregaFinal },
+    { key: 'fechaProcesamiento', header: 'Fecha proceso', sortField: 'fechaProcesamiento', className: 'text-xs', render: (p) => fmt(p.fechaProcesamiento) },
+    {
+      key: 'fechaNotificacionFacturacion', header: 'Noti. facturación', className: 'text-xs',
+      render: (p) => p.fechaNotificacionFacturacion
+        ? <span className="text-[#00D084] font-semibold">{fmt(p.fechaNotificacionFacturacion)}</span>
+        : <span className="text-[var(--color-tx-secondary)]">—</span>,
+    },
+  ];
+
   // Tostiones finalizadas — para obtener kilosTostados por pedido
   const tostionHistorialQuery = useQuery({
     queryKey: ['tostion', 'historial'],
@@ -71,6 +113,10 @@ export function ProduccionPage() {
       t => t.pedido?.id === pedidoId && t.kilosTostados != null
     )?.kilosTostados ?? null;
 
+  // Riesgo frente a la fecha de entrega comprometida
+  const sla = useSla();
+  const enRiesgo = (pedidosQuery.data ?? []).filter(p => estaEnRiesgo(sla.porPedido.get(p.id))).length;
+
   const { register, handleSubmit, reset, formState: { errors } } = useForm<FormValues>({
     resolver: zodResolver(schema) as unknown as Resolver<FormValues>,
     defaultValues: { fechaProcesamiento: new Date().toISOString().slice(0, 10) },
@@ -85,8 +131,15 @@ export function ProduccionPage() {
       setTargetPedido(null);
       reset({ fechaProcesamiento: new Date().toISOString().slice(0, 10) });
     },
-    onError: (e: { response?: { data?: { message?: string } } }) =>
-      toast.error(e.response?.data?.message ?? 'No se pudo registrar el proceso'),
+    onError: (e: { response?: { data?: { message?: string } } }) => {
+      if (e instanceof OfflineQueuedError) {
+        toast.info('Sin conexión — el registro se enviará al reconectar');
+        setTargetPedido(null);
+        reset({ fechaProcesamiento: new Date().toISOString().slice(0, 10) });
+        return;
+      }
+      toast.error(e.response?.data?.message ?? 'No se pudo registrar el proceso');
+    },
   });
 
   const openModal = (pedido: Pedido) => {
@@ -137,15 +190,20 @@ export function ProduccionPage() {
       {/* KPIs */}
       <div className="grid grid-cols-3 gap-4">
         <KpiCard label="En producción"    value={pedidosQuery.data?.length ?? 0}   icon={<Package size={15} />}     accent="#8B5CF6" loading={pedidosQuery.isLoading} />
-        <KpiCard label="Procesados hoy"   value={historialQuery.data?.filter(p => p.fechaProcesamiento?.startsWith(new Date().toISOString().slice(0,10))).length ?? 0} icon={<CheckCheck size={15} />} accent="#00D084" loading={historialQuery.isLoading} />
-        <KpiCard label="Total procesados" value={historialQuery.data?.length ?? 0}  icon={<Boxes size={15} />}        accent="#3B82F6" loading={historialQuery.isLoading} />
+        <KpiCard label="Procesados hoy"   value={hoyQuery.data ?? 0}   icon={<CheckCheck size={15} />} accent="#00D084" loading={hoyQuery.isLoading} />
+        <KpiCard label="Total procesados" value={totalQuery.data ?? 0} icon={<Boxes size={15} />}      accent="#3B82F6" loading={totalQuery.isLoading} />
       </div>
 
       {/* Lotes en producción */}
       <div className="card space-y-4">
-        <div>
-          <p className="section-title">Lotes en producción</p>
-          <p className="section-subtitle">Selecciona un lote para iniciar proceso</p>
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="section-title">Lotes en producción</p>
+            <p className="section-subtitle">Selecciona un lote para iniciar proceso</p>
+          </div>
+          {enRiesgo > 0 && (
+            <span className="badge bg-red-50 text-red-600">{enRiesgo} en riesgo</span>
+          )}
         </div>
 
         {pedidosQuery.isLoading ? (
@@ -161,7 +219,10 @@ export function ProduccionPage() {
                     <p className="font-mono font-bold text-sm">{pedido.code}</p>
                     <p className="text-xs text-[var(--color-tx-secondary)] truncate">{pedido.client?.name}</p>
                   </div>
-                  <StatusBadge estado={pedido.estado} />
+                  <div className="flex flex-col items-end gap-1 shrink-0">
+                    <StatusBadge estado={pedido.estado} />
+                    <SlaBadge sla={sla.porPedido.get(pedido.id)} />
+                  </div>
                 </div>
 
                 {/* Detalles de empaque — guía al operario */}
@@ -198,10 +259,12 @@ export function ProduccionPage() {
                   )}
                 </div>
 
-                <button className="btn btn-sm btn-primary w-full gap-1.5" onClick={() => openModal(pedido)}>
-                  <CheckCheck size={12} />
-                  Registrar proceso
-                </button>
+                {canRegistrar && (
+                  <button className="btn btn-sm btn-primary w-full gap-1.5" onClick={() => openModal(pedido)}>
+                    <CheckCheck size={12} />
+                    Registrar proceso
+                  </button>
+                )}
               </div>
             ))}
           </div>
@@ -209,37 +272,27 @@ export function ProduccionPage() {
       </div>
 
       {/* Historial */}
-      {!!historialQuery.data?.length && (
-        <div className="card">
-          <p className="section-title mb-4">Historial de producción</p>
-          <div className="table-wrap">
-            <table className="table">
-              <thead>
-                <tr>
-                  <th>Pedido</th><th>Cliente</th><th>Proceso</th>
-                  <th>Salida registrada</th><th>Fecha proceso</th><th>Noti. facturación</th>
-                </tr>
-              </thead>
-              <tbody>
-                {historialQuery.data.map((p) => (
-                  <tr key={p.id}>
-                    <td className="font-mono text-xs font-semibold">{p.pedido?.code}</td>
-                    <td className="text-[var(--color-tx-secondary)] max-w-[140px] truncate">{p.pedido?.client?.name}</td>
-                    <td><span className="badge bg-purple-50 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400">{p.proceso}</span></td>
-                    <td className="text-xs">{p.entregaFinal}</td>
-                    <td className="text-xs">{fmt(p.fechaProcesamiento)}</td>
-                    <td className="text-xs">
-                      {p.fechaNotificacionFacturacion
-                        ? <span className="text-[#00D084] font-semibold">{fmt(p.fechaNotificacionFacturacion)}</span>
-                        : <span className="text-[var(--color-tx-secondary)]">—</span>}
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        </div>
-      )}
+      <div className="card">
+        <p className="section-title mb-4">Historial de producción</p>
+        <DataTable
+          id="produccion-historial"
+          columns={historialColumns}
+          data={listaQuery.data}
+          list={list}
+          rowKey={(p) => p.id}
+          loading={listaQuery.isLoading}
+          fetching={listaQuery.isFetching}
+          searchPlaceholder="Buscar por pedido o cliente…"
+          actions={
+            <ExportMenu
+              fileName="produccion"
+              columns={EXPORT_COLUMNS}
+              fetchRows={() => fetchAllPages(produccionService.list, list.params)}
+            />
+          }
+          empty={<EmptyState title="Sin registros de producción" description="Los lotes procesados aparecerán aquí." />}
+        />
+      </div>
 
       {/* Modal registrar */}
       <Modal
@@ -0,0 +1,352 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm, type Resolver } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Plus, Pencil, Trash2, Loader2, Tag, CalendarClock, Users } from 'lucide-react';
+import { tarifasService, type CreateTarifaPayload } from '@/services/tarifas.service';
+import { clientesService } from '@/services/pedidos.service';
+import { estadoTarifa, tarifaQueSeCruza, useTarifas, type EstadoTarifa } from '@/lib/tarifas';
+import { PRESENTACIONES } from '@/lib/merma';
+import { fmtMoney } from '@/lib/format';
+import { hoyISO } from '@/lib/dates';
+import { useCan } from '@/lib/permissions';
+import { toast } from '@/lib/toast';
+import { useConfirm } from '@/components/ui/ConfirmDialog';
+import { KpiCard } from '@/components/ui/KpiCard';
+import { Modal } from '@/components/ui/Modal';
+import { Field, Input, Select } from '@/components/ui/FormField';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { DataTable, type DataTableColumn } from '@/components/ui/DataTable';
+import { cn } from '@/lib/cn';
+import type { PresentacionDetalle, Tarifa } from '@/types';
+
+const PRESENTACION_LABELS: Record<PresentacionDetalle, string> = {
+  CPS: 'CPS',
+  EXCELSO: 'Excelso',
+  HONEY: 'Honey',
+  NATURAL: 'Natural',
+};
+
+const FORMA_OPTIONS = [
+  { value: 'A_GRANEL', label: 'A granel' },
+  { value: 'EMPACADO', label: 'Empacado' },
+];
+
+const ESTADO_BADGE: Record<EstadoTarifa, { label: string; className: string }> = {
+  vigente:    { label: 'Vigente',    className: 'bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-400' },
+  programada: { label: 'Programada', className: 'bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400' },
+  vencida:    { label: 'Vencida',    className: 'bg-[var(--color-muted)] text-[var(--color-tx-secondary)]' },
+};
+
+const schema = z.object({
+  presentacion: z.enum(['CPS', 'EXCELSO', 'HONEY', 'NATURAL'] as const, { message: 'Presentación requerida' }),
+  formaEntrega: z.enum(['A_GRANEL', 'EMPACADO'] as const, { message: 'Forma de entrega requerida' }),
+  clienteId:    z.string().optional(),
+  precioKg:     z.coerce.number().positive('Mayor a 0'),
+  fechaInicio:  z.string().min(1, 'Fecha requerida'),
+  fechaFin:     z.string().optional(),
+}).refine((v) => !v.fechaFin || v.fechaFin >= v.fechaInicio, {
+  path: ['fechaFin'],
+  message: 'Debe ser igual o posterior al inicio',
+});
+
+type FormValues = z.infer<typeof schema>;
+
+const DEFAULTS: Partial<FormValues> = { formaEntrega: 'A_GRANEL', clienteId: '', fechaInicio: hoyISO(), fechaFin: '' };
+
+function fmt(d: string | null): string {
+  if (!d) return '—';
+  return new Date(`${d.slice(0, 10)}T00:00:00`).toLocaleDateString('es-CO', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+export function TarifasPage() {
+  const qc = useQueryClient();
+  const confirm = useConfirm();
+  const canGestionar = useCan('tarifas.gestionar');
+  const [showForm, setShowForm] = useState(false);
+  const [editTarget, setEditTarget] = useState<Tarifa | null>(null);
+  // '' = todas, 'general' = sin cliente, o el id de un cliente
+  const [filtroCliente, setFiltroCliente] = useState('');
+  const [verVencidas, setVerVencidas] = useState(false);
+
+  const tarifasQuery = useTarifas();
+  const clientesQuery = useQuery({
+    queryKey: ['clientes'],
+    queryFn: () => clientesService.getAll(),
+    staleTime: 60_000,
+  });
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(schema) as unknown as Resolver<FormValues>,
+    defaultValues: DEFAULTS,
+  });
+
+  const onSaved = (msg: string) => {
+    toast.success(msg);
+    qc.invalidateQueries({ queryKey: ['tarifas'] });
+    setShowForm(false);
+    setEditTarget(null);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (payload: CreateTarifaPayload) => tarifasService.create(payload),
+    onSuccess: () => onSaved('Tarifa registrada'),
+    onError: (e: { response?: { data?: { message?: string } } }) =>
+      toast.error(e.response?.data?.message ?? 'No se pudo registrar la tarifa'),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...payload }: CreateTarifaPayload & { id: string }) => tarifasService.update(id, payload),
+    onSuccess: () => onSaved('Tarifa actualizada'),
+    onError: (e: { response?: { data?: { message?: string } } }) =>
+      toast.error(e.response?.data?.message ?? 'No se pudo actualizar la tarifa'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => tarifasService.remove(id),
+    onSuccess: () => {
+      toast.success('Tarifa eliminada');
+      qc.invalidateQueries({ queryKey: ['tarifas'] });
+    },
+    onError: (e: { response?: { data?: { message?: string } } }) =>
+      toast.error(e.response?.data?.message ?? 'No se pudo eliminar la tarifa'),
+  });
+
+  const isEditing = !!editTarget;
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const openCreate = () => {
+    form.reset(DEFAULTS);
+    setEditTarget(null);
+    setShowForm(true);
+  };
+
+  const openEdit = (t: Tarifa) => {
+    form.reset({
+      presentacion: t.presentacion,
+      formaEntrega: t.formaEntrega,
+      clienteId:    t.clienteId ?? '',
+      precioKg:     Number(t.precioKg),
+      fechaInicio:  t.fechaInicio.slice(0, 10),
+      fechaFin:     t.fechaFin?.slice(0, 10) ?? '',
+    });
+    setEditTarget(t);
+    setShowForm(true);
+  };
+
+  const closeModal = () => {
+    setShowForm(false);
+    setEditTarget(null);
+  };
+
+  const onSubmit = form.handleSubmit((values) => {
+    const payload: CreateTarifaPayload = {
+      presentacion: values.presentacion,
+      formaEntrega: values.formaEntrega,
+      clienteId:    values.clienteId || null,
+      precioKg:     values.precioKg,
+      fechaInicio:  values.fechaInicio,
+      fechaFin:     values.fechaFin || null,
+    };
+
+    const choque = tarifaQueSeCruza(tarifasQuery.data, payload, editTarget?.id);
+    if (choque) {
+      form.setError('fechaInicio', {
+        message: `Se cruza con la tarifa de ${fmtMoney(Number(choque.precioKg))}/kg (${fmt(choque.fechaInicio)} – ${fmt(choque.fechaFin)})`,
+      });
+      return;
+    }
+
+    if (editTarget) updateMutation.mutate({ id: editTarget.id, ...payload });
+    else createMutation.mutate(payload);
+  });
+
+  const handleDelete = async (t: Tarifa) => {
+    const ok = await confirm({
+      title: 'Eliminar tarifa',
+      description: `¿Eliminar la tarifa ${PRESENTACION_LABELS[t.presentacion]} · ${t.formaEntrega === 'EMPACADO' ? 'empacado' : 'a granel'} de ${t.cliente?.name ?? 'precio general'}? Las facturas ya emitidas no cambian.`,
+      confirmText: 'Eliminar',
+      danger: true,
+    });
+    if (!ok) return;
+    deleteMutation.mutate(t.id);
+  };
+
+  const tarifas = tarifasQuery.data ?? [];
+  const visibles = tarifas.filter((t) => {
+    if (!verVencidas && estadoTarifa(t) === 'vencida') return false;
+    if (filtroCliente === 'general') return !t.clienteId;
+    if (filtroCliente) return t.clienteId === filtroCliente;
+    return true;
+  });
+
+  const stats = {
+    generales:  tarifas.filter((t) => !t.clienteId && estadoTarifa(t) === 'vigente').length,
+    pactadas:   tarifas.filter((t) => t.clienteId && estadoTarifa(t) === 'vigente').length,
+    programadas: tarifas.filter((t) => estadoTarifa(t) === 'programada').length,
+  };
+
+  const clienteOptions = (clientesQuery.data ?? []).map((c) => ({ value: c.id, label: c.name }));
+
+  const columns: DataTableColumn<Tarifa>[] = [
+    {
+      key: 'presentacion', header: 'Presentación', primary: true, hideable: false, className: 'font-semibold',
+      sortValue: (t) => t.presentacion, render: (t) => PRESENTACION_LABELS[t.presentacion] ?? t.presentacion,
+    },
+    {
+      key: 'formaEntrega', header: 'Forma entrega', className: 'text-[var(--color-tx-secondary)]',
+      sortValue: (t) => t.formaEntrega, render: (t) => (t.formaEntrega === 'EMPACADO' ? 'Empacado' : 'A granel'),
+    },
+    {
+      key: 'cliente', header: 'Cliente', sortValue: (t) => t.cliente?.name ?? '',
+      render: (t) => t.clienteId
+        ? <span className="font-medium">{t.cliente?.name ?? 'Cliente'}</span>
+        : <span className="text-[var(--color-tx-secondary)]">General</span>,
+    },
+    {
+      key: 'precioKg', header: 'Precio/kg', className: 'tabular-nums font-semibold',
+      sortValue: (t) => Number(t.precioKg), render: (t) => fmtMoney(Number(t.precioKg)),
+    },
+    {
+      key: 'vigencia', header: 'Vigencia', className: 'text-xs', sortValue: (t) => t.fechaInicio,
+      render: (t) => `${fmt(t.fechaInicio)} – ${t.fechaFin ? fmt(t.fechaFin) : 'sin vencimiento'}`,
+    },
+    {
+      key: 'estado', header: 'Estado',
+      render: (t) => {
+        const e = ESTADO_BADGE[estadoTarifa(t)];
+        return <span className={cn('badge', e.className)}>{e.label}</span>;
+      },
+    },
+    ...(canGestionar ? [{
+      key: 'acciones', header: '', hideable: false,
+      render: (t: Tarifa) => (
+        <div className="flex gap-1 justify-end">
+          <button className="btn btn-ghost btn-sm" onClick={() => openEdit(t)} title="Editar tarifa">
+            <Pencil size={13} />
+          </button>
+          <button className="btn btn-ghost btn-sm text-red-500" onClick={() => handleDelete(t)} title="Eliminar tarifa">
+            <Trash2 size={13} />
+          </button>
+        </div>
+      ),
+    }] : []),
+  ];
+
+  const errors = form.formState.errors;
+
+  return (
+    <div className="page space-y-8">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div>
+          <span className="chip mb-2">Ciclo de facturación</span>
+          <h2 className="text-2xl font-bold text-[var(--color-tx-primary)] mt-1">Tarifas</h2>
+          <p className="text-sm text-[var(--color-tx-secondary)] mt-1">
+            Precio por kg según presentación y forma de entrega, con precios pactados por cliente.
+          </p>
+        </div>
+        {canGestionar && (
+          <button className="btn btn-primary gap-2" onClick={openCreate}>
+            <Plus size={15} />
+            Nueva tarifa
+          </button>
+        )}
+      </div>
+
+      {/* KPIs */}
+      <div className="grid grid-cols-3 gap-4">
+        <KpiCard label="Tarifas generales vigentes" value={stats.generales}   icon={<Tag size={15} />}           accent="#00D084" loading={tarifasQuery.isLoading} />
+        <KpiCard label="Precios pactados vigentes"  value={stats.pactadas}    icon={<Users size={15} />}         accent="#3B82F6" loading={tarifasQuery.isLoading} />
+        <KpiCard label="Programadas"                value={stats.programadas} icon={<CalendarClock size={15} />} accent="#F59E0B" loading={tarifasQuery.isLoading} />
+      </div>
+
+      {/* Tabla */}
+      <div className="card">
+        <p className="section-title mb-4">Lista de precios</p>
+        <DataTable
+          id="tarifas"
+          columns={columns}
+          data={visibles}
+          rowKey={(t) => t.id}
+          loading={tarifasQuery.isLoading}
+          fetching={tarifasQuery.isFetching}
+          toolbar={
+            <div className="flex items-center gap-3 flex-wrap">
+              <select
+                className="input w-auto"
+                value={filtroCliente}
+                onChange={(e) => setFiltroCliente(e.target.value)}
+                aria-label="Filtrar por cliente"
+              >
+                <option value="">Todas las tarifas</option>
+                <option value="general">Solo generales</option>
+                {clienteOptions.map((c) => <option key={c.value} value={c.value}>{c.label}</option>)}
+              </select>
+              <label className="flex items-center gap-1.5 text-xs text-[var(--color-tx-secondary)]">
+                <input type="checkbox" checked={verVencidas} onChange={(e) => setVerVencidas(e.target.checked)} />
+                Mostrar vencidas
+              </label>
+            </div>
+          }
+          empty={
+            <EmptyState
+              title="Sin tarifas"
+              description="Registra las tarifas generales; la facturación las sugiere al elegir un pedido."
+              action={canGestionar && (
+                <button className="btn btn-primary btn-sm" onClick={openCreate}>
+                  <Plus size={13} /> Nueva tarifa
+                </button>
+              )}
+            />
+          }
+        />
+      </div>
+
+      {/* Modal crear/editar */}
+      <Modal
+        open={showForm}
+        onClose={closeModal}
+        title={isEditing ? 'Editar tarifa' : 'Nueva tarifa'}
+        description="Sin cliente aplica a todos; con cliente reemplaza la tarifa general para ese cliente."
+        size="md"
+        footer={
+          <div className="flex gap-2">
+            <button className="btn btn-secondary" onClick={closeModal}>Cancelar</button>
+            <button className="btn btn-primary gap-2" onClick={onSubmit} disabled={isPending}>
+              {isPending && <Loader2 size={14} className="animate-spin" />}
+              {isEditing ? 'Guardar cambios' : 'Registrar tarifa'}
+            </button>
+          </div>
+        }
+      >
+        <div className="grid grid-cols-2 gap-4">
+          <Field label="Presentación" error={errors.presentacion?.message} required>
+            <Select
+              {...form.register('presentacion')}
+              placeholder="Seleccionar"
+              options={PRESENTACIONES.map((p) => ({ value: p, label: PRESENTACION_LABELS[p] }))}
+              error={errors.presentacion?.message}
+            />
+          </Field>
+          <Field label="Forma de entrega" error={errors.formaEntrega?.message} required>
+            <Select {...form.register('formaEntrega')} options={FORMA_OPTIONS} error={errors.formaEntrega?.message} />
+          </Field>
+          <Field label="Cliente" hint="Vacío = tarifa general" className="col-span-2">
+            <Select {...form.register('clienteId')} placeholder="General — todos los clientes" options={clienteOptions} />
+          </Field>
+          <Field label="Precio por kg (COP)" error={errors.precioKg?.message} required className="col-span-2">
+            <Input type="number" step="100" min="0" placeholder="12000" {...form.register('precioKg')} error={errors.precioKg?.message} />
+          </Field>
+          <Field label="Vigente desde" error={errors.fechaInicio?.message} required>
+            <Input type="date" {...form.register('fechaInicio')} error={errors.fechaInicio?.message} />
+          </Field>
+          <Field label="Vigente hasta" hint="Opcional" error={errors.fechaFin?.message}>
+            <Input type="date" {...form.register('fechaFin')} error={errors.fechaFin?.message} />
+          </Field>
+        </div>
+      </Modal>
+    </div>
+  );
+}
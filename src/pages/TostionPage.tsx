@@ -1,6 +1,6 @@
 import { useState, useMemo } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useForm, type Resolver } from 'react-hook-form';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { useForm, useWatch, type Resolver } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Play, CheckCheck, Loader2, Scale, Package, Calendar, ChevronRight } from 'lucide-react';
@@ -8,23 +8,36 @@ import { pedidosService } from '@/services/pedidos.service';
 import { tostionService } from '@/services/tostion.service';
 import { trilladoService } from '@/services/trillado.service';
 import { toast } from '@/lib/toast';
+import { OfflineQueuedError } from '@/lib/offlineQueue';
 import { KpiCard } from '@/components/ui/KpiCard';
 import { StatusBadge } from '@/components/ui/StatusBadge';
 import { Modal } from '@/components/ui/Modal';
-import { Field, Input } from '@/components/ui/FormField';
+import { Field, Input, Select, Textarea } from '@/components/ui/FormField';
 import { EmptyState } from '@/components/ui/EmptyState';
+import { DataTable, type DataTableColumn } from '@/components/ui/DataTable';
+import { ExportMenu } from '@/components/ui/ExportMenu';
 import { TableSkeleton } from '@/components/ui/Skeleton';
-import { useConfirm } from '@/components/ui/ConfirmDialog';
 import type { Tostion, Pedido } from '@/types';
 import { cn } from '@/lib/cn';
+import { useCan } from '@/lib/permissions';
+import { useListParams, useListTotal } from '@/lib/pagination';
+import { fetchAllPages, type ExportColumn } from '@/lib/export';
+import { maquinasService } from '@/services/maquinas.service';
+import { maquinaDisponible, opcionesMaquina } from '@/lib/maquinas';
+import { calcularMerma, evaluarMerma, presentacionPredominante, rangoMerma, useMermaRangos } from '@/lib/merma';
+import { MermaAviso } from '@/components/merma/MermaAviso';
+import { estaEnRiesgo, useSla } from '@/lib/sla';
+import { SlaBadge } from '@/components/sla/SlaBadge';
 
 // Solo se piden los kg + baches + horas — las fechas las asigna el servidor automáticamente
 const finalizarSchema = z.object({
+  maquinaId:    z.string().min(1, 'Selecciona la máquina'),
   kilosExcelso:  z.coerce.number().positive('Debe ser mayor a 0'),
   kilosTostados: z.coerce.number().positive('Debe ser mayor a 0'),
   baches:        z.coerce.number().int().positive('Debe ser mayor a 0').optional().or(z.literal('')),
   horaInicio:    z.string().optional(),
   horaFin:       z.string().optional(),
+  justificacionMerma: z.string().optional(),
 }).refine(d => Number(d.kilosTostados) <= Number(d.kilosExcelso), {
   message: 'Los kilos tostados no pueden superar los kilos de excelso recibidos',
   path: ['kilosTostados'],
@@ -39,7 +52,11 @@ function fmt(d?: string | null) {
 
 export function TostionPage() {
   const qc = useQueryClient();
-  const confirm = useConfirm();
+  const canOperar = useCan('tostion.operar');
+  const [iniciarTarget, setIniciarTarget] = useState<Pedido | null>(null);
+  const [iniciarMaquinaId, setIniciarMaquinaId] = useState('');
+  // Pedidos con el inicio guardado sin conexión: no se deja encolar otro inicio del mismo
+  const [iniciosEnCola, setIniciosEnCola] = useState<string[]>([]);
   const [finalizeTarget, setFinalizeTarget] = useState<Tostion | null>(null);
 
   const finalizeForm = useForm<FinalizarForm>({
@@ -61,12 +78,8 @@ export function TostionPage() {
     staleTime: 15_000,
   });
 
-  // Historial completo
-  const historialQuery = useQuery({
-    queryKey: ['tostion', 'historial'],
-    queryFn: () => tostionService.getAll(),
-    staleTime: 30_000,
-  });
+  // Total de finalizadas desde el listado paginado
+  const finalizadosQuery = useListTotal(['tostion'], tostionService.list, { estado: 'finalizados' });
 
   // Trillados finalizados — para obtener kilosSalida por pedido
   const trilladoHistorialQuery = useQuery({
@@ -81,27 +94,124 @@ export function TostionPage() {
       t => t.pedido?.id === pedidoId && t.kilosSalida != null
     )?.kilosSalida ?? null;
 
+  // Tostión no trae los detalles del pedido: la presentación sale de su trillado
+  const presentacionDe = (pedidoId?: string) =>
+    presentacionPredominante(trilladoHistorialQuery.data?.find(t => t.pedido?.id === pedidoId)?.pedido?.detalles);
+
+  // Riesgo frente a la fecha de entrega comprometida
+  const sla = useSla();
+  const enRiesgoEnEspera = (pendientesQuery.data ?? []).filter(p => estaEnRiesgo(sla.porPedido.get(p.id))).length;
+
   const invalidateAll = () => {
     qc.invalidateQueries({ queryKey: ['pedidos'] });
     qc.invalidateQueries({ queryKey: ['tostion'] });
   };
 
+  const maquinasQuery = useQuery({
+    queryKey: ['maquinas'],
+    queryFn: () => maquinasService.getAll(),
+    staleTime: 30_000,
+  });
+
+  const maquinas = maquinasQuery.data ?? [];
+
+  // ── Merma esperada ──────────────────────────────────────────
+  const rangosQuery = useMermaRangos();
+  const rangoDe = (t: Pick<Tostion, 'pedido'>) =>
+    rangoMerma(rangosQuery.data, 'TOSTION', presentacionDe(t.pedido?.id));
+
+  const [kgExcelso, kgTostados] = useWatch({ control: finalizeForm.control, name: ['kilosExcelso', 'kilosTostados'] });
+  const mermaEnVivo = calcularMerma(kgExcelso, kgTostados);
+  const rangoEnVivo = rangoMerma(rangosQuery.data, 'TOSTION', presentacionDe(finalizeTarget?.pedido?.id));
+  const mermaFueraDeRango = mermaEnVivo != null && evaluarMerma(mermaEnVivo, rangoEnVivo) !== 'ok';
+
+  // ── Historial paginado ──────────────────────────────────────
+  const list = useListParams({ sort: 'fechaEntregaProduccion', dir: 'desc' });
+  const historialParams = { ...list.params, filters: { ...list.params.filters, estado: 'finalizados' } };
+  const listaQuery = useQuery({
+    queryKey: ['tostion', 'lista', list.params],
+    queryFn: () => tostionService.list(historialParams),
+    placeholderData: keepPreviousData,
+    staleTime: 30_000,
+  });
+
+  const historialColumns: DataTableColumn<Tostion>[] = [
+    { key: 'pedido',  header: 'Pedido',  primary: true, hideable: false, className: 'font-mono text-xs font-semibold', render: (t) => t.pedido?.code },
+    { key: 'cliente', header: 'Cliente', className: 'text-[var(--color-tx-secondary)]', render: (t) => t.pedido?.client?.name ?? '—' },
+    { key: 'fechaIngreso',           header: 'Fecha ingreso', sortField: 'fechaIngreso',           render: (t) => fmt(t.fechaIngreso) },
+    { key: 'fechaEntregaProduccion', header: 'Fecha salida',  sortField: 'fechaEntregaProduccion', render: (t) => fmt(t.fechaEntregaProduccion) },
+    { key: 'kilosExcelso',  header: 'Kg excelso',  sortField: 'kilosExcelso',  className: 'font-semibold', render: (t) => `${t.kilosExcelso ?? '—'} kg` },
+    { key: 'kilosTostados', header: 'Kg tostados', sortField: 'kilosTostados', className: 'font-semibold', render: (t) => `${t.kilosTostados ?? '—'} kg` },
+    { key: 'baches', header: 'Baches', className: 'text-center', render: (t) => t.baches ?? '—' },
+    {
+      key: 'horario', header: 'Horario', className: 'text-xs text-[var(--color-tx-secondary)]',
+      render: (t) => (t.horaInicio && t.horaFin ? `${t.horaInicio} – ${t.horaFin}` : '—'),
+    },
+    {
+      key: 'merma', header: 'Merma',
+      render: (t) => {
+        const merma = calcularMerma(t.kilosExcelso, t.kilosTostados);
+        if (merma == null) return '—';
+        const fueraDeRango = evaluarMerma(merma, rangoDe(t)) !== 'ok';
+        return (
+          <span
+            className={cn('badge', fueraDeRango ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-600')}
+            title={t.justificacionMerma ?? undefined}
+          >
+            {merma.toFixed(1)}%
+          </span>
+        );
+      },
+    },
+    { key: 'maquina', header: 'Máquina', className: 'font-mono text-xs', render: (t) => t.maquina?.codigo ?? '—' },
+  ];
+  const exportColumns: ExportColumn<Tostion>[] = [
+    { header: 'Pedido',        value: (t) => t.pedido?.code },
+    { header: 'Cliente',       value: (t) => t.pedido?.client?.name },
+    { header: 'Fecha ingreso', tipo: 'fecha',  value: (t) => t.fechaIngreso },
+    { header: 'Fecha salida',  tipo: 'fecha',  value: (t) => t.fechaEntregaProduccion },
+    { header: 'Kg excelso',    tipo: 'numero', value: (t) => t.kilosExcelso },
+    { header: 'Kg tostados',   tipo: 'numero', value: (t) => t.kilosTostados },
+    { header: 'Baches',        tipo: 'numero', value: (t) => t.baches },
+    { header: 'Horario',       value: (t) => (t.horaInicio && t.horaFin ? `${t.horaInicio} – ${t.horaFin}` : '') },
+    { header: 'Merma %',       tipo: 'numero', value: (t) => calcularMerma(t.kilosExcelso, t.kilosTostados)?.toFixed(1) },
+    {
+      header: 'Merma en rango',
+      value: (t) => {
+        const merma = calcularMerma(t.kilosExcelso, t.kilosTostados);
+        return merma == null ? '' : evaluarMerma(merma, rangoDe(t)) === 'ok' ? 'Sí' : 'No';
+      },
+    },
+    { header: 'Justificación merma', value: (t) => t.justificacionMerma },
+    { header: 'Máquina',       value: (t) => t.maquina?.codigo },
+  ];
+  const maquinaOptions = opcionesMaquina(maquinas, 'TOSTION');
+
   // ── Mutations ───────────────────────────────────────────────
   const iniciarMutation = useMutation({
-    mutationFn: (pedidoId: string) => tostionService.iniciar({ pedidoId }),
-    onSuccess: () => { toast.success('Tostión iniciada — fecha de ingreso registrada'); invalidateAll(); },
-    onError: (e: { response?: { data?: { message?: string } } }) =>
-      toast.error(e.response?.data?.message ?? 'No fue posible iniciar la tostión'),
+    mutationFn: (payload: { pedidoId: string; maquinaId: string }) => tostionService.iniciar(payload),
+    onSuccess: () => { toast.success('Tostión iniciada — fecha de ingreso registrada'); setIniciarTarget(null); invalidateAll(); },
+    onError: (e: { response?: { data?: { message?: string } } }, { pedidoId }) => {
+      if (e instanceof OfflineQueuedError) {
+        toast.info('Sin conexión — el inicio se enviará al reconectar');
+        setIniciosEnCola((ids) => [...ids, pedidoId]);
+        setIniciarTarget(null);
+        return;
+      }
+      toast.error(e.response?.data?.message ?? 'No fue posible iniciar la tostión');
+    },
   });
 
   const finalizarMutation = useMutation({
     mutationFn: ({ id, ...rest }: FinalizarForm & { id: string }) =>
       tostionService.finalizar(id, {
+        maquinaId: rest.maquinaId,
         kilosExcelso: rest.kilosExcelso as number,
         kilosTostados: rest.kilosTostados as number,
         baches: rest.baches ? Number(rest.baches) : null,
         horaInicio: rest.horaInicio || null,
         horaFin: rest.horaFin || null,
+        justificacionMerma: rest.justificacionMerma,
       }),
     onSuccess: () => {
       toast.success('Tostión finalizada — pedido enviado a Producción');
@@ -109,36 +219,58 @@ export function TostionPage() {
       finalizeForm.reset();
       invalidateAll();
     },
-    onError: (e: { response?: { data?: { message?: string } } }) =>
-      toast.error(e.response?.data?.message ?? 'No fue posible finalizar la tostión'),
+    onError: (e: { response?: { data?: { message?: string } } }) => {
+      if (e instanceof OfflineQueuedError) {
+        toast.info('Sin conexión — la finalización se enviará al reconectar');
+        setFinalizeTarget(null);
+        finalizeForm.reset();
+        return;
+      }
+      toast.error(e.response?.data?.message ?? 'No fue posible finalizar la tostión');
+    },
   });
 
   // ── Stats ───────────────────────────────────────────────────
   const stats = useMemo(() => ({
     pendientes: pendientesQuery.data?.length ?? 0,
     enCurso:    activosQuery.data?.length ?? 0,
-    finalizados: (historialQuery.data ?? []).filter(t => t.fechaEntregaProduccion).length,
-  }), [pendientesQuery.data, activosQuery.data, historialQuery.data]);
-
-  const handleIniciar = async (pedido: Pedido) => {
-    const ok = await confirm({
-      title: 'Iniciar tostión',
-      description: `¿Iniciar tostión para el pedido ${pedido.code}? La fecha de ingreso se registrará como hoy.`,
-      confirmText: 'Iniciar',
-    });
-    if (!ok) return;
-    await iniciarMutation.mutateAsync(pedido.id);
+    finalizados: finalizadosQuery.data ?? 0,
+  }), [pendientesQuery.data, activosQuery.data, finalizadosQuery.data]);
+
+  const handleIniciar = (pedido: Pedido) => {
+    // Si solo hay una máquina activa se preselecciona
+    const activas = maquinaOptions.filter(o => !o.disabled);
+    setIniciarMaquinaId(activas.length === 1 ? activas[0].value : '');
+    setIniciarTarget(pedido);
+  };
+
+  const confirmarInicio = () => {
+    if (!iniciarTarget || !iniciarMaquinaId) return;
+    iniciarMutation.mutate({ pedidoId: iniciarTarget.id, maquinaId: iniciarMaquinaId });
   };
 
-  const handleFinalizar = finalizeForm.handleSubmit(async (values) => {
+  const handleFinalizar = finalizeForm.handleSubmit((values) => {
     if (!finalizeTarget) return;
-    await finalizarMutation.mutateAsync({ id: finalizeTarget.id, ...values });
+    if (!maquinaDisponible(maquinas, values.maquinaId)) {
+      finalizeForm.setError('maquinaId', { message: 'La máquina no está activa — elige otra' });
+      return;
+    }
+    const justificacion = values.justificacionMerma?.trim();
+    if (mermaFueraDeRango && !justificacion) {
+      finalizeForm.setError('justificacionMerma', { message: 'La merma está fuera del rango esperado — explica el motivo' });
+      return;
+    }
+    finalizarMutation.mutate({
+      id: finalizeTarget.id,
+      ...values,
+      justificacionMerma: mermaFueraDeRango ? justificacion : undefined,
+    });
   });
 
   const openFinalize = (t: Tostion) => {
     // Pre-fill kilosExcelso from the related trillado's kilosSalida
     const kilosSalida = t.pedido?.id ? getTriladoKilosSalida(t.pedido.id) : null;
-    finalizeForm.reset({ kilosExcelso: kilosSalida != null ? kilosSalida : undefined });
+    finalizeForm.reset({ kilosExcelso: kilosSalida != null ? kilosSalida : undefined, maquinaId: t.maquinaId ?? '' });
     setFinalizeTarget(t);
   };
 
@@ -157,7 +289,7 @@ export function TostionPage() {
       <div className="grid grid-cols-3 gap-4">
         <KpiCard label="En espera"   value={stats.pendientes} icon={<Package size={15} />}     accent="#3B82F6" loading={pendientesQuery.isLoading} />
         <KpiCard label="En proceso"  value={stats.enCurso}    icon={<Scale size={15} />}        accent="#F59E0B" loading={activosQuery.isLoading} />
-        <KpiCard label="Finalizados" value={stats.finalizados} icon={<CheckCheck size={15} />}  accent="#00D084" loading={historialQuery.isLoading} />
+        <KpiCard label="Finalizados" value={stats.finalizados} icon={<CheckCheck size={15} />}  accent="#00D084" loading={finalizadosQuery.isLoading} />
       </div>
 
       {/* Flujo visual */}
@@ -179,7 +311,12 @@ export function TostionPage() {
               <p className="section-title">Pedidos en espera</p>
               <p className="section-subtitle">Estado TRILLADO — listos para iniciar tostión</p>
             </div>
-            <span className="badge bg-blue-50 text-blue-600">{stats.pendientes}</span>
+            <div className="flex items-center gap-1.5">
+              {enRiesgoEnEspera > 0 && (
+                <span className="badge bg-red-50 text-red-600">{enRiesgoEnEspera} en riesgo</span>
+              )}
+              <span className="badge bg-blue-50 text-blue-600">{stats.pendientes}</span>
+            </div>
           </div>
 
           {pendientesQuery.isLoading ? (
@@ -197,7 +334,10 @@ export function TostionPage() {
                   className="flex items-center justify-between p-3 rounded-lg bg-[var(--color-muted)] gap-3"
                 >
                   <div className="min-w-0 flex-1">
-                    <p className="font-mono text-sm font-semibold">{pedido.code}</p>
+                    <div className="flex items-center gap-2">
+                      <p className="font-mono text-sm font-semibold">{pedido.code}</p>
+                      <SlaBadge sla={sla.porPedido.get(pedido.id)} />
+                    </div>
                     <p className="text-xs text-[var(--color-tx-secondary)] truncate">{pedido.client?.name}</p>
                     {/* Desglose por lote */}
                     {pedido.detalles && pedido.detalles.length > 0 ? (
@@ -229,14 +369,18 @@ export function TostionPage() {
                       <p className="text-xs text-[var(--color-tx-secondary)]">Entrega</p>
                       <p className="text-xs font-semibold">{fmt(pedido.diaEntrega)}</p>
                     </div>
-                    <button
-                      className={cn('btn btn-sm btn-primary gap-1.5', iniciarMutation.isPending && 'opacity-60')}
-                      onClick={() => handleIniciar(pedido)}
-                      disabled={iniciarMutation.isPending}
-                    >
-                      <Play size={12} />
-                      Iniciar
-                    </button>
+                    {canOperar && (iniciosEnCola.includes(pedido.id) ? (
+                      <span className="badge bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">En cola</span>
+                    ) : (
+                      <button
+                        className={cn('btn btn-sm btn-primary gap-1.5', iniciarMutation.isPending && 'opacity-60')}
+                        onClick={() => handleIniciar(pedido)}
+                        disabled={iniciarMutation.isPending}
+                      >
+                        <Play size={12} />
+                        Iniciar
+                      </button>
+                    ))}
                   </div>
                 </div>
               ))}
@@ -275,14 +419,21 @@ export function TostionPage() {
                       <Calendar size={11} className="text-[var(--color-tx-secondary)]" />
                       <p className="text-xs text-[var(--color-tx-secondary)]">Ingreso: {fmt(t.fechaIngreso)}</p>
                     </div>
+                    {t.maquina && (
+                      <p className="text-xs text-[var(--color-tx-secondary)] mt-0.5">
+                        Máquina: <span className="font-mono font-semibold">{t.maquina.codigo}</span>
+                      </p>
+                    )}
                   </div>
-                  <button
-                    className="btn btn-sm btn-primary gap-1.5 shrink-0"
-                    onClick={() => openFinalize(t)}
-                  >
-                    <CheckCheck size={12} />
-                    Finalizar
-                  </button>
+                  {canOperar && (
+                    <button
+                      className="btn btn-sm btn-primary gap-1.5 shrink-0"
+                      onClick={() => openFinalize(t)}
+                    >
+                      <CheckCheck size={12} />
+                      Finalizar
+                    </button>
+                  )}
                 </div>
               ))}
             </div>
@@ -291,56 +442,69 @@ export function TostionPage() {
       </div>
 
       {/* Historial */}
-      {!!historialQuery.data?.filter(t => t.fechaEntregaProduccion).length && (
-        <div className="card">
-          <p className="section-title mb-4">Historial de tostiones</p>
-          <div className="table-wrap">
-            <table className="table">
-              <thead>
-                <tr>
-                  <th>Pedido</th>
-                  <th>Cliente</th>
-                  <th>Fecha ingreso</th>
-                  <th>Fecha salida</th>
-                  <th>Kg excelso</th>
-                  <th>Kg tostados</th>
-                  <th>Baches</th>
-                  <th>Horario</th>
-                  <th>Merma</th>
-                </tr>
-              </thead>
-              <tbody>
-                {historialQuery.data.filter(t => t.fechaEntregaProduccion).map((t) => {
-                  const merma = t.kilosExcelso && t.kilosTostados
-                    ? ((t.kilosExcelso - t.kilosTostados) / t.kilosExcelso * 100).toFixed(1)
-                    : null;
-                  return (
-                    <tr key={t.id}>
-                      <td className="font-mono text-xs font-semibold">{t.pedido?.code}</td>
-                      <td className="text-[var(--color-tx-secondary)]">{t.pedido?.client?.name ?? '—'}</td>
-                      <td>{fmt(t.fechaIngreso)}</td>
-                      <td>{fmt(t.fechaEntregaProduccion)}</td>
-                      <td className="font-semibold">{t.kilosExcelso ?? '—'} kg</td>
-                      <td className="font-semibold">{t.kilosTostados ?? '—'} kg</td>
-                      <td className="text-center">{t.baches ?? '—'}</td>
-                      <td className="text-xs text-[var(--color-tx-secondary)]">
-                        {t.horaInicio && t.horaFin ? `${t.horaInicio} – ${t.horaFin}` : '—'}
-                      </td>
-                      <td>
-                        {merma ? (
-                          <span className={cn('badge', Number(merma) > 20 ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-600')}>
-                            {merma}%
-                          </span>
-                        ) : '—'}
-                      </td>
-                    </tr>
-                  );
-                })}
-              </tbody>
-            </table>
+      <div className="card">
+        <p className="section-title mb-4">Historial de tostiones</p>
+        <DataTable
+          id="tostion-historial"
+          columns={historialColumns}
+          data={listaQuery.data}
+          list={list}
+          rowKey={(t) => t.id}
+          loading={listaQuery.isLoading}
+          fetching={listaQuery.isFetching}
+          searchPlaceholder="Buscar por pedido o cliente…"
+          actions={
+            <ExportMenu
+              fileName="tostion"
+              columns={exportColumns}
+              fetchRows={() => fetchAllPages(tostionService.list, historialParams)}
+            />
+          }
+          empty={<EmptyState title="Sin tostiones finalizadas" description="Las tostiones terminadas aparecerán aquí." />}
+        />
+      </div>
+
+      {/* Modal iniciar */}
+      <Modal
+        open={!!iniciarTarget}
+        onClose={() => setIniciarTarget(null)}
+        title="Iniciar tostión"
+        description={`Pedido ${iniciarTarget?.code ?? ''} — la fecha de ingreso se registrará como hoy`}
+        size="md"
+        footer={
+          <div className="flex gap-2">
+            <button className="btn btn-secondary" onClick={() => setIniciarTarget(null)}>
+              Cancelar
+            </button>
+            <button
+              className="btn btn-primary gap-2"
+              onClick={confirmarInicio}
+              disabled={!iniciarMaquinaId || iniciarMutation.isPending}
+            >
+              {iniciarMutation.isPending && <Loader2 size={14} className="animate-spin" />}
+              Iniciar
+            </button>
           </div>
-        </div>
-      )}
+        }
+      >
+        <Field
+          label="Máquina"
+          required
+          hint={maquinaOptions.some(o => !o.disabled)
+            ? 'Las máquinas en mantenimiento o fuera de servicio no se pueden usar'
+            : undefined}
+          error={!maquinasQuery.isLoading && !maquinaOptions.some(o => !o.disabled)
+            ? 'No hay máquinas activas para este proceso'
+            : undefined}
+        >
+          <Select
+            value={iniciarMaquinaId}
+            onChange={(e) => setIniciarMaquinaId(e.target.value)}
+            placeholder={maquinasQuery.isLoading ? 'Cargando…' : 'Seleccionar máquina'}
+            options={maquinaOptions}
+          />
+        </Field>
+      </Modal>
 
       {/* Modal finalizar */}
       <Modal
@@ -385,6 +549,20 @@ export function TostionPage() {
           )}
 
           <div className="grid grid-cols-2 gap-4">
+            <Field
+              label="Máquina"
+              error={finalizeForm.formState.errors.maquinaId?.message}
+              required
+              className="col-span-2"
+            >
+              <Select
+                {...finalizeForm.register('maquinaId')}
+                placeholder="Seleccionar máquina"
+                options={maquinaOptions}
+                error={finalizeForm.formState.errors.maquinaId?.message}
+              />
+            </Field>
+
             <Field
               label="Kg de excelso recibidos"
               error={finalizeForm.formState.errors.kilosExcelso?.message}
@@ -452,6 +630,23 @@ export function TostionPage() {
             </Field>
           </div>
 
+          {/* Merma en vivo */}
+          <MermaAviso merma={mermaEnVivo} rango={rangoEnVivo} />
+          {mermaFueraDeRango && (
+            <Field
+              label="Justificación de la merma"
+              error={finalizeForm.formState.errors.justificacionMerma?.message}
+              required
+            >
+              <Textarea
+                rows={2}
+                placeholder="Ej: Café con alta humedad, lote con mucha pasilla…"
+                {...finalizeForm.register('justificacionMerma')}
+                error={finalizeForm.formState.errors.justificacionMerma?.message}
+              />
+            </Field>
+          )}
+
           <p className="text-xs text-[var(--color-tx-secondary)] bg-[var(--color-muted)] rounded-lg p-3">
             💡 Al confirmar, el pedido pasará automáticamente al módulo de <strong>Producción</strong>.
           </p>
@@ -1,26 +1,39 @@
 import { useState, useMemo } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useForm, type Resolver } from 'react-hook-form';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { useForm, useWatch, type Resolver } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Play, CheckCheck, Loader2, Scale, Package, Calendar, ChevronRight } from 'lucide-react';
 import { pedidosService } from '@/services/pedidos.service';
 import { trilladoService } from '@/services/trillado.service';
 import { toast } from '@/lib/toast';
+import { OfflineQueuedError } from '@/lib/offlineQueue';
 import { KpiCard } from '@/components/ui/KpiCard';
 import { Modal } from '@/components/ui/Modal';
-import { Field, Input } from '@/components/ui/FormField';
+import { Field, Input, Select, Textarea } from '@/components/ui/FormField';
 import { EmptyState } from '@/components/ui/EmptyState';
 import { TableSkeleton } from '@/components/ui/Skeleton';
-import { useConfirm } from '@/components/ui/ConfirmDialog';
+import { DataTable, type DataTableColumn } from '@/components/ui/DataTable';
+import { ExportMenu } from '@/components/ui/ExportMenu';
 import type { Trillado, Pedido } from '@/types';
 import { cn } from '@/lib/cn';
+import { useCan } from '@/lib/permissions';
+import { useListParams, useListTotal } from '@/lib/pagination';
+import { fetchAllPages, type ExportColumn } from '@/lib/export';
+import { maquinasService } from '@/services/maquinas.service';
+import { maquinaDisponible, opcionesMaquina } from '@/lib/maquinas';
+import { calcularMerma, evaluarMerma, presentacionPredominante, rangoMerma, useMermaRangos } from '@/lib/merma';
+import { MermaAviso } from '@/components/merma/MermaAviso';
+import { estaEnRiesgo, useSla } from '@/lib/sla';
+import { SlaBadge } from '@/components/sla/SlaBadge';
 
 const finalizarSchema = z.object({
+  maquinaId:    z.string().min(1, 'Selecciona la máquina'),
   kilosEntrada: z.coerce.number().positive('Debe ser mayor a 0'),
   kilosSalida:  z.coerce.number().positive('Debe ser mayor a 0'),
   horaInicio:   z.string().min(4, 'Hora requerida'),
   horaFin:      z.string().min(4, 'Hora requerida'),
+  justificacionMerma: z.string().optional(),
 }).refine(d => d.kilosSalida <= d.kilosEntrada, {
   message: 'Los kilos de salida no pueden superar los de entrada',
   path: ['kilosSalida'],
@@ -42,7 +55,11 @@ function totalKilosPedido(p: Pedido): number {
 
 export function TriladoPage() {
   const qc = useQueryClient();
-  const confirm = useConfirm();
+  const canOperar = useCan('trillado.operar');
+  const [iniciarTarget, setIniciarTarget] = useState<Pedido | null>(null);
+  const [iniciarMaquinaId, setIniciarMaquinaId] = useState('');
+  // Pedidos con el inicio guardado sin conexión: no se deja encolar otro inicio del mismo
+  const [iniciosEnCola, setIniciosEnCola] = useState<string[]>([]);
   const [finalizeTarget, setFinalizeTarget] = useState<Trillado | null>(null);
 
   const finalizeForm = useForm<FinalizarForm>({
@@ -64,24 +81,109 @@ export function TriladoPage() {
     staleTime: 15_000,
   });
 
-  // Historial completo
-  const historialQuery = useQuery({
-    queryKey: ['trillado', 'historial'],
-    queryFn: () => trilladoService.getAll(),
-    staleTime: 30_000,
-  });
+  // Total de finalizados desde el listado paginado
+  const finalizadosQuery = useListTotal(['trillado'], trilladoService.list, { estado: 'finalizados' });
+
+  // Riesgo frente a la fecha de entrega comprometida
+  const sla = useSla();
+  const enRiesgoEnEspera = (pendientesQuery.data ?? []).filter(p => estaEnRiesgo(sla.porPedido.get(p.id))).length;
 
   const invalidateAll = () => {
     qc.invalidateQueries({ queryKey: ['pedidos'] });
     qc.invalidateQueries({ queryKey: ['trillado'] });
   };
 
+  const maquinasQuery = useQuery({
+    queryKey: ['maquinas'],
+    queryFn: () => maquinasService.getAll(),
+    staleTime: 30_000,
+  });
+
+  const maquinas = maquinasQuery.data ?? [];
+
+  // ── Merma esperada ──────────────────────────────────────────
+  const rangosQuery = useMermaRangos();
+  const rangoDe = (t: Pick<Trillado, 'pedido'>) =>
+    rangoMerma(rangosQuery.data, 'TRILLADO', presentacionPredominante(t.pedido?.detalles));
+
+  const [kgEntrada, kgSalida] = useWatch({ control: finalizeForm.control, name: ['kilosEntrada', 'kilosSalida'] });
+  const mermaEnVivo = calcularMerma(kgEntrada, kgSalida);
+  const rangoEnVivo = rangoMerma(rangosQuery.data, 'TRILLADO', presentacionPredominante(finalizeTarget?.pedido?.detalles));
+  const mermaFueraDeRango = mermaEnVivo != null && evaluarMerma(mermaEnVivo, rangoEnVivo) !== 'ok';
+
+  // ── Historial paginado ──────────────────────────────────────
+  const list = useListParams({ sort: 'fechaEntregaTostion', dir: 'desc' });
+  const historialParams = { ...list.params, filters: { ...list.params.filters, estado: 'finalizados' } };
+  const listaQuery = useQuery({
+    queryKey: ['trillado', 'lista', list.params],
+    queryFn: () => trilladoService.list(historialParams),
+    placeholderData: keepPreviousData,
+    staleTime: 30_000,
+  });
+
+  const historialColumns: DataTableColumn<Trillado>[] = [
+    { key: 'pedido',  header: 'Pedido',  primary: true, hideable: false, className: 'font-mono text-xs font-semibold', render: (t) => t.pedido?.code },
+    { key: 'cliente', header: 'Cliente', className: 'text-[var(--color-tx-secondary)]', render: (t) => t.pedido?.client?.name ?? '—' },
+    { key: 'fechaIngreso',        header: 'Fecha ingreso', sortField: 'fechaIngreso',        render: (t) => fmt(t.fechaIngreso) },
+    { key: 'fechaEntregaTostion', header: 'Fecha salida',  sortField: 'fechaEntregaTostion', render: (t) => fmt(t.fechaEntregaTostion) },
+    { key: 'kilosEntrada', header: 'Kg entrada', sortField: 'kilosEntrada', className: 'font-semibold', render: (t) => `${t.kilosEntrada ?? '—'} kg` },
+    { key: 'kilosSalida',  header: 'Kg salida',  sortField: 'kilosSalida',  className: 'font-semibold', render: (t) => `${t.kilosSalida ?? '—'} kg` },
+    {
+      key: 'merma', header: 'Merma', sortField: 'merma',
+      render: (t) => {
+        const merma = calcularMerma(t.kilosEntrada, t.kilosSalida);
+        if (merma == null) return '—';
+        const fueraDeRango = evaluarMerma(merma, rangoDe(t)) !== 'ok';
+        return (
+          <span
+            className={cn('badge', fueraDeRango ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-600')}
+            title={t.justificacionMerma ?? undefined}
+          >
+            {merma.toFixed(1)}%
+          </span>
+        );
+      },
+    },
+    { key: 'maquina', header: 'Máquina', className: 'font-mono text-xs', render: (t) => t.maquina?.codigo ?? '—' },
+    {
+      key: 'horario', header: 'Horario', className: 'text-xs text-[var(--color-tx-secondary)]',
+      render: (t) => (t.horaInicio && t.horaFin ? `${t.horaInicio} – ${t.horaFin}` : '—'),
+    },
+  ];
+  const exportColumns: ExportColumn<Trillado>[] = [
+    { header: 'Pedido',        value: (t) => t.pedido?.code },
+    { header: 'Cliente',       value: (t) => t.pedido?.client?.name },
+    { header: 'Fecha ingreso', tipo: 'fecha',  value: (t) => t.fechaIngreso },
+    { header: 'Fecha salida',  tipo: 'fecha',  value: (t) => t.fechaEntregaTostion },
+    { header: 'Kg entrada',    tipo: 'numero', value: (t) => t.kilosEntrada },
+    { header: 'Kg salida',     tipo: 'numero', value: (t) => t.kilosSalida },
+    { header: 'Merma %',       tipo: 'numero', value: (t) => calcularMerma(t.kilosEntrada, t.kilosSalida)?.toFixed(1) },
+    {
+      header: 'Merma en rango',
+      value: (t) => {
+        const merma = calcularMerma(t.kilosEntrada, t.kilosSalida);
+        return merma == null ? '' : evaluarMerma(merma, rangoDe(t)) === 'ok' ? 'Sí' : 'No';
+      },
+    },
+    { header: 'Justificación merma', value: (t) => t.justificacionMerma },
+    { header: 'Máquina',       value: (t) => t.maquina?.codigo },
+    { header: 'Horario',       value: (t) => (t.horaInicio && t.horaFin ? `${t.horaInicio} – ${t.horaFin}` : '') },
+  ];
+  const maquinaOptions = opcionesMaquina(maquinas, 'MAQUILA');
+
   // ── Mutations ───────────────────────────────────────────────
   const iniciarMutation = useMutation({
-    mutationFn: (pedidoId: string) => trilladoService.iniciar({ pedidoId }),
-    onSuccess: () => { toast.success('Trillado iniciado — fecha de ingreso registrada'); invalidateAll(); },
-    onError: (e: { response?: { data?: { message?: string } } }) =>
-      toast.error(e.response?.data?.message ?? 'No fue posible iniciar el trillado'),
+    mutationFn: (payload: { pedidoId: string; maquinaId: string }) => trilladoService.iniciar(payload),
+    onSuccess: () => { toast.success('Trillado iniciado — fecha de ingreso registrada'); setIniciarTarget(null); invalidateAll(); },
+    onError: (e: { response?: { data?: { message?: string } } }, { pedidoId }) => {
+      if (e instanceof OfflineQueuedError) {
+        toast.info('Sin conexión — el inicio se enviará al reconectar');
+        setIniciosEnCola((ids) => [...ids, pedidoId]);
+        setIniciarTarget(null);
+        return;
+      }
+      toast.error(e.response?.data?.message ?? 'No fue posible iniciar el trillado');
+    },
   });
 
   const finalizarMutation = useMutation({
@@ -93,37 +195,59 @@ export function TriladoPage() {
       finalizeForm.reset();
       invalidateAll();
     },
-    onError: (e: { response?: { data?: { message?: string } } }) =>
-      toast.error(e.response?.data?.message ?? 'No fue posible finalizar el trillado'),
+    onError: (e: { response?: { data?: { message?: string } } }) => {
+      if (e instanceof OfflineQueuedError) {
+        toast.info('Sin conexión — la finalización se enviará al reconectar');
+        setFinalizeTarget(null);
+        finalizeForm.reset();
+        return;
+      }
+      toast.error(e.response?.data?.message ?? 'No fue posible finalizar el trillado');
+    },
   });
 
   // ── Stats ───────────────────────────────────────────────────
   const stats = useMemo(() => ({
     pendientes:  pendientesQuery.data?.length ?? 0,
     enCurso:     activosQuery.data?.length ?? 0,
-    finalizados: (historialQuery.data ?? []).filter(t => t.fechaEntregaTostion).length,
-  }), [pendientesQuery.data, activosQuery.data, historialQuery.data]);
-
-  const handleIniciar = async (pedido: Pedido) => {
-    const ok = await confirm({
-      title: 'Iniciar trillado',
-      description: `¿Iniciar trillado para el pedido ${pedido.code}? La fecha de ingreso se registrará como hoy.`,
-      confirmText: 'Iniciar',
-    });
-    if (!ok) return;
-    await iniciarMutation.mutateAsync(pedido.id);
+    finalizados: finalizadosQuery.data ?? 0,
+  }), [pendientesQuery.data, activosQuery.data, finalizadosQuery.data]);
+
+  const handleIniciar = (pedido: Pedido) => {
+    // Si solo hay una máquina activa se preselecciona
+    const activas = maquinaOptions.filter(o => !o.disabled);
+    setIniciarMaquinaId(activas.length === 1 ? activas[0].value : '');
+    setIniciarTarget(pedido);
+  };
+
+  const confirmarInicio = () => {
+    if (!iniciarTarget || !iniciarMaquinaId) return;
+    iniciarMutation.mutate({ pedidoId: iniciarTarget.id, maquinaId: iniciarMaquinaId });
   };
 
-  const handleFinalizar = finalizeForm.handleSubmit(async (values) => {
+  const handleFinalizar = finalizeForm.handleSubmit((values) => {
     if (!finalizeTarget) return;
-    await finalizarMutation.mutateAsync({ id: finalizeTarget.id, ...values });
+    if (!maquinaDisponible(maquinas, values.maquinaId)) {
+      finalizeForm.setError('maquinaId', { message: 'La máquina no está activa — elige otra' });
+      return;
+    }
+    const justificacion = values.justificacionMerma?.trim();
+    if (mermaFueraDeRango && !justificacion) {
+      finalizeForm.setError('justificacionMerma', { message: 'La merma está fuera del rango esperado — explica el motivo' });
+      return;
+    }
+    finalizarMutation.mutate({
+      id: finalizeTarget.id,
+      ...values,
+      justificacionMerma: mermaFueraDeRango ? justificacion : undefined,
+    });
   });
 
   const openFinalize = (t: Trillado) => {
     // Pre-fill kilosEntrada from the pedido's detalles (sum) or fallback to kilos
     const kilosTotal = (t.pedido?.detalles ?? []).reduce((s, d) => s + Number(d.kilos), 0)
       || Number(t.pedido?.kilos ?? 0);
-    finalizeForm.reset({ kilosEntrada: kilosTotal > 0 ? kilosTotal : undefined });
+    finalizeForm.reset({ kilosEntrada: kilosTotal > 0 ? kilosTotal : undefined, maquinaId: t.maquinaId ?? '' });
     setFinalizeTarget(t);
   };
 
@@ -142,7 +266,7 @@ export function TriladoPage() {
       <div className="grid grid-cols-3 gap-4">
         <KpiCard label="En espera"   value={stats.pendientes} icon={<Package size={15} />}     accent="#3B82F6" loading={pendientesQuery.isLoading} />
         <KpiCard label="En proceso"  value={stats.enCurso}    icon={<Scale size={15} />}        accent="#F59E0B" loading={activosQuery.isLoading} />
-        <KpiCard label="Finalizados" value={stats.finalizados} icon={<CheckCheck size={15} />}  accent="#00D084" loading={historialQuery.isLoading} />
+        <KpiCard label="Finalizados" value={stats.finalizados} icon={<CheckCheck size={15} />}  accent="#00D084" loading={finalizadosQuery.isLoading} />
       </div>
 
       {/* Flujo visual */}
@@ -164,7 +288,12 @@ export function TriladoPage() {
               <p className="section-title">Pedidos en espera</p>
               <p className="section-subtitle">Estado REGISTRADO — listos para iniciar trillado</p>
             </div>
-            <span className="badge bg-blue-50 text-blue-600">{stats.pendientes}</span>
+            <div className="flex items-center gap-1.5">
+              {enRiesgoEnEspera > 0 && (
+                <span className="badge bg-red-50 text-red-600">{enRiesgoEnEspera} en riesgo</span>
+              )}
+              <span className="badge bg-blue-50 text-blue-600">{stats.pendientes}</span>
+            </div>
           </div>
 
           {pendientesQuery.isLoading ? (
@@ -182,7 +311,10 @@ export function TriladoPage() {
                   className="flex items-center justify-between p-3 rounded-lg bg-[var(--color-muted)] gap-3"
                 >
                   <div className="min-w-0 flex-1">
-                    <p className="font-mono text-sm font-semibold">{pedido.code}</p>
+                    <div className="flex items-center gap-2">
+                      <p className="font-mono text-sm font-semibold">{pedido.code}</p>
+                      <SlaBadge sla={sla.porPedido.get(pedido.id)} />
+                    </div>
                     <p className="text-xs text-[var(--color-tx-secondary)] truncate">{pedido.client?.name}</p>
                     {/* Desglose por lote */}
                     {pedido.detalles && pedido.detalles.length > 0 ? (
@@ -209,14 +341,18 @@ export function TriladoPage() {
                       <p className="text-xs text-[var(--color-tx-secondary)]">Entrega</p>
                       <p className="text-xs font-semibold">{fmt(pedido.diaEntrega)}</p>
                     </div>
-                    <button
-                      className={cn('btn btn-sm btn-primary gap-1.5', iniciarMutation.isPending && 'opacity-60')}
-                      onClick={() => handleIniciar(pedido)}
-                      disabled={iniciarMutation.isPending}
-                    >
-                      <Play size={12} />
-                      Iniciar
-                    </button>
+                    {canOperar && (iniciosEnCola.includes(pedido.id) ? (
+                      <span className="badge bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">En cola</span>
+                    ) : (
+                      <button
+                        className={cn('btn btn-sm btn-primary gap-1.5', iniciarMutation.isPending && 'opacity-60')}
+                        onClick={() => handleIniciar(pedido)}
+                        disabled={iniciarMutation.isPending}
+                      >
+                        <Play size={12} />
+                        Iniciar
+                      </button>
+                    ))}
                   </div>
                 </div>
               ))}
@@ -255,14 +391,21 @@ export function TriladoPage() {
                       <Calendar size={11} className="text-[var(--color-tx-secondary)]" />
                       <p className="text-xs text-[var(--color-tx-secondary)]">Ingreso: {fmt(t.fechaIngreso)}</p>
                     </div>
+                    {t.maquina && (
+                      <p className="text-xs text-[var(--color-tx-secondary)] mt-0.5">
+                        Máquina: <span className="font-mono font-semibold">{t.maquina.codigo}</span>
+                      </p>
+                    )}
                   </div>
-                  <button
-                    className="btn btn-sm btn-primary gap-1.5 shrink-0"
-                    onClick={() => openFinalize(t)}
-                  >
-                    <CheckCheck size={12} />
-                    Finalizar
-                  </button>
+                  {canOperar && (
+                    <button
+                      className="btn btn-sm btn-primary gap-1.5 shrink-0"
+                      onClick={() => openFinalize(t)}
+                    >
+                      <CheckCheck size={12} />
+                      Finalizar
+                    </button>
+                  )}
                 </div>
               ))}
             </div>
@@ -271,54 +414,69 @@ export function TriladoPage() {
       </div>
 
       {/* Historial */}
-      {!!historialQuery.data?.filter(t => t.fechaEntregaTostion).length && (
-        <div className="card">
-          <p className="section-title mb-4">Historial de trillados</p>
-          <div className="table-wrap">
-            <table className="table">
-              <thead>
-                <tr>
-                  <th>Pedido</th>
-                  <th>Cliente</th>
-                  <th>Fecha ingreso</th>
-                  <th>Fecha salida</th>
-                  <th>Kg entrada</th>
-                  <th>Kg salida</th>
-                  <th>Merma</th>
-                  <th>Horario</th>
-                </tr>
-              </thead>
-              <tbody>
-                {historialQuery.data.filter(t => t.fechaEntregaTostion).map((t) => {
-                  const merma = t.kilosEntrada && t.kilosSalida
-                    ? ((t.kilosEntrada - t.kilosSalida) / t.kilosEntrada * 100).toFixed(1)
-                    : null;
-                  return (
-                    <tr key={t.id}>
-                      <td className="font-mono text-xs font-semibold">{t.pedido?.code}</td>
-                      <td className="text-[var(--color-tx-secondary)]">{t.pedido?.client?.name ?? '—'}</td>
-                      <td>{fmt(t.fechaIngreso)}</td>
-                      <td>{fmt(t.fechaEntregaTostion)}</td>
-                      <td className="font-semibold">{t.kilosEntrada ?? '—'} kg</td>
-                      <td className="font-semibold">{t.kilosSalida ?? '—'} kg</td>
-                      <td>
-                        {merma ? (
-                          <span className={cn('badge', Number(merma) > 15 ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-600')}>
-                            {merma}%
-                          </span>
-                        ) : '—'}
-                      </td>
-                      <td className="text-xs text-[var(--color-tx-secondary)]">
-                        {t.horaInicio && t.horaFin ? `${t.horaInicio} – ${t.horaFin}` : '—'}
-                      </td>
-                    </tr>
-                  );
-                })}
-              </tbody>
-            </table>
+      <div className="card">
+        <p className="section-title mb-4">Historial de trillados</p>
+        <DataTable
+          id="trillado-historial"
+          columns={historialColumns}
+          data={listaQuery.data}
+          list={list}
+          rowKey={(t) => t.id}
+          loading={listaQuery.isLoading}
+          fetching={listaQuery.isFetching}
+          searchPlaceholder="Buscar por pedido o cliente…"
+          actions={
+            <ExportMenu
+              fileName="trillado"
+              columns={exportColumns}
+              fetchRows={() => fetchAllPages(trilladoService.list, historialParams)}
+            />
+          }
+          empty={<EmptyState title="Sin trillados finalizados" description="Los trillados terminados aparecerán aquí." />}
+        />
+      </div>
+
+      {/* Modal iniciar */}
+      <Modal
+        open={!!iniciarTarget}
+        onClose={() => setIniciarTarget(null)}
+        title="Iniciar trillado"
+        description={`Pedido ${iniciarTarget?.code ?? ''} — la fecha de ingreso se registrará como hoy`}
+        size="md"
+        footer={
+          <div className="flex gap-2">
+            <button className="btn btn-secondary" onClick={() => setIniciarTarget(null)}>
+              Cancelar
+            </button>
+            <button
+              className="btn btn-primary gap-2"
+              onClick={confirmarInicio}
+              disabled={!iniciarMaquinaId || iniciarMutation.isPending}
+            >
+              {iniciarMutation.isPending && <Loader2 size={14} className="animate-spin" />}
+              Iniciar
+            </button>
           </div>
-        </div>
-      )}
+        }
+      >
+        <Field
+          label="Máquina"
+          required
+          hint={maquinaOptions.some(o => !o.disabled)
+            ? 'Las máquinas en mantenimiento o fuera de servicio no se pueden usar'
+            : undefined}
+          error={!maquinasQuery.isLoading && !maquinaOptions.some(o => !o.disabled)
+            ? 'No hay máquinas activas para este proceso'
+            : undefined}
+        >
+          <Select
+            value={iniciarMaquinaId}
+            onChange={(e) => setIniciarMaquinaId(e.target.value)}
+            placeholder={maquinasQuery.isLoading ? 'Cargando…' : 'Seleccionar máquina'}
+            options={maquinaOptions}
+          />
+        </Field>
+      </Modal>
 
       {/* Modal finalizar */}
       <Modal
@@ -363,6 +521,20 @@ export function TriladoPage() {
           )}
 
           <div className="grid grid-cols-2 gap-4">
+            <Field
+              label="Máquina"
+              error={finalizeForm.formState.errors.maquinaId?.message}
+              required
+              className="col-span-2"
+            >
+              <Select
+                {...finalizeForm.register('maquinaId')}
+                placeholder="Seleccionar máquina"
+                options={maquinaOptions}
+                error={finalizeForm.formState.errors.maquinaId?.message}
+              />
+            </Field>
+
             <Field
               label="Kg entrada (bruto)"
               error={finalizeForm.formState.errors.kilosEntrada?.message}
@@ -421,6 +593,23 @@ export function TriladoPage() {
             </Field>
           </div>
 
+          {/* Merma en vivo */}
+          <MermaAviso merma={mermaEnVivo} rango={rangoEnVivo} />
+          {mermaFueraDeRango && (
+            <Field
+              label="Justificación de la merma"
+              error={finalizeForm.formState.errors.justificacionMerma?.message}
+              required
+            >
+              <Textarea
+                rows={2}
+                placeholder="Ej: Café con alta humedad, lote con mucha pasilla…"
+                {...finalizeForm.register('justificacionMerma')}
+                error={finalizeForm.formState.errors.justificacionMerma?.message}
+              />
+            </Field>
+          )}
+
           <p className="text-xs text-[var(--color-tx-secondary)] bg-[var(--color-muted)] rounded-lg p-3">
             💡 Al confirmar, el pedido pasará automáticamente al módulo de <strong>Maquila</strong>.
             La merma se calculará automáticamente.
@@ -4,13 +4,13 @@ import { useForm, type Resolver } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Plus, Pencil, Loader2, Users, ShieldCheck, UserCheck } from 'lucide-react';
-import { usuariosService } from '@/services/usuarios.service';
+import { usuariosService, type UsuarioResponse } from '@/services/usuarios.service';
 import { toast } from '@/lib/toast';
 import { KpiCard } from '@/components/ui/KpiCard';
 import { Modal } from '@/components/ui/Modal';
 import { Field, Input, Select } from '@/components/ui/FormField';
 import { EmptyState } from '@/components/ui/EmptyState';
-import { TableSkeleton } from '@/components/ui/Skeleton';
+import { DataTable, type DataTableColumn } from '@/components/ui/DataTable';
 import { cn } from '@/lib/cn';
 
 const ROLES = [
@@ -89,6 +89,20 @@ export function UsuariosPage() {
       toast.error(e.response?.data?.message ?? 'No se pudo actualizar el usuario'),
   });
 
+  // No hay endpoint masivo: una petición por usuario
+  const estadoMasivoMutation = useMutation({
+    mutationFn: ({ ids, status }: { ids: string[]; status: 'active' | 'inactive' }) =>
+      Promise.all(ids.map((id) => usuariosService.update(id, { status }))),
+    onSuccess: (_, { ids, status }) => {
+      toast.success(`${ids.length} usuario(s) ${status === 'active' ? 'activados' : 'desactivados'}`);
+      qc.invalidateQueries({ queryKey: ['usuarios'] });
+    },
+    onError: (e: { response?: { data?: { message?: string } } }) => {
+      toast.error(e.response?.data?.message ?? 'No se pudo actualizar a todos los usuarios');
+      qc.invalidateQueries({ queryKey: ['usuarios'] });
+    },
+  });
+
   const onCreateSubmit = createForm.handleSubmit((values) => createMutation.mutate(values));
 
   const openEdit = (u: typeof editTarget) => {
@@ -115,6 +129,43 @@ export function UsuariosPage() {
     activos:    query.data?.filter(u => u.status === 'active').length ?? 0,
   };
 
+  const columns: DataTableColumn<UsuarioResponse>[] = [
+    { key: 'name',  header: 'Nombre', sortValue: (u) => u.name, className: 'font-semibold', primary: true, hideable: false, render: (u) => u.name },
+    { key: 'email', header: 'Correo', sortValue: (u) => u.email, className: 'text-[var(--color-tx-secondary)] text-sm', render: (u) => u.email },
+    {
+      key: 'role', header: 'Rol', sortValue: (u) => u.role,
+      render: (u) => (
+        <span className={cn('badge', ROLE_COLORS[u.role as Rol] ?? '')}>
+          {ROLE_LABELS[u.role as Rol] ?? u.role}
+        </span>
+      ),
+    },
+    {
+      key: 'status', header: 'Estado', sortValue: (u) => u.status,
+      render: (u) => (
+        <span className={cn('badge', u.status === 'active'
+          ? 'bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+          : 'bg-gray-100 text-gray-500 dark:bg-gray-800 dark:text-gray-400',
+        )}>
+          {u.status === 'active' ? 'Activo' : 'Inactivo'}
+        </span>
+      ),
+    },
+    { key: 'createdAt', header: 'Creado', sortValue: (u) => u.createdAt, defaultHidden: true, className: 'text-xs text-[var(--color-tx-secondary)]', render: (u) => new Date(u.createdAt).toLocaleDateString('es-CO') },
+    {
+      key: 'acciones', header: '', hideable: false,
+      render: (u) => (
+        <button
+          className="btn btn-ghost btn-sm gap-1"
+          onClick={() => openEdit({ id: u.id, name: u.name, email: u.email, role: u.role as Rol, status: u.status })}
+        >
+          <Pencil size={13} />
+          Editar
+        </button>
+      ),
+    },
+  ];
+
   return (
     <div className="page space-y-8">
       {/* Header */}
@@ -142,55 +193,33 @@ export function UsuariosPage() {
       {/* Tabla */}
       <div className="card">
         <p className="section-title mb-4">Lista de usuarios</p>
-        {query.isLoading ? (
-          <TableSkeleton rows={5} cols={4} />
-        ) : !query.data?.length ? (
-          <EmptyState title="Sin usuarios" description="Crea el primer usuario con el botón de arriba." />
-        ) : (
-          <div className="table-wrap">
-            <table className="table">
-              <thead>
-                <tr>
-                  <th>Nombre</th>
-                  <th>Correo</th>
-                  <th>Rol</th>
-                  <th>Estado</th>
-                  <th></th>
-                </tr>
-              </thead>
-              <tbody>
-                {query.data.map((u) => (
-                  <tr key={u.id}>
-                    <td className="font-semibold">{u.name}</td>
-                    <td className="text-[var(--color-tx-secondary)] text-sm">{u.email}</td>
-                    <td>
-                      <span className={cn('badge', ROLE_COLORS[u.role as Rol] ?? '')}>
-                        {ROLE_LABELS[u.role as Rol] ?? u.role}
-                      </span>
-                    </td>
-                    <td>
-                      <span className={cn('badge', u.status === 'active'
-                        ? 'bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-400'
-                        : 'bg-gray-100 text-gray-500 dark:bg-gray-800 dark:text-gray-400',
-                      )}>
-                        {u.status === 'active' ? 'Activo' : 'Inactivo'}
-                      </span>
-                    </td>
-                    <td>
-                      <button
-                        className="btn btn-ghost btn-sm gap-1"
-                        onClick={() => openEdit({ id: u.id, name: u.name, email: u.email, role: u.role as Rol, status: u.status })}
-                      >
-                        <Pencil size={13} />
-                        Editar
-                      </button>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        )}
+        <DataTable
+          id="usuarios"
+          columns={columns}
+          data={query.data}
+          rowKey={(u) => u.id}
+          loading={query.isLoading}
+          fetching={query.isFetching}
+          empty={<EmptyState title="Sin usuarios" description="Crea el primer usuario con el botón de arriba." />}
+          bulkActions={(rows, clear) => (
+            <>
+              <button
+                className="btn btn-secondary btn-sm"
+                disabled={estadoMasivoMutation.isPending}
+                onClick={() => estadoMasivoMutation.mutate({ ids: rows.map((u) => u.id), status: 'active' }, { onSuccess: clear })}
+              >
+                Activar
+              </button>
+              <button
+                className="btn btn-secondary btn-sm"
+                disabled={estadoMasivoMutation.isPending}
+                onClick={() => estadoMasivoMutation.mutate({ ids: rows.map((u) => u.id), status: 'inactive' }, { onSuccess: clear })}
+              >
+                Desactivar
+              </button>
+            </>
+          )}
+        />
       </div>
 
       {/* Modal crear */}
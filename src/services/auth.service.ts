@@ -8,6 +8,7 @@ export interface LoginPayload {
 
 export interface LoginResponse {
   token: string;
+  refreshToken?: string;
   user: AuthUser;
 }
 
@@ -0,0 +1,23 @@
+import { http } from '@/lib/http';
+import type { PresentacionDetalle } from '@/types';
+
+export type EtapaMerma = 'TRILLADO' | 'TOSTION';
+
+// Rango de merma esperado (%) para una etapa y presentación
+export interface MermaRango {
+  etapa: EtapaMerma;
+  presentacion: PresentacionDetalle;
+  min: number;
+  max: number;
+}
+
+export const configService = {
+  getMermaRangos: async (): Promise<MermaRango[]> => {
+    const { data } = await http.get<MermaRango[]>('/config/merma');
+    return data;
+  },
+  updateMermaRangos: async (rangos: MermaRango[]): Promise<MermaRango[]> => {
+    const { data } = await http.put<MermaRango[]>('/config/merma', rangos);
+    return data;
+  },
+};
@@ -0,0 +1,48 @@
+import { http } from '@/lib/http';
+import type { ParadaRuta, RutaDespacho } from '@/types';
+
+export interface CreateRutaPayload {
+  fecha: string;
+  vehiculo: string;
+  conductor: string;
+  conductorDocumento?: string | null;
+  observaciones?: string | null;
+  // El orden del arreglo es el orden de las paradas
+  facturaIds: string[];
+}
+
+export interface EntregaPayload {
+  recibidoPor: string;
+  documentoReceptor?: string | null;
+  firma: Blob;
+  foto?: File | null;
+}
+
+export const despachoService = {
+  getRutas: async (): Promise<RutaDespacho[]> => {
+    const { data } = await http.get<RutaDespacho[]>('/despachos');
+    return data;
+  },
+
+  create: async (payload: CreateRutaPayload): Promise<RutaDespacho> => {
+    const { data } = await http.post<RutaDespacho>('/despachos', payload);
+    return data;
+  },
+
+  remove: async (id: string): Promise<void> => {
+    await http.delete(`/despachos/${id}`);
+  },
+
+  // Firma y foto viajan como archivos; el backend devuelve la parada con las URLs guardadas
+  registrarEntrega: async (rutaId: string, paradaId: string, payload: EntregaPayload): Promise<ParadaRuta> => {
+    const form = new FormData();
+    form.append('recibidoPor', payload.recibidoPor);
+    if (payload.documentoReceptor) form.append('documentoReceptor', payload.documentoReceptor);
+    form.append('firma', payload.firma, 'firma.png');
+    if (payload.foto) form.append('foto', payload.foto);
+    const { data } = await http.post<ParadaRuta>(`/despachos/${rutaId}/paradas/${paradaId}/entrega`, form, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return data;
+  },
+};
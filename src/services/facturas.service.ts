@@ -1,21 +1,76 @@
 import { http } from '@/lib/http';
-import type { Factura, EstadoEntrega } from '@/types';
+import { toRequestParams } from '@/lib/pagination';
+import type { Factura, FacturaLinea, EstadoEntrega, MetodoPago, PageParams, Paginated, Pago } from '@/types';
 
 export interface CreateFacturaPayload {
   pedidoId: string;
   numero: string;
   fecha: string;
+  lineas: FacturaLinea[];
+  ivaPct: number;
+  retencionPct: number;
+  // Calculados en el cliente; el backend los vuelve a validar contra las líneas
+  subtotal: number;
+  descuento: number;
+  iva: number;
+  retencion: number;
   valorTotal: number;
+  fechaVencimiento: string;
   estadoEntrega?: EstadoEntrega;
   fechaConfirmacionEntrega?: string | null;
 }
 
+export interface CreatePagoPayload {
+  fecha: string;
+  valor: number;
+  metodo: MetodoPago;
+  referencia?: string | null;
+}
+
+// Agregados calculados en el servidor para los KPIs de Facturación
+export interface ResumenFacturas {
+  facturas: number;
+  entregadas: number;
+  totalFacturado: number;
+}
+
 export const facturasService = {
   getAll: async (): Promise<Factura[]> => {
     const { data } = await http.get<Factura[]>('/facturas');
     return data;
   },
 
+  list: async (params: PageParams): Promise<Paginated<Factura>> => {
+    const { data } = await http.get<Paginated<Factura>>('/facturas', { params: toRequestParams(params) });
+    return data;
+  },
+
+  resumen: async (): Promise<ResumenFacturas> => {
+    const { data } = await http.get<ResumenFacturas>('/facturas/resumen');
+    return data;
+  },
+
+  getByCliente: async (clienteId: string): Promise<Factura[]> => {
+    const { data } = await http.get<Factura[]>('/facturas', { params: { clienteId } });
+    return data;
+  },
+
+  getByPedido: async (pedidoId: string): Promise<Factura[]> => {
+    const { data } = await http.get<Factura[]>('/facturas', { params: { pedidoId } });
+    return data;
+  },
+
+  getByEstadoEntrega: async (estadoEntrega: EstadoEntrega): Promise<Factura[]> => {
+    const { data } = await http.get<Factura[]>('/facturas', { params: { estadoEntrega } });
+    return data;
+  },
+
+  // Cartera: solo las que tienen saldo, sin bajar las pagadas
+  getConSaldo: async (): Promise<Factura[]> => {
+    const { data } = await http.get<Factura[]>('/facturas', { params: { estadoPago: 'PENDIENTE,PARCIAL,VENCIDA' } });
+    return data;
+  },
+
   getById: async (id: string): Promise<Factura> => {
     const { data } = await http.get<Factura>(`/facturas/${id}`);
     return data;
@@ -33,4 +88,10 @@ export const facturasService = {
     });
     return data;
   },
+
+  // ── Cartera ──
+  registrarPago: async (facturaId: string, payload: CreatePagoPayload): Promise<Pago> => {
+    const { data } = await http.post<Pago>(`/facturas/${facturaId}/pagos`, payload);
+    return data;
+  },
 };
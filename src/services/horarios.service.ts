@@ -37,6 +37,14 @@ export interface HorarioAsignacion {
   createdAt: string;
 }
 
+export interface CreateHorarioAsignacionPayload {
+  horarioId: string;
+  operarioId: string;
+  fechaInicio: string;
+  fechaFin?: string | null;
+  vigencia?: HorarioAsignacion['vigencia'];
+}
+
 export const horariosService = {
   getAll: async (): Promise<Horario[]> => {
     const { data } = await http.get<Horario[]>('/horarios');
@@ -50,8 +58,21 @@ export const horariosService = {
     const { data } = await http.put<Horario>(`/horarios/${id}`, payload);
     return data;
   },
-  asignar: async (payload: { horarioId: string; operarioId: string; fechaInicio: string; fechaFin?: string | null; vigencia?: string }): Promise<HorarioAsignacion> => {
+  asignar: async (payload: CreateHorarioAsignacionPayload): Promise<HorarioAsignacion> => {
     const { data } = await http.post<HorarioAsignacion>('/horarios/asignaciones', payload);
     return data;
   },
+  getAsignaciones: async (params?: { operarioId?: string }): Promise<HorarioAsignacion[]> => {
+    const { data } = await http.get<HorarioAsignacion[]>('/horarios/asignaciones', { params });
+    return data;
+  },
+  // Termina la asignación antes de su fecha de cierre
+  finalizarAsignacion: async (id: string, fechaFin: string): Promise<HorarioAsignacion> => {
+    const { data } = await http.patch<HorarioAsignacion>(`/horarios/asignaciones/${id}`, { fechaFin });
+    return data;
+  },
+  // Las que empiezan hoy o más adelante se borran en vez de cerrarse: no dejan historial
+  cancelarAsignacion: async (id: string): Promise<void> => {
+    await http.delete(`/horarios/asignaciones/${id}`);
+  },
 };
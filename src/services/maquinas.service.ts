@@ -1,17 +1,7 @@
 import { http } from '@/lib/http';
+import type { Maquina, ProcesoMaquina, EstadoMaquina } from '@/types';
 
-export type ProcesoMaquina = 'MAQUILA' | 'TOSTION';
-export type EstadoMaquina  = 'ACTIVA' | 'MANTENIMIENTO' | 'FUERA_SERVICIO';
-
-export interface Maquina {
-  id: string;
-  nombre: string;
-  codigo: string;
-  proceso: ProcesoMaquina;
-  estado: EstadoMaquina;
-  descripcion: string | null;
-  createdAt: string;
-}
+export type { Maquina, ProcesoMaquina, EstadoMaquina };
 
 export interface CreateMaquinaPayload {
   nombre: string;
@@ -32,6 +22,54 @@ export interface MaquinaAsignacion {
   createdAt: string;
 }
 
+export interface CreateMaquinaAsignacionPayload {
+  maquinaId: string;
+  operarioId: string;
+  fechaInicio: string;
+  fechaFin: string | null;
+  alcance: MaquinaAsignacion['alcance'];
+  notas?: string;
+}
+
+// Cada cambio de estado abre un evento; el siguiente cambio lo cierra (fin)
+export interface MaquinaEvento {
+  id: string;
+  maquinaId: string;
+  estado: EstadoMaquina;
+  motivo: string;
+  inicio: string;
+  fin: string | null;
+  responsableId: string;
+  responsable?: { id: string; name: string } | null;
+  createdAt: string;
+}
+
+export interface CambiarEstadoPayload {
+  estado: EstadoMaquina;
+  motivo: string;
+  inicio: string;
+  responsableId: string;
+}
+
+export interface MantenimientoProgramado {
+  id: string;
+  maquinaId: string;
+  fecha: string;
+  descripcion: string;
+  // Si se repite, el backend agenda el siguiente al completarlo
+  frecuenciaDias: number | null;
+  completado: boolean;
+  completadoAt: string | null;
+  createdAt: string;
+}
+
+export interface CreateMantenimientoPayload {
+  maquinaId: string;
+  fecha: string;
+  descripcion: string;
+  frecuenciaDias?: number | null;
+}
+
 export const maquinasService = {
   getAll: async (): Promise<Maquina[]> => {
     const { data } = await http.get<Maquina[]>('/maquinas');
@@ -45,4 +83,45 @@ export const maquinasService = {
     const { data } = await http.put<Maquina>(`/maquinas/${id}`, payload);
     return data;
   },
+
+  // ── Asignaciones de operarios ──
+  getAsignaciones: async (maquinaId?: string): Promise<MaquinaAsignacion[]> => {
+    const { data } = await http.get<MaquinaAsignacion[]>('/maquinas/asignaciones', { params: { maquinaId } });
+    return data;
+  },
+  asignar: async (payload: CreateMaquinaAsignacionPayload): Promise<MaquinaAsignacion> => {
+    const { data } = await http.post<MaquinaAsignacion>('/maquinas/asignaciones', payload);
+    return data;
+  },
+  // Cierra la asignación antes de tiempo
+  finalizarAsignacion: async (id: string, fechaFin: string): Promise<MaquinaAsignacion> => {
+    const { data } = await http.patch<MaquinaAsignacion>(`/maquinas/asignaciones/${id}`, { fechaFin });
+    return data;
+  },
+  // Las que empiezan hoy o más adelante se borran en vez de cerrarse: no dejan historial
+  cancelarAsignacion: async (id: string): Promise<void> => {
+    await http.delete(`/maquinas/asignaciones/${id}`);
+  },
+
+  // ── Mantenimiento ──
+  cambiarEstado: async (id: string, payload: CambiarEstadoPayload): Promise<Maquina> => {
+    const { data } = await http.post<Maquina>(`/maquinas/${id}/estado`, payload);
+    return data;
+  },
+  getEventos: async (maquinaId?: string): Promise<MaquinaEvento[]> => {
+    const { data } = await http.get<MaquinaEvento[]>('/maquinas/eventos', { params: { maquinaId } });
+    return data;
+  },
+  getMantenimientos: async (): Promise<MantenimientoProgramado[]> => {
+    const { data } = await http.get<MantenimientoProgramado[]>('/maquinas/mantenimientos');
+    return data;
+  },
+  programarMantenimiento: async (payload: CreateMantenimientoPayload): Promise<MantenimientoProgramado> => {
+    const { data } = await http.post<MantenimientoProgramado>('/maquinas/mantenimientos', payload);
+    return data;
+  },
+  completarMantenimiento: async (id: string): Promise<MantenimientoProgramado> => {
+    const { data } = await http.patch<MantenimientoProgramado>(`/maquinas/mantenimientos/${id}`, { completado: true });
+    return data;
+  },
 };
@@ -1,5 +1,6 @@
 import { http } from '@/lib/http';
-import type { Pedido, PedidoEstado, Cliente, PresentacionDetalle, TipoCodigo } from '@/types';
+import { toRequestParams } from '@/lib/pagination';
+import type { Pedido, PedidoEstado, Cliente, PresentacionDetalle, TipoCodigo, TipoDocumento, PageParams, Paginated, DuracionEtapa, EtapaSla, InicioEtapas } from '@/types';
 
 export interface PedidoDetallePayload {
   presentacion: PresentacionDetalle;
@@ -15,6 +16,7 @@ export interface CreatePedidoPayload {
   diaEntrega: string;
   client: {
     name: string;
+    tipoDocumento?: TipoDocumento;
     documentId: string;
     address: string;
     phone: string;
@@ -23,6 +25,20 @@ export interface CreatePedidoPayload {
   };
 }
 
+export type UpdateClientePayload = Partial<Omit<Cliente, 'id' | 'ciudad' | 'activo'>> & { ciudadId?: number | null };
+
+export interface FusionClientesResult {
+  cliente: Cliente;
+  pedidosReasignados: number;
+}
+
+// Insumos del SLA: promedios por etapa sobre todo el historial y, solo de los pedidos sin entregar con
+// fecha de compromiso, cuándo entró cada uno a sus etapas
+export interface SlaInsumos {
+  duraciones: Record<EtapaSla, DuracionEtapa>;
+  activos: { pedido: Pedido; inicios: InicioEtapas }[];
+}
+
 export const pedidosService = {
   getAll: async (estado?: PedidoEstado | PedidoEstado[]): Promise<Pedido[]> => {
     const params: Record<string, string> = {};
@@ -33,11 +49,27 @@ export const pedidosService = {
     return data;
   },
 
+  // Con `page` el backend responde paginado; getAll queda para agregados (dashboard, conciliación)
+  list: async (params: PageParams): Promise<Paginated<Pedido>> => {
+    const { data } = await http.get<Paginated<Pedido>>('/pedidos', { params: toRequestParams(params) });
+    return data;
+  },
+
+  sla: async (): Promise<SlaInsumos> => {
+    const { data } = await http.get<SlaInsumos>('/pedidos/sla');
+    return data;
+  },
+
   getById: async (id: string): Promise<Pedido> => {
     const { data } = await http.get<Pedido>(`/pedidos/${id}`);
     return data;
   },
 
+  getByCliente: async (clienteId: string): Promise<Pedido[]> => {
+    const { data } = await http.get<Pedido[]>('/pedidos', { params: { clienteId } });
+    return data;
+  },
+
   create: async (payload: CreatePedidoPayload): Promise<Pedido> => {
     const { data } = await http.post<Pedido>('/pedidos', payload);
     return data;
@@ -69,9 +101,35 @@ export const clientesService = {
     return data;
   },
 
+  list: async (params: PageParams): Promise<Paginated<Cliente>> => {
+    const { data } = await http.get<Paginated<Cliente>>('/clients', { params: toRequestParams(params) });
+    return data;
+  },
+
+  getById: async (id: string): Promise<Cliente> => {
+    const { data } = await http.get<Cliente>(`/clients/${id}`);
+    return data;
+  },
+
   create: async (payload: Omit<Cliente, 'id'>): Promise<Cliente> => {
     const { data } = await http.post<Cliente>('/clients', payload);
     return data;
   },
+
+  update: async (id: string, payload: UpdateClientePayload): Promise<Cliente> => {
+    const { data } = await http.put<Cliente>(`/clients/${id}`, payload);
+    return data;
+  },
+
+  setActivo: async (id: string, activo: boolean): Promise<Cliente> => {
+    const { data } = await http.patch<Cliente>(`/clients/${id}/estado`, { activo });
+    return data;
+  },
+
+  // Los pedidos de los duplicados pasan al principal (y con ellos sus facturas); los duplicados se eliminan
+  fusionar: async (principalId: string, duplicadoIds: string[]): Promise<FusionClientesResult> => {
+    const { data } = await http.post<FusionClientesResult>(`/clients/${principalId}/fusionar`, { duplicadoIds });
+    return data;
+  },
 };
 
@@ -1,5 +1,7 @@
 import { http } from '@/lib/http';
-import type { Produccion } from '@/types';
+import { toRequestParams } from '@/lib/pagination';
+import { sendOrQueue } from '@/lib/offlineQueue';
+import type { Produccion, PageParams, Paginated } from '@/types';
 
 export interface CreateProduccionPayload {
   pedidoId: string;
@@ -17,11 +19,20 @@ export const produccionService = {
     return data;
   },
 
-  create: async (payload: CreateProduccionPayload): Promise<Produccion> => {
-    const { data } = await http.post<Produccion>('/produccion', payload);
+  getByPedido: async (pedidoId: string): Promise<Produccion[]> => {
+    const { data } = await http.get<Produccion[]>('/produccion', { params: { pedidoId } });
     return data;
   },
 
+  list: async (params: PageParams): Promise<Paginated<Produccion>> => {
+    const { data } = await http.get<Paginated<Produccion>>('/produccion', { params: toRequestParams(params) });
+    return data;
+  },
+
+  // Se encola si no hay red (ver lib/offlineQueue)
+  create: (payload: CreateProduccionPayload): Promise<Produccion> =>
+    sendOrQueue<Produccion>({ method: 'post', url: '/produccion', data: payload, label: 'Registrar producción' }),
+
   getById: async (id: string): Promise<Produccion> => {
     const { data } = await http.get<Produccion>(`/produccion/${id}`);
     return data;
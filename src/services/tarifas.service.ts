@@ -0,0 +1,22 @@
+import { http } from '@/lib/http';
+import type { Tarifa } from '@/types';
+
+export type CreateTarifaPayload = Pick<Tarifa, 'presentacion' | 'formaEntrega' | 'precioKg' | 'clienteId' | 'fechaInicio' | 'fechaFin'>;
+
+export const tarifasService = {
+  getAll: async (): Promise<Tarifa[]> => {
+    const { data } = await http.get<Tarifa[]>('/tarifas');
+    return data;
+  },
+  create: async (payload: CreateTarifaPayload): Promise<Tarifa> => {
+    const { data } = await http.post<Tarifa>('/tarifas', payload);
+    return data;
+  },
+  update: async (id: string, payload: Partial<CreateTarifaPayload>): Promise<Tarifa> => {
+    const { data } = await http.put<Tarifa>(`/tarifas/${id}`, payload);
+    return data;
+  },
+  remove: async (id: string): Promise<void> => {
+    await http.delete(`/tarifas/${id}`);
+  },
+};
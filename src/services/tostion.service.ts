@@ -1,8 +1,11 @@
 import { http } from '@/lib/http';
-import type { Tostion } from '@/types';
+import { toRequestParams } from '@/lib/pagination';
+import { sendOrQueue } from '@/lib/offlineQueue';
+import type { Tostion, PageParams, Paginated } from '@/types';
 
 export interface CreateTostionPayload {
   pedidoId: string;
+  maquinaId: string;
   fechaIngreso?: string;
 }
 
@@ -13,6 +16,9 @@ export interface FinalizarTostionPayload {
   horaInicio?: string | null;
   horaFin?: string | null;
   fechaEntregaProduccion?: string;
+  maquinaId?: string;
+  // Obligatoria cuando la merma sale del rango configurado
+  justificacionMerma?: string;
 }
 
 export const tostionService = {
@@ -21,21 +27,34 @@ export const tostionService = {
     return data;
   },
 
-  getActivos: async (): Promise<Tostion[]> => {
-    const { data } = await http.get<Tostion[]>('/tostion', { params: { estado: 'activos' } });
+  getByPedido: async (pedidoId: string): Promise<Tostion[]> => {
+    const { data } = await http.get<Tostion[]>('/tostion', { params: { pedidoId } });
     return data;
   },
 
-  iniciar: async (payload: CreateTostionPayload): Promise<Tostion> => {
-    const { data } = await http.post<Tostion>('/tostion', {
-      pedidoId: payload.pedidoId,
-      fechaIngreso: payload.fechaIngreso ?? new Date().toISOString().slice(0, 10),
-    });
+  list: async (params: PageParams): Promise<Paginated<Tostion>> => {
+    const { data } = await http.get<Paginated<Tostion>>('/tostion', { params: toRequestParams(params) });
     return data;
   },
 
-  finalizar: async (id: string, payload: FinalizarTostionPayload): Promise<Tostion> => {
-    const { data } = await http.put<Tostion>(`/tostion/${id}`, payload);
+  getActivos: async (): Promise<Tostion[]> => {
+    const { data } = await http.get<Tostion[]>('/tostion', { params: { estado: 'activos' } });
     return data;
   },
+
+  // Mutaciones de planta: se encolan si la estación pierde la red
+  iniciar: (payload: CreateTostionPayload): Promise<Tostion> =>
+    sendOrQueue<Tostion>({
+      method: 'post',
+      url: '/tostion',
+      data: {
+        pedidoId: payload.pedidoId,
+        maquinaId: payload.maquinaId,
+        fechaIngreso: payload.fechaIngreso ?? new Date().toISOString().slice(0, 10),
+      },
+      label: 'Iniciar tostión',
+    }),
+
+  finalizar: (id: string, payload: FinalizarTostionPayload): Promise<Tostion> =>
+    sendOrQueue<Tostion>({ method: 'put', url: `/tostion/${id}`, data: payload, label: 'Finalizar tostión' }),
 };
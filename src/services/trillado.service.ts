@@ -1,8 +1,11 @@
 import { http } from '@/lib/http';
-import type { Trillado } from '@/types';
+import { toRequestParams } from '@/lib/pagination';
+import { sendOrQueue } from '@/lib/offlineQueue';
+import type { Trillado, PageParams, Paginated } from '@/types';
 
 export interface IniciarTrilladoPayload {
   pedidoId: string;
+  maquinaId: string;
 }
 
 export interface FinalizarTrilladoPayload {
@@ -11,6 +14,9 @@ export interface FinalizarTrilladoPayload {
   horaInicio: string;
   horaFin: string;
   fechaEntregaTostion?: string | null;
+  maquinaId?: string;
+  // Obligatoria cuando la merma sale del rango configurado
+  justificacionMerma?: string;
 }
 
 export const trilladoService = {
@@ -19,18 +25,25 @@ export const trilladoService = {
     return data;
   },
 
-  getActivos: async (): Promise<Trillado[]> => {
-    const { data } = await http.get<Trillado[]>('/trillado', { params: { estado: 'activos' } });
+  getByPedido: async (pedidoId: string): Promise<Trillado[]> => {
+    const { data } = await http.get<Trillado[]>('/trillado', { params: { pedidoId } });
     return data;
   },
 
-  iniciar: async (payload: IniciarTrilladoPayload): Promise<Trillado> => {
-    const { data } = await http.post<Trillado>('/trillado', payload);
+  list: async (params: PageParams): Promise<Paginated<Trillado>> => {
+    const { data } = await http.get<Paginated<Trillado>>('/trillado', { params: toRequestParams(params) });
     return data;
   },
 
-  finalizar: async (id: string, payload: FinalizarTrilladoPayload): Promise<Trillado> => {
-    const { data } = await http.put<Trillado>(`/trillado/${id}`, payload);
+  getActivos: async (): Promise<Trillado[]> => {
+    const { data } = await http.get<Trillado[]>('/trillado', { params: { estado: 'activos' } });
     return data;
   },
+
+  // Mutaciones de planta: se encolan si la estación pierde la red
+  iniciar: (payload: IniciarTrilladoPayload): Promise<Trillado> =>
+    sendOrQueue<Trillado>({ method: 'post', url: '/trillado', data: payload, label: 'Iniciar trillado' }),
+
+  finalizar: (id: string, payload: FinalizarTrilladoPayload): Promise<Trillado> =>
+    sendOrQueue<Trillado>({ method: 'put', url: `/trillado/${id}`, data: payload, label: 'Finalizar trillado' }),
 };
@@ -5,8 +5,13 @@ import type { AuthUser } from '@/types';
 interface AuthState {
   user: AuthUser | null;
   token: string | null;
+  refreshToken: string | null;
   isAuthenticated: boolean;
-  setAuth: (user: AuthUser, token: string) => void;
+  // La sesión venció y no se pudo renovar: se pide re-login sin salir de la ruta actual
+  sessionExpired: boolean;
+  setAuth: (user: AuthUser, token: string, refreshToken?: string | null) => void;
+  setTokens: (token: string, refreshToken?: string | null) => void;
+  expireSession: () => void;
   logout: () => void;
 }
 
@@ -15,17 +20,30 @@ export const useAuthStore = create<AuthState>()(
     (set) => ({
       user: null,
       token: null,
+      refreshToken: null,
       isAuthenticated: false,
+      sessionExpired: false,
 
-      setAuth: (user, token) =>
-        set({ user, token, isAuthenticated: true }),
+      setAuth: (user, token, refreshToken = null) =>
+        set({ user, token, refreshToken, isAuthenticated: true, sessionExpired: false }),
+
+      setTokens: (token, refreshToken) =>
+        set((s) => ({ token, refreshToken: refreshToken ?? s.refreshToken, sessionExpired: false })),
+
+      expireSession: () =>
+        set({ sessionExpired: true }),
 
       logout: () =>
-        set({ user: null, token: null, isAuthenticated: false }),
+        set({ user: null, token: null, refreshToken: null, isAuthenticated: false, sessionExpired: false }),
     }),
     {
       name: 'pipe-auth',
-      partialize: (s) => ({ user: s.user, token: s.token, isAuthenticated: s.isAuthenticated }),
+      partialize: (s) => ({
+        user: s.user,
+        token: s.token,
+        refreshToken: s.refreshToken,
+        isAuthenticated: s.isAuthenticated,
+      }),
     }
   )
 );
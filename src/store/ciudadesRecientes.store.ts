@@ -0,0 +1,24 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Ciudad } from '@/types';
+
+const MAX_RECIENTES = 5;
+
+interface CiudadesRecientesState {
+  // La más reciente primero
+  recientes: Ciudad[];
+  agregar: (ciudad: Ciudad) => void;
+}
+
+export const useCiudadesRecientesStore = create<CiudadesRecientesState>()(
+  persist(
+    (set) => ({
+      recientes: [],
+      agregar: (ciudad) =>
+        set((s) => ({
+          recientes: [ciudad, ...s.recientes.filter((c) => c.id !== ciudad.id)].slice(0, MAX_RECIENTES),
+        })),
+    }),
+    { name: 'pipe-ciudades-recientes' }
+  )
+);
@@ -0,0 +1,21 @@
+import { create } from 'zustand';
+
+interface OfflineState {
+  online: boolean;
+  // Operaciones en la cola de IndexedDB pendientes de enviar
+  pending: number;
+  syncing: boolean;
+  setOnline: (online: boolean) => void;
+  setPending: (pending: number) => void;
+  setSyncing: (syncing: boolean) => void;
+}
+
+export const useOfflineStore = create<OfflineState>()((set) => ({
+  online: navigator.onLine,
+  pending: 0,
+  syncing: false,
+
+  setOnline: (online) => set({ online }),
+  setPending: (pending) => set({ pending }),
+  setSyncing: (syncing) => set({ syncing }),
+}));
@@ -0,0 +1,30 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+interface TableLayout {
+  hidden: string[];
+}
+
+interface TableLayoutState {
+  // Clave: `${userId}:${tableId}` — cada usuario guarda sus propias columnas
+  layouts: Record<string, TableLayout>;
+  setHidden: (key: string, hidden: string[]) => void;
+  reset: (key: string) => void;
+}
+
+export const useTableLayoutStore = create<TableLayoutState>()(
+  persist(
+    (set) => ({
+      layouts: {},
+      setHidden: (key, hidden) =>
+        set((s) => ({ layouts: { ...s.layouts, [key]: { hidden } } })),
+      reset: (key) =>
+        set((s) => {
+          const layouts = { ...s.layouts };
+          delete layouts[key];
+          return { layouts };
+        }),
+    }),
+    { name: 'pipe-table-layouts' }
+  )
+);
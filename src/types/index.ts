@@ -38,14 +38,22 @@ export interface PedidoDetalle {
   kilos: number;
 }
 
+export type TipoDocumento = 'NIT' | 'CC' | 'CE' | 'PASAPORTE';
+
 export interface Cliente {
   id: string;
   name: string;
+  // Clientes registrados antes del campo pueden no tenerlo; ver tipoDocumentoDe()
+  tipoDocumento?: TipoDocumento | null;
   documentId: string;
   address: string;
   phone: string;
   email: string;
   ciudad?: Ciudad | null;
+  // Días de crédito para pagar la factura; sin valor se usa el plazo por defecto
+  plazoPagoDias?: number | null;
+  // Un cliente inactivo conserva su historial pero no se ofrece al registrar pedidos
+  activo?: boolean;
 }
 
 export interface Pedido {
@@ -65,6 +73,20 @@ export interface Pedido {
   updatedAt: string;
 }
 
+// ─── Máquinas ────────────────────────────────────────────────
+export type ProcesoMaquina = 'MAQUILA' | 'TOSTION';
+export type EstadoMaquina  = 'ACTIVA' | 'MANTENIMIENTO' | 'FUERA_SERVICIO';
+
+export interface Maquina {
+  id: string;
+  nombre: string;
+  codigo: string;
+  proceso: ProcesoMaquina;
+  estado: EstadoMaquina;
+  descripcion: string | null;
+  createdAt: string;
+}
+
 // ─── Trillado ─────────────────────────────────────────────────
 export interface Trillado {
   id: string;
@@ -75,6 +97,9 @@ export interface Trillado {
   horaInicio: string | null;
   horaFin: string | null;
   fechaEntregaTostion: string | null;
+  justificacionMerma?: string | null;
+  maquinaId: string | null;
+  maquina?: Pick<Maquina, 'id' | 'codigo' | 'nombre'> | null;
   auditoria: Record<string, unknown> | null;
   pedido: Pick<Pedido, 'id' | 'code' | 'client' | 'kilos' | 'detalles'>;
   createdAt: string;
@@ -89,6 +114,9 @@ export interface Tostion {
   horaInicio: string | null;
   horaFin: string | null;
   fechaEntregaProduccion: string | null;
+  justificacionMerma?: string | null;
+  maquinaId: string | null;
+  maquina?: Pick<Maquina, 'id' | 'codigo' | 'nombre'> | null;
   auditoria: Record<string, unknown> | null;
   pedido: Pick<Pedido, 'id' | 'code' | 'client'>;
   createdAt: string;
@@ -107,19 +135,131 @@ export interface Produccion {
   createdAt: string;
 }
 
+// ─── Tarifas ─────────────────────────────────────────────────
+export interface Tarifa {
+  id: string;
+  presentacion: PresentacionDetalle;
+  formaEntrega: FormaEntrega;
+  precioKg: number;
+  // null = tarifa general; con cliente es un precio pactado que reemplaza la general
+  clienteId: string | null;
+  cliente?: Pick<Cliente, 'id' | 'name'> | null;
+  fechaInicio: string;
+  fechaFin: string | null; // null = sin vencimiento
+  createdAt: string;
+}
+
 // ─── Facturas ────────────────────────────────────────────────
 export type EstadoEntrega = 'PENDIENTE_ENTREGA' | 'LISTO_PARA_ENTREGA' | 'ENTREGADO';
+export type EstadoPago = 'PENDIENTE' | 'PARCIAL' | 'PAGADA' | 'VENCIDA';
+export type MetodoPago = 'TRANSFERENCIA' | 'CONSIGNACION' | 'EFECTIVO' | 'CHEQUE';
+
+export interface Pago {
+  id: string;
+  facturaId: string;
+  fecha: string;
+  valor: number;
+  metodo: MetodoPago;
+  referencia: string | null;
+  createdAt: string;
+}
+
+export interface FacturaLinea {
+  presentacion: PresentacionDetalle;
+  variedad: string;
+  kilos: number;
+  precioKg: number;
+  descuentoPct: number;
+  descuento: number; // COP
+  subtotal: number;  // COP, ya con descuento
+}
 
 export interface Factura {
   id: string;
   numero: string;
   fecha: string;
   valorTotal: number;
+  // Desglose; las facturas anteriores solo traen valorTotal
+  lineas?: FacturaLinea[];
+  subtotal?: number;
+  descuento?: number;
+  ivaPct?: number;
+  iva?: number;
+  retencionPct?: number;
+  retencion?: number;
   estadoEntrega: EstadoEntrega;
   fechaConfirmacionEntrega: string | null;
+  // Cartera; en facturas anteriores el vencimiento se calcula con el plazo del cliente
+  fechaVencimiento?: string | null;
+  estadoPago?: EstadoPago;
+  pagos?: Pago[];
   pedido: Pick<Pedido, 'id' | 'code' | 'client'>;
   createdAt: string;
 }
 
+// ─── Despacho ────────────────────────────────────────────────
+export interface PruebaEntrega {
+  recibidoPor: string;
+  documentoReceptor: string | null;
+  firmaUrl: string;
+  fotoUrl: string | null;
+  // Fecha y hora en que se capturó la entrega
+  fecha: string;
+}
+
+export interface ParadaRuta {
+  id: string;
+  // Posición en la hoja de ruta, desde 1
+  orden: number;
+  factura: Pick<Factura, 'id' | 'numero' | 'valorTotal' | 'estadoEntrega' | 'pedido'>;
+  entrega: PruebaEntrega | null;
+}
+
+export interface RutaDespacho {
+  id: string;
+  fecha: string;
+  vehiculo: string;
+  conductor: string;
+  conductorDocumento: string | null;
+  observaciones: string | null;
+  paradas: ParadaRuta[];
+  createdAt: string;
+}
+
+// ─── Compromiso de entrega (SLA) ─────────────────────────────
+export type EtapaSla = 'TRILLADO' | 'TOSTION' | 'PRODUCCION';
+
+export interface DuracionEtapa {
+  promedio: number; // días
+  muestras: number;
+}
+
+// Fecha en que el pedido entra a cada etapa, según los registros de planta
+export interface InicioEtapas {
+  TRILLADO: string;
+  TOSTION: string | null;
+  PRODUCCION: string | null;
+}
+
 // ─── UI helpers ──────────────────────────────────────────────
 export type SortDirection = 'asc' | 'desc';
+
+// ─── Listas paginadas ────────────────────────────────────────
+export interface PageParams {
+  page: number; // desde 1
+  pageSize: number;
+  // Si el backend entrega nextCursor, se prefiere al número de página
+  cursor?: string;
+  sort?: string;
+  dir?: SortDirection;
+  q?: string;
+  filters?: Record<string, string>;
+}
+
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  nextCursor?: string | null;
+}
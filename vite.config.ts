@@ -20,6 +20,22 @@ export default defineConfig({
         globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2,ttf}'],
         navigateFallback: 'index.html',
         cleanupOutdatedCaches: true,
+        // Lecturas de la API: red primero, última respuesta guardada si no hay conexión
+        runtimeCaching: [
+          {
+            urlPattern: ({ url, request }) =>
+              request.method === 'GET' &&
+              /^\/(api\/)?(pedidos|trillado|tostion|produccion|facturas|clients|maquinas|horarios|tarifas|ciudades|config|despachos)(\/|$)/.test(url.pathname),
+            handler: 'NetworkFirst',
+            options: {
+              // Versionado: un despliegue no sirve respuestas con la forma anterior (ver lib/queryPersister.ts)
+              cacheName: `pipe-api-${version}`,
+              networkTimeoutSeconds: 5,
+              expiration: { maxEntries: 200, maxAgeSeconds: 60 * 60 * 24 },
+              cacheableResponse: { statuses: [0, 200] },
+            },
+          },
+        ],
       },
       manifest: {
         name: 'PIPE — Industrial Suite',